@@ -1,6 +1,7 @@
 import http from 'http';
 import { AFModel, type AFDatabase, type AFElement, type AFAttribute } from './af-model.js';
 import { DataGenerator } from './data-generator.js';
+import type { TagRegistry } from './tag-registry.js';
 import { sendJson } from './utils.js';
 
 function selfUrl(req: http.IncomingMessage, path: string): string {
@@ -40,7 +41,8 @@ function formatElement(el: AFElement, req: http.IncomingMessage) {
   };
 }
 
-function formatAttribute(attr: AFAttribute, req: http.IncomingMessage) {
+function formatAttribute(attr: AFAttribute, req: http.IncomingMessage, registry?: TagRegistry) {
+  const point = attr.piPointName ? registry?.getByTagName(attr.piPointName) : undefined;
   return {
     WebId: attr.webId,
     Id: attr.id,
@@ -55,13 +57,15 @@ function formatAttribute(attr: AFAttribute, req: http.IncomingMessage) {
       Self: selfUrl(req, `/piwebapi/attributes/${attr.webId}`),
       Value: selfUrl(req, `/piwebapi/attributes/${attr.webId}/value`),
       Element: selfUrl(req, `/piwebapi/elements/${attr.elementWebId}`),
+      ...(point ? { Point: selfUrl(req, `/piwebapi/points/${point.webId}`) } : {}),
     },
   };
 }
 
 export function createAFHandler(
   afModel: AFModel,
-  generator: DataGenerator
+  generator: DataGenerator,
+  registry?: TagRegistry
 ): (req: http.IncomingMessage, res: http.ServerResponse) => boolean {
   return function handleAF(req: http.IncomingMessage, res: http.ServerResponse): boolean {
     const url = new URL(req.url!, `https://${req.headers.host || 'localhost'}`);
@@ -94,6 +98,22 @@ export function createAFHandler(
       return true;
     }
 
+    // GET /piwebapi/elements?path=...
+    if (path === '/piwebapi/elements' && req.method === 'GET') {
+      const elementPath = url.searchParams.get('path');
+      if (!elementPath) {
+        sendJson(res, 400, { Message: 'Missing required parameter: path', Errors: [] });
+        return true;
+      }
+      const el = afModel.getElementByPath(elementPath);
+      if (!el) {
+        sendJson(res, 404, { Message: `Element not found: ${elementPath}`, Errors: [] });
+        return true;
+      }
+      sendJson(res, 200, formatElement(el, req));
+      return true;
+    }
+
     // GET /piwebapi/elements/:webId
     const elementMatch = path.match(/^\/piwebapi\/elements\/([^/]+)$/);
     if (elementMatch && req.method === 'GET') {
@@ -118,7 +138,7 @@ export function createAFHandler(
     const elementAttrsMatch = path.match(/^\/piwebapi\/elements\/([^/]+)\/attributes$/);
     if (elementAttrsMatch && req.method === 'GET') {
       const attrs = afModel.getAttributes(elementAttrsMatch[1]!);
-      sendJson(res, 200, { Items: attrs.map((a) => formatAttribute(a, req)), Links: {} });
+      sendJson(res, 200, { Items: attrs.map((a) => formatAttribute(a, req, registry)), Links: {} });
       return true;
     }
 
@@ -130,7 +150,7 @@ export function createAFHandler(
         sendJson(res, 404, { Message: 'Attribute not found', Errors: [] });
         return true;
       }
-      sendJson(res, 200, formatAttribute(attr, req));
+      sendJson(res, 200, formatAttribute(attr, req, registry));
       return true;
     }
 
@@ -225,6 +225,15 @@ export class AFModel {
     return this.elementsByWebId.get(webId);
   }
 
+  /** Look up an element by its full path (case-insensitive, like PI AF). */
+  getElementByPath(path: string): AFElement | undefined {
+    const wanted = path.toLowerCase();
+    for (const el of this.elementsByWebId.values()) {
+      if (el.path.toLowerCase() === wanted) return el;
+    }
+    return undefined;
+  }
+
   getChildElements(elementWebId: string): AFElement[] {
     return this.elementsByWebId.get(elementWebId)?.children ?? [];
   }
@@ -0,0 +1,172 @@
+import http from 'http';
+import { randomBytes, timingSafeEqual } from 'crypto';
+import { readBody, sendJson } from './utils.js';
+
+export type SimulatorAuthMode = 'none' | 'basic' | 'bearer' | 'client_credentials';
+
+export interface SimulatorAuthConfig {
+  mode: SimulatorAuthMode;
+  username: string;
+  password: string;
+  /** Static token accepted in bearer mode */
+  token: string;
+  clientId: string;
+  clientSecret: string;
+  /** Lifetime of tokens issued by /oauth/token */
+  tokenTtlSec: number;
+}
+
+export const TOKEN_ENDPOINT_PATH = '/oauth/token';
+
+/** Auth settings from SIM_AUTH_* / SIM_OAUTH_* env vars; the mode can be overridden by --auth. */
+export function authConfigFromEnv(mode?: string): SimulatorAuthConfig {
+  const resolved = mode ?? process.env.SIM_AUTH_MODE ?? 'none';
+  if (!['none', 'basic', 'bearer', 'client_credentials'].includes(resolved)) {
+    throw new Error(`Unknown auth mode "${resolved}" (expected none, basic, bearer or client_credentials)`);
+  }
+  return {
+    mode: resolved as SimulatorAuthMode,
+    username: process.env.SIM_AUTH_USERNAME || 'sim',
+    password: process.env.SIM_AUTH_PASSWORD || 'sim',
+    token: process.env.SIM_AUTH_TOKEN || 'sim-token',
+    clientId: process.env.SIM_OAUTH_CLIENT_ID || 'bop-agent',
+    clientSecret: process.env.SIM_OAUTH_CLIENT_SECRET || 'sim-secret',
+    tokenTtlSec: Number(process.env.SIM_OAUTH_TOKEN_TTL_SEC || 3600),
+  };
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const x = Buffer.from(a);
+  const y = Buffer.from(b);
+  return x.length === y.length && timingSafeEqual(x, y);
+}
+
+function parseBasic(header: string | undefined): { user: string; pass: string } | null {
+  const match = header?.match(/^Basic\s+(\S+)$/i);
+  if (!match) return null;
+  const decoded = Buffer.from(match[1]!, 'base64').toString();
+  const sep = decoded.indexOf(':');
+  if (sep < 0) return null;
+  return { user: decoded.slice(0, sep), pass: decoded.slice(sep + 1) };
+}
+
+/**
+ * Client authentication: HTTP Basic (preferred, form-urlencoded per RFC 6749
+ * §2.3.1) or client_id/client_secret in the body. Null when the Basic
+ * credentials are not valid percent-encoding, e.g. "%zz".
+ */
+function clientCredentials(req: http.IncomingMessage, form: URLSearchParams): { id: string; secret: string } | null {
+  const basic = parseBasic(req.headers.authorization);
+  if (!basic) return { id: form.get('client_id') ?? '', secret: form.get('client_secret') ?? '' };
+  try {
+    return { id: decodeURIComponent(basic.user), secret: decodeURIComponent(basic.pass) };
+  } catch {
+    return null;
+  }
+}
+
+function parseBearer(header: string | undefined): string | null {
+  return header?.match(/^Bearer\s+(\S+)$/i)?.[1] ?? null;
+}
+
+/**
+ * Optional authentication for the PI Web API endpoints (/piwebapi/* and the
+ * channel WebSocket), so Basic, static bearer and OAuth2 client-credentials
+ * clients can be exercised offline. In client_credentials mode it also acts
+ * as the token endpoint (POST /oauth/token). Admin, UI and docs routes stay open.
+ */
+export class SimulatorAuth {
+  private issued = new Map<string, number>();
+
+  constructor(
+    readonly config: SimulatorAuthConfig,
+    private now: () => number = Date.now
+  ) {}
+
+  /** Whether a PI Web API request (REST or WebSocket upgrade) carries valid credentials. */
+  isAuthorized(req: http.IncomingMessage): boolean {
+    const header = req.headers.authorization;
+    switch (this.config.mode) {
+      case 'none':
+        return true;
+      case 'basic': {
+        const creds = parseBasic(header);
+        return !!creds && safeEqual(creds.user, this.config.username) && safeEqual(creds.pass, this.config.password);
+      }
+      case 'bearer': {
+        const token = parseBearer(header);
+        return !!token && safeEqual(token, this.config.token);
+      }
+      case 'client_credentials': {
+        const token = parseBearer(header);
+        const expiresAt = token ? this.issued.get(token) : undefined;
+        return expiresAt !== undefined && expiresAt > this.now();
+      }
+    }
+  }
+
+  /** WWW-Authenticate challenge for a rejected request. */
+  challenge(): string {
+    const scheme = this.config.mode === 'basic' ? 'Basic' : 'Bearer';
+    return `${scheme} realm="PI Web API Simulator"`;
+  }
+
+  /**
+   * Serve the token endpoint and reject unauthenticated PI Web API requests.
+   * Returns true if the request was handled.
+   */
+  handleRequest(req: http.IncomingMessage, res: http.ServerResponse): boolean {
+    const path = new URL(req.url!, `https://${req.headers.host || 'localhost'}`).pathname;
+
+    if (path === TOKEN_ENDPOINT_PATH && this.config.mode === 'client_credentials') {
+      if (req.method !== 'POST') {
+        sendJson(res, 405, { error: 'invalid_request', error_description: 'Use POST' });
+        return true;
+      }
+      readBody(req, res, (body) => this.issueToken(req, res, new URLSearchParams(body)));
+      return true;
+    }
+
+    if (path.startsWith('/piwebapi') && !this.isAuthorized(req)) {
+      res.setHeader('WWW-Authenticate', this.challenge());
+      sendJson(res, 401, { Message: 'Authorization has been denied for this request.' });
+      return true;
+    }
+
+    return false;
+  }
+
+  /** Revoke all issued tokens, e.g. to test client re-authentication. */
+  revokeTokens(): number {
+    const count = this.issued.size;
+    this.issued.clear();
+    return count;
+  }
+
+  private issueToken(req: http.IncomingMessage, res: http.ServerResponse, form: URLSearchParams): void {
+    if (form.get('grant_type') !== 'client_credentials') {
+      sendJson(res, 400, { error: 'unsupported_grant_type' });
+      return;
+    }
+
+    const client = clientCredentials(req, form);
+    if (
+      !client ||
+      !safeEqual(client.id, this.config.clientId) ||
+      !safeEqual(client.secret, this.config.clientSecret)
+    ) {
+      res.setHeader('WWW-Authenticate', 'Basic realm="PI Web API Simulator"');
+      sendJson(res, 401, { error: 'invalid_client', error_description: 'Client authentication failed' });
+      return;
+    }
+
+    const now = this.now();
+    for (const [token, expiresAt] of this.issued) {
+      if (expiresAt <= now) this.issued.delete(token);
+    }
+    const accessToken = randomBytes(24).toString('base64url');
+    this.issued.set(accessToken, now + this.config.tokenTtlSec * 1000);
+    res.setHeader('Cache-Control', 'no-store');
+    sendJson(res, 200, { access_token: accessToken, token_type: 'Bearer', expires_in: this.config.tokenTtlSec });
+  }
+}
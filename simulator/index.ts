@@ -1,11 +1,13 @@
-import { SimulatorServer } from './server.js';
+import { SimulatorServer, SimulatorConfig } from './server.js';
+import { authConfigFromEnv } from './auth.js';
 
-function parseArgs(): { port: number; mode: 'auto' | 'manual'; scenario?: string; autoIntervalMs: number } {
+function parseArgs(): SimulatorConfig {
   const args = process.argv.slice(2);
   let port = Number(process.env.SIM_PORT || 8443);
   let mode: 'auto' | 'manual' = 'auto';
   let scenario: string | undefined;
   let autoIntervalMs = Number(process.env.SIM_AUTO_INTERVAL_MS || 600_000);
+  let authMode: string | undefined;
 
   for (const arg of args) {
     if (arg.startsWith('--port=')) {
@@ -17,13 +19,15 @@ function parseArgs(): { port: number; mode: 'auto' | 'manual'; scenario?: string
       mode = 'auto';
     } else if (arg.startsWith('--interval=')) {
       autoIntervalMs = parseInt(arg.split('=')[1]!, 10) * 1000; // seconds → ms
+    } else if (arg.startsWith('--auth=')) {
+      authMode = arg.split('=')[1]!;
     } else if (arg === '--help' || arg === '-h') {
       printUsage();
       process.exit(0);
     }
   }
 
-  return { port, mode, scenario, autoIntervalMs };
+  return { port, mode, scenario, autoIntervalMs, auth: authConfigFromEnv(authMode) };
 }
 
 function printUsage(): void {
@@ -38,11 +42,18 @@ Options:
   --scenario=NAME     Start with a custom scenario (switches to manual mode)
   --auto              Auto mode: randomly trigger scenarios (default)
   --interval=SEC      Auto mode interval in seconds (default: 600, env: SIM_AUTO_INTERVAL_MS)
+  --auth=MODE         Require auth on /piwebapi: none (default), basic, bearer,
+                      client_credentials (env: SIM_AUTH_MODE)
   -h, --help          Show this help
 
 Environment:
   DATABASE_URL        PostgreSQL connection URL for persistent storage (optional)
                       Without this, the simulator uses in-memory defaults
+  SIM_AUTH_USERNAME / SIM_AUTH_PASSWORD        Basic credentials (default: sim / sim)
+  SIM_AUTH_TOKEN                               Static bearer token (default: sim-token)
+  SIM_OAUTH_CLIENT_ID / SIM_OAUTH_CLIENT_SECRET  Client credentials for POST /oauth/token
+                                               (default: bop-agent / sim-secret)
+  SIM_OAUTH_TOKEN_TTL_SEC                      Issued token lifetime (default: 3600)
 
 Runtime control (while running):
   curl -k https://localhost:PORT/admin/status
@@ -52,6 +63,10 @@ Runtime control (while running):
 
 Agent connection:
   PI_SERVER=localhost:8443 PI_DATA_ARCHIVE=SIMULATOR PI_USERNAME=sim PI_PASSWORD=sim bun run dev
+
+  With --auth=client_credentials:
+  PI_AUTH_MODE=client_credentials PI_OAUTH_TOKEN_URL=https://localhost:8443/oauth/token \\
+    PI_OAUTH_CLIENT_ID=bop-agent PI_OAUTH_CLIENT_SECRET=sim-secret PI_REJECT_UNAUTHORIZED=false ...
 `);
 }
 
@@ -577,6 +577,85 @@ export function getOpenApiSpec(ctx: OpenApiContext): object {
         },
       },
 
+      '/piwebapi/batch': {
+        post: {
+          tags: ['PI Web API'],
+          summary: 'Run several requests in one round trip',
+          description:
+            'The body is an object of named sub-requests (`Method`, `Resource`, optional `ParentIds`, ' +
+            '`Parameters` and `RequestTemplate`). A request runs after its `ParentIds`; each `Parameters` entry ' +
+            'is a JSONPath over the parent responses (e.g. `$.1.Content.WebId`) substituted into `{0}`, `{1}`, ... ' +
+            'in `Resource`. With `RequestTemplate` the template runs once per parameter value and the results are ' +
+            'returned as `Content.Items`. Only GET sub-requests are supported. ' +
+            'Compatible with the OSIsoft PI Web API POST /batch endpoint.',
+          operationId: 'postBatch',
+          requestBody: {
+            required: true,
+            content: {
+              'application/json': {
+                schema: { type: 'object', additionalProperties: { type: 'object' } },
+                example: {
+                  '1': { Method: 'GET', Resource: `https://localhost:${port}/piwebapi/points?path=${encodeURIComponent(examplePath)}` },
+                  '2': {
+                    Method: 'GET',
+                    Resource: `https://localhost:${port}/piwebapi/streams/{0}/value`,
+                    ParentIds: ['1'],
+                    Parameters: ['$.1.Content.WebId'],
+                  },
+                },
+              },
+            },
+          },
+          responses: {
+            '200': { description: 'Every sub-request succeeded; responses keyed by request name' },
+            '207': { description: 'At least one sub-request failed; see each Status' },
+            '400': {
+              description: 'Body is not a JSON object',
+              content: {
+                'application/json': {
+                  schema: { $ref: '#/components/schemas/ErrorResponse' },
+                },
+              },
+            },
+          },
+        },
+      },
+
+      '/oauth/token': {
+        post: {
+          tags: ['PI Web API'],
+          summary: 'OAuth2 token endpoint (client credentials)',
+          description:
+            'Local stand-in for an OpenID Connect provider, served only with `--auth=client_credentials`. ' +
+            'Authenticate the client with HTTP Basic (`client_id:client_secret`) or `client_id`/`client_secret` ' +
+            'form fields. The returned access token is accepted as `Authorization: Bearer <token>` on `/piwebapi` ' +
+            'until it expires or is revoked via `POST /admin/auth/revoke`.',
+          operationId: 'postToken',
+          requestBody: {
+            required: true,
+            content: {
+              'application/x-www-form-urlencoded': {
+                schema: {
+                  type: 'object',
+                  required: ['grant_type'],
+                  properties: {
+                    grant_type: { type: 'string', enum: ['client_credentials'] },
+                    client_id: { type: 'string', example: 'bop-agent' },
+                    client_secret: { type: 'string', example: 'sim-secret' },
+                    scope: { type: 'string' },
+                  },
+                },
+              },
+            },
+          },
+          responses: {
+            '200': { description: '`{ access_token, token_type: "Bearer", expires_in }`' },
+            '400': { description: '`unsupported_grant_type`' },
+            '401': { description: '`invalid_client`' },
+          },
+        },
+      },
+
       // ── WebSocket endpoint (documented for reference) ────────────
 
       '/piwebapi/streamsets/channel': {
@@ -693,6 +772,18 @@ export function getOpenApiSpec(ctx: OpenApiContext): object {
         },
       },
 
+      '/admin/auth/revoke': {
+        post: {
+          tags: ['Admin'],
+          summary: 'Revoke issued access tokens',
+          description: 'Invalidates every token issued by `/oauth/token`, to test client re-authentication.',
+          operationId: 'revokeTokens',
+          responses: {
+            '200': { description: '`{ status: "ok", revoked: <count> }`' },
+          },
+        },
+      },
+
       '/admin/scenarios': {
         get: {
           tags: ['Admin'],
@@ -911,6 +1002,11 @@ export function getOpenApiSpec(ctx: OpenApiContext): object {
             wsClients: { type: 'integer', description: 'Number of active WebSocket clients.', example: 0 },
             activeScenario: { type: 'string', description: 'Name of the active scenario, or `normal`.', example: 'normal' },
             mode: { type: 'string', enum: ['auto', 'manual'], description: 'Scenario engine mode.' },
+            auth: {
+              type: 'string',
+              enum: ['none', 'basic', 'bearer', 'client_credentials'],
+              description: 'Authentication required on `/piwebapi` (`--auth`).',
+            },
           },
         },
 
@@ -2,7 +2,7 @@ import http from 'http';
 import { TagRegistry } from './tag-registry.js';
 import { DataGenerator, PIStreamValue } from './data-generator.js';
 import { parsePITime } from './pi-time.js';
-import { sendJson } from './utils.js';
+import { readBody, sendJson } from './utils.js';
 
 /** Parse a PI time interval string (e.g. "1h", "5m", "30s") to milliseconds. */
 function parseInterval(interval: string): number {
@@ -96,6 +96,12 @@ export function createRestHandler(
       return true;
     }
 
+    // POST /piwebapi/batch
+    if (path === '/piwebapi/batch' && req.method === 'POST') {
+      readBody(req, res, (body) => handleBatch(body, req, res, handleRest));
+      return true;
+    }
+
     // GET /piwebapi/streamsets/channel — WebSocket-only endpoint (ad-hoc)
     if (path === '/piwebapi/streamsets/channel' && req.method === 'GET') {
       res.writeHead(426, {
@@ -534,3 +540,187 @@ function handleGetStreamSetsRecorded(
   });
 }
 
+// ── Batch ─────────────────────────────────────────────────────────────────────
+
+interface BatchRequest {
+  Method?: string;
+  Resource?: string;
+  Parameters?: string[];
+  ParentIds?: string[];
+  RequestTemplate?: { Resource?: string };
+}
+
+interface BatchResponse {
+  Status: number;
+  Headers: Record<string, string>;
+  Content: unknown;
+}
+
+type RouteHandler = (req: http.IncomingMessage, res: http.ServerResponse) => boolean;
+
+function batchError(status: number, message: string): BatchResponse {
+  return { Status: status, Headers: { 'Content-Type': 'application/json' }, Content: { Errors: [message] } };
+}
+
+/**
+ * POST /piwebapi/batch — run named GET sub-requests against the REST routes.
+ * Requests run after their ParentIds; Parameters are JSONPath expressions
+ * over the parents' responses, substituted into {0}, {1}, ... in Resource.
+ * With RequestTemplate the template runs once per parameter value and the
+ * results are returned as Content.Items.
+ */
+function handleBatch(
+  body: string,
+  req: http.IncomingMessage,
+  res: http.ServerResponse,
+  dispatch: RouteHandler
+): void {
+  let requests: Record<string, BatchRequest>;
+  try {
+    requests = JSON.parse(body);
+  } catch {
+    sendJson(res, 400, { Message: 'Batch request body is not valid JSON' });
+    return;
+  }
+  if (!requests || typeof requests !== 'object' || Array.isArray(requests)) {
+    sendJson(res, 400, { Message: 'Batch request body must be an object of named requests' });
+    return;
+  }
+
+  const responses: Record<string, BatchResponse> = {};
+  const running = new Set<string>();
+
+  const run = (id: string): BatchResponse => {
+    if (responses[id]) return responses[id]!;
+    if (running.has(id)) return batchError(400, `Circular ParentIds involving request "${id}"`);
+    running.add(id);
+    responses[id] = executeBatchRequest(requests[id]!, requests, run, req, dispatch);
+    running.delete(id);
+    return responses[id]!;
+  };
+
+  const ordered: Record<string, BatchResponse> = {};
+  for (const id of Object.keys(requests)) ordered[id] = run(id);
+  const allOk = Object.values(ordered).every((r) => r.Status < 300);
+  sendJson(res, allOk ? 200 : 207, ordered);
+}
+
+function executeBatchRequest(
+  request: BatchRequest,
+  requests: Record<string, BatchRequest>,
+  run: (id: string) => BatchResponse,
+  req: http.IncomingMessage,
+  dispatch: RouteHandler
+): BatchResponse {
+  const parents: Record<string, BatchResponse> = {};
+  for (const parentId of request.ParentIds ?? []) {
+    if (!(parentId in requests)) return batchError(400, `Unknown parent request "${parentId}"`);
+    const parent = run(parentId);
+    if (parent.Status >= 300) {
+      return batchError(409, `Parent request "${parentId}" failed with status ${parent.Status}`);
+    }
+    parents[parentId] = parent;
+  }
+
+  const method = (request.Method ?? 'GET').toUpperCase();
+  if (method !== 'GET') return batchError(405, `Method ${method} is not supported in batch requests`);
+
+  let values: string[][];
+  try {
+    values = (request.Parameters ?? []).map((expr) => selectJsonPath(parents, expr));
+  } catch (err: any) {
+    return batchError(400, err.message);
+  }
+
+  if (request.RequestTemplate) {
+    const template = request.RequestTemplate.Resource;
+    if (!template) return batchError(400, 'RequestTemplate requires a Resource');
+    const count = Math.max(0, ...values.map((v) => v.length));
+    if (values.some((v) => v.length !== count && v.length !== 1)) {
+      return batchError(400, 'Template parameters must resolve to the same number of values');
+    }
+    const items: BatchResponse[] = [];
+    for (let i = 0; i < count; i++) {
+      const resource = substitute(template, values.map((v) => (v.length === 1 ? v[0]! : v[i]!)));
+      items.push(dispatchSubRequest(resource, req, dispatch));
+    }
+    const allOk = items.every((r) => r.Status < 300);
+    return { Status: allOk ? 200 : 207, Headers: { 'Content-Type': 'application/json' }, Content: { Items: items } };
+  }
+
+  if (!request.Resource) return batchError(400, 'Resource is required');
+  const single = values.findIndex((v) => v.length !== 1);
+  if (single !== -1) {
+    return batchError(
+      400,
+      `Parameter "${request.Parameters![single]}" resolved to ${values[single]!.length} values; use RequestTemplate`
+    );
+  }
+  return dispatchSubRequest(substitute(request.Resource, values.map((v) => v[0]!)), req, dispatch);
+}
+
+function substitute(resource: string, values: string[]): string {
+  return resource.replace(/\{(\d+)\}/g, (match, i) => values[Number(i)] ?? match);
+}
+
+/** Run one sub-request through the REST routes and capture its response. */
+function dispatchSubRequest(resource: string, req: http.IncomingMessage, dispatch: RouteHandler): BatchResponse {
+  let url: URL;
+  try {
+    url = new URL(resource, selfUrl(req, '/'));
+  } catch {
+    return batchError(400, `Invalid Resource "${resource}"`);
+  }
+  if (url.pathname === '/piwebapi/batch') return batchError(400, 'Batch requests cannot be nested');
+
+  const captured: BatchResponse = { Status: 0, Headers: {}, Content: null };
+  let body = '';
+  const subReq = { method: 'GET', url: url.pathname + url.search, headers: { host: req.headers.host } };
+  const subRes = {
+    writeHead(status: number, headers?: Record<string, string>) {
+      captured.Status = status;
+      Object.assign(captured.Headers, headers);
+    },
+    end(data?: string) {
+      body = data ?? '';
+    },
+  };
+  if (!dispatch(subReq as http.IncomingMessage, subRes as unknown as http.ServerResponse)) {
+    return batchError(404, `No route for ${url.pathname}`);
+  }
+  try {
+    captured.Content = body ? JSON.parse(body) : null;
+  } catch {
+    captured.Content = body;
+  }
+  return captured;
+}
+
+/**
+ * The JSONPath subset batch Parameters use: $.<id>.Prop, ['Prop'], [n], [*].
+ * Non-string matches are returned as JSON.
+ */
+function selectJsonPath(root: unknown, expr: string): string[] {
+  const path = expr.trim();
+  const tokens = path.startsWith('$') ? path.slice(1).match(/\.[^.[\]]+|\[(?:\*|\d+|'[^']*')\]/g) ?? [] : null;
+  if (!tokens || tokens.join('') !== path.slice(1)) {
+    throw new Error(`Unsupported parameter expression "${expr}"`);
+  }
+
+  let nodes: unknown[] = [root];
+  for (const token of tokens) {
+    const next: unknown[] = [];
+    for (const node of nodes) {
+      if (node === null || typeof node !== 'object') continue;
+      if (token === '[*]') {
+        next.push(...(Array.isArray(node) ? node : Object.values(node)));
+        continue;
+      }
+      const key = token.startsWith('.') ? token.slice(1) : token.slice(1, -1).replace(/^'|'$/g, '');
+      const value = (node as Record<string, unknown>)[key];
+      if (value !== undefined) next.push(value);
+    }
+    nodes = next;
+  }
+  return nodes.map((v) => (typeof v === 'string' ? v : JSON.stringify(v)));
+}
@@ -17,6 +17,7 @@ import { AFModel } from './af-model.js';
 import { createAFHandler } from './af-handler.js';
 import { createImportHandler } from './import-handler.js';
 import { sendJson, readBody } from './utils.js';
+import { SimulatorAuth, SimulatorAuthConfig, TOKEN_ENDPOINT_PATH, authConfigFromEnv } from './auth.js';
 import {
   createTagSchema,
   updateTagProfileSchema,
@@ -40,6 +41,8 @@ export interface SimulatorConfig {
   mode: 'auto' | 'manual';
   scenario?: string;
   autoIntervalMs: number;
+  /** PI Web API authentication to enforce; none when omitted */
+  auth?: SimulatorAuthConfig;
 }
 
 export class SimulatorServer {
@@ -53,6 +56,7 @@ export class SimulatorServer {
   readonly afModel: AFModel;
   private afHandler: ReturnType<typeof createAFHandler>;
   private importHandler: ReturnType<typeof createImportHandler>;
+  readonly auth: SimulatorAuth;
   private config: SimulatorConfig;
   private startTime = Date.now();
   private customScenarios = new Map<string, CustomScenarioDefinition>();
@@ -69,8 +73,9 @@ export class SimulatorServer {
     this.restHandler = createRestHandler(this.registry, this.generator);
     this.afModel = new AFModel();
     this.wsHandler.setAFModel(this.afModel);
-    this.afHandler = createAFHandler(this.afModel, this.generator);
+    this.afHandler = createAFHandler(this.afModel, this.generator, this.registry);
     this.importHandler = createImportHandler(this.afModel, this.registry, this.generator);
+    this.auth = new SimulatorAuth(config.auth ?? authConfigFromEnv('none'));
   }
 
   /** Initialize data — load from DB if DATABASE_URL is set, otherwise use in-memory defaults. */
@@ -133,6 +138,15 @@ export class SimulatorServer {
 
     // WebSocket upgrade
     this.server.on('upgrade', (req, socket, head) => {
+      if (!this.auth.isAuthorized(req)) {
+        socket.write(
+          'HTTP/1.1 401 Unauthorized\r\n' +
+            `WWW-Authenticate: ${this.auth.challenge()}\r\n` +
+            'Connection: close\r\n\r\n'
+        );
+        socket.destroy();
+        return;
+      }
       if (!this.wsHandler.handleUpgrade(req, socket, head)) {
         socket.destroy();
       }
@@ -149,6 +163,12 @@ export class SimulatorServer {
         console.log(`[PI Simulator] Explorer:   https://localhost:${this.config.port}/docs`);
         console.log(`[PI Simulator] WS Test:    https://localhost:${this.config.port}/ws-test`);
         console.log(`[PI Simulator] Config UI:  https://localhost:${this.config.port}/ui/`);
+        if (this.auth.config.mode !== 'none') {
+          console.log(`[PI Simulator] Auth:       ${this.auth.config.mode} required on /piwebapi`);
+        }
+        if (this.auth.config.mode === 'client_credentials') {
+          console.log(`[PI Simulator] Token URL:  https://localhost:${this.config.port}${TOKEN_ENDPOINT_PATH}`);
+        }
 
         // Start 1 Hz tick
         this.tickInterval = setInterval(() => {
@@ -207,6 +227,9 @@ export class SimulatorServer {
       return;
     }
 
+    // Token endpoint, and 401 for unauthenticated PI Web API requests
+    if (this.auth.handleRequest(req, res)) return;
+
     // PI Web API REST endpoints
     if (this.restHandler(req, res)) return;
 
@@ -255,6 +278,11 @@ export class SimulatorServer {
       return;
     }
 
+    if (url.pathname === '/admin/auth/revoke' && req.method === 'POST') {
+      sendJson(res, 200, { status: 'ok', revoked: this.auth.revokeTokens() });
+      return;
+    }
+
     if (url.pathname === '/admin/scenario' && req.method === 'POST') {
       this.handleAdminSetScenario(req, res);
       return;
@@ -576,6 +604,7 @@ export class SimulatorServer {
       activeScenario: this.scenarioEngine.getActiveScenarioName(),
       mode: this.scenarioEngine.getMode(),
       database: hasDb() ? 'connected' : 'none',
+      auth: this.auth.config.mode,
     });
   }
 
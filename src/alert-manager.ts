@@ -1,12 +1,49 @@
-export interface Alert {
+import { EventEmitter } from 'events';
+import { randomUUID } from 'crypto';
+import {
+  AlertQuery,
+  AlertStore,
+  MemoryAlertStore,
+  RecommendationQuery,
+} from './alert-store.js';
+import type { BOPMetrics } from './metrics.js';
+
+/**
+ * OPEN → ACKNOWLEDGED → CLEARED (operator) or RESOLVED (condition returned to normal).
+ * OPEN and ACKNOWLEDGED alerts are "active".
+ */
+export type AlertState = 'OPEN' | 'ACKNOWLEDGED' | 'CLEARED' | 'RESOLVED';
+
+export const ACTIVE_ALERT_STATES: AlertState[] = ['OPEN', 'ACKNOWLEDGED'];
+
+/** Fields supplied when raising an alert */
+export interface NewAlert {
   severity: string;
   title: string;
   description: string;
   affectedComponents?: string[];
+  tags?: string[];
   recommendedAction: string;
   timestamp: string;
 }
 
+export interface Alert extends NewAlert {
+  id: string;
+  state: AlertState;
+  /** Identity for de-duplication: severity + affected components + tags */
+  fingerprint: string;
+  /** How many times this condition has been reported, including suppressed repeats */
+  occurrences: number;
+  lastSeenAt: string;
+  acknowledgedBy?: string;
+  acknowledgedAt?: string;
+  clearedBy?: string;
+  clearedAt?: string;
+  resolvedAt?: string;
+  escalationLevel?: number;
+  lastEscalatedAt?: string;
+}
+
 export interface Recommendation {
   category: string;
   component: string;
@@ -16,37 +53,363 @@ export interface Recommendation {
   timestamp: string;
 }
 
-export class AlertManager {
-  private alertLog: Alert[] = [];
-  private recommendationLog: Recommendation[] = [];
+/** A nuisance condition the crew has temporarily silenced */
+export interface Shelf {
+  fingerprint: string;
+  shelvedBy: string;
+  shelvedAt: string;
+  until: string;
+  reason: string;
+  suppressedCount: number;
+}
 
-  async send(alert: Alert): Promise<string> {
-    this.alertLog.push(alert);
-    console.log(`\n[ALERT ${alert.severity}] ${alert.title}`);
-    console.log(`   ${alert.description}`);
-    console.log(`   Action: ${alert.recommendedAction}\n`);
+export interface AlertLifecycleOptions {
+  /** How long every tag on an alert must stay inside its limits before the alert auto-resolves */
+  autoResolveAfterMs: number;
+  /** Re-notify interval for CRITICAL alerts nobody has acknowledged */
+  escalationIntervalMs: number;
+  /** How often start() re-evaluates active alerts */
+  checkIntervalMs: number;
+  /** Repeats of an active alert within this window of its last sighting are suppressed */
+  dedupWindowMs: number;
+}
+
+const DEFAULT_LIFECYCLE: AlertLifecycleOptions = {
+  autoResolveAfterMs: 300_000,
+  escalationIntervalMs: 120_000,
+  checkIntervalMs: 10_000,
+  dedupWindowMs: 600_000,
+};
+
+/**
+ * Order-insensitive identity of an alert condition. Alerts that name neither
+ * components nor tags fall back to the title so unrelated ones are not merged.
+ */
+export function alertFingerprint(alert: NewAlert): string {
+  const components = [...(alert.affectedComponents ?? [])].sort().join(',');
+  const tags = [...(alert.tags ?? [])].sort().join(',');
+  if (!components && !tags) return `${alert.severity}|title:${alert.title}`;
+  return `${alert.severity}|${components}|${tags}`;
+}
+
+export class AlertLifecycleError extends Error {
+  constructor(
+    message: string,
+    readonly code: 'NOT_FOUND' | 'INVALID_STATE'
+  ) {
+    super(message);
+    this.name = 'AlertLifecycleError';
+  }
+}
+
+/** Returns whether a tag is back inside its threshold rule, or undefined if unknown */
+export type TagNormalCheck = (tag: string) => boolean | undefined;
+
+/**
+ * Events:
+ * - 'alert' (alert) — a new alert was raised
+ * - 'alert_suppressed' ({ alert, reason }) — a repeat or shelved alert was held back
+ * - 'alert_state_change' ({ alert, previousState }) — acknowledged, cleared or resolved
+ * - 'alert_escalated' (alert) — an unacknowledged CRITICAL alert was re-notified
+ */
+export class AlertManager extends EventEmitter {
+  private store: AlertStore;
+  private options: AlertLifecycleOptions;
+  private normalSince = new Map<string, number>();
+  private shelves = new Map<string, Shelf>();
+  private pendingUpdates = new Map<string, Promise<unknown>>();
+  private pendingSends = new Map<string, Promise<unknown>>();
+  private lifecycleTimer: ReturnType<typeof setInterval> | null = null;
 
-    // Production integrations:
-    // - SCADA alarm via OPC-UA write-back
-    // - Email via SMTP/SendGrid
-    // - SMS via Twilio
-    // - Log to PI AF Event Frame for compliance
-    // - Push to rig dashboard WebSocket
+  constructor(
+    store: AlertStore = new MemoryAlertStore(),
+    options: Partial<AlertLifecycleOptions> = {},
+    private metrics?: BOPMetrics
+  ) {
+    super();
+    this.store = store;
+    this.options = { ...DEFAULT_LIFECYCLE, ...options };
+  }
+
+  async send(input: NewAlert): Promise<string> {
+    const fingerprint = alertFingerprint(input);
+    const seenAt = new Date(input.timestamp);
+
+    const shelf = this.getShelf(fingerprint, seenAt);
+    if (shelf) {
+      shelf.suppressedCount++;
+      this.emit('alert_suppressed', { alert: input, reason: 'shelved' });
+      return (
+        `Alert suppressed: this condition was shelved by ${shelf.shelvedBy} ` +
+        `until ${shelf.until} (${shelf.reason})`
+      );
+    }
 
-    return `Alert sent at ${alert.timestamp}`;
+    // One at a time per condition, so concurrent analyses cannot both miss the duplicate
+    return this.serialize(this.pendingSends, fingerprint, () => this.raise(input, fingerprint));
   }
 
   async logRecommendation(rec: Recommendation): Promise<string> {
-    this.recommendationLog.push(rec);
+    await this.store.appendRecommendation(rec);
     console.log(`\n[REC ${rec.priority}] ${rec.component}: ${rec.recommendation}\n`);
     return `Recommendation logged at ${rec.timestamp}`;
   }
 
-  getActiveAlerts(): Alert[] {
-    return this.alertLog.slice(-50);
+  /** Operator acknowledges an OPEN alert. Stops escalation; the alert stays active. */
+  async acknowledge(id: string, by: string, now = new Date()): Promise<Alert> {
+    const acknowledged = await this.transition(id, (alert) => {
+      if (alert.state !== 'OPEN') {
+        throw new AlertLifecycleError(`Alert ${id} is ${alert.state}, not OPEN`, 'INVALID_STATE');
+      }
+      return { state: 'ACKNOWLEDGED', acknowledgedBy: by, acknowledgedAt: now.toISOString() };
+    });
+    return acknowledged!;
+  }
+
+  /** Operator closes an active alert by hand. */
+  async clear(id: string, by: string, now = new Date()): Promise<Alert> {
+    const cleared = await this.transition(id, (alert) => {
+      if (!ACTIVE_ALERT_STATES.includes(alert.state)) {
+        throw new AlertLifecycleError(`Alert ${id} is already ${alert.state}`, 'INVALID_STATE');
+      }
+      return { state: 'CLEARED', clearedBy: by, clearedAt: now.toISOString() };
+    });
+    return cleared!;
+  }
+
+  /**
+   * Silence an alert's condition (its fingerprint) for durationMs. Matching
+   * alerts are dropped and matching active alerts stop escalating until the
+   * shelf expires or is removed.
+   */
+  async shelve(id: string, by: string, durationMs: number, reason: string, now = new Date()): Promise<Shelf> {
+    const alert = await this.requireAlert(id);
+    const shelf: Shelf = {
+      fingerprint: alert.fingerprint,
+      shelvedBy: by,
+      shelvedAt: now.toISOString(),
+      until: new Date(now.getTime() + durationMs).toISOString(),
+      reason,
+      suppressedCount: 0,
+    };
+    this.shelves.set(alert.fingerprint, shelf);
+    console.log(`[ALERT SHELVED] ${alert.title} by ${by} until ${shelf.until}: ${reason}`);
+    return shelf;
+  }
+
+  /** Remove the shelf covering an alert's condition. Returns false if none was active. */
+  async unshelve(id: string): Promise<boolean> {
+    const alert = await this.requireAlert(id);
+    return this.shelves.delete(alert.fingerprint);
+  }
+
+  /** Shelves that have not yet expired */
+  getShelves(now = new Date()): Shelf[] {
+    return [...this.shelves.values()].filter((s) => this.getShelf(s.fingerprint, now));
+  }
+
+  /**
+   * Auto-resolve alerts whose tags have all been back inside their limits for
+   * autoResolveAfterMs, and escalate CRITICAL alerts still OPEN after
+   * escalationIntervalMs. Alerts without tags are left for the crew to clear.
+   */
+  async evaluateLifecycle(isTagNormal: TagNormalCheck, now = new Date()): Promise<void> {
+    const active = await this.store.queryAlerts({ state: ACTIVE_ALERT_STATES });
+    const activeIds = new Set(active.map((a) => a.id));
+    for (const id of this.normalSince.keys()) {
+      if (!activeIds.has(id)) this.normalSince.delete(id);
+    }
+
+    for (const alert of active) {
+      if (this.tagsBackToNormal(alert, isTagNormal)) {
+        const since = this.normalSince.get(alert.id) ?? now.getTime();
+        this.normalSince.set(alert.id, since);
+        if (now.getTime() - since >= this.options.autoResolveAfterMs) {
+          this.normalSince.delete(alert.id);
+          const resolved = await this.transition(alert.id, (current) =>
+            ACTIVE_ALERT_STATES.includes(current.state)
+              ? { state: 'RESOLVED', resolvedAt: now.toISOString() }
+              : null
+          );
+          if (resolved) console.log(`[ALERT RESOLVED] ${alert.title} (${alert.id}) — condition back to normal`);
+          continue;
+        }
+      } else {
+        this.normalSince.delete(alert.id);
+      }
+
+      const shelved = this.getShelf(alert.fingerprint, now) !== undefined;
+      if (alert.state === 'OPEN' && alert.severity === 'CRITICAL' && !shelved) {
+        const lastNotified = new Date(alert.lastEscalatedAt ?? alert.timestamp).getTime();
+        if (now.getTime() - lastNotified >= this.options.escalationIntervalMs) {
+          await this.escalate(alert, now);
+        }
+      }
+    }
+  }
+
+  start(isTagNormal: TagNormalCheck): void {
+    this.stop();
+    this.lifecycleTimer = setInterval(() => {
+      this.evaluateLifecycle(isTagNormal).catch((err) =>
+        console.error('[AlertManager] Lifecycle check failed:', err)
+      );
+    }, this.options.checkIntervalMs);
+  }
+
+  stop(): void {
+    if (this.lifecycleTimer) {
+      clearInterval(this.lifecycleTimer);
+      this.lifecycleTimer = null;
+    }
+  }
+
+  /** Alerts that are OPEN or ACKNOWLEDGED */
+  async getActiveAlerts(): Promise<Alert[]> {
+    return this.store.queryAlerts({ state: ACTIVE_ALERT_STATES, limit: 50 });
+  }
+
+  async getRecommendations(): Promise<Recommendation[]> {
+    return this.store.queryRecommendations({ limit: 100 });
+  }
+
+  getAlert(id: string): Promise<Alert | undefined> {
+    return this.store.getAlert(id);
+  }
+
+  queryAlerts(query: AlertQuery): Promise<Alert[]> {
+    return this.store.queryAlerts(query);
+  }
+
+  queryRecommendations(query: RecommendationQuery): Promise<Recommendation[]> {
+    return this.store.queryRecommendations(query);
+  }
+
+  private getShelf(fingerprint: string, now: Date): Shelf | undefined {
+    const shelf = this.shelves.get(fingerprint);
+    if (!shelf) return undefined;
+    if (new Date(shelf.until).getTime() <= now.getTime()) {
+      this.shelves.delete(fingerprint);
+      return undefined;
+    }
+    return shelf;
+  }
+
+  /** Count a repeat of the condition's active alert, or raise a new one */
+  private async raise(input: NewAlert, fingerprint: string): Promise<string> {
+    const seenAt = new Date(input.timestamp);
+    const duplicate = await this.findRecentDuplicate(fingerprint, seenAt);
+    // Cleared or resolved since it was found: raise the condition afresh
+    const counted =
+      duplicate &&
+      (await this.update(duplicate.id, (current) =>
+        ACTIVE_ALERT_STATES.includes(current.state)
+          ? { occurrences: current.occurrences + 1, lastSeenAt: input.timestamp }
+          : null
+      ));
+    if (counted) {
+      const { updated } = counted;
+      this.emit('alert_suppressed', { alert: updated, reason: 'duplicate' });
+      return (
+        `Duplicate of active alert ${updated.id} (${updated.state}, ` +
+        `${updated.occurrences} occurrences) — not re-sent`
+      );
+    }
+
+    const alert: Alert = {
+      ...input,
+      id: randomUUID(),
+      state: 'OPEN',
+      fingerprint,
+      occurrences: 1,
+      lastSeenAt: input.timestamp,
+    };
+    await this.store.appendAlert(alert);
+    console.log(`\n[ALERT ${alert.severity}] ${alert.title} (${alert.id})`);
+    console.log(`   ${alert.description}`);
+    console.log(`   Action: ${alert.recommendedAction}\n`);
+
+    // Delivery to external systems (webhook, SMTP, syslog, ...) happens in
+    // NotificationDispatcher, which subscribes to these events
+
+    this.metrics?.alertsSent.inc({ severity: alert.severity });
+    this.emit('alert', alert);
+    return `Alert ${alert.id} sent at ${alert.timestamp}`;
+  }
+
+  private async findRecentDuplicate(fingerprint: string, seenAt: Date): Promise<Alert | undefined> {
+    const matches = await this.store.queryAlerts({ state: ACTIVE_ALERT_STATES, fingerprint });
+    return matches
+      .reverse()
+      .find((a) => seenAt.getTime() - new Date(a.lastSeenAt).getTime() <= this.options.dedupWindowMs);
+  }
+
+  private tagsBackToNormal(alert: Alert, isTagNormal: TagNormalCheck): boolean {
+    if (!alert.tags || alert.tags.length === 0) return false;
+    const verdicts = alert.tags.map(isTagNormal).filter((v) => v !== undefined);
+    return verdicts.length > 0 && verdicts.every((v) => v);
+  }
+
+  private async escalate(alert: Alert, now: Date): Promise<void> {
+    // Acknowledged or cleared since the lifecycle check read it: nothing to escalate
+    const result = await this.update(alert.id, (current) =>
+      current.state === 'OPEN'
+        ? { escalationLevel: (current.escalationLevel ?? 0) + 1, lastEscalatedAt: now.toISOString() }
+        : null
+    );
+    if (!result) return;
+    const escalated = result.updated;
+    const minutes = Math.round((now.getTime() - new Date(alert.timestamp).getTime()) / 60000);
+    console.log(
+      `\n[ESCALATION ${escalated.escalationLevel}] CRITICAL alert unacknowledged for ${minutes} min: ` +
+        `${alert.title} (${alert.id})\n`
+    );
+    this.emit('alert_escalated', escalated);
+  }
+
+  private async requireAlert(id: string): Promise<Alert> {
+    const alert = await this.store.getAlert(id);
+    if (!alert) throw new AlertLifecycleError(`Unknown alert: ${id}`, 'NOT_FOUND');
+    return alert;
+  }
+
+  /** update() that changes the alert's state, announcing it with 'alert_state_change' */
+  private async transition(id: string, change: (current: Alert) => Partial<Alert> | null): Promise<Alert | undefined> {
+    const result = await this.update(id, change);
+    if (!result) return undefined;
+    this.emit('alert_state_change', { alert: result.updated, previousState: result.previous.state });
+    return result.updated;
+  }
+
+  /**
+   * Read-modify-write of one alert. Updates to the same alert run one at a
+   * time against its latest stored revision, so a change worked out from an
+   * older snapshot (an escalation, a repeat sighting) cannot undo a
+   * concurrent acknowledge or clear. `change` returns only the fields to set,
+   * or null when the alert no longer needs the change.
+   */
+  private update(
+    id: string,
+    change: (current: Alert) => Partial<Alert> | null
+  ): Promise<{ previous: Alert; updated: Alert } | undefined> {
+    return this.serialize(this.pendingUpdates, id, async () => {
+      const previous = await this.requireAlert(id);
+      const changes = change(previous);
+      if (!changes) return undefined;
+      const updated: Alert = { ...previous, ...changes };
+      await this.store.updateAlert(updated);
+      return { previous, updated };
+    });
   }
 
-  getRecommendations(): Recommendation[] {
-    return this.recommendationLog.slice(-100);
+  /** Run `task` after every earlier task queued under the same key has settled */
+  private serialize<T>(pending: Map<string, Promise<unknown>>, key: string, task: () => Promise<T>): Promise<T> {
+    const run = (pending.get(key) ?? Promise.resolve()).catch(() => {}).then(task);
+    pending.set(key, run);
+    const settled = () => {
+      if (pending.get(key) === run) pending.delete(key);
+    };
+    run.then(settled, settled);
+    return run;
   }
 }
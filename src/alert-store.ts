@@ -0,0 +1,510 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import postgres from 'postgres';
+import type { Alert, AlertState, Recommendation } from './alert-manager.js';
+
+export interface AlertQuery {
+  from?: Date;
+  to?: Date;
+  severity?: string;
+  state?: AlertState[];
+  fingerprint?: string;
+  component?: string;
+  tag?: string;
+  /** Return only the most recent N matches (still in chronological order) */
+  limit?: number;
+  /** Skip this many of the most recent matches first; pages backwards with `limit` */
+  offset?: number;
+}
+
+export interface RecommendationQuery {
+  from?: Date;
+  to?: Date;
+  priority?: string;
+  category?: string;
+  component?: string;
+  limit?: number;
+  offset?: number;
+}
+
+/**
+ * Storage backend for the alert and recommendation audit trail.
+ * Alerts are keyed by id and updated as they move through their lifecycle;
+ * queries return results oldest-first.
+ */
+export interface AlertStore {
+  init(): Promise<void>;
+  appendAlert(alert: Alert): Promise<void>;
+  updateAlert(alert: Alert): Promise<void>;
+  getAlert(id: string): Promise<Alert | undefined>;
+  appendRecommendation(rec: Recommendation): Promise<void>;
+  queryAlerts(query?: AlertQuery): Promise<Alert[]>;
+  queryRecommendations(query?: RecommendationQuery): Promise<Recommendation[]>;
+  close(): Promise<void>;
+}
+
+export interface AlertStoreConfig {
+  backend: 'memory' | 'jsonl' | 'postgres';
+  dir: string;
+  databaseUrl?: string;
+}
+
+function inRange(timestamp: string, from?: Date, to?: Date): boolean {
+  const t = new Date(timestamp).getTime();
+  if (from && t < from.getTime()) return false;
+  if (to && t > to.getTime()) return false;
+  return true;
+}
+
+function takeLast<T>(items: T[], limit?: number, offset = 0): T[] {
+  const end = Math.max(0, items.length - offset);
+  return limit !== undefined ? items.slice(Math.max(0, end - limit), end) : items.slice(0, end);
+}
+
+export function matchesAlertQuery(alert: Alert, query: AlertQuery): boolean {
+  if (!inRange(alert.timestamp, query.from, query.to)) return false;
+  if (query.severity && alert.severity !== query.severity) return false;
+  if (query.state && !query.state.includes(alert.state)) return false;
+  if (query.fingerprint && alert.fingerprint !== query.fingerprint) return false;
+  if (query.component && !alert.affectedComponents?.includes(query.component)) return false;
+  if (query.tag && !alert.tags?.includes(query.tag)) return false;
+  return true;
+}
+
+export function matchesRecommendationQuery(
+  rec: Recommendation,
+  query: RecommendationQuery
+): boolean {
+  if (!inRange(rec.timestamp, query.from, query.to)) return false;
+  if (query.priority && rec.priority !== query.priority) return false;
+  if (query.category && rec.category !== query.category) return false;
+  if (query.component && rec.component !== query.component) return false;
+  return true;
+}
+
+/** Volatile store — history is lost on restart. Used in tests and as the fallback. */
+export class MemoryAlertStore implements AlertStore {
+  protected alerts: Alert[] = [];
+  protected recommendations: Recommendation[] = [];
+
+  async init(): Promise<void> {}
+
+  async appendAlert(alert: Alert): Promise<void> {
+    this.alerts.push(alert);
+  }
+
+  async updateAlert(alert: Alert): Promise<void> {
+    const index = this.alerts.findIndex((a) => a.id === alert.id);
+    if (index === -1) throw new Error(`Unknown alert: ${alert.id}`);
+    this.alerts[index] = alert;
+  }
+
+  async getAlert(id: string): Promise<Alert | undefined> {
+    return this.alerts.find((a) => a.id === id);
+  }
+
+  async appendRecommendation(rec: Recommendation): Promise<void> {
+    this.recommendations.push(rec);
+  }
+
+  async queryAlerts(query: AlertQuery = {}): Promise<Alert[]> {
+    return takeLast(
+      this.alerts.filter((a) => matchesAlertQuery(a, query)),
+      query.limit,
+      query.offset
+    );
+  }
+
+  async queryRecommendations(query: RecommendationQuery = {}): Promise<Recommendation[]> {
+    return takeLast(
+      this.recommendations.filter((r) => matchesRecommendationQuery(r, query)),
+      query.limit,
+      query.offset
+    );
+  }
+
+  async close(): Promise<void> {}
+}
+
+/**
+ * JSON Lines files (alerts.jsonl, recommendations.jsonl).
+ * Existing records are read once on init() and kept in memory for queries;
+ * every new record is appended to disk before it becomes visible. An alert
+ * update appends the full record again — the last line for an id wins — so
+ * only the latest revision of each alert is kept in memory, and alerts.jsonl
+ * is rewritten without the superseded lines on init() and whenever they
+ * outnumber the live alerts (and at least `compactAfter` of them).
+ */
+export class JsonlAlertStore extends MemoryAlertStore {
+  private alertsPath: string;
+  private recommendationsPath: string;
+  /** Lines in alerts.jsonl that a later revision of the same alert has superseded */
+  private staleLines = 0;
+  /** File writes run one at a time so a compaction never races an append */
+  private writes: Promise<void> = Promise.resolve();
+
+  constructor(
+    private dir: string,
+    private compactAfter = 1000
+  ) {
+    super();
+    this.alertsPath = path.join(dir, 'alerts.jsonl');
+    this.recommendationsPath = path.join(dir, 'recommendations.jsonl');
+  }
+
+  async init(): Promise<void> {
+    await fs.mkdir(this.dir, { recursive: true });
+    const records = await readJsonl<Alert>(this.alertsPath);
+    this.alerts = latestById(records);
+    this.recommendations = await readJsonl<Recommendation>(this.recommendationsPath);
+    if (records.length > this.alerts.length) await this.write(() => this.compact());
+  }
+
+  async appendAlert(alert: Alert): Promise<void> {
+    await this.write(async () => {
+      await fs.appendFile(this.alertsPath, JSON.stringify(alert) + '\n');
+      await super.appendAlert(alert);
+    });
+  }
+
+  async updateAlert(alert: Alert): Promise<void> {
+    if (!(await this.getAlert(alert.id))) throw new Error(`Unknown alert: ${alert.id}`);
+    await this.write(async () => {
+      await fs.appendFile(this.alertsPath, JSON.stringify(alert) + '\n');
+      await super.updateAlert(alert);
+      this.staleLines++;
+      if (this.staleLines >= Math.max(this.compactAfter, this.alerts.length)) await this.compact();
+    });
+  }
+
+  async appendRecommendation(rec: Recommendation): Promise<void> {
+    await fs.appendFile(this.recommendationsPath, JSON.stringify(rec) + '\n');
+    await super.appendRecommendation(rec);
+  }
+
+  /** Rewrite alerts.jsonl with one line per alert; the rename keeps the old file intact until the new one is whole */
+  private async compact(): Promise<void> {
+    const tmp = `${this.alertsPath}.tmp`;
+    await fs.writeFile(tmp, this.alerts.map((a) => JSON.stringify(a) + '\n').join(''));
+    await fs.rename(tmp, this.alertsPath);
+    this.staleLines = 0;
+  }
+
+  private write(task: () => Promise<void>): Promise<void> {
+    const run = this.writes.then(task);
+    this.writes = run.catch(() => {});
+    return run;
+  }
+}
+
+/** Collapse a JSONL alert log to the latest revision of each alert, in first-seen order. */
+function latestById(records: Alert[]): Alert[] {
+  const byId = new Map<string, Alert>();
+  for (const record of records) {
+    byId.set(record.id, record);
+  }
+  return [...byId.values()];
+}
+
+async function readJsonl<T>(file: string): Promise<T[]> {
+  let raw: string;
+  try {
+    raw = await fs.readFile(file, 'utf-8');
+  } catch (err: any) {
+    if (err.code === 'ENOENT') return [];
+    throw err;
+  }
+
+  const records: T[] = [];
+  const lines = raw.split('\n');
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim();
+    if (!line) continue;
+    try {
+      records.push(JSON.parse(line));
+    } catch {
+      // A torn final line from a crash mid-write — keep everything else
+      console.warn(`[AlertStore] Skipping malformed line ${i + 1} in ${file}`);
+    }
+  }
+  return records;
+}
+
+interface AlertRow {
+  id: number;
+  alert_id: string;
+  state: AlertState;
+  fingerprint: string;
+  occurrences: number;
+  last_seen_at: Date;
+  timestamp: Date;
+  severity: string;
+  title: string;
+  description: string;
+  affected_components: string[] | null;
+  tags: string[] | null;
+  recommended_action: string;
+  acknowledged_by: string | null;
+  acknowledged_at: Date | null;
+  cleared_by: string | null;
+  cleared_at: Date | null;
+  resolved_at: Date | null;
+  escalation_level: number;
+  last_escalated_at: Date | null;
+}
+
+interface RecommendationRow {
+  id: number;
+  timestamp: Date;
+  category: string;
+  component: string;
+  recommendation: string;
+  priority: string;
+  due_within_days: number | null;
+}
+
+function rowToAlert(row: AlertRow): Alert {
+  const alert: Alert = {
+    id: row.alert_id,
+    state: row.state,
+    fingerprint: row.fingerprint,
+    occurrences: row.occurrences,
+    lastSeenAt: row.last_seen_at.toISOString(),
+    severity: row.severity,
+    title: row.title,
+    description: row.description,
+    recommendedAction: row.recommended_action,
+    timestamp: row.timestamp.toISOString(),
+  };
+  if (row.affected_components) alert.affectedComponents = row.affected_components;
+  if (row.tags) alert.tags = row.tags;
+  if (row.acknowledged_by !== null) alert.acknowledgedBy = row.acknowledged_by;
+  if (row.acknowledged_at !== null) alert.acknowledgedAt = row.acknowledged_at.toISOString();
+  if (row.cleared_by !== null) alert.clearedBy = row.cleared_by;
+  if (row.cleared_at !== null) alert.clearedAt = row.cleared_at.toISOString();
+  if (row.resolved_at !== null) alert.resolvedAt = row.resolved_at.toISOString();
+  if (row.escalation_level > 0) alert.escalationLevel = row.escalation_level;
+  if (row.last_escalated_at !== null) alert.lastEscalatedAt = row.last_escalated_at.toISOString();
+  return alert;
+}
+
+function rowToRecommendation(row: RecommendationRow): Recommendation {
+  const rec: Recommendation = {
+    category: row.category,
+    component: row.component,
+    recommendation: row.recommendation,
+    priority: row.priority,
+    timestamp: row.timestamp.toISOString(),
+  };
+  if (row.due_within_days !== null) rec.dueWithinDays = row.due_within_days;
+  return rec;
+}
+
+/** PostgreSQL-backed store. Tables are created on init() if missing, and older ones migrated. */
+export class PostgresAlertStore implements AlertStore {
+  private sql: ReturnType<typeof postgres>;
+
+  constructor(sql: ReturnType<typeof postgres>) {
+    this.sql = sql;
+  }
+
+  async init(): Promise<void> {
+    await this.sql`
+      CREATE TABLE IF NOT EXISTS agent_alerts (
+        id                  SERIAL PRIMARY KEY,
+        alert_id            TEXT UNIQUE NOT NULL,
+        state               TEXT NOT NULL DEFAULT 'OPEN',
+        fingerprint         TEXT NOT NULL,
+        occurrences         INTEGER NOT NULL DEFAULT 1,
+        last_seen_at        TIMESTAMPTZ NOT NULL,
+        timestamp           TIMESTAMPTZ NOT NULL,
+        severity            TEXT NOT NULL,
+        title               TEXT NOT NULL,
+        description         TEXT NOT NULL,
+        affected_components TEXT[],
+        tags                TEXT[],
+        recommended_action  TEXT NOT NULL,
+        acknowledged_by     TEXT,
+        acknowledged_at     TIMESTAMPTZ,
+        cleared_by          TEXT,
+        cleared_at          TIMESTAMPTZ,
+        resolved_at         TIMESTAMPTZ,
+        escalation_level    INTEGER NOT NULL DEFAULT 0,
+        last_escalated_at   TIMESTAMPTZ
+      )
+    `;
+    await this.sql`
+      CREATE TABLE IF NOT EXISTS agent_recommendations (
+        id              SERIAL PRIMARY KEY,
+        timestamp       TIMESTAMPTZ NOT NULL,
+        category        TEXT NOT NULL,
+        component       TEXT NOT NULL,
+        recommendation  TEXT NOT NULL,
+        priority        TEXT NOT NULL,
+        due_within_days INTEGER
+      )
+    `;
+    await this.migrate();
+    await this.sql`CREATE INDEX IF NOT EXISTS idx_agent_alerts_timestamp ON agent_alerts(timestamp)`;
+    await this.sql`CREATE INDEX IF NOT EXISTS idx_agent_alerts_state ON agent_alerts(state)`;
+    await this.sql`CREATE INDEX IF NOT EXISTS idx_agent_alerts_fingerprint ON agent_alerts(fingerprint)`;
+    await this.sql`CREATE INDEX IF NOT EXISTS idx_agent_recommendations_timestamp ON agent_recommendations(timestamp)`;
+  }
+
+  /**
+   * Bring an agent_alerts table created before the alert lifecycle up to the
+   * current schema. Rows from then have no id or state; they are given a
+   * legacy id and marked RESOLVED so old CRITICALs do not start escalating.
+   */
+  private async migrate(): Promise<void> {
+    await this.sql`
+      ALTER TABLE agent_alerts
+        ADD COLUMN IF NOT EXISTS alert_id          TEXT,
+        ADD COLUMN IF NOT EXISTS state             TEXT NOT NULL DEFAULT 'OPEN',
+        ADD COLUMN IF NOT EXISTS fingerprint       TEXT NOT NULL DEFAULT '',
+        ADD COLUMN IF NOT EXISTS occurrences       INTEGER NOT NULL DEFAULT 1,
+        ADD COLUMN IF NOT EXISTS last_seen_at      TIMESTAMPTZ,
+        ADD COLUMN IF NOT EXISTS acknowledged_by   TEXT,
+        ADD COLUMN IF NOT EXISTS acknowledged_at   TIMESTAMPTZ,
+        ADD COLUMN IF NOT EXISTS cleared_by        TEXT,
+        ADD COLUMN IF NOT EXISTS cleared_at        TIMESTAMPTZ,
+        ADD COLUMN IF NOT EXISTS resolved_at       TIMESTAMPTZ,
+        ADD COLUMN IF NOT EXISTS escalation_level  INTEGER NOT NULL DEFAULT 0,
+        ADD COLUMN IF NOT EXISTS last_escalated_at TIMESTAMPTZ
+    `;
+    await this.sql`
+      UPDATE agent_alerts
+      SET alert_id = 'legacy-' || id,
+          state = 'RESOLVED',
+          resolved_at = timestamp,
+          last_seen_at = timestamp
+      WHERE alert_id IS NULL
+    `;
+    await this.sql`
+      ALTER TABLE agent_alerts
+        ALTER COLUMN alert_id SET NOT NULL,
+        ALTER COLUMN last_seen_at SET NOT NULL
+    `;
+    await this.sql`CREATE UNIQUE INDEX IF NOT EXISTS agent_alerts_alert_id_key ON agent_alerts(alert_id)`;
+  }
+
+  async appendAlert(alert: Alert): Promise<void> {
+    await this.sql`
+      INSERT INTO agent_alerts (alert_id, state, fingerprint, occurrences, last_seen_at, timestamp, severity, title, description, affected_components, tags, recommended_action)
+      VALUES (
+        ${alert.id},
+        ${alert.state},
+        ${alert.fingerprint},
+        ${alert.occurrences},
+        ${alert.lastSeenAt},
+        ${alert.timestamp},
+        ${alert.severity},
+        ${alert.title},
+        ${alert.description},
+        ${alert.affectedComponents ?? null},
+        ${alert.tags ?? null},
+        ${alert.recommendedAction}
+      )
+    `;
+  }
+
+  async updateAlert(alert: Alert): Promise<void> {
+    const result = await this.sql`
+      UPDATE agent_alerts
+      SET state = ${alert.state},
+          occurrences = ${alert.occurrences},
+          last_seen_at = ${alert.lastSeenAt},
+          acknowledged_by = ${alert.acknowledgedBy ?? null},
+          acknowledged_at = ${alert.acknowledgedAt ?? null},
+          cleared_by = ${alert.clearedBy ?? null},
+          cleared_at = ${alert.clearedAt ?? null},
+          resolved_at = ${alert.resolvedAt ?? null},
+          escalation_level = ${alert.escalationLevel ?? 0},
+          last_escalated_at = ${alert.lastEscalatedAt ?? null}
+      WHERE alert_id = ${alert.id}
+    `;
+    if (result.count === 0) throw new Error(`Unknown alert: ${alert.id}`);
+  }
+
+  async getAlert(id: string): Promise<Alert | undefined> {
+    const [row] = await this.sql<AlertRow[]>`SELECT * FROM agent_alerts WHERE alert_id = ${id}`;
+    return row ? rowToAlert(row) : undefined;
+  }
+
+  async appendRecommendation(rec: Recommendation): Promise<void> {
+    await this.sql`
+      INSERT INTO agent_recommendations (timestamp, category, component, recommendation, priority, due_within_days)
+      VALUES (
+        ${rec.timestamp},
+        ${rec.category},
+        ${rec.component},
+        ${rec.recommendation},
+        ${rec.priority},
+        ${rec.dueWithinDays ?? null}
+      )
+    `;
+  }
+
+  async queryAlerts(query: AlertQuery = {}): Promise<Alert[]> {
+    const sql = this.sql;
+    const rows = await sql<AlertRow[]>`
+      SELECT * FROM (
+        SELECT * FROM agent_alerts
+        WHERE TRUE
+          ${query.from ? sql`AND timestamp >= ${query.from}` : sql``}
+          ${query.to ? sql`AND timestamp <= ${query.to}` : sql``}
+          ${query.severity ? sql`AND severity = ${query.severity}` : sql``}
+          ${query.state ? sql`AND state IN ${sql(query.state)}` : sql``}
+          ${query.fingerprint ? sql`AND fingerprint = ${query.fingerprint}` : sql``}
+          ${query.component ? sql`AND ${query.component} = ANY(affected_components)` : sql``}
+          ${query.tag ? sql`AND ${query.tag} = ANY(tags)` : sql``}
+        ORDER BY timestamp DESC, id DESC
+        ${query.limit !== undefined ? sql`LIMIT ${query.limit}` : sql``}
+        ${query.offset ? sql`OFFSET ${query.offset}` : sql``}
+      ) recent
+      ORDER BY timestamp, id
+    `;
+    return rows.map(rowToAlert);
+  }
+
+  async queryRecommendations(query: RecommendationQuery = {}): Promise<Recommendation[]> {
+    const sql = this.sql;
+    const rows = await sql<RecommendationRow[]>`
+      SELECT * FROM (
+        SELECT * FROM agent_recommendations
+        WHERE TRUE
+          ${query.from ? sql`AND timestamp >= ${query.from}` : sql``}
+          ${query.to ? sql`AND timestamp <= ${query.to}` : sql``}
+          ${query.priority ? sql`AND priority = ${query.priority}` : sql``}
+          ${query.category ? sql`AND category = ${query.category}` : sql``}
+          ${query.component ? sql`AND component = ${query.component}` : sql``}
+        ORDER BY timestamp DESC, id DESC
+        ${query.limit !== undefined ? sql`LIMIT ${query.limit}` : sql``}
+        ${query.offset ? sql`OFFSET ${query.offset}` : sql``}
+      ) recent
+      ORDER BY timestamp, id
+    `;
+    return rows.map(rowToRecommendation);
+  }
+
+  async close(): Promise<void> {
+    await this.sql.end({ timeout: 5 });
+  }
+}
+
+/** Build the configured store backend. Call init() on the result before use. */
+export function createAlertStore(config: AlertStoreConfig): AlertStore {
+  switch (config.backend) {
+    case 'memory':
+      return new MemoryAlertStore();
+    case 'jsonl':
+      return new JsonlAlertStore(config.dir);
+    case 'postgres':
+      if (!config.databaseUrl) {
+        throw new Error('ALERT_DATABASE_URL is required for the postgres alert store');
+      }
+      return new PostgresAlertStore(
+        postgres(config.databaseUrl, { max: 5, idle_timeout: 20, connect_timeout: 30 })
+      );
+  }
+}
@@ -0,0 +1,119 @@
+import type { AnalysisPriority } from './analysis-scheduler.js';
+import type { ThresholdBreach } from './sensor-state.js';
+
+export interface AnalysisBudgetConfig {
+  /** Spend limit over the last 60 minutes in USD (0 = none) */
+  hourlyUsd: number;
+  /** Spend limit over the last 24 hours in USD (0 = none) */
+  dailyUsd: number;
+  /** Analyses allowed in the last 60 minutes (0 = none) */
+  maxAnalysesPerHour: number;
+  /** Share of a limit at which the budget counts as NEAR */
+  warnRatio: number;
+  /** Cheaper model for non-critical analyses while the budget is NEAR ('' keeps the normal model) */
+  fallbackModel: string;
+}
+
+export type BudgetLevel = 'OK' | 'NEAR' | 'EXCEEDED';
+
+export interface BudgetStatus {
+  level: BudgetLevel;
+  lastHour: { spentUsd: number; analyses: number };
+  lastDay: { spentUsd: number; analyses: number };
+  limits: { hourlyUsd: number | null; dailyUsd: number | null; maxAnalysesPerHour: number | null };
+}
+
+/**
+ * How a scheduled analysis should run:
+ * - full: the configured model
+ * - fallback_model: a cheaper model
+ * - rule_based: no LLM call; a summary built from the breaches
+ */
+export type BudgetDecision =
+  | { mode: 'full' }
+  | { mode: 'fallback_model'; model: string }
+  | { mode: 'rule_based' };
+
+const HOUR_MS = 3_600_000;
+const DAY_MS = 24 * HOUR_MS;
+
+/**
+ * Rolling hourly and daily LLM spend, and the hourly analysis count.
+ * CRITICAL analyses always run in full (and still count against the budget);
+ * everything else drops to the fallback model once a limit is NEAR and to a
+ * rule-based summary once one is EXCEEDED.
+ */
+export class AnalysisBudget {
+  private entries: { at: number; costUsd: number }[] = [];
+
+  constructor(
+    private config: AnalysisBudgetConfig,
+    private now: () => number = Date.now
+  ) {}
+
+  /** Count one analysis and what it cost */
+  record(costUsd = 0): void {
+    this.entries.push({ at: this.now(), costUsd });
+  }
+
+  getStatus(): BudgetStatus {
+    const now = this.now();
+    this.entries = this.entries.filter((e) => e.at > now - DAY_MS);
+    const hour = this.entries.filter((e) => e.at > now - HOUR_MS);
+    const sum = (entries: { costUsd: number }[]) => entries.reduce((total, e) => total + e.costUsd, 0);
+
+    const lastHour = { spentUsd: round(sum(hour)), analyses: hour.length };
+    const lastDay = { spentUsd: round(sum(this.entries)), analyses: this.entries.length };
+    const { hourlyUsd, dailyUsd, maxAnalysesPerHour } = this.config;
+
+    const usage = [
+      hourlyUsd > 0 ? lastHour.spentUsd / hourlyUsd : 0,
+      dailyUsd > 0 ? lastDay.spentUsd / dailyUsd : 0,
+      maxAnalysesPerHour > 0 ? lastHour.analyses / maxAnalysesPerHour : 0,
+    ];
+    const worst = Math.max(...usage);
+
+    return {
+      level: worst >= 1 ? 'EXCEEDED' : worst >= this.config.warnRatio ? 'NEAR' : 'OK',
+      lastHour,
+      lastDay,
+      limits: {
+        hourlyUsd: hourlyUsd || null,
+        dailyUsd: dailyUsd || null,
+        maxAnalysesPerHour: maxAnalysesPerHour || null,
+      },
+    };
+  }
+
+  decide(priority: AnalysisPriority): BudgetDecision {
+    if (priority === 'CRITICAL') return { mode: 'full' };
+    switch (this.getStatus().level) {
+      case 'OK':
+        return { mode: 'full' };
+      case 'NEAR':
+        return this.config.fallbackModel
+          ? { mode: 'fallback_model', model: this.config.fallbackModel }
+          : { mode: 'full' };
+      case 'EXCEEDED':
+        return { mode: 'rule_based' };
+    }
+  }
+}
+
+function round(usd: number): number {
+  return Math.round(usd * 10_000) / 10_000;
+}
+
+/** Stand-in for an analysis when the budget is exhausted: the breaches, as reported */
+export function ruleBasedSummary(breaches: ThresholdBreach[]): string {
+  if (breaches.length === 0) {
+    return 'Routine health check skipped: LLM budget exhausted. No threshold breaches are pending.';
+  }
+  const lines = breaches.map(
+    (b) => `- [${b.level}] ${b.tag} = ${b.value} (${b.type} limit ${b.threshold}): ${b.message}`
+  );
+  return (
+    `Rule-based summary (LLM budget exhausted, no AI analysis was run):\n${lines.join('\n')}\n` +
+    `Verify these readings against related parameters and follow standard well-control procedures.`
+  );
+}
@@ -0,0 +1,133 @@
+import { query } from '@anthropic-ai/claude-agent-sdk';
+import type { McpSdkServerConfigWithInstance } from '@anthropic-ai/claude-agent-sdk';
+import { BOP_SYSTEM_PROMPT } from './bop-system-prompt.js';
+import type { AnalysisTrigger } from './analysis-log.js';
+import { AnalysisFindings, createFindingsServer } from './analysis-findings.js';
+
+export interface AnalysisResult {
+  text: string;
+  /** Fully qualified MCP tool names, e.g. mcp__bop-tools__send_alert */
+  toolsUsed: string[];
+  costUsd?: number;
+  /** Set when the engine ran something other than the requested model */
+  model?: string;
+  /** What the analysis concluded, from submit_findings; absent if it was never called */
+  findings?: AnalysisFindings;
+}
+
+export interface AnalysisRequest {
+  prompt: string;
+  model: string;
+  trigger: AnalysisTrigger;
+  /** Receives the response text as it is written, e.g. to stream an answer to an operator */
+  onText?: (text: string) => void;
+}
+
+/** Runs one analysis pass: reads the prompt, uses the BOP tools, reports what it concluded */
+export interface AnalysisEngine {
+  /** 'sdk' or 'scripted'; shown at startup */
+  readonly name: string;
+  run(request: AnalysisRequest): Promise<AnalysisResult>;
+}
+
+/** Tools the agent may call — no file system, no bash */
+export const BOP_ALLOWED_TOOLS = [
+  'mcp__bop-tools__get_sensor_data',
+  'mcp__bop-tools__get_sensor_history',
+  'mcp__bop-tools__get_bop_status',
+  'mcp__bop-tools__get_instrument_health',
+  'mcp__bop-tools__get_sensor_liveness',
+  'mcp__bop-tools__send_alert',
+  'mcp__bop-tools__log_recommendation',
+  'mcp__bop-tools__get_incident_history',
+];
+
+/** The closing tool of each one-shot analysis, served per run by its own MCP server */
+export const SUBMIT_FINDINGS_TOOL = 'mcp__bop-findings__submit_findings';
+
+/**
+ * Claude via the Agent SDK. The SDK manages the entire tool-use loop
+ * internally — we just provide the prompt and tools, then iterate over
+ * streamed messages.
+ */
+export class SdkAnalysisEngine implements AnalysisEngine {
+  readonly name = 'sdk';
+
+  constructor(private mcpServer: McpSdkServerConfigWithInstance) {}
+
+  async run({ prompt, model, onText }: AnalysisRequest): Promise<AnalysisResult> {
+    const outputParts: string[] = [];
+    const toolsUsed: string[] = [];
+    let costUsd: number | undefined;
+    let findings: AnalysisFindings | undefined;
+
+    for await (const message of query({
+      prompt,
+      options: {
+        // Fully custom system prompt — NOT the claude_code preset
+        systemPrompt: BOP_SYSTEM_PROMPT,
+
+        // Model selection (sonnet for cost efficiency, opus for complex analysis)
+        model,
+
+        // Register our custom MCP tools server, plus submit_findings for this run
+        mcpServers: {
+          'bop-tools': this.mcpServer,
+          'bop-findings': createFindingsServer((submitted) => (findings = submitted)),
+        },
+
+        // Explicitly allow only our BOP tools
+        allowedTools: [...BOP_ALLOWED_TOOLS, SUBMIT_FINDINGS_TOOL],
+
+        // Bypass permission prompts (autonomous monitoring agent)
+        permissionMode: 'bypassPermissions',
+
+        // Limit turns to prevent runaway analysis
+        maxTurns: 25,
+      },
+    })) {
+      // Process different message types from the SDK
+      switch (message.type) {
+        case 'assistant':
+          // Claude's reasoning and responses
+          for (const block of message.message.content) {
+            if ('text' in block && block.text) {
+              outputParts.push(block.text);
+              onText?.(block.text);
+            }
+            if ('name' in block) {
+              // Tool use block — track which tools were called
+              toolsUsed.push(block.name);
+            }
+          }
+          break;
+
+        case 'result':
+          // Final result from the agent
+          if (message.subtype === 'success' && message.result) {
+            outputParts.push(message.result);
+          }
+          if ('total_cost_usd' in message) {
+            costUsd = message.total_cost_usd as number;
+          }
+          break;
+
+        case 'system':
+          // System messages (init, MCP connection status, etc.)
+          if (message.subtype === 'init') {
+            console.log('[Agent] Session initialized');
+          }
+          break;
+      }
+    }
+
+    if (!findings) console.warn('[Agent] Analysis finished without calling submit_findings');
+
+    return {
+      text: outputParts.join('\n'),
+      toolsUsed: [...new Set(toolsUsed)],
+      costUsd,
+      findings,
+    };
+  }
+}
@@ -0,0 +1,59 @@
+import { tool, createSdkMcpServer } from '@anthropic-ai/claude-agent-sdk';
+import { z } from 'zod';
+
+/** Input schema of submit_findings; also what validates a findings record */
+export const findingsShape = {
+  summary: z.string().min(1).describe('One or two sentence conclusion of the analysis'),
+  rootCauses: z
+    .array(
+      z.object({
+        cause: z.string().min(1).describe('Suspected root cause'),
+        confidence: z.number().min(0).max(1).describe('Confidence from 0 (guess) to 1 (certain)'),
+      })
+    )
+    .describe('Suspected root causes, most likely first; empty when nothing is wrong'),
+  affectedSubsystems: z
+    .array(z.string())
+    .describe('BOP subsystems involved, e.g. ["Accumulator", "Blue control pod", "Wellbore"]'),
+  tags: z.array(z.string()).describe('PI tags the conclusion rests on, e.g. ["BOP.ACC.PRESS.SYS"]'),
+  recommendedActions: z.array(z.string()).describe('Actions for the crew, most urgent first'),
+  onset: z
+    .enum(['sudden', 'gradual', 'unknown'])
+    .describe('Whether the condition developed suddenly or degraded gradually, from the history'),
+};
+
+export const findingsSchema = z.object(findingsShape);
+
+/** Machine-readable conclusion of one analysis, submitted through submit_findings */
+export type AnalysisFindings = z.infer<typeof findingsSchema>;
+
+/**
+ * The submit_findings tool for one analysis run. The handler only hands the
+ * validated record to `onSubmit`; a later call replaces an earlier one.
+ */
+export function createSubmitFindingsTool(onSubmit: (findings: AnalysisFindings) => void) {
+  return tool(
+    'submit_findings',
+    'Submit the structured conclusion of this analysis. Call exactly once, as the last step, ' +
+      'after any send_alert or log_recommendation calls. Include every suspected root cause with ' +
+      'a confidence, the subsystems and PI tags involved, the recommended actions, and whether the ' +
+      'condition is sudden or gradual. For a routine check with nothing wrong, give an empty ' +
+      'rootCauses list and onset "unknown".',
+    findingsShape,
+    async (args) => {
+      onSubmit(findingsSchema.parse(args));
+      return {
+        content: [{ type: 'text' as const, text: 'Findings recorded.' }],
+      };
+    }
+  );
+}
+
+/** In-process MCP server holding only submit_findings, created per analysis run */
+export function createFindingsServer(onSubmit: (findings: AnalysisFindings) => void) {
+  return createSdkMcpServer({
+    name: 'bop-findings',
+    version: '1.0.0',
+    tools: [createSubmitFindingsTool(onSubmit)],
+  });
+}
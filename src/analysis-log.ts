@@ -0,0 +1,86 @@
+import type { ThresholdBreach } from './sensor-state.js';
+import type { AnalysisFindings } from './analysis-findings.js';
+
+export type AnalysisTriggerType = 'threshold_breach' | 'queued_breaches' | 'periodic' | 'operator_question' | 'manual';
+
+/** Why an analysis ran */
+export interface AnalysisTrigger {
+  type: AnalysisTriggerType;
+  /** Tags whose breaches caused the analysis */
+  tags?: string[];
+  /** The breaches themselves, for breach-triggered analyses */
+  breaches?: ThresholdBreach[];
+  /** Operator questions: who asked, for the audit trail */
+  operator?: string;
+  /** Operator questions: the question as asked */
+  question?: string;
+}
+
+export interface AnalysisRecord {
+  id: string;
+  trigger: AnalysisTrigger & {
+    /** The prompt the agent was given */
+    context: string;
+  };
+  status: 'completed' | 'failed';
+  startedAt: string;
+  completedAt: string;
+  durationMs: number;
+  /** The model that ran the analysis; 'rule-based' or 'scripted' when no LLM was called */
+  model: string;
+  text: string;
+  toolsUsed: string[];
+  costUsd?: number;
+  /** Structured conclusion submitted by the agent (submit_findings) */
+  findings?: AnalysisFindings;
+  error?: string;
+}
+
+export interface AnalysisQuery {
+  from?: Date;
+  to?: Date;
+  trigger?: AnalysisTriggerType;
+  status?: AnalysisRecord['status'];
+  tag?: string;
+  operator?: string;
+  /** Return only the most recent N matches (still in chronological order) */
+  limit?: number;
+  /** Skip this many of the most recent matches first; pages backwards with `limit` */
+  offset?: number;
+}
+
+export function matchesAnalysisQuery(record: AnalysisRecord, query: AnalysisQuery): boolean {
+  const t = new Date(record.startedAt).getTime();
+  if (query.from && t < query.from.getTime()) return false;
+  if (query.to && t > query.to.getTime()) return false;
+  if (query.trigger && record.trigger.type !== query.trigger) return false;
+  if (query.status && record.status !== query.status) return false;
+  if (query.tag && !record.trigger.tags?.includes(query.tag)) return false;
+  if (query.operator && record.trigger.operator !== query.operator) return false;
+  return true;
+}
+
+/**
+ * Recent BOPAgent.analyze runs, kept in memory for the /api/analyses
+ * endpoint. The oldest records are dropped past `maxRecords`.
+ */
+export class AnalysisLog {
+  private records: AnalysisRecord[] = [];
+
+  constructor(private maxRecords = 500) {}
+
+  record(record: AnalysisRecord): void {
+    this.records.push(record);
+    if (this.records.length > this.maxRecords) this.records.splice(0, this.records.length - this.maxRecords);
+  }
+
+  get(id: string): AnalysisRecord | undefined {
+    return this.records.find((r) => r.id === id);
+  }
+
+  query(query: AnalysisQuery = {}): AnalysisRecord[] {
+    const matches = this.records.filter((r) => matchesAnalysisQuery(r, query));
+    const end = Math.max(0, matches.length - (query.offset ?? 0));
+    return matches.slice(query.limit !== undefined ? Math.max(0, end - query.limit) : 0, end);
+  }
+}
@@ -0,0 +1,181 @@
+import { EventEmitter } from 'events';
+import type { ThresholdBreach } from './sensor-state.js';
+import type { BOPMetrics } from './metrics.js';
+import type { OperatorQuestion } from './operator-chat.js';
+
+export type AnalysisPriority = 'CRITICAL' | 'WARNING' | 'OPERATOR' | 'PERIODIC';
+
+const PRIORITY_RANK: Record<AnalysisPriority, number> = { CRITICAL: 3, WARNING: 2, OPERATOR: 1, PERIODIC: 0 };
+
+export interface AnalysisJob {
+  id: number;
+  priority: AnalysisPriority;
+  /** Breach jobs: the subsystem the breaches were coalesced under */
+  subsystem?: string;
+  /** Latest breach per tag and type; empty for the periodic check and operator questions */
+  breaches: ThresholdBreach[];
+  /** OPERATOR jobs: the question to answer */
+  question?: OperatorQuestion;
+  queuedAt: Date;
+}
+
+export type SubmitOutcome = 'started' | 'queued' | 'coalesced' | 'dropped';
+
+export interface AnalysisSchedulerOptions {
+  /** Analyses allowed to run at once (default 1) */
+  maxConcurrent: number;
+  /** Jobs waiting beyond this are dropped, lowest priority first (default 20) */
+  maxQueued: number;
+  /** CRITICAL jobs may use one slot above maxConcurrent instead of waiting (default true) */
+  criticalFastPath: boolean;
+  /** Breaches in the same subsystem are analyzed together */
+  subsystemOf: (tag: string) => string;
+}
+
+/**
+ * BOP tags group by their second segment (BOP.ACC, BOP.RAM, BOP.CTRL, ...);
+ * everything else by its first (all WELL.* kick indicators together).
+ */
+export function defaultSubsystemOf(tag: string): string {
+  const [root, group] = tag.split('.');
+  return root === 'BOP' && group ? `${root}.${group}` : root!;
+}
+
+const DEFAULT_OPTIONS: AnalysisSchedulerOptions = {
+  maxConcurrent: 1,
+  maxQueued: 20,
+  criticalFastPath: true,
+  subsystemOf: defaultSubsystemOf,
+};
+
+/**
+ * Decides when agent analyses run. Jobs are taken highest priority first
+ * (CRITICAL breach > WARNING breach > operator question > periodic check), FIFO within a
+ * priority. Breaches for a subsystem that already has a job waiting are
+ * merged into it, and only one periodic check is ever queued.
+ *
+ * Events:
+ * - 'dropped' ({ job, reason }) — the queue was full
+ */
+export class AnalysisScheduler extends EventEmitter {
+  private options: AnalysisSchedulerOptions;
+  private queue: AnalysisJob[] = [];
+  private runningJobs = new Set<Promise<void>>();
+  private nextId = 1;
+
+  constructor(
+    private run: (job: AnalysisJob) => Promise<void>,
+    options: Partial<AnalysisSchedulerOptions> = {},
+    private metrics?: BOPMetrics
+  ) {
+    super();
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  get queueDepth(): number {
+    return this.queue.length;
+  }
+
+  get running(): number {
+    return this.runningJobs.size;
+  }
+
+  /** Jobs waiting to run, in the order they will start */
+  getQueue(): AnalysisJob[] {
+    return [...this.queue].sort(byPriority);
+  }
+
+  submitBreach(breach: ThresholdBreach): SubmitOutcome {
+    const subsystem = this.options.subsystemOf(breach.tag);
+    const pending = this.queue.find((j) => j.subsystem === subsystem);
+    if (pending) {
+      pending.breaches = [
+        ...pending.breaches.filter((b) => b.tag !== breach.tag || b.type !== breach.type),
+        breach,
+      ];
+      if (PRIORITY_RANK[breach.level] > PRIORITY_RANK[pending.priority]) pending.priority = breach.level;
+      this.metrics?.analysisQueueCoalesced.inc();
+      // A WARNING job upgraded to CRITICAL may now take the fast path
+      this.dispatch();
+      return 'coalesced';
+    }
+    return this.enqueue({ priority: breach.level, subsystem, breaches: [breach] });
+  }
+
+  /** Operator questions are never merged; each waits for its own answer */
+  submitQuestion(question: OperatorQuestion): SubmitOutcome {
+    return this.enqueue({ priority: 'OPERATOR', breaches: [], question });
+  }
+
+  submitPeriodic(): SubmitOutcome {
+    if (this.queue.some((j) => j.priority === 'PERIODIC')) {
+      this.metrics?.analysisQueueCoalesced.inc();
+      return 'coalesced';
+    }
+    return this.enqueue({ priority: 'PERIODIC', breaches: [] });
+  }
+
+  /** Resolves once nothing is running or queued */
+  async idle(): Promise<void> {
+    while (this.runningJobs.size > 0) await Promise.all(this.runningJobs);
+  }
+
+  private enqueue(fields: Omit<AnalysisJob, 'id' | 'queuedAt'>): SubmitOutcome {
+    const job: AnalysisJob = { id: this.nextId++, queuedAt: new Date(), ...fields };
+
+    if (this.queue.length >= this.options.maxQueued) {
+      // Evict the oldest job of the lowest priority, unless the new job ranks no higher
+      const lowest = Math.min(...this.queue.map((j) => PRIORITY_RANK[j.priority]));
+      const victim = this.queue.filter((j) => PRIORITY_RANK[j.priority] === lowest).sort((a, b) => a.id - b.id)[0];
+      if (!victim || lowest >= PRIORITY_RANK[job.priority]) {
+        this.drop(job);
+        return 'dropped';
+      }
+      this.queue.splice(this.queue.indexOf(victim), 1);
+      this.drop(victim);
+    }
+
+    this.queue.push(job);
+    this.dispatch();
+    return this.queue.includes(job) ? 'queued' : 'started';
+  }
+
+  private drop(job: AnalysisJob): void {
+    console.warn(
+      `[Scheduler] Analysis queue full (${this.options.maxQueued}), dropped ${job.priority} job` +
+        (job.subsystem ? ` for ${job.subsystem}` : '')
+    );
+    this.metrics?.analysisQueueDropped.inc({ priority: job.priority });
+    this.emit('dropped', { job, reason: 'queue_full' });
+  }
+
+  /** Start queued jobs while there are free slots */
+  private dispatch(): void {
+    this.queue.sort(byPriority);
+    while (this.queue.length > 0) {
+      const next = this.queue[0]!;
+      const fastPath = next.priority === 'CRITICAL' && this.options.criticalFastPath ? 1 : 0;
+      if (this.runningJobs.size >= this.options.maxConcurrent + fastPath) break;
+      this.queue.shift();
+      this.start(next);
+    }
+    this.metrics?.analysisQueueDepth.set(this.queue.length);
+    this.metrics?.analysesRunning.set(this.runningJobs.size);
+  }
+
+  private start(job: AnalysisJob): void {
+    const running: Promise<void> = Promise.resolve()
+      .then(() => this.run(job))
+      .catch((err) => console.error('[Scheduler] Analysis job failed:', err))
+      .finally(() => {
+        this.runningJobs.delete(running);
+        this.dispatch();
+      });
+    this.runningJobs.add(running);
+  }
+}
+
+/** Highest priority first, then oldest first */
+function byPriority(a: AnalysisJob, b: AnalysisJob): number {
+  return PRIORITY_RANK[b.priority] - PRIORITY_RANK[a.priority] || a.id - b.id;
+}
@@ -1,128 +1,161 @@
+import { EventEmitter } from 'events';
+import { randomUUID } from 'crypto';
 import { query } from '@anthropic-ai/claude-agent-sdk';
-import type { McpSdkServerConfigWithInstance, SDKUserMessage } from '@anthropic-ai/claude-agent-sdk';
+import type {
+  McpServerConfig,
+  McpSdkServerConfigWithInstance,
+  SDKMessage,
+  SDKUserMessage,
+} from '@anthropic-ai/claude-agent-sdk';
 import { BOP_SYSTEM_PROMPT } from './bop-system-prompt.js';
 import { BOP_CONFIG } from './config.js';
+import type { BOPMetrics } from './metrics.js';
+import type { AnalysisLog, AnalysisRecord, AnalysisTrigger } from './analysis-log.js';
+import type { AnalysisBudget } from './analysis-budget.js';
+import {
+  AnalysisEngine,
+  AnalysisResult,
+  BOP_ALLOWED_TOOLS,
+  SUBMIT_FINDINGS_TOOL,
+  SdkAnalysisEngine,
+} from './analysis-engine.js';
 
-interface AnalysisResult {
-  text: string;
-  toolsUsed: string[];
-  costUsd?: number;
+export interface BOPAgentOptions {
+  /** What runs each analysis; defaults to Claude via the Agent SDK */
+  engine?: AnalysisEngine;
+  metrics?: BOPMetrics;
+  /** Every analyze() run is recorded here */
+  analysisLog?: AnalysisLog;
+  /** Every analyze() run and its cost is counted against this */
+  budget?: AnalysisBudget;
 }
 
-export class BOPAgent {
+export interface StreamingOptions {
+  /** Defaults to AGENT_MODEL */
+  model?: string;
+  /** Registered next to bop-tools, e.g. the session's bop-findings server */
+  mcpServers?: Record<string, McpServerConfig>;
+  /** Receives every SDK message; without it assistant text is logged */
+  onMessage?: (message: SDKMessage) => void;
+}
+
+/** Outcome of the most recent analyses, for the readiness probe */
+export interface AgentStatus {
+  lastSuccessAt: Date | null;
+  lastError: { message: string; at: Date } | null;
+}
+
+/**
+ * Events:
+ * - 'analysis_started' ({ id, trigger, startedAt }) — an analyze() run began
+ * - 'analysis_finished' (AnalysisRecord) — it completed or failed
+ */
+export class BOPAgent extends EventEmitter {
   private mcpServer: McpSdkServerConfigWithInstance;
+  private engine: AnalysisEngine;
+  private metrics?: BOPMetrics;
+  private analysisLog?: AnalysisLog;
+  private budget?: AnalysisBudget;
+  private status: AgentStatus = { lastSuccessAt: null, lastError: null };
 
-  constructor(mcpServer: McpSdkServerConfigWithInstance) {
+  constructor(mcpServer: McpSdkServerConfigWithInstance, options: BOPAgentOptions = {}) {
+    super();
     this.mcpServer = mcpServer;
+    this.engine = options.engine ?? new SdkAnalysisEngine(mcpServer);
+    this.metrics = options.metrics;
+    this.analysisLog = options.analysisLog;
+    this.budget = options.budget;
+  }
+
+  get engineName(): string {
+    return this.engine.name;
   }
 
   /**
-   * Run a single analysis pass. The Agent SDK manages the entire
-   * tool-use loop internally — we just provide the prompt and tools,
-   * then iterate over streamed messages.
+   * Run a single analysis pass on the configured engine.
+   *
+   * Every run, failed ones included, is recorded in the analysis log
+   * together with the trigger that caused it. `model` overrides
+   * AGENT_MODEL for this run, e.g. a cheaper one when the budget is tight;
+   * `onText` receives the response text as the engine produces it.
    */
-  async analyze(triggerContext: string): Promise<AnalysisResult> {
-    const outputParts: string[] = [];
-    const toolsUsed: string[] = [];
-    let costUsd: number | undefined;
-
-    for await (const message of query({
-      prompt: triggerContext,
-      options: {
-        // Fully custom system prompt — NOT the claude_code preset
-        systemPrompt: BOP_SYSTEM_PROMPT,
-
-        // Model selection (sonnet for cost efficiency, opus for complex analysis)
-        model: BOP_CONFIG.agentModel,
-
-        // Register our custom MCP tools server
-        mcpServers: {
-          'bop-tools': this.mcpServer,
-        },
-
-        // Explicitly allow only our BOP tools — no file system, no bash
-        allowedTools: [
-          'mcp__bop-tools__get_sensor_data',
-          'mcp__bop-tools__get_sensor_history',
-          'mcp__bop-tools__get_bop_status',
-          'mcp__bop-tools__send_alert',
-          'mcp__bop-tools__log_recommendation',
-        ],
-
-        // Bypass permission prompts (autonomous monitoring agent)
-        permissionMode: 'bypassPermissions',
-
-        // Limit turns to prevent runaway analysis
-        maxTurns: 25,
-      },
-    })) {
-      // Process different message types from the SDK
-      switch (message.type) {
-        case 'assistant':
-          // Claude's reasoning and responses
-          for (const block of message.message.content) {
-            if ('text' in block && block.text) {
-              outputParts.push(block.text);
-            }
-            if ('name' in block) {
-              // Tool use block — track which tools were called
-              toolsUsed.push(block.name);
-            }
-          }
-          break;
-
-        case 'result':
-          // Final result from the agent
-          if (message.subtype === 'success' && message.result) {
-            outputParts.push(message.result);
-          }
-          if ('total_cost_usd' in message) {
-            costUsd = message.total_cost_usd as number;
-          }
-          break;
+  async analyze(
+    triggerContext: string,
+    trigger: AnalysisTrigger = { type: 'manual' },
+    options: { model?: string; onText?: (text: string) => void } = {}
+  ): Promise<AnalysisResult> {
+    const id = randomUUID();
+    const model = options.model ?? BOP_CONFIG.agentModel;
+    const startedAt = new Date();
+    const startedMs = performance.now();
+    const recordedTrigger = { ...trigger, context: triggerContext };
+    this.metrics?.analysesStarted.inc();
+    this.emit('analysis_started', { id, trigger: recordedTrigger, startedAt: startedAt.toISOString() });
+    const finish = (result: AnalysisResult, error?: string) => {
+      const durationMs = performance.now() - startedMs;
+      this.metrics?.analysisDuration.observe(durationMs / 1000);
+      this.budget?.record(result.costUsd);
+      const record: AnalysisRecord = {
+        id,
+        trigger: recordedTrigger,
+        status: error === undefined ? 'completed' : 'failed',
+        startedAt: startedAt.toISOString(),
+        completedAt: new Date().toISOString(),
+        durationMs: Math.round(durationMs),
+        model,
+        ...result,
+        ...(error !== undefined && { error }),
+      };
+      this.analysisLog?.record(record);
+      this.emit('analysis_finished', record);
+    };
 
-        case 'system':
-          // System messages (init, MCP connection status, etc.)
-          if (message.subtype === 'init') {
-            console.log('[Agent] Session initialized');
-          }
-          break;
-      }
+    let result: AnalysisResult;
+    try {
+      result = await this.engine.run({ prompt: triggerContext, model, trigger, onText: options.onText });
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      this.status.lastError = { message, at: new Date() };
+      this.metrics?.analysesFailed.inc();
+      finish({ text: '', toolsUsed: [] }, message);
+      throw err;
     }
 
-    return {
-      text: outputParts.join('\n'),
-      toolsUsed: [...new Set(toolsUsed)],
-      costUsd,
-    };
+    this.status.lastSuccessAt = new Date();
+    this.metrics?.analysesCompleted.inc();
+    if (result.costUsd) this.metrics?.analysisCostUsd.inc(undefined, result.costUsd);
+    finish(result);
+    return result;
+  }
+
+  getStatus(): AgentStatus {
+    return { ...this.status };
   }
 
   /**
    * Streaming analysis using AsyncIterable input.
    * This enables a long-lived agent that receives sensor events continuously.
-   * Each yielded message becomes a new user turn in the conversation.
+   * Each yielded message becomes a new user turn in the conversation;
+   * the promise settles once the generator ends and the last turn is done.
    */
   async analyzeStreaming(
-    messageGenerator: AsyncIterable<SDKUserMessage>
+    messageGenerator: AsyncIterable<SDKUserMessage>,
+    options: StreamingOptions = {}
   ): Promise<void> {
     for await (const message of query({
       prompt: messageGenerator,
       options: {
         systemPrompt: BOP_SYSTEM_PROMPT,
-        model: BOP_CONFIG.agentModel,
-        mcpServers: { 'bop-tools': this.mcpServer },
-        allowedTools: [
-          'mcp__bop-tools__get_sensor_data',
-          'mcp__bop-tools__get_sensor_history',
-          'mcp__bop-tools__get_bop_status',
-          'mcp__bop-tools__send_alert',
-          'mcp__bop-tools__log_recommendation',
-        ],
+        model: options.model ?? BOP_CONFIG.agentModel,
+        mcpServers: { 'bop-tools': this.mcpServer, ...options.mcpServers },
+        allowedTools: [...BOP_ALLOWED_TOOLS, SUBMIT_FINDINGS_TOOL],
         permissionMode: 'bypassPermissions',
         maxTurns: 250,
       },
     })) {
-      if (message.type === 'assistant') {
+      if (options.onMessage) {
+        options.onMessage(message);
+      } else if (message.type === 'assistant') {
         for (const block of message.message.content) {
           if ('text' in block && block.text) {
             console.log('[Agent]', block.text);
@@ -1,8 +1,11 @@
 import { tool, createSdkMcpServer } from '@anthropic-ai/claude-agent-sdk';
+import type { SdkMcpToolDefinition } from '@anthropic-ai/claude-agent-sdk';
 import { z } from 'zod';
 import { SensorStateManager } from './sensor-state.js';
-import { PIRestClient } from './pi-rest-client.js';
+import { PIRestClient, PIRequestError } from './pi-rest-client.js';
+import { decodePIValue } from './pi-channel-client.js';
 import { AlertManager } from './alert-manager.js';
+import { IncidentMemory } from './incident-memory.js';
 
 /**
  * Creates the in-process MCP server with all BOP monitoring tools.
@@ -16,13 +19,34 @@ import { AlertManager } from './alert-manager.js';
 export function createBOPToolsServer(
   sensorState: SensorStateManager,
   piRest: PIRestClient,
-  alertManager: AlertManager
+  alertManager: AlertManager,
+  incidents: IncidentMemory
 ) {
+  return createSdkMcpServer({
+    name: 'bop-tools',
+    version: '1.0.0',
+    tools: createBOPTools(sensorState, piRest, alertManager, incidents),
+  });
+}
+
+/**
+ * The BOP monitoring tool definitions, name and handler included, for
+ * callers that dispatch tool calls themselves (the scripted engine).
+ */
+export function createBOPTools(
+  sensorState: SensorStateManager,
+  piRest: PIRestClient,
+  alertManager: AlertManager,
+  incidents: IncidentMemory
+): SdkMcpToolDefinition<any>[] {
   // -- Tool: get_sensor_data --
   const getSensorData = tool(
     'get_sensor_data',
     'Get current real-time values for one or more BOP sensor tags. ' +
       'Returns latest value, timestamp, unit, and data quality for each tag. ' +
+      'Non-numeric tags also report valueType (boolean, string or digital); ' +
+      'digital states give the state name as value plus its stateCode. ' +
+      'Tags with no live sample yet are read from the PI snapshot instead (source: "pi_snapshot"). ' +
       'Use to check accumulator pressure, ram positions, flow rates, wellbore pressures, etc. ' +
       'Tags follow naming convention: BOP.ACC.PRESS.SYS, BOP.ANN01.POS, WELL.FLOW.DELTA',
     {
@@ -35,6 +59,33 @@ export function createBOPToolsServer(
       for (const tag of args.tags) {
         results[tag] = sensorState.getCurrentValue(tag);
       }
+
+      // Nothing has arrived on the channel yet (just started, or a quiet
+      // exception-reported tag): fall back to the snapshot on the PI server
+      const waiting = args.tags.filter((tag) => sensorState.getWebId(tag) && !sensorState.hasSamples(tag));
+      if (waiting.length > 0) {
+        try {
+          const snapshot = await piRest.getStreamValues(waiting.map((tag) => sensorState.getWebId(tag)!));
+          for (const tag of waiting) {
+            const item = snapshot.get(sensorState.getWebId(tag)!);
+            if (!item) continue;
+            const { value, stateCode } = decodePIValue(item.Value);
+            const valueType = stateCode !== undefined ? 'digital' : typeof value;
+            results[tag] = {
+              ...(results[tag] as Record<string, unknown>),
+              value,
+              ...(valueType !== 'number' && { valueType }),
+              ...(stateCode !== undefined && { stateCode }),
+              timestamp: item.Timestamp,
+              good: item.Good,
+              source: 'pi_snapshot',
+            };
+          }
+        } catch (err: any) {
+          console.warn(`[Tools] Could not read the PI snapshot for ${waiting.join(', ')}: ${err.message}`);
+        }
+      }
+
       return {
         content: [{ type: 'text' as const, text: JSON.stringify(results, null, 2) }],
       };
@@ -72,7 +123,7 @@ export function createBOPToolsServer(
         };
       } catch (err: any) {
         return {
-          content: [{ type: 'text' as const, text: `PI query error: ${err.message}` }],
+          content: [{ type: 'text' as const, text: `PI query error: ${describePIError(err)}` }],
         };
       }
     }
@@ -84,11 +135,15 @@ export function createBOPToolsServer(
     'Get a comprehensive snapshot of the entire BOP system. ' +
       'Returns current values for ALL monitored parameters organized by subsystem: ' +
       'accumulator, annular, rams, choke/kill, wellbore, control system. ' +
-      'Also includes any active alerts and recent test results.',
+      'Also includes active (open or acknowledged) alerts with their ids and states, ' +
+      'and any tags whose instrumentation is DEGRADED or FAILED.',
     {}, // No input parameters needed
     async () => {
       const snapshot = sensorState.getFullSnapshot();
-      const activeAlerts = alertManager.getActiveAlerts();
+      const activeAlerts = await alertManager.getActiveAlerts();
+      const instrumentation = sensorState
+        .getInstrumentHealth()
+        .filter((h) => h.status !== 'OK');
       return {
         content: [
           {
@@ -98,6 +153,7 @@ export function createBOPToolsServer(
                 timestamp: new Date().toISOString(),
                 sensors: snapshot,
                 activeAlerts: activeAlerts.slice(-10),
+                instrumentation,
               },
               null,
               2
@@ -108,6 +164,50 @@ export function createBOPToolsServer(
     }
   );
 
+  // -- Tool: get_instrument_health --
+  const getInstrumentHealth = tool(
+    'get_instrument_health',
+    'Get data-quality health for BOP sensor tags: the share of bad, questionable and ' +
+      'substituted samples over the recent window, and a status of OK, DEGRADED or FAILED. ' +
+      'Check this before treating an abnormal reading as a real process or well-control event — ' +
+      'a failed transmitter or interface can look like one. Bad samples are never evaluated ' +
+      'against thresholds.',
+    {
+      tags: z
+        .array(z.string())
+        .optional()
+        .describe('PI tag names to check. Defaults to all monitored tags.'),
+    },
+    async (args) => {
+      const health = sensorState.getInstrumentHealth(args.tags);
+      return {
+        content: [{ type: 'text' as const, text: JSON.stringify(health, null, 2) }],
+      };
+    }
+  );
+
+  // -- Tool: get_sensor_liveness --
+  const getSensorLiveness = tool(
+    'get_sensor_liveness',
+    'Check whether BOP sensor tags are alive. STALE: no samples received within the max age ' +
+      '(dead transmitter or interface). FLATLINE: samples arrive but the value is frozen — its ' +
+      'standard deviation over the window is below the expected noise floor. ' +
+      'Use this to tell "pressure is stable" apart from "sensor is dead" before drawing conclusions ' +
+      'from an unchanging reading.',
+    {
+      tags: z
+        .array(z.string())
+        .optional()
+        .describe('PI tag names to check. Defaults to all monitored tags.'),
+    },
+    async (args) => {
+      const liveness = sensorState.getSensorLiveness(args.tags);
+      return {
+        content: [{ type: 'text' as const, text: JSON.stringify(liveness, null, 2) }],
+      };
+    }
+  );
+
   // -- Tool: send_alert --
   const sendAlert = tool(
     'send_alert',
@@ -115,7 +215,9 @@ export function createBOPToolsServer(
       'CRITICAL: immediate-action (BOP cannot function, active well control event). ' +
       'WARNING: degraded condition requiring attention within 1-4 hours. ' +
       'INFO: trend observations and routine status. ' +
-      'Every alert MUST include a clear description and specific recommended action.',
+      'Every alert MUST include a clear description and specific recommended action. ' +
+      'List the breaching PI tags so the alert auto-resolves once they return to normal. ' +
+      'Repeats of an active alert (same severity, components and tags) are de-duplicated.',
     {
       severity: z.enum(['CRITICAL', 'WARNING', 'INFO']).describe('Alert severity level'),
       title: z.string().max(100).describe('Short alert title'),
@@ -124,6 +226,10 @@ export function createBOPToolsServer(
         .array(z.string())
         .optional()
         .describe('BOP components affected, e.g. ["Accumulator", "Annular Preventer #1"]'),
+      tags: z
+        .array(z.string())
+        .optional()
+        .describe('PI tags involved in the condition, e.g. ["BOP.ACC.PRESS.SYS"]'),
       recommendedAction: z
         .string()
         .describe('Specific recommended action for the drilling crew'),
@@ -134,6 +240,7 @@ export function createBOPToolsServer(
         title: args.title,
         description: args.description,
         affectedComponents: args.affectedComponents,
+        tags: args.tags,
         recommendedAction: args.recommendedAction,
         timestamp: new Date().toISOString(),
       });
@@ -176,10 +283,82 @@ export function createBOPToolsServer(
     }
   );
 
-  // -- Bundle into MCP server --
-  return createSdkMcpServer({
-    name: 'bop-tools',
-    version: '1.0.0',
-    tools: [getSensorData, getSensorHistory, getBopStatus, sendAlert, logRecommendation],
-  });
+  // -- Tool: get_incident_history --
+  const getIncidentHistory = tool(
+    'get_incident_history',
+    'Get incidents from earlier in this monitoring run: breaches, alerts and analysis conclusions ' +
+      'grouped per subsystem and time. Each incident lists its active breaches, alert IDs, the ' +
+      'conclusions of earlier analyses and a timeline of events. Check it before concluding on, or ' +
+      'alerting about, a subsystem that already has an incident, so the analysis stays consistent ' +
+      'with what was found before. Give an incidentId from the prompt for one incident.',
+    {
+      incidentId: z.string().optional().describe('Incident ID, e.g. "INC-3"'),
+      subsystem: z
+        .string()
+        .optional()
+        .describe('Subsystem, e.g. "BOP.ACC", "BOP.RAM" or "WELL"'),
+      tag: z.string().optional().describe('Only incidents involving this PI tag'),
+      status: z.enum(['OPEN', 'RESOLVED']).optional().describe('Only open or resolved incidents'),
+      limit: z.number().optional().describe('Most recent incidents to return. Defaults to 5.'),
+    },
+    async (args) => {
+      if (args.incidentId) {
+        const incident = incidents.get(args.incidentId);
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: incident ? JSON.stringify(incident, null, 2) : `No incident ${args.incidentId}.`,
+            },
+          ],
+        };
+      }
+      const matches = incidents.query({
+        subsystem: args.subsystem,
+        tag: args.tag,
+        status: args.status,
+        limit: args.limit || 5,
+      });
+      return {
+        content: [
+          {
+            type: 'text' as const,
+            text: matches.length > 0 ? JSON.stringify(matches, null, 2) : 'No matching incidents.',
+          },
+        ],
+      };
+    }
+  );
+
+  return [
+    getSensorData,
+    getSensorHistory,
+    getBopStatus,
+    getInstrumentHealth,
+    getSensorLiveness,
+    sendAlert,
+    logRecommendation,
+    getIncidentHistory,
+  ];
+}
+
+/** What went wrong with a PI REST call, plus what Claude can usefully do about it. */
+function describePIError(err: any): string {
+  if (!(err instanceof PIRequestError)) return err.message;
+  switch (err.code) {
+    case 'CIRCUIT_OPEN':
+      return `${err.message}. History is unavailable for now; use get_sensor_data for live values and do not retry this query in the current analysis.`;
+    case 'TIMEOUT':
+      return `${err.message}. The PI server is slow to respond; try a shorter time range or smaller maxCount, or use get_sensor_data for live values.`;
+    case 'NETWORK':
+      return `${err.message}. The PI server is unreachable; use get_sensor_data for live values.`;
+    case 'NOT_FOUND':
+      return `${err.message}. The tag has no recorded data on the PI server; check the tag name.`;
+    case 'AUTH':
+      return `${err.message}. The monitor's PI credentials were rejected; this needs operator attention, not a retry.`;
+    default:
+      return err.transient
+        ? `${err.message}. The PI server reported a temporary error; the query may succeed later.`
+        : `${err.message}. Check the time range syntax (e.g. "*-1h") and maxCount.`;
+  }
 }
@@ -0,0 +1,124 @@
+import readline from 'readline/promises';
+
+/**
+ * Terminal chat with a running BOP monitoring agent. Each line typed is
+ * POSTed to /chat, and the answer is printed as the agent writes it.
+ */
+
+interface ChatCliConfig {
+  url: string;
+  /** Bearer token from OPERATOR_TOKENS; the agent records questions against its operator */
+  token: string;
+}
+
+function parseArgs(): ChatCliConfig {
+  let url = process.env.AGENT_URL || `http://localhost:${process.env.HEALTH_PORT || 8080}`;
+  let token = process.env.OPERATOR_TOKEN || '';
+
+  for (const arg of process.argv.slice(2)) {
+    if (arg.startsWith('--url=')) {
+      url = arg.slice('--url='.length);
+    } else if (arg.startsWith('--token=')) {
+      token = arg.slice('--token='.length);
+    } else if (arg === '--help' || arg === '-h') {
+      printUsage();
+      process.exit(0);
+    }
+  }
+
+  if (!token) {
+    console.error('An operator token is required (--token=TOKEN or OPERATOR_TOKEN)');
+    process.exit(1);
+  }
+  return { url: url.replace(/\/$/, ''), token };
+}
+
+function printUsage(): void {
+  console.log(`
+BOP agent chat — ask the monitoring agent questions from a terminal
+
+Usage:
+  bun run chat [options]
+
+Options:
+  --url=URL           Agent HTTP address (default: http://localhost:8080, env: AGENT_URL / HEALTH_PORT)
+  --token=TOKEN       Your operator token from OPERATOR_TOKENS (env: OPERATOR_TOKEN)
+  -h, --help          Show this help
+
+Type a question and press Enter. "exit" or Ctrl-D quits.
+`);
+}
+
+/** Server-Sent Events from a streamed response body */
+async function* readEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<{ event: string; data: any }> {
+  const decoder = new TextDecoder();
+  const reader = body.getReader();
+  let buffer = '';
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) return;
+    buffer += decoder.decode(value, { stream: true });
+    let end: number;
+    while ((end = buffer.indexOf('\n\n')) !== -1) {
+      const frame = buffer.slice(0, end);
+      buffer = buffer.slice(end + 2);
+      const event = frame.match(/^event: (.*)$/m)?.[1] ?? 'message';
+      const data = frame.match(/^data: (.*)$/m)?.[1];
+      if (data !== undefined) yield { event, data: JSON.parse(data) };
+    }
+  }
+}
+
+async function ask(config: ChatCliConfig, question: string): Promise<void> {
+  const res = await fetch(`${config.url}/chat`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${config.token}` },
+    body: JSON.stringify({ question }),
+  });
+  if (!res.ok || !res.body) {
+    const body = await res.json().catch(() => ({}));
+    console.error(`Error: ${body.error ?? `HTTP ${res.status}`}`);
+    return;
+  }
+
+  for await (const { event, data } of readEvents(res.body)) {
+    switch (event) {
+      case 'accepted':
+        if (data.queued) console.log('(waiting for the analyses ahead of it)');
+        break;
+      case 'text':
+        console.log(`\n${data.text}`);
+        break;
+      case 'answer':
+        console.log(`\n[Tools used: ${data.toolsUsed.join(', ') || 'none'}]\n`);
+        break;
+      case 'error':
+        console.error(`\nError: ${data.error}\n`);
+        break;
+    }
+  }
+}
+
+async function main(): Promise<void> {
+  const config = parseArgs();
+  console.log(`BOP agent chat — ${config.url}. "exit" quits.\n`);
+  const rl = readline.createInterface({ input: process.stdin, output: process.stdout });
+  rl.on('close', () => process.exit(0));
+
+  while (true) {
+    const question = (await rl.question('> ')).trim();
+    if (question === 'exit' || question === 'quit') break;
+    if (!question) continue;
+    try {
+      await ask(config, question);
+    } catch (err) {
+      console.error(`Error: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }
+  rl.close();
+}
+
+main().catch((err) => {
+  console.error('Fatal error:', err);
+  process.exit(1);
+});
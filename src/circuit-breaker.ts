@@ -0,0 +1,91 @@
+export type CircuitState = 'CLOSED' | 'OPEN' | 'HALF_OPEN';
+
+export interface CircuitBreakerOptions {
+  /** Consecutive failures that open the circuit */
+  failureThreshold: number;
+  /** How long the circuit stays open before one trial request is let through */
+  resetTimeoutMs: number;
+}
+
+export interface CircuitBreakerStatus {
+  state: CircuitState;
+  consecutiveFailures: number;
+  openedAt: string | null;
+  /** When the next trial request is allowed, while OPEN */
+  retryAt: string | null;
+  lastError: string | null;
+}
+
+/**
+ * Fails fast after repeated errors. CLOSED lets everything through; after
+ * `failureThreshold` consecutive failures it goes OPEN and rejects calls
+ * until `resetTimeoutMs` has passed, then HALF_OPEN lets a single trial
+ * through — success closes the circuit, failure opens it again.
+ */
+export class CircuitBreaker {
+  private state: CircuitState = 'CLOSED';
+  private failures = 0;
+  private openedAt: number | null = null;
+  private trialInFlight = false;
+  private lastError: string | null = null;
+
+  constructor(
+    private name: string,
+    private options: CircuitBreakerOptions
+  ) {}
+
+  /** Whether a call may proceed now. Claims the trial slot when half-open. */
+  allow(now = Date.now()): boolean {
+    if (this.state === 'OPEN' && now - this.openedAt! >= this.options.resetTimeoutMs) {
+      this.transition('HALF_OPEN');
+    }
+    if (this.state === 'CLOSED') return true;
+    if (this.state === 'HALF_OPEN' && !this.trialInFlight) {
+      this.trialInFlight = true;
+      return true;
+    }
+    return false;
+  }
+
+  recordSuccess(): void {
+    this.failures = 0;
+    this.trialInFlight = false;
+    if (this.state !== 'CLOSED') {
+      this.openedAt = null;
+      this.transition('CLOSED');
+    }
+  }
+
+  recordFailure(error: string, now = Date.now()): void {
+    this.failures++;
+    this.lastError = error;
+    this.trialInFlight = false;
+    if (this.state === 'HALF_OPEN' || (this.state === 'CLOSED' && this.failures >= this.options.failureThreshold)) {
+      this.openedAt = now;
+      this.transition('OPEN');
+    }
+  }
+
+  /** Milliseconds until a trial request is allowed; 0 unless OPEN. */
+  retryInMs(now = Date.now()): number {
+    if (this.state !== 'OPEN') return 0;
+    return Math.max(0, this.openedAt! + this.options.resetTimeoutMs - now);
+  }
+
+  getStatus(): CircuitBreakerStatus {
+    return {
+      state: this.state,
+      consecutiveFailures: this.failures,
+      openedAt: this.openedAt !== null ? new Date(this.openedAt).toISOString() : null,
+      retryAt:
+        this.state === 'OPEN' ? new Date(this.openedAt! + this.options.resetTimeoutMs).toISOString() : null,
+      lastError: this.lastError,
+    };
+  }
+
+  private transition(next: CircuitState): void {
+    const detail = next === 'OPEN' ? ` after ${this.failures} consecutive failures: ${this.lastError}` : '';
+    console.log(`[${this.name}] Circuit ${this.state} → ${next}${detail}`);
+    this.state = next;
+  }
+}
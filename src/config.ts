@@ -1,26 +1,84 @@
 import 'dotenv/config';
 import { z } from 'zod';
+import type { PIAuthConfig } from './pi-auth.js';
 
-const piEnvSchema = z.object({
-  PI_SERVER: z.string().min(1, 'PI_SERVER is required'),
-  PI_DATA_ARCHIVE: z.string().min(1, 'PI_DATA_ARCHIVE is required'),
-  PI_USERNAME: z.string().min(1, 'PI_USERNAME is required'),
-  PI_PASSWORD: z.string().min(1, 'PI_PASSWORD is required'),
-});
+// Credentials each PI_AUTH_MODE needs
+const AUTH_MODE_REQUIRES = {
+  basic: ['PI_USERNAME', 'PI_PASSWORD'],
+  bearer: ['PI_BEARER_TOKEN'],
+  client_credentials: ['PI_OAUTH_TOKEN_URL', 'PI_OAUTH_CLIENT_ID', 'PI_OAUTH_CLIENT_SECRET'],
+} as const;
+
+const piEnvSchema = z
+  .object({
+    PI_SERVER: z.string().min(1, 'PI_SERVER is required'),
+    PI_DATA_ARCHIVE: z.string().min(1, 'PI_DATA_ARCHIVE is required'),
+    PI_AUTH_MODE: z.enum(['basic', 'bearer', 'client_credentials']).default('basic'),
+    PI_USERNAME: z.string().optional(),
+    PI_PASSWORD: z.string().optional(),
+    PI_BEARER_TOKEN: z.string().optional(),
+    PI_OAUTH_TOKEN_URL: z.string().url().optional(),
+    PI_OAUTH_CLIENT_ID: z.string().optional(),
+    PI_OAUTH_CLIENT_SECRET: z.string().optional(),
+    PI_OAUTH_SCOPE: z.string().optional(),
+  })
+  .superRefine((env, ctx) => {
+    for (const name of AUTH_MODE_REQUIRES[env.PI_AUTH_MODE]) {
+      if (!env[name]) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: [name],
+          message: `${name} is required when PI_AUTH_MODE=${env.PI_AUTH_MODE}`,
+        });
+      }
+    }
+  });
 
 const piEnv = piEnvSchema.parse({
   PI_SERVER: process.env.PI_SERVER,
   PI_DATA_ARCHIVE: process.env.PI_DATA_ARCHIVE,
-  PI_USERNAME: process.env.PI_USERNAME,
-  PI_PASSWORD: process.env.PI_PASSWORD,
+  PI_AUTH_MODE: process.env.PI_AUTH_MODE || undefined,
+  PI_USERNAME: process.env.PI_USERNAME || undefined,
+  PI_PASSWORD: process.env.PI_PASSWORD || undefined,
+  PI_BEARER_TOKEN: process.env.PI_BEARER_TOKEN || undefined,
+  PI_OAUTH_TOKEN_URL: process.env.PI_OAUTH_TOKEN_URL || undefined,
+  PI_OAUTH_CLIENT_ID: process.env.PI_OAUTH_CLIENT_ID || undefined,
+  PI_OAUTH_CLIENT_SECRET: process.env.PI_OAUTH_CLIENT_SECRET || undefined,
+  PI_OAUTH_SCOPE: process.env.PI_OAUTH_SCOPE || undefined,
 });
 
 export const PI_CONFIG = {
   server: piEnv.PI_SERVER,
   dataArchive: piEnv.PI_DATA_ARCHIVE,
-  username: piEnv.PI_USERNAME,
-  password: piEnv.PI_PASSWORD,
   rejectUnauthorized: process.env.PI_REJECT_UNAUTHORIZED !== 'false',
+  // AF element whose PI Point attributes are monitored, e.g. \\Server\DB\Rig01\BOP;
+  // when set it replaces MONITORED_TAGS / the tags section of THRESHOLD_CONFIG
+  afElementPath: process.env.PI_AF_ELEMENT_PATH || '',
+};
+
+/** How the REST and WebSocket clients authenticate to PI Web API (PI_AUTH_MODE) */
+export const PI_AUTH_CONFIG: PIAuthConfig =
+  piEnv.PI_AUTH_MODE === 'bearer'
+    ? { mode: 'bearer', token: piEnv.PI_BEARER_TOKEN! }
+    : piEnv.PI_AUTH_MODE === 'client_credentials'
+      ? {
+          mode: 'client_credentials',
+          tokenUrl: piEnv.PI_OAUTH_TOKEN_URL!,
+          clientId: piEnv.PI_OAUTH_CLIENT_ID!,
+          clientSecret: piEnv.PI_OAUTH_CLIENT_SECRET!,
+          scope: piEnv.PI_OAUTH_SCOPE,
+          rejectUnauthorized: PI_CONFIG.rejectUnauthorized,
+        }
+      : { mode: 'basic', username: piEnv.PI_USERNAME!, password: piEnv.PI_PASSWORD! };
+
+/** Timeouts, retries and circuit breaker for PI Web API REST calls */
+export const PI_REQUEST_CONFIG = {
+  timeoutMs: Number(process.env.PI_TIMEOUT_MS || 10000),
+  retries: Number(process.env.PI_RETRIES || 3),
+  retryInitialDelayMs: Number(process.env.PI_RETRY_DELAY_MS || 500),
+  retryMaxDelayMs: Number(process.env.PI_RETRY_MAX_DELAY_MS || 5000),
+  breakerFailureThreshold: Number(process.env.PI_BREAKER_THRESHOLD || 5),
+  breakerResetMs: Number(process.env.PI_BREAKER_RESET_MS || 30000),
 };
 
 export const BOP_CONFIG = {
@@ -28,6 +86,111 @@ export const BOP_CONFIG = {
   masp: Number(process.env.MASP || 12500),
   analysisIntervalMs: Number(process.env.ANALYSIS_INTERVAL_MS || 300000),
   agentModel: process.env.AGENT_MODEL || 'sonnet',
+  /**
+   * 'sdk': a fresh Agent SDK query() per analysis. 'session': one long-lived
+   * conversation (AGENT_SESSION_CONFIG). 'scripted': offline playbook, no LLM calls
+   */
+  agentEngine: z.enum(['sdk', 'session', 'scripted']).parse(process.env.AGENT_ENGINE || 'sdk'),
+};
+
+export const AGENT_SESSION_CONFIG = {
+  maxTurns: Number(process.env.SESSION_MAX_TURNS || 50),
+  /** 0 leaves compaction to the SDK */
+  compactAtTokens: Number(process.env.SESSION_COMPACT_TOKENS || 100000),
+  maxContextTokens: Number(process.env.SESSION_MAX_TOKENS || 150000),
+  turnTimeoutMs: Number(process.env.SESSION_TURN_TIMEOUT_MS || 600000),
+};
+
+export const INCIDENT_MEMORY_CONFIG = {
+  /** Activity in a subsystem within this long of its last incident joins that incident */
+  mergeWindowMs: Number(process.env.INCIDENT_MERGE_WINDOW_MS || 1800000),
+  /** Quiet time, with every breach cleared, before an incident is resolved */
+  resolveAfterMs: Number(process.env.INCIDENT_RESOLVE_AFTER_MS || 600000),
+};
+
+export const OPERATOR_CHAT_CONFIG = {
+  /** Append-only audit trail of operator questions and answers (JSONL) */
+  auditFile: process.env.CHAT_AUDIT_FILE || './data/operator-chat.jsonl',
+};
+
+/** OPERATOR_TOKENS="driller-1:<token>,toolpusher:<token>" → operator name → token */
+function parseOperatorTokens(value: string): Record<string, string> {
+  const tokens: Record<string, string> = {};
+  for (const [i, entry] of value.split(',').entries()) {
+    if (!entry.trim()) continue;
+    const sep = entry.indexOf(':');
+    const name = entry.slice(0, sep).trim();
+    const token = entry.slice(sep + 1).trim();
+    if (sep === -1 || !name || !token) {
+      throw new Error(`OPERATOR_TOKENS entry ${i + 1} must be "name:token"`);
+    }
+    tokens[name] = token;
+  }
+  return tokens;
+}
+
+export const OPERATOR_AUTH_CONFIG = {
+  /**
+   * Bearer tokens for the alert actions and /chat. A request acts as the
+   * operator its token belongs to; with no tokens configured those routes
+   * refuse everything.
+   */
+  tokens: parseOperatorTokens(process.env.OPERATOR_TOKENS || ''),
+};
+
+export const ANALYSIS_SCHEDULER_CONFIG = {
+  maxConcurrent: Number(process.env.ANALYSIS_CONCURRENCY || 1),
+  maxQueued: Number(process.env.ANALYSIS_QUEUE_MAX || 20),
+  /** CRITICAL breaches may run one analysis above the concurrency limit */
+  criticalFastPath: process.env.ANALYSIS_CRITICAL_FAST_PATH !== 'false',
+};
+
+export const ANALYSIS_BUDGET_CONFIG = {
+  /** Rolling LLM spend limits in USD; 0 disables a limit */
+  hourlyUsd: Number(process.env.BUDGET_HOURLY_USD || 0),
+  dailyUsd: Number(process.env.BUDGET_DAILY_USD || 0),
+  maxAnalysesPerHour: Number(process.env.BUDGET_MAX_ANALYSES_PER_HOUR || 0),
+  warnRatio: Number(process.env.BUDGET_WARN_RATIO || 0.8),
+  fallbackModel: process.env.BUDGET_FALLBACK_MODEL ?? 'haiku',
+};
+
+export const ALERT_STORE_CONFIG = {
+  backend: z
+    .enum(['memory', 'jsonl', 'postgres'])
+    .parse(process.env.ALERT_STORE || 'jsonl'),
+  dir: process.env.ALERT_STORE_DIR || './data',
+  databaseUrl: process.env.ALERT_DATABASE_URL,
+};
+
+export const ALERT_LIFECYCLE_CONFIG = {
+  autoResolveAfterMs: Number(process.env.ALERT_AUTO_RESOLVE_MS || 300000),
+  escalationIntervalMs: Number(process.env.ALERT_ESCALATION_MS || 120000),
+  checkIntervalMs: Number(process.env.ALERT_CHECK_INTERVAL_MS || 10000),
+  dedupWindowMs: Number(process.env.ALERT_DEDUP_WINDOW_MS || 600000),
+};
+
+export const SENSOR_LIVENESS_CONFIG = {
+  /** A tag with no sample for this long is stale (0 disables); rules can override with maxAgeSec */
+  maxAgeMs: Number(process.env.SENSOR_MAX_AGE_MS || 120000),
+  checkIntervalMs: Number(process.env.SENSOR_LIVENESS_CHECK_MS || 10000),
+};
+
+export const THRESHOLD_CONFIG = {
+  /**
+   * JSON or YAML file with { tags, rules }; replaces MONITORED_TAGS and
+   * THRESHOLD_RULES below and is reloaded on change or SIGHUP
+   */
+  file: process.env.THRESHOLD_CONFIG || undefined,
+};
+
+export const LIVE_EVENTS_CONFIG = {
+  /** Sensor snapshots on GET /events are pushed at most this often (0 disables) */
+  sensorIntervalMs: Number(process.env.EVENTS_SENSOR_INTERVAL_MS || 5000),
+};
+
+export const NOTIFICATION_CONFIG = {
+  /** JSON file listing webhook / SMTP / syslog sinks; notifications are console-only without it */
+  file: process.env.NOTIFICATION_CONFIG || undefined,
 };
 
 // PI tag name → unit mapping
@@ -71,6 +234,23 @@ export const MONITORED_TAGS: Record<string, string> = {
   'WELL.PIT.VOL.DELTA': 'bbl',
 };
 
+/** Alarm on a discrete value (boolean, string, digital-state name or status code) */
+export interface StateMatch {
+  /** Strings compare case-insensitively */
+  equals: string | boolean | number;
+  level: 'CRITICAL' | 'WARNING';
+  /** 'state' (default) alarms while the value equals it; 'transition' fires once on changing into it */
+  on?: 'state' | 'transition';
+}
+
+/**
+ * What to do with samples PI flags as not Good:
+ * - skip: ignore them for threshold evaluation
+ * - hold: keep reporting the last good value
+ * - instrument_fault: ignore them and raise an instrument-fault alert
+ */
+export type QualityPolicy = 'skip' | 'hold' | 'instrument_fault';
+
 export interface ThresholdRule {
   tag: string;
   warningLow?: number;
@@ -78,13 +258,42 @@ export interface ThresholdRule {
   criticalLow?: number;
   criticalHigh?: number;
   rateOfChangePer5Min?: number;
+  /**
+   * Hysteresis for clearing: once breached, the value must come back this far
+   * inside the limit (in the tag's units) before the breach clears.
+   */
+  deadband?: number;
+  /** On-delay: the condition must persist this many seconds before it is raised */
+  onDelaySec?: number;
+  /** On-delay: at least `count` of the last `outOf` samples must be in breach */
+  onDelaySamples?: { count: number; outOf: number };
+  states?: StateMatch[];
+  /** Defaults to 'skip' */
+  qualityPolicy?: QualityPolicy;
+  /** Stale after this many seconds without a sample (overrides SENSOR_MAX_AGE_MS, 0 disables) */
+  maxAgeSec?: number;
+  /**
+   * Frozen-value detection: flatlined when the standard deviation of good
+   * samples over the last `windowSec` is below `minStdDev` (tag units).
+   * The window must fit in the 300-sample history.
+   */
+  flatline?: { windowSec: number; minStdDev: number };
 }
 
 export const THRESHOLD_RULES: ThresholdRule[] = [
   // Accumulator
-  { tag: 'BOP.ACC.PRESS.SYS', warningLow: 2200, criticalLow: 1200, rateOfChangePer5Min: 200 },
-  { tag: 'BOP.ACC.PRESS.PRCHG', warningLow: 900, criticalLow: 800 },
-  { tag: 'BOP.ACC.HYD.TEMP', warningHigh: 150, criticalHigh: 180 },
+  {
+    tag: 'BOP.ACC.PRESS.SYS',
+    warningLow: 2200,
+    criticalLow: 1200,
+    rateOfChangePer5Min: 200,
+    deadband: 50,
+    onDelaySamples: { count: 3, outOf: 5 },
+    qualityPolicy: 'instrument_fault',
+    flatline: { windowSec: 120, minStdDev: 1 },
+  },
+  { tag: 'BOP.ACC.PRESS.PRCHG', warningLow: 900, criticalLow: 800, deadband: 20 },
+  { tag: 'BOP.ACC.HYD.TEMP', warningHigh: 150, criticalHigh: 180, deadband: 5 },
 
   // Close times (API 53: ≤30 seconds for rams)
   { tag: 'BOP.ANN01.CLOSETIME', warningHigh: 25, criticalHigh: 30 },
@@ -98,13 +307,39 @@ export const THRESHOLD_RULES: ThresholdRule[] = [
     warningHigh: 1600,
     criticalLow: 1300,
     criticalHigh: 1700,
+    deadband: 20,
+    onDelaySamples: { count: 3, outOf: 5 },
+    flatline: { windowSec: 120, minStdDev: 0.5 },
   },
 
   // Control pod batteries
-  { tag: 'BOP.CTRL.BATT.BLUE.VOLTS', warningLow: 7.5, criticalLow: 6.0 },
-  { tag: 'BOP.CTRL.BATT.YELLOW.VOLTS', warningLow: 7.5, criticalLow: 6.0 },
+  {
+    tag: 'BOP.CTRL.BATT.BLUE.VOLTS',
+    warningLow: 7.5,
+    criticalLow: 6.0,
+    deadband: 0.2,
+    qualityPolicy: 'hold',
+  },
+  {
+    tag: 'BOP.CTRL.BATT.YELLOW.VOLTS',
+    warningLow: 7.5,
+    criticalLow: 6.0,
+    deadband: 0.2,
+    qualityPolicy: 'hold',
+  },
 
-  // Well control indicators
-  { tag: 'WELL.PIT.VOL.DELTA', warningHigh: 5, criticalHigh: 10 },
-  { tag: 'WELL.FLOW.DELTA', warningHigh: 5, criticalHigh: 20 },
+  // Well control indicators — no on-delay, a kick must be raised on the first sample.
+  // No flatline detection: a quiet, healthy well holds these deltas steady near zero
+  {
+    tag: 'WELL.PIT.VOL.DELTA',
+    warningHigh: 5,
+    criticalHigh: 10,
+    qualityPolicy: 'instrument_fault',
+  },
+  {
+    tag: 'WELL.FLOW.DELTA',
+    warningHigh: 5,
+    criticalHigh: 20,
+    qualityPolicy: 'instrument_fault',
+  },
 ];
@@ -0,0 +1,158 @@
+import http from 'http';
+
+export const EVENT_TOPICS = ['alerts', 'breaches', 'analyses', 'sensors'] as const;
+export type EventTopic = (typeof EVENT_TOPICS)[number];
+
+export interface EventStreamOptions {
+  /** Sensor snapshots are pushed at most this often, and only when they changed (0 disables) */
+  sensorIntervalMs?: number;
+  /** Comment lines sent to idle streams so proxies keep them open */
+  heartbeatMs?: number;
+  /** A client with more than this many bytes queued in its socket is too slow to keep up and is dropped */
+  maxBufferedBytes?: number;
+}
+
+export class EventTopicError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'EventTopicError';
+  }
+}
+
+/** Topics from a comma-separated `?topics=` value; all topics when absent */
+export function parseTopics(value: string | null): EventTopic[] {
+  if (!value) return [...EVENT_TOPICS];
+  const topics = value.split(',').map((t) => t.trim()).filter(Boolean);
+  const unknown = topics.filter((t) => !(EVENT_TOPICS as readonly string[]).includes(t));
+  if (unknown.length > 0) {
+    throw new EventTopicError(`Unknown topic(s): ${unknown.join(', ')} (expected ${EVENT_TOPICS.join(', ')})`);
+  }
+  return [...new Set(topics)] as EventTopic[];
+}
+
+interface Subscriber {
+  res: http.ServerResponse;
+  topics: Set<EventTopic>;
+  /** A write was refused and the socket has not drained since */
+  congested: boolean;
+}
+
+/**
+ * Server-Sent Events hub for driller's-cabin and shore displays. Each client
+ * picks its topics when it connects (GET /events?topics=alerts,sensors);
+ * events are pushed as they happen, sensor snapshots on a throttled timer.
+ *
+ * A display on a poor link must not make the agent buffer events for it
+ * without bound: a client is dropped once its queued output passes
+ * maxBufferedBytes, or when a refused write has not drained by the next
+ * heartbeat. EventSource reconnects on its own once the link recovers.
+ */
+export class EventStream {
+  private subscribers = new Set<Subscriber>();
+  private nextId = 1;
+  private sensorIntervalMs: number;
+  private heartbeatMs: number;
+  private maxBufferedBytes: number;
+  private sensorTimer: ReturnType<typeof setInterval> | null = null;
+  private heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+  private lastSnapshot: string | null = null;
+
+  constructor(
+    private getSensorSnapshot?: () => Record<string, Record<string, unknown>>,
+    options: EventStreamOptions = {}
+  ) {
+    this.sensorIntervalMs = options.sensorIntervalMs ?? 5000;
+    this.heartbeatMs = options.heartbeatMs ?? 15_000;
+    this.maxBufferedBytes = options.maxBufferedBytes ?? 1024 * 1024;
+  }
+
+  get subscriberCount(): number {
+    return this.subscribers.size;
+  }
+
+  /** Turn a request into an event stream; it stays open until the client goes away or stop() */
+  subscribe(req: http.IncomingMessage, res: http.ServerResponse, topics: EventTopic[]): void {
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+      // Disable response buffering in nginx
+      'X-Accel-Buffering': 'no',
+    });
+    const subscriber: Subscriber = { res, topics: new Set(topics), congested: false };
+    this.subscribers.add(subscriber);
+    req.on('close', () => this.subscribers.delete(subscriber));
+
+    this.write(subscriber, 'subscribed', { topics });
+    // Late joiners get the current picture straight away
+    if (subscriber.topics.has('sensors') && this.getSensorSnapshot) {
+      this.write(subscriber, 'sensor_snapshot', {
+        timestamp: new Date().toISOString(),
+        sensors: this.getSensorSnapshot(),
+      });
+    }
+  }
+
+  publish(topic: EventTopic, event: string, data: unknown): void {
+    for (const subscriber of this.subscribers) {
+      if (subscriber.topics.has(topic)) this.write(subscriber, event, data);
+    }
+  }
+
+  start(): void {
+    if (this.getSensorSnapshot && this.sensorIntervalMs > 0) {
+      this.sensorTimer = setInterval(() => this.pushSensorSnapshot(), this.sensorIntervalMs);
+    }
+    this.heartbeatTimer = setInterval(() => {
+      for (const subscriber of this.subscribers) {
+        if (subscriber.congested) this.drop(subscriber, 'has not drained since the last heartbeat');
+        else this.send(subscriber, ': heartbeat\n\n');
+      }
+    }, this.heartbeatMs);
+  }
+
+  /** Stop the timers and end every open stream */
+  stop(): void {
+    if (this.sensorTimer) clearInterval(this.sensorTimer);
+    if (this.heartbeatTimer) clearInterval(this.heartbeatTimer);
+    this.sensorTimer = null;
+    this.heartbeatTimer = null;
+    for (const { res } of this.subscribers) res.end();
+    this.subscribers.clear();
+  }
+
+  private pushSensorSnapshot(): void {
+    const hasListeners = [...this.subscribers].some((s) => s.topics.has('sensors'));
+    if (!hasListeners || !this.getSensorSnapshot) return;
+    const sensors = this.getSensorSnapshot();
+    const serialized = JSON.stringify(sensors);
+    if (serialized === this.lastSnapshot) return;
+    this.lastSnapshot = serialized;
+    this.publish('sensors', 'sensor_snapshot', { timestamp: new Date().toISOString(), sensors });
+  }
+
+  private write(subscriber: Subscriber, event: string, data: unknown): void {
+    this.send(subscriber, `id: ${this.nextId++}\nevent: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  }
+
+  private send(subscriber: Subscriber, chunk: string): void {
+    const { res } = subscriber;
+    if (!this.subscribers.has(subscriber)) return;
+    if (res.writableLength > this.maxBufferedBytes) {
+      this.drop(subscriber, `has ${res.writableLength} bytes queued`);
+      return;
+    }
+    if (!res.write(chunk) && !subscriber.congested) {
+      subscriber.congested = true;
+      res.once('drain', () => {
+        subscriber.congested = false;
+      });
+    }
+  }
+
+  private drop(subscriber: Subscriber, reason: string): void {
+    console.warn(`[EventStream] Dropping a slow client that ${reason}`);
+    this.subscribers.delete(subscriber);
+    subscriber.res.destroy();
+  }
+}
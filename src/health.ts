@@ -1,9 +1,128 @@
 import http from 'http';
+import { createHash, timingSafeEqual } from 'crypto';
+import { z } from 'zod';
+import { Alert, AlertLifecycleError, Recommendation, Shelf } from './alert-manager.js';
+import type { AlertQuery, RecommendationQuery } from './alert-store.js';
+import type { AnalysisQuery, AnalysisRecord } from './analysis-log.js';
+import { EventStream, EventTopicError, parseTopics } from './event-stream.js';
+import { BodyTooLargeError, bearerToken, readBody, sendJson, sendTooLarge } from './http-utils.js';
+import type { SensorLiveness } from './sensor-state.js';
+import type { CircuitBreakerStatus } from './circuit-breaker.js';
+import type { AgentStatus } from './bop-agent.js';
+import type { BudgetStatus } from './analysis-budget.js';
+import { AskHandlers, OperatorChatError, OperatorExchange } from './operator-chat.js';
+
+export interface TagResolution {
+  /** Tags the agent is configured to monitor */
+  configured: number;
+  /** Tags resolved to a PI WebId */
+  resolved: number;
+  unresolved: string[];
+}
 
 export interface HealthDependencies {
   isPiChannelConnected: () => boolean;
   getSensorTagCount: () => number;
   getLastSensorUpdate: () => Date | null;
+  getSensorLiveness?: () => SensorLiveness[];
+  getPiRestCircuit?: () => CircuitBreakerStatus;
+  /** LLM spend against the configured budgets; non-critical analyses are downgraded past them */
+  getBudgetStatus?: () => BudgetStatus;
+  /** Readiness: how many configured tags resolved to PI WebIds */
+  getTagResolution?: () => TagResolution;
+  /** Readiness: outcome of the agent's most recent analyses */
+  getAgentStatus?: () => AgentStatus;
+  /** Prometheus text exposition for GET /metrics */
+  getMetrics?: () => string;
+  /** Operator name → bearer token; alert actions act as the token's operator */
+  operatorTokens?: Record<string, string>;
+  acknowledgeAlert?: (id: string, by: string) => Promise<Alert>;
+  clearAlert?: (id: string, by: string) => Promise<Alert>;
+  shelveAlert?: (id: string, by: string, durationMs: number, reason: string) => Promise<Shelf>;
+  unshelveAlert?: (id: string) => Promise<boolean>;
+  /** Read-only API: GET /api/alerts, /api/recommendations, /api/analyses, /api/sensors */
+  queryAlerts?: (query: AlertQuery) => Promise<Alert[]>;
+  queryRecommendations?: (query: RecommendationQuery) => Promise<Recommendation[]>;
+  queryAnalyses?: (query: AnalysisQuery) => AnalysisRecord[];
+  getSensorSnapshot?: () => Record<string, Record<string, unknown>>;
+  /** Live push: GET /events?topics=alerts,breaches,analyses,sensors (Server-Sent Events) */
+  eventStream?: EventStream;
+  /** Operator chat: POST /chat, answered by the agent through the analysis scheduler */
+  askOperatorQuestion?: (operator: string, question: string, handlers: AskHandlers) => Promise<OperatorExchange>;
+}
+
+const ALERT_ACTION_PATTERN = /^\/alerts\/([^/]+)\/(acknowledge|clear|shelve|unshelve)$/;
+
+
+const chatQuestionSchema = z.object({
+  question: z
+    .string({ required_error: 'A question is required' })
+    .trim()
+    .min(1, 'A question is required')
+    .max(2000, 'Questions are limited to 2000 characters'),
+});
+
+const shelveActionSchema = z.object({
+  durationMinutes: z.number().positive().max(720, 'Shelving is limited to 12 hours'),
+  reason: z.string().trim().min(1, 'A shelving reason is required'),
+});
+
+/** Paging and time range shared by the list endpoints */
+const pageQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(500).default(50),
+  offset: z.coerce.number().int().min(0).default(0),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+});
+
+const alertQuerySchema = pageQuerySchema.extend({
+  severity: z.string().optional(),
+  state: z
+    .string()
+    .transform((v) => v.split(',').map((s) => s.trim().toUpperCase()))
+    .pipe(z.array(z.enum(['OPEN', 'ACKNOWLEDGED', 'CLEARED', 'RESOLVED'])))
+    .optional(),
+  tag: z.string().optional(),
+  component: z.string().optional(),
+});
+
+const recommendationQuerySchema = pageQuerySchema.extend({
+  priority: z.string().optional(),
+  category: z.string().optional(),
+  component: z.string().optional(),
+});
+
+const analysisQuerySchema = pageQuerySchema.extend({
+  trigger: z.enum(['threshold_breach', 'queued_breaches', 'periodic', 'operator_question', 'manual']).optional(),
+  status: z.enum(['completed', 'failed']).optional(),
+  tag: z.string().optional(),
+  operator: z.string().optional(),
+});
+
+interface Page<T> {
+  /** Newest first */
+  items: T[];
+  limit: number;
+  offset: number;
+  hasMore: boolean;
+}
+
+/**
+ * Run a paged query against a backend that returns the most recent matches
+ * oldest-first. One extra record is fetched to tell whether an older page exists.
+ */
+async function fetchPage<Q extends { limit: number; offset: number }, T>(
+  query: Q,
+  fetch: (query: Q) => Promise<T[]> | T[]
+): Promise<Page<T>> {
+  const items = await fetch({ ...query, limit: query.limit + 1 });
+  const hasMore = items.length > query.limit;
+  return {
+    items: (hasMore ? items.slice(1) : items).reverse(),
+    limit: query.limit,
+    offset: query.offset,
+    hasMore,
+  };
 }
 
 interface HealthResponse {
@@ -12,23 +131,112 @@ interface HealthResponse {
   timestamp: string;
   checks: {
     piChannel: { connected: boolean };
+    /** REST calls (history, tag resolution); an open circuit means they fail fast */
+    piRest?: { circuit: CircuitBreakerStatus };
+    /** EXCEEDED means non-critical analyses get rule-based summaries instead of the LLM */
+    budget?: BudgetStatus;
     sensorData: {
       tagsRegistered: number;
       lastUpdate: string | null;
       staleSec: number | null;
+      /** Tags with no recent samples */
+      staleTags: string[];
+      /** Tags whose value is frozen */
+      flatlineTags: string[];
     };
   };
 }
 
+interface LivenessResponse {
+  status: 'ok' | 'fail';
+  uptime: number;
+  timestamp: string;
+  checks: {
+    /** How late the last lag-probe timer fired; a blocked loop delays it */
+    eventLoop: { lagMs: number; maxLagMs: number };
+  };
+}
+
+interface ReadinessResponse {
+  status: 'ready' | 'not_ready';
+  timestamp: string;
+  checks: {
+    tags: TagResolution & { coverage: number; ready: boolean };
+    piChannel: { connected: boolean; lastUpdate: string | null; ready: boolean };
+    agent: { lastSuccessAt: string | null; lastError: { message: string; at: string } | null; ready: boolean };
+  };
+}
+
+export interface ProbeOptions {
+  /** /livez fails once the event loop lags more than this (default 2000ms) */
+  maxEventLoopLagMs?: number;
+  /** How often the lag probe runs (default 500ms) */
+  lagSampleIntervalMs?: number;
+}
+
 export class HealthServer {
   private server: http.Server | null = null;
   private startTime = Date.now();
   private deps: HealthDependencies;
   private port: number;
+  private maxEventLoopLagMs: number;
+  private lagSampleIntervalMs: number;
+  private lagTimer: ReturnType<typeof setTimeout> | null = null;
+  private eventLoopLagMs = 0;
 
-  constructor(deps: HealthDependencies, port = 8080) {
+  constructor(deps: HealthDependencies, port = 8080, probes: ProbeOptions = {}) {
     this.deps = deps;
     this.port = port;
+    this.maxEventLoopLagMs = probes.maxEventLoopLagMs ?? 2000;
+    this.lagSampleIntervalMs = probes.lagSampleIntervalMs ?? 500;
+  }
+
+  /**
+   * Liveness: the process is responsive. Only the event loop is checked, so a
+   * PI or Anthropic outage never gets the agent restarted.
+   */
+  getLiveness(): LivenessResponse {
+    return {
+      status: this.eventLoopLagMs > this.maxEventLoopLagMs ? 'fail' : 'ok',
+      uptime: Math.round((Date.now() - this.startTime) / 1000),
+      timestamp: new Date().toISOString(),
+      checks: { eventLoop: { lagMs: this.eventLoopLagMs, maxLagMs: this.maxEventLoopLagMs } },
+    };
+  }
+
+  /**
+   * Readiness: tags are resolved, the PI channel is streaming and the agent's
+   * last analysis reached the Claude API. Checks without a dependency pass.
+   */
+  getReadiness(): ReadinessResponse {
+    const resolution = this.deps.getTagResolution?.();
+    const tags = resolution ?? { configured: 0, resolved: 0, unresolved: [] };
+    const tagsReady = !resolution || resolution.resolved > 0;
+
+    const connected = this.deps.isPiChannelConnected();
+    const lastUpdate = this.deps.getLastSensorUpdate();
+
+    const agent = this.deps.getAgentStatus?.() ?? { lastSuccessAt: null, lastError: null };
+    // An agent error only counts until an analysis succeeds again
+    const agentReady = !agent.lastError || (!!agent.lastSuccessAt && agent.lastSuccessAt > agent.lastError.at);
+
+    return {
+      status: tagsReady && connected && agentReady ? 'ready' : 'not_ready',
+      timestamp: new Date().toISOString(),
+      checks: {
+        tags: {
+          ...tags,
+          coverage: tags.configured > 0 ? Math.round((tags.resolved / tags.configured) * 1000) / 1000 : 0,
+          ready: tagsReady,
+        },
+        piChannel: { connected, lastUpdate: lastUpdate?.toISOString() ?? null, ready: connected },
+        agent: {
+          lastSuccessAt: agent.lastSuccessAt?.toISOString() ?? null,
+          lastError: agent.lastError && { message: agent.lastError.message, at: agent.lastError.at.toISOString() },
+          ready: agentReady,
+        },
+      },
+    };
   }
 
   getStatus(): HealthResponse {
@@ -40,12 +248,23 @@ export class HealthServer {
 
     const piConnected = this.deps.isPiChannelConnected();
     const tagCount = this.deps.getSensorTagCount();
+    const liveness = this.deps.getSensorLiveness?.() ?? [];
+    const staleTags = liveness.filter((l) => l.status === 'STALE').map((l) => l.tag);
+    const flatlineTags = liveness.filter((l) => l.status === 'FLATLINE').map((l) => l.tag);
+    const circuit = this.deps.getPiRestCircuit?.();
+    const budget = this.deps.getBudgetStatus?.();
 
     let status: HealthResponse['status'] = 'healthy';
     if (!piConnected) {
       status = 'unhealthy';
     } else if (staleSec !== null && staleSec > 60) {
       status = 'degraded';
+    } else if (staleTags.length > 0 || flatlineTags.length > 0) {
+      status = 'degraded';
+    } else if (circuit && circuit.state !== 'CLOSED') {
+      status = 'degraded';
+    } else if (budget?.level === 'EXCEEDED') {
+      status = 'degraded';
     }
 
     return {
@@ -54,10 +273,14 @@ export class HealthServer {
       timestamp: now.toISOString(),
       checks: {
         piChannel: { connected: piConnected },
+        ...(circuit && { piRest: { circuit } }),
+        ...(budget && { budget }),
         sensorData: {
           tagsRegistered: tagCount,
           lastUpdate: lastUpdate?.toISOString() ?? null,
           staleSec,
+          staleTags,
+          flatlineTags,
         },
       },
     };
@@ -66,17 +289,38 @@ export class HealthServer {
   start(): Promise<void> {
     return new Promise((resolve) => {
       this.server = http.createServer((req, res) => {
-        if (req.url === '/health' && req.method === 'GET') {
+        const url = new URL(req.url ?? '/', 'http://localhost');
+        const alertAction = url.pathname.match(ALERT_ACTION_PATTERN);
+        const apiHandler = req.method === 'GET' ? this.apiHandler(url.pathname) : undefined;
+        if (url.pathname === '/health' && req.method === 'GET') {
           const health = this.getStatus();
           const code = health.status === 'unhealthy' ? 503 : 200;
           res.writeHead(code, { 'Content-Type': 'application/json' });
           res.end(JSON.stringify(health));
+        } else if (url.pathname === '/livez' && req.method === 'GET') {
+          const liveness = this.getLiveness();
+          sendJson(res, liveness.status === 'ok' ? 200 : 503, liveness);
+        } else if (url.pathname === '/readyz' && req.method === 'GET') {
+          const readiness = this.getReadiness();
+          sendJson(res, readiness.status === 'ready' ? 200 : 503, readiness);
+        } else if (url.pathname === '/metrics' && req.method === 'GET' && this.deps.getMetrics) {
+          res.writeHead(200, { 'Content-Type': 'text/plain; version=0.0.4; charset=utf-8' });
+          res.end(this.deps.getMetrics());
+        } else if (alertAction && req.method === 'POST') {
+          this.handleAlertAction(req, res, decodeURIComponent(alertAction[1]), alertAction[2]);
+        } else if (url.pathname === '/chat' && req.method === 'POST' && this.deps.askOperatorQuestion) {
+          this.handleChat(req, res);
+        } else if (url.pathname === '/events' && req.method === 'GET' && this.deps.eventStream) {
+          this.handleEventStream(req, res, url.searchParams.get('topics'));
+        } else if (apiHandler) {
+          this.handleApiRequest(res, url.searchParams, apiHandler);
         } else {
           res.writeHead(404);
           res.end();
         }
       });
 
+      this.sampleEventLoopLag();
       this.server.listen(this.port, () => {
         console.log(`[Health] Listening on port ${this.port}`);
         resolve();
@@ -84,7 +328,221 @@ export class HealthServer {
     });
   }
 
+  private handleEventStream(req: http.IncomingMessage, res: http.ServerResponse, topics: string | null): void {
+    try {
+      this.deps.eventStream!.subscribe(req, res, parseTopics(topics));
+    } catch (err) {
+      if (!(err instanceof EventTopicError)) throw err;
+      sendJson(res, 400, { error: err.message });
+    }
+  }
+
+  /** The handler for a read-only /api route, if that route's dependency is wired */
+  private apiHandler(path: string): ((params: Record<string, string>) => Promise<unknown>) | undefined {
+    const { queryAlerts, queryRecommendations, queryAnalyses, getSensorSnapshot } = this.deps;
+    switch (path) {
+      case '/api/alerts':
+        return queryAlerts && ((params) => fetchPage(alertQuerySchema.parse(params), queryAlerts));
+      case '/api/recommendations':
+        return (
+          queryRecommendations &&
+          ((params) => fetchPage(recommendationQuerySchema.parse(params), queryRecommendations))
+        );
+      case '/api/analyses':
+        return queryAnalyses && ((params) => fetchPage(analysisQuerySchema.parse(params), queryAnalyses));
+      case '/api/sensors':
+        return getSensorSnapshot && (async () => getSensorSnapshot());
+      default:
+        return undefined;
+    }
+  }
+
+  /**
+   * GET /api/alerts            ?severity, state (comma-separated), tag, component
+   * GET /api/recommendations   ?priority, category, component
+   * GET /api/analyses          ?trigger, status, tag, operator
+   * GET /api/sensors
+   *
+   * List endpoints also take from, to (ISO 8601), limit (1-500, default 50)
+   * and offset, and return newest-first pages.
+   */
+  private async handleApiRequest(
+    res: http.ServerResponse,
+    searchParams: URLSearchParams,
+    handler: (params: Record<string, string>) => Promise<unknown>
+  ): Promise<void> {
+    try {
+      sendJson(res, 200, await handler(Object.fromEntries(searchParams)));
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        sendJson(res, 400, {
+          error: err.issues.map((i) => `${i.path.join('.')}: ${i.message}`).join('; '),
+        });
+      } else {
+        console.error('[Health] API request failed:', err);
+        sendJson(res, 500, { error: 'Internal error' });
+      }
+    }
+  }
+
+  /**
+   * POST /alerts/{id}/acknowledge|clear
+   * POST /alerts/{id}/shelve              { "durationMinutes", "reason" }
+   * POST /alerts/{id}/unshelve
+   *
+   * Each needs `Authorization: Bearer <operator token>` and is recorded
+   * against that token's operator.
+   */
+  private async handleAlertAction(
+    req: http.IncomingMessage,
+    res: http.ServerResponse,
+    id: string,
+    action: string
+  ): Promise<void> {
+    const { acknowledgeAlert, clearAlert, shelveAlert, unshelveAlert } = this.deps;
+    const handlers: Record<string, ((by: string, body: unknown) => Promise<unknown>) | undefined> = {
+      acknowledge: acknowledgeAlert && ((by) => acknowledgeAlert(id, by)),
+      clear: clearAlert && ((by) => clearAlert(id, by)),
+      shelve:
+        shelveAlert &&
+        ((by, body) => {
+          const { durationMinutes, reason } = shelveActionSchema.parse(body);
+          return shelveAlert(id, by, durationMinutes * 60_000, reason);
+        }),
+      unshelve: unshelveAlert && (async () => ({ unshelved: await unshelveAlert(id) })),
+    };
+    const handler = handlers[action];
+    if (!handler) {
+      sendJson(res, 404, { error: 'Alert actions are not enabled' });
+      return;
+    }
+    const operator = this.authenticate(req, res);
+    if (!operator) return;
+
+    const parsed = await this.readJsonBody(req, res);
+    if (parsed === undefined) return;
+
+    try {
+      sendJson(res, 200, await handler(operator, parsed));
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        sendJson(res, 400, { error: err.issues.map((i) => i.message).join('; ') });
+      } else if (err instanceof AlertLifecycleError) {
+        sendJson(res, err.code === 'NOT_FOUND' ? 404 : 409, { error: err.message });
+      } else {
+        console.error('[Health] Alert action failed:', err);
+        sendJson(res, 500, { error: 'Internal error' });
+      }
+    }
+  }
+
+  /**
+   * POST /chat   { "question": "..." }, with the operator's bearer token
+   *
+   * The question is asked and audited as the token's operator.
+   * Answers as Server-Sent Events: 'accepted' ({ id, queued }) once the
+   * scheduler has the question, 'text' ({ text }) as the agent writes, then
+   * 'answer' (the audited exchange) or 'error' ({ error }). A full queue is
+   * refused with 503 before the stream starts.
+   */
+  private async handleChat(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const operator = this.authenticate(req, res);
+    if (!operator) return;
+    const parsed = await this.readJsonBody(req, res);
+    if (parsed === undefined) return;
+    const body = chatQuestionSchema.safeParse(parsed);
+    if (!body.success) {
+      sendJson(res, 400, { error: body.error.issues.map((i) => i.message).join('; ') });
+      return;
+    }
+
+    const send = (event: string, data: unknown) => {
+      if (!res.headersSent) {
+        res.writeHead(200, {
+          'Content-Type': 'text/event-stream',
+          'Cache-Control': 'no-cache',
+          Connection: 'keep-alive',
+          'X-Accel-Buffering': 'no',
+        });
+      }
+      // The question is still answered and audited if the operator goes away
+      if (!res.destroyed) res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    };
+
+    try {
+      const exchange = await this.deps.askOperatorQuestion!(operator, body.data.question, {
+        onAccepted: (question, queued) => send('accepted', { id: question.id, queued }),
+        onText: (text) => send('text', { text }),
+      });
+      send('answer', exchange);
+    } catch (err) {
+      if (!res.headersSent) {
+        const busy = err instanceof OperatorChatError && err.code === 'BUSY';
+        if (!busy) console.error('[Health] Operator question failed:', err);
+        sendJson(res, busy ? 503 : 500, { error: busy ? err.message : 'Internal error' });
+        return;
+      }
+      send('error', { error: err instanceof Error ? err.message : String(err) });
+    }
+    res.end();
+  }
+
+  /**
+   * The operator whose bearer token the request carries, or undefined once a
+   * 401 has been sent. Tokens are compared by hash in constant time.
+   */
+  private authenticate(req: http.IncomingMessage, res: http.ServerResponse): string | undefined {
+    const token = bearerToken(req);
+    const digest = (value: string) => createHash('sha256').update(value).digest();
+    const operator =
+      token !== undefined
+        ? Object.entries(this.deps.operatorTokens ?? {}).find(([, expected]) =>
+            timingSafeEqual(digest(token), digest(expected))
+          )?.[0]
+        : undefined;
+    if (!operator) {
+      res.setHeader('WWW-Authenticate', 'Bearer');
+      sendJson(res, 401, { error: 'A valid operator token is required' });
+    }
+    return operator;
+  }
+
+  /** The parsed JSON body, or undefined once an error response has been sent */
+  private async readJsonBody(req: http.IncomingMessage, res: http.ServerResponse): Promise<unknown> {
+    let body: string;
+    try {
+      body = await readBody(req);
+    } catch (err) {
+      if (err instanceof BodyTooLargeError) {
+        sendTooLarge(req, res, err);
+      } else {
+        // The client went away mid-request; there is no one to answer
+        req.destroy();
+      }
+      return undefined;
+    }
+
+    try {
+      return JSON.parse(body || '{}');
+    } catch {
+      sendJson(res, 400, { error: 'Invalid JSON body' });
+      return undefined;
+    }
+  }
+
+  /** Re-arms a timer and records how late it fired */
+  private sampleEventLoopLag(): void {
+    const expected = performance.now() + this.lagSampleIntervalMs;
+    this.lagTimer = setTimeout(() => {
+      this.eventLoopLagMs = Math.max(0, Math.round(performance.now() - expected));
+      this.sampleEventLoopLag();
+    }, this.lagSampleIntervalMs);
+    this.lagTimer.unref?.();
+  }
+
   stop(): Promise<void> {
+    if (this.lagTimer) clearTimeout(this.lagTimer);
+    this.lagTimer = null;
     return new Promise((resolve, reject) => {
       if (!this.server) {
         resolve();
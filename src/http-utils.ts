@@ -0,0 +1,57 @@
+import http from 'http';
+
+const DEFAULT_MAX_BODY_BYTES = 65_536; // 64 KB
+
+export function sendJson(res: http.ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+export class BodyTooLargeError extends Error {
+  constructor(readonly maxBytes: number) {
+    super(`Request body too large (max ${maxBytes} bytes)`);
+    this.name = 'BodyTooLargeError';
+  }
+}
+
+/**
+ * Read a request body as text. Past maxBytes it stops reading and rejects
+ * with BodyTooLargeError; answer with sendTooLarge, which closes the connection.
+ */
+export function readBody(req: http.IncomingMessage, maxBytes = DEFAULT_MAX_BODY_BYTES): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let body = '';
+    let bytes = 0;
+    let aborted = false;
+
+    req.on('data', (chunk: Buffer | string) => {
+      if (aborted) return;
+      bytes += typeof chunk === 'string' ? Buffer.byteLength(chunk) : chunk.length;
+      if (bytes > maxBytes) {
+        aborted = true;
+        req.pause();
+        reject(new BodyTooLargeError(maxBytes));
+        return;
+      }
+      body += chunk;
+    });
+
+    req.on('end', () => {
+      if (!aborted) resolve(body);
+    });
+    req.on('error', reject);
+  });
+}
+
+/** 413 for a body readBody refused, then drop the connection the rest of it is still arriving on */
+export function sendTooLarge(req: http.IncomingMessage, res: http.ServerResponse, err: BodyTooLargeError): void {
+  res.setHeader('Connection', 'close');
+  res.on('finish', () => req.destroy());
+  sendJson(res, 413, { error: err.message });
+}
+
+/** The token from an `Authorization: Bearer <token>` header, if any */
+export function bearerToken(req: http.IncomingMessage): string | undefined {
+  const match = req.headers.authorization?.match(/^Bearer\s+(\S+)\s*$/i);
+  return match?.[1];
+}
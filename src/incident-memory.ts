@@ -0,0 +1,312 @@
+import type { ThresholdBreach, BreachCleared } from './sensor-state.js';
+import type { Alert } from './alert-manager.js';
+import type { AnalysisRecord } from './analysis-log.js';
+import type { AnalysisFindings } from './analysis-findings.js';
+import { defaultSubsystemOf } from './analysis-scheduler.js';
+
+export type IncidentStatus = 'OPEN' | 'RESOLVED';
+
+/** One thing that happened within an incident */
+export interface IncidentEvent {
+  kind: 'breach' | 'breach_cleared' | 'alert' | 'analysis';
+  at: string;
+  summary: string;
+  /** Alert or analysis id */
+  ref?: string;
+}
+
+/** What an analysis concluded while the incident was open */
+export interface IncidentConclusion {
+  analysisId: string;
+  at: string;
+  summary: string;
+  onset?: AnalysisFindings['onset'];
+}
+
+/** Related breaches, alerts and analyses in one subsystem, close together in time */
+export interface Incident {
+  id: string;
+  subsystem: string;
+  status: IncidentStatus;
+  openedAt: string;
+  lastActivityAt: string;
+  resolvedAt?: string;
+  /** Highest breach or alert level seen */
+  peakLevel: 'CRITICAL' | 'WARNING';
+  /** Tags involved, in the order they first appeared */
+  tags: string[];
+  /** Breaches not yet cleared, as "<tag> <type>" */
+  activeBreaches: string[];
+  breachCount: number;
+  alertIds: string[];
+  conclusions: IncidentConclusion[];
+  /** Oldest first; only the latest `maxEventsPerIncident` are kept */
+  events: IncidentEvent[];
+}
+
+export interface IncidentQuery {
+  subsystem?: string;
+  tag?: string;
+  status?: IncidentStatus;
+  /** Return only the most recent N matches (still in chronological order) */
+  limit?: number;
+}
+
+export interface IncidentMemoryOptions {
+  /** Activity within this long of a subsystem's last incident joins it, reopening it if resolved */
+  mergeWindowMs: number;
+  /** An incident with no active breaches is resolved after this long without activity */
+  resolveAfterMs: number;
+  /** Incidents kept; the oldest resolved ones are dropped first */
+  maxIncidents: number;
+  maxEventsPerIncident: number;
+  /** Incidents in the prompt summary */
+  maxSummaryIncidents: number;
+  subsystemOf: (tag: string) => string;
+}
+
+const DEFAULT_OPTIONS: IncidentMemoryOptions = {
+  mergeWindowMs: 1_800_000,
+  resolveAfterMs: 600_000,
+  maxIncidents: 200,
+  maxEventsPerIncident: 50,
+  maxSummaryIncidents: 5,
+  subsystemOf: defaultSubsystemOf,
+};
+
+const LEVEL_RANK = { WARNING: 0, CRITICAL: 1 };
+
+/**
+ * What happened earlier in this monitoring run, grouped into incidents per
+ * subsystem: breaches and CRITICAL/WARNING alerts open or join an incident,
+ * analyses add their conclusions to it. Each analysis prompt gets a short
+ * summary (summarize), and get_incident_history returns the full timeline,
+ * so the agent stays consistent with what it concluded minutes ago.
+ */
+export class IncidentMemory {
+  private options: IncidentMemoryOptions;
+  private incidents: Incident[] = [];
+  private nextId = 1;
+
+  constructor(options: Partial<IncidentMemoryOptions> = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  recordBreach(breach: ThresholdBreach, now = new Date()): void {
+    this.sweep(now);
+    const incident = this.incidentFor(this.options.subsystemOf(breach.tag), now, true)!;
+    // A transition fires once and is never cleared, so it does not keep the incident open
+    const key = `${breach.tag} ${breach.type}`;
+    if (breach.type !== 'transition' && !incident.activeBreaches.includes(key)) incident.activeBreaches.push(key);
+    incident.breachCount++;
+    this.raisePeak(incident, breach.level);
+    this.addTags(incident, [breach.tag]);
+    this.addEvent(incident, now, { kind: 'breach', summary: `[${breach.level}] ${breach.message}` });
+  }
+
+  recordBreachCleared(cleared: BreachCleared, now = new Date()): void {
+    this.sweep(now);
+    const key = `${cleared.tag} ${cleared.type}`;
+    const incident = this.incidents.find((i) => i.status === 'OPEN' && i.activeBreaches.includes(key));
+    if (!incident) return;
+    if (!cleared.remainingLevel) incident.activeBreaches = incident.activeBreaches.filter((b) => b !== key);
+    this.addEvent(incident, now, { kind: 'breach_cleared', summary: cleared.message });
+  }
+
+  /** The tag's rules were reset or it is no longer monitored: its breaches will not clear */
+  recordBreachReset(tag: string, now = new Date()): void {
+    this.sweep(now);
+    for (const incident of this.incidents) {
+      const remaining = incident.activeBreaches.filter((b) => !b.startsWith(`${tag} `));
+      if (incident.status !== 'OPEN' || remaining.length === incident.activeBreaches.length) continue;
+      incident.activeBreaches = remaining;
+      this.addEvent(incident, now, { kind: 'breach_cleared', summary: `${tag} rules reset; breach no longer tracked` });
+    }
+  }
+
+  /** CRITICAL and WARNING alerts may open an incident; INFO alerts only join one */
+  recordAlert(alert: Alert, now = new Date()): void {
+    this.sweep(now);
+    const level = alert.severity === 'CRITICAL' || alert.severity === 'WARNING' ? alert.severity : null;
+    for (const [subsystem, tags] of this.bySubsystem(alert.tags ?? [])) {
+      const incident = this.incidentFor(subsystem, now, level !== null);
+      if (!incident || incident.alertIds.includes(alert.id)) continue;
+      incident.alertIds.push(alert.id);
+      if (level) this.raisePeak(incident, level);
+      this.addTags(incident, tags);
+      this.addEvent(incident, now, { kind: 'alert', summary: `[${alert.severity}] ${alert.title}`, ref: alert.id });
+    }
+  }
+
+  /**
+   * Adds the analysis conclusion to the incidents of the subsystems it was
+   * about — its trigger tags, or for periodic checks the tags in its findings.
+   * Failed analyses and rule-based summaries (which only restate the
+   * breaches) are not conclusions.
+   */
+  recordAnalysis(record: AnalysisRecord, now = new Date()): void {
+    this.sweep(now);
+    if (record.status !== 'completed' || record.model === 'rule-based') return;
+    const tags = record.trigger.tags?.length ? record.trigger.tags : (record.findings?.tags ?? []);
+    const summary = record.findings?.summary ?? firstLine(record.text);
+    if (!summary) return;
+    for (const [subsystem] of this.bySubsystem(tags)) {
+      const incident = this.incidentFor(subsystem, now, false);
+      if (!incident) continue;
+      incident.conclusions.push({
+        analysisId: record.id,
+        at: now.toISOString(),
+        summary,
+        ...(record.findings && { onset: record.findings.onset }),
+      });
+      this.addEvent(incident, now, { kind: 'analysis', summary, ref: record.id });
+    }
+  }
+
+  get(id: string, now = new Date()): Incident | undefined {
+    this.sweep(now);
+    return this.incidents.find((i) => i.id === id);
+  }
+
+  query(query: IncidentQuery = {}, now = new Date()): Incident[] {
+    this.sweep(now);
+    const matches = this.incidents.filter(
+      (i) =>
+        (!query.subsystem || i.subsystem === query.subsystem) &&
+        (!query.tag || i.tags.includes(query.tag)) &&
+        (!query.status || i.status === query.status)
+    );
+    return query.limit !== undefined ? matches.slice(Math.max(0, matches.length - query.limit)) : matches;
+  }
+
+  /**
+   * Prompt section listing open incidents and those resolved within the
+   * merge window, with their latest conclusions; `focus` subsystem first.
+   * Empty when there is nothing to report.
+   */
+  summarize(focus?: string, now = new Date()): string {
+    this.sweep(now);
+    const cutoff = now.getTime() - this.options.mergeWindowMs;
+    const recent = this.incidents
+      .filter((i) => i.status === 'OPEN' || new Date(i.lastActivityAt).getTime() >= cutoff)
+      .sort(
+        (a, b) =>
+          Number(b.subsystem === focus) - Number(a.subsystem === focus) ||
+          b.lastActivityAt.localeCompare(a.lastActivityAt)
+      )
+      .slice(0, this.options.maxSummaryIncidents);
+    if (recent.length === 0) return '';
+
+    const lines = recent.map((i) => {
+      const minutes = Math.round((new Date(i.lastActivityAt).getTime() - new Date(i.openedAt).getTime()) / 60000);
+      const state =
+        i.status === 'OPEN'
+          ? `OPEN since ${clock(i.openedAt)}`
+          : `RESOLVED ${clock(i.resolvedAt!)} (active ${minutes} min)`;
+      let line =
+        `- ${i.id} ${i.subsystem} — ${state}, peak ${i.peakLevel}, ` +
+        `${plural(i.breachCount, 'breach', 'breaches')}, ${plural(i.alertIds.length, 'alert', 'alerts')}`;
+      if (i.activeBreaches.length > 0) line += `; active: ${i.activeBreaches.join(', ')}`;
+      for (const c of i.conclusions.slice(-2)) {
+        line += `\n  ${clock(c.at)} concluded${c.onset && c.onset !== 'unknown' ? ` (${c.onset})` : ''}: ${c.summary}`;
+      }
+      return line;
+    });
+    return (
+      `INCIDENT MEMORY (earlier in this monitoring run; get_incident_history has the full timelines):\n` +
+      `${lines.join('\n')}\n` +
+      `Build on these conclusions rather than starting over, and say so if the data now contradicts them. ` +
+      `Only alert again on an incident that already has alerts if its severity or scope has changed.`
+    );
+  }
+
+  /** The subsystem's current incident, or a new one when `open` is set */
+  private incidentFor(subsystem: string, now: Date, open: boolean): Incident | undefined {
+    const cutoff = now.getTime() - this.options.mergeWindowMs;
+    const latest = [...this.incidents].reverse().find((i) => i.subsystem === subsystem);
+    if (latest && (latest.status === 'OPEN' || new Date(latest.lastActivityAt).getTime() >= cutoff)) {
+      if (latest.status === 'RESOLVED' && open) {
+        latest.status = 'OPEN';
+        delete latest.resolvedAt;
+      }
+      return latest;
+    }
+    if (!open) return undefined;
+
+    const at = now.toISOString();
+    const incident: Incident = {
+      id: `INC-${this.nextId++}`,
+      subsystem,
+      status: 'OPEN',
+      openedAt: at,
+      lastActivityAt: at,
+      peakLevel: 'WARNING',
+      tags: [],
+      activeBreaches: [],
+      breachCount: 0,
+      alertIds: [],
+      conclusions: [],
+      events: [],
+    };
+    this.incidents.push(incident);
+    this.prune();
+    return incident;
+  }
+
+  /** Resolve quiet incidents whose breaches have all cleared */
+  private sweep(now: Date): void {
+    for (const incident of this.incidents) {
+      if (incident.status !== 'OPEN' || incident.activeBreaches.length > 0) continue;
+      const quietSince = new Date(incident.lastActivityAt).getTime();
+      if (now.getTime() - quietSince >= this.options.resolveAfterMs) {
+        incident.status = 'RESOLVED';
+        incident.resolvedAt = new Date(quietSince + this.options.resolveAfterMs).toISOString();
+      }
+    }
+  }
+
+  private prune(): void {
+    while (this.incidents.length > this.options.maxIncidents) {
+      const index = this.incidents.findIndex((i) => i.status === 'RESOLVED');
+      this.incidents.splice(index === -1 ? 0 : index, 1);
+    }
+  }
+
+  private bySubsystem(tags: string[]): Map<string, string[]> {
+    const groups = new Map<string, string[]>();
+    for (const tag of tags) {
+      const subsystem = this.options.subsystemOf(tag);
+      groups.set(subsystem, [...(groups.get(subsystem) ?? []), tag]);
+    }
+    return groups;
+  }
+
+  private raisePeak(incident: Incident, level: Incident['peakLevel']): void {
+    if (LEVEL_RANK[level] > LEVEL_RANK[incident.peakLevel]) incident.peakLevel = level;
+  }
+
+  private addTags(incident: Incident, tags: string[]): void {
+    for (const tag of tags) if (!incident.tags.includes(tag)) incident.tags.push(tag);
+  }
+
+  private addEvent(incident: Incident, now: Date, event: Omit<IncidentEvent, 'at'>): void {
+    const at = now.toISOString();
+    incident.lastActivityAt = at;
+    incident.events.push({ at, ...event });
+    if (incident.events.length > this.options.maxEventsPerIncident) incident.events.shift();
+  }
+}
+
+/** HH:MMZ — incidents in the summary are recent */
+function clock(iso: string): string {
+  return `${iso.slice(11, 16)}Z`;
+}
+
+function plural(n: number, one: string, many: string): string {
+  return `${n} ${n === 1 ? one : many}`;
+}
+
+function firstLine(text: string): string {
+  const line = text.split('\n').find((l) => l.trim())?.trim() ?? '';
+  return line.length > 200 ? `${line.slice(0, 197)}...` : line;
+}
@@ -1,11 +1,56 @@
-import { PI_CONFIG, BOP_CONFIG, MONITORED_TAGS, THRESHOLD_RULES } from './config.js';
-import { PIChannelClient } from './pi-channel-client.js';
+import { randomUUID } from 'crypto';
+import {
+  PI_CONFIG,
+  PI_REQUEST_CONFIG,
+  PI_AUTH_CONFIG,
+  BOP_CONFIG,
+  AGENT_SESSION_CONFIG,
+  INCIDENT_MEMORY_CONFIG,
+  OPERATOR_CHAT_CONFIG,
+  OPERATOR_AUTH_CONFIG,
+  ANALYSIS_SCHEDULER_CONFIG,
+  ANALYSIS_BUDGET_CONFIG,
+  MONITORED_TAGS,
+  THRESHOLD_RULES,
+  ALERT_STORE_CONFIG,
+  ALERT_LIFECYCLE_CONFIG,
+  NOTIFICATION_CONFIG,
+  LIVE_EVENTS_CONFIG,
+  SENSOR_LIVENESS_CONFIG,
+  THRESHOLD_CONFIG,
+} from './config.js';
+import { PIChannelClient, PIChannelConfig, decodePIValue } from './pi-channel-client.js';
 import { PIRestClient } from './pi-rest-client.js';
-import { SensorStateManager, ThresholdBreach } from './sensor-state.js';
+import { createPIAuthProvider } from './pi-auth.js';
+import {
+  SensorStateManager,
+  ThresholdBreach,
+  BreachCleared,
+  InstrumentFault,
+  SensorStaleEvent,
+} from './sensor-state.js';
 import { AlertManager } from './alert-manager.js';
-import { createBOPToolsServer } from './bop-tools.js';
+import { createAlertStore } from './alert-store.js';
+import { loadDispatcherFromFile } from './notifications/sink-config.js';
+import { createBOPTools, createBOPToolsServer } from './bop-tools.js';
 import { BOPAgent } from './bop-agent.js';
+import { ScriptedAnalysisEngine } from './scripted-engine.js';
+import { SessionAnalysisEngine } from './session-engine.js';
+import { AnalysisEngine, SdkAnalysisEngine } from './analysis-engine.js';
+import { AnalysisJob, AnalysisScheduler } from './analysis-scheduler.js';
+import { AnalysisBudget, ruleBasedSummary } from './analysis-budget.js';
 import { HealthServer } from './health.js';
+import { createBOPMetrics } from './metrics.js';
+import { AnalysisLog, AnalysisRecord } from './analysis-log.js';
+import { IncidentMemory } from './incident-memory.js';
+import { ChatAuditLog, OperatorChat, OperatorChatError, OperatorQuestion } from './operator-chat.js';
+import { EventStream } from './event-stream.js';
+import {
+  ThresholdConfig,
+  ThresholdConfigWatcher,
+  ThresholdReload,
+  loadThresholdConfig,
+} from './threshold-config.js';
 
 async function main() {
   console.log('===============================================');
@@ -13,163 +58,545 @@ async function main() {
   console.log('===============================================\n');
 
   // -- Initialize components --
-  const piRest = new PIRestClient(PI_CONFIG.server, PI_CONFIG.username, PI_CONFIG.password, PI_CONFIG.rejectUnauthorized);
-  const sensorState = new SensorStateManager(300);
-  const alertManager = new AlertManager();
+  const piAuth = createPIAuthProvider(PI_AUTH_CONFIG);
+  console.log(`[PI Auth] Using ${piAuth.mode} authentication`);
+  const piRest = new PIRestClient(PI_CONFIG.server, piAuth, PI_CONFIG.rejectUnauthorized, PI_REQUEST_CONFIG);
+  const sensorState = new SensorStateManager(300, {
+    maxAgeMs: SENSOR_LIVENESS_CONFIG.maxAgeMs,
+  });
 
-  // -- Health tracking state --
-  let piChannelConnected = false;
+  // -- PI channels (shared by /health, /metrics and the channel wiring) --
+  const piChannels: PIChannelClient[] = [];
+  const connectedChannels = new Set<PIChannelClient>();
+  const isPiChannelConnected = () => piChannels.length > 0 && connectedChannels.size === piChannels.length;
   let lastSensorUpdate: Date | null = null;
 
+  // -- LLM spend and analysis-rate budget --
+  const analysisBudget = new AnalysisBudget(ANALYSIS_BUDGET_CONFIG);
+
+  // -- Prometheus metrics (/metrics) --
+  const metrics = createBOPMetrics({ isPiChannelConnected, getBudgetStatus: () => analysisBudget.getStatus() });
+
+  // -- Recent agent analyses (/api/analyses) --
+  const analysisLog = new AnalysisLog();
+
+  // -- Incident memory: breaches, alerts and conclusions per subsystem, fed into each prompt --
+  const incidents = new IncidentMemory(INCIDENT_MEMORY_CONFIG);
+
+  // -- Alert history store (survives restarts) --
+  const alertStore = createAlertStore(ALERT_STORE_CONFIG);
+  await alertStore.init();
+  console.log(`Alert store: ${ALERT_STORE_CONFIG.backend}`);
+  const alertManager = new AlertManager(alertStore, ALERT_LIFECYCLE_CONFIG, metrics);
+
+  // -- Notification sinks (webhook / SMTP / syslog) --
+  if (NOTIFICATION_CONFIG.file) {
+    const dispatcher = loadDispatcherFromFile(NOTIFICATION_CONFIG.file);
+    dispatcher.attach(alertManager);
+    console.log(`Notification sinks: ${dispatcher.sinkNames.join(', ') || 'none'}`);
+  }
+
+  // -- Monitored tags and threshold rules (config file with hot reload, or built-in defaults) --
+  let thresholdConfig: ThresholdConfig = { tags: MONITORED_TAGS, rules: THRESHOLD_RULES };
+  let thresholdWatcher: ThresholdConfigWatcher | null = null;
+  if (THRESHOLD_CONFIG.file) {
+    thresholdConfig = loadThresholdConfig(THRESHOLD_CONFIG.file);
+    thresholdWatcher = new ThresholdConfigWatcher(THRESHOLD_CONFIG.file, thresholdConfig);
+    console.log(
+      `Threshold config: ${THRESHOLD_CONFIG.file} ` +
+        `(${Object.keys(thresholdConfig.tags).length} tags, ${thresholdConfig.rules.length} rules)`
+    );
+  }
+
+  // -- Live push to dashboards (GET /events) --
+  const eventStream = new EventStream(() => sensorState.getFullSnapshot(), {
+    sensorIntervalMs: LIVE_EVENTS_CONFIG.sensorIntervalMs,
+  });
+  alertManager.on('alert', (alert) => {
+    incidents.recordAlert(alert);
+    eventStream.publish('alerts', 'alert', alert);
+  });
+  alertManager.on('alert_state_change', (change) => eventStream.publish('alerts', 'alert_state_change', change));
+  alertManager.on('alert_escalated', (alert) => eventStream.publish('alerts', 'alert_escalated', alert));
+  eventStream.start();
+
+  // -- Health, metrics, alert action, read-only API, live event and operator chat endpoints --
+  // Started before tag resolution so /livez answers during startup; the agent and scheduler are created later
+  let agent: BOPAgent | undefined;
+  let scheduler: AnalysisScheduler | undefined;
+
+  // -- Operator chat: questions queue behind breach analyses and are audited with who asked --
+  const operatorChat = new OperatorChat({
+    // Refused as busy until startup has created the scheduler
+    submit: (question) => scheduler?.submitQuestion(question) ?? 'dropped',
+    answer: (question, onText, model) =>
+      agent!.analyze(
+        buildQuestionContext(question, incidents.summarize()),
+        { type: 'operator_question', operator: question.operator, question: question.question },
+        { model, onText }
+      ),
+    audit: new ChatAuditLog(OPERATOR_CHAT_CONFIG.auditFile),
+  });
   const healthServer = new HealthServer(
     {
-      isPiChannelConnected: () => piChannelConnected,
-      getSensorTagCount: () => Object.keys(MONITORED_TAGS).length,
+      isPiChannelConnected,
+      getSensorTagCount: () => Object.keys(thresholdConfig.tags).length,
       getLastSensorUpdate: () => lastSensorUpdate,
+      getSensorLiveness: () => sensorState.getSensorLiveness(),
+      getPiRestCircuit: () => piRest.getCircuitStatus(),
+      getBudgetStatus: () => analysisBudget.getStatus(),
+      getTagResolution: () => {
+        const tags = Object.keys(thresholdConfig.tags);
+        const unresolved = tags.filter((tag) => !sensorState.getWebId(tag));
+        return { configured: tags.length, resolved: tags.length - unresolved.length, unresolved };
+      },
+      getAgentStatus: () => agent?.getStatus() ?? { lastSuccessAt: null, lastError: null },
+      operatorTokens: OPERATOR_AUTH_CONFIG.tokens,
+      acknowledgeAlert: (id, by) => alertManager.acknowledge(id, by),
+      clearAlert: (id, by) => alertManager.clear(id, by),
+      shelveAlert: (id, by, durationMs, reason) => alertManager.shelve(id, by, durationMs, reason),
+      unshelveAlert: (id) => alertManager.unshelve(id),
+      getMetrics: () => metrics.registry.render(),
+      queryAlerts: (query) => alertManager.queryAlerts(query),
+      queryRecommendations: (query) => alertManager.queryRecommendations(query),
+      queryAnalyses: (query) => analysisLog.query(query),
+      getSensorSnapshot: () => sensorState.getFullSnapshot(),
+      eventStream,
+      askOperatorQuestion: (operator, question, handlers) => operatorChat.ask(operator, question, handlers),
     },
     Number(process.env.HEALTH_PORT || 8080)
   );
   await healthServer.start();
+  if (Object.keys(OPERATOR_AUTH_CONFIG.tokens).length === 0) {
+    console.warn('[Health] OPERATOR_TOKENS is not set — alert actions and /chat will refuse every request');
+  }
+
+  // -- Resolve PI tags -> WebIds and register them with the state manager --
+  async function resolveAndRegister(tags: Record<string, string>): Promise<string[]> {
+    const tagNames = Object.keys(tags);
+    const webIdMap = await piRest.resolveTagsToWebIds(PI_CONFIG.dataArchive, tagNames);
+    console.log(`  Resolved ${webIdMap.size}/${tagNames.length} tags\n`);
+
+    for (const [tag, unit] of Object.entries(tags)) {
+      const webId = webIdMap.get(tag);
+      if (webId) {
+        sensorState.registerTag(tag, webId, unit);
+      } else {
+        console.warn(`  Warning: Could not resolve: ${tag}`);
+      }
+    }
+    return [...webIdMap.values()];
+  }
 
-  // -- Resolve PI tags -> WebIds --
-  console.log('Resolving PI tag WebIds...');
-  const tagNames = Object.keys(MONITORED_TAGS);
-  const webIdMap = await piRest.resolveTagsToWebIds(PI_CONFIG.dataArchive, tagNames);
+  // Element-based channels report values under AF attribute WebIds; map them
+  // back to the PI Point WebIds the tags are registered with
+  const channelWebIdAliases = new Map<string, string>();
+  let subscription: Pick<PIChannelConfig, 'webIds' | 'elementWebId'>;
+  let monitoredTagCount: number;
 
-  console.log(`  Resolved ${webIdMap.size}/${tagNames.length} tags\n`);
+  if (PI_CONFIG.afElementPath) {
+    // -- Discover tags from PI AF: one element walk instead of a call per tag --
+    console.log(`Discovering PI tags under AF element ${PI_CONFIG.afElementPath}...`);
+    const discovery = await piRest.discoverElementTags(PI_CONFIG.afElementPath);
+    console.log(`  Found ${discovery.tags.length} PI Point attributes under ${discovery.elementPath}\n`);
 
-  // Register tags with state manager
-  for (const [tag, unit] of Object.entries(MONITORED_TAGS)) {
-    const webId = webIdMap.get(tag);
-    if (webId) {
-      sensorState.registerTag(tag, webId, unit);
-    } else {
-      console.warn(`  Warning: Could not resolve: ${tag}`);
+    const tags: Record<string, string> = {};
+    for (const discovered of discovery.tags) {
+      tags[discovered.tag] = discovered.unit;
+      sensorState.registerTag(discovered.tag, discovered.webId, discovered.unit);
+      if (discovered.attributeWebId !== discovered.webId) {
+        channelWebIdAliases.set(discovered.attributeWebId, discovered.webId);
+      }
+    }
+    const unmatched = thresholdConfig.rules.filter((r) => !(r.tag in tags)).map((r) => r.tag);
+    if (unmatched.length > 0) {
+      console.warn(`  Warning: No AF attribute for rule tags: ${unmatched.join(', ')}`);
     }
+
+    thresholdConfig = { ...thresholdConfig, tags };
+    subscription = { elementWebId: discovery.elementWebId };
+    monitoredTagCount = discovery.tags.length;
+  } else {
+    console.log('Resolving PI tag WebIds...');
+    const webIds = await resolveAndRegister(thresholdConfig.tags);
+    subscription = { webIds };
+    monitoredTagCount = webIds.length;
   }
 
-  sensorState.setThresholds(THRESHOLD_RULES);
+  sensorState.setThresholds(thresholdConfig.rules);
+
+  // Auto-resolve alerts once their tags recover; escalate unacknowledged CRITICALs
+  alertManager.start((tag) => sensorState.isWithinThresholds(tag));
+
+  // Per-tag staleness; flatlines are detected as samples arrive
+  sensorState.startLivenessChecks(SENSOR_LIVENESS_CONFIG.checkIntervalMs);
 
   // -- Create MCP tools server --
   // This is the Agent SDK way: tools are bundled into an in-process
   // MCP server that the query() function automatically connects to
-  const bopToolsServer = createBOPToolsServer(sensorState, piRest, alertManager);
+  const bopToolsServer = createBOPToolsServer(sensorState, piRest, alertManager, incidents);
 
   // -- Create the agent --
-  const agent = new BOPAgent(bopToolsServer);
+  // The scripted engine calls the same tool handlers from a playbook, for offline rigs and demos;
+  // the session engine keeps one conversation going through analyzeStreaming
+  let engine: AnalysisEngine | undefined;
+  if (BOP_CONFIG.agentEngine === 'scripted') {
+    engine = new ScriptedAnalysisEngine(createBOPTools(sensorState, piRest, alertManager, incidents));
+  } else if (BOP_CONFIG.agentEngine === 'session') {
+    engine = new SessionAnalysisEngine(
+      (messages, options) => agent!.analyzeStreaming(messages, options),
+      { ...AGENT_SESSION_CONFIG, model: BOP_CONFIG.agentModel },
+      new SdkAnalysisEngine(bopToolsServer)
+    );
+  }
+  agent = new BOPAgent(bopToolsServer, { engine, metrics, analysisLog, budget: analysisBudget });
+  agent.on('analysis_started', (started) => eventStream.publish('analyses', 'analysis_started', started));
+  agent.on('analysis_finished', (record: AnalysisRecord) => {
+    incidents.recordAnalysis(record);
+    eventStream.publish('analyses', 'analysis_finished', record);
+  });
 
-  // -- Connect to PI Web API channel --
-  const webIds = [...webIdMap.values()];
-  const piChannel = new PIChannelClient({
-    server: PI_CONFIG.server,
-    webIds,
-    username: PI_CONFIG.username,
-    password: PI_CONFIG.password,
-    includeInitialValues: true,
-    heartbeatRate: 5,
-    rejectUnauthorized: PI_CONFIG.rejectUnauthorized,
+  // -- Analysis scheduling: CRITICAL breach > WARNING breach > periodic check --
+  // Past the budget, non-critical jobs run on a cheaper model or as a rule-based summary
+  scheduler = new AnalysisScheduler(
+    (job) => {
+      const decision = analysisBudget.decide(job.priority);
+      if (decision.mode !== 'full') metrics.analysesDowngraded.inc({ mode: decision.mode });
+      const model = decision.mode === 'fallback_model' ? decision.model : undefined;
+      if (job.question) {
+        return decision.mode === 'rule_based'
+          ? operatorChat.fail(
+              job.question,
+              new OperatorChatError('The LLM budget is exhausted; questions are paused until it recovers', 'DECLINED')
+            )
+          : operatorChat.run(job.question, model);
+      }
+      if (decision.mode === 'rule_based') return runRuleBasedSummary(job);
+      return runAnalysisJob(agent!, sensorState, incidents, job, model);
+    },
+    ANALYSIS_SCHEDULER_CONFIG,
+    metrics
+  );
+  scheduler.on('dropped', ({ job }: { job: AnalysisJob }) => {
+    if (job.question) {
+      operatorChat.fail(job.question, new OperatorChatError('The analysis queue is full; ask again shortly', 'BUSY'));
+    }
   });
 
-  // -- Wire: PI channel -> sensor state --
-  piChannel.on('connected', () => { piChannelConnected = true; });
-  piChannel.on('close', () => { piChannelConnected = false; });
+  /** Budget exhausted (never CRITICAL): report the breaches without an LLM call, and still raise an alert */
+  async function runRuleBasedSummary(job: AnalysisJob): Promise<void> {
+    const text = ruleBasedSummary(job.breaches);
+    console.log(`\n-- Rule-based summary (LLM budget exceeded) --\n${text}\n`);
+    const tags = [...new Set(job.breaches.map((b) => b.tag))];
+    const now = new Date().toISOString();
+    const record: AnalysisRecord = {
+      id: randomUUID(),
+      trigger:
+        job.priority === 'PERIODIC'
+          ? { type: 'periodic', context: '' }
+          : { type: 'threshold_breach', tags, breaches: job.breaches, context: '' },
+      status: 'completed',
+      startedAt: now,
+      completedAt: now,
+      durationMs: 0,
+      model: 'rule-based',
+      text,
+      toolsUsed: [],
+    };
+    analysisLog.record(record);
+    eventStream.publish('analyses', 'analysis_finished', record);
 
-  piChannel.on('value', (event: any) => {
-    const numericValue =
-      typeof event.Value === 'number' ? event.Value : parseFloat(String(event.Value));
+    if (job.breaches.length > 0) {
+      await alertManager.send({
+        severity: 'WARNING',
+        title: `Threshold breach: ${tags.join(', ')}`,
+        description: text,
+        tags,
+        recommendedAction:
+          'AI analysis is paused by the LLM budget. Review these readings manually against related parameters.',
+        timestamp: new Date().toISOString(),
+      });
+    }
+  }
 
-    lastSensorUpdate = new Date();
-    sensorState.update(event.webId, numericValue, new Date(event.Timestamp), event.Good);
-  });
+  // -- Connect to PI Web API channel --
+  // Tags added by a config reload get a channel of their own, so the
+  // existing subscription is never dropped. Channels are tracked by the PI
+  // Point WebIds they carry, so a reload only subscribes WebIds that have no
+  // channel yet and reopens channels whose tags were removed.
+  const channelByWebId = new Map<string, PIChannelClient>();
 
-  // -- Wire: threshold breaches -> agent --
-  let agentBusy = false;
-  const breachQueue: ThresholdBreach[] = [];
+  function openChannel(channelSubscription: Pick<PIChannelConfig, 'webIds' | 'elementWebId'>): PIChannelClient {
+    const piChannel = new PIChannelClient({
+      server: PI_CONFIG.server,
+      ...channelSubscription,
+      auth: piAuth,
+      includeInitialValues: true,
+      heartbeatRate: 5,
+      rejectUnauthorized: PI_CONFIG.rejectUnauthorized,
+      // Replay what was recorded during an outage so history and rate-of-change stay whole
+      backfill: piRest,
+    });
+    piChannels.push(piChannel);
+    for (const webId of channelSubscription.webIds ?? []) channelByWebId.set(webId, piChannel);
 
-  sensorState.on('threshold_breach', async (breach: ThresholdBreach) => {
-    console.log(`[THRESHOLD ${breach.level}] ${breach.message}`);
+    // -- Wire: PI channel -> sensor state --
+    let everConnected = false;
+    piChannel.on('connected', () => {
+      connectedChannels.add(piChannel);
+      if (everConnected) metrics.piChannelReconnects.inc();
+      everConnected = true;
+    });
+    piChannel.on('close', () => { connectedChannels.delete(piChannel); });
+
+    piChannel.on('value', (event: any) => {
+      const { value, stateCode } = decodePIValue(event.Value);
+
+      lastSensorUpdate = new Date();
+      const webId = channelWebIdAliases.get(event.webId) ?? event.webId;
+      const tag = sensorState.getTagForWebId(webId);
+      if (tag) metrics.valuesReceived.inc({ tag });
+      sensorState.update(webId, value, new Date(event.Timestamp), event.Good, {
+        stateCode,
+        questionable: event.Questionable,
+        substituted: event.Substituted,
+        backfilled: event.backfilled,
+      });
+    });
+
+    piChannel.on('maxReconnectReached', () => {
+      console.error('FATAL: PI Web API connection lost permanently. Exiting.');
+      process.exit(1);
+    });
 
-    if (agentBusy) {
-      // Queue breach for next analysis cycle if agent is busy
-      breachQueue.push(breach);
-      console.log('  -> Agent busy, queued for next cycle');
+    return piChannel;
+  }
+
+  function closeChannel(piChannel: PIChannelClient): void {
+    piChannel.disconnect();
+    piChannels.splice(piChannels.indexOf(piChannel), 1);
+    connectedChannels.delete(piChannel);
+    for (const [webId, channel] of channelByWebId) {
+      if (channel === piChannel) channelByWebId.delete(webId);
+    }
+  }
+
+  /** Stop streaming these WebIds; each channel carrying them is reopened with the WebIds it keeps */
+  async function unsubscribe(webIds: string[]): Promise<void> {
+    const affected = new Set(webIds.flatMap((webId) => channelByWebId.get(webId) ?? []));
+    for (const piChannel of affected) {
+      const kept = [...channelByWebId]
+        .filter(([webId, channel]) => channel === piChannel && !webIds.includes(webId))
+        .map(([webId]) => webId);
+      closeChannel(piChannel);
+      if (kept.length > 0) await openChannel({ webIds: kept }).connect();
+    }
+  }
+
+  // -- Wire: config reload -> tags and rules --
+  // One reload at a time: a SIGHUP during a file-watch reload, or two quick saves, would race on the channels
+  let reloading: Promise<void> = Promise.resolve();
+  thresholdWatcher?.on('reload', (reload: ThresholdReload) => {
+    reloading = reloading
+      .then(() => applyReload(reload))
+      .catch((err) => console.error('[ThresholdConfig] Reload failed:', err));
+  });
+
+  async function applyReload({ config, previous }: ThresholdReload): Promise<void> {
+    if (PI_CONFIG.afElementPath) {
+      // Monitored tags come from AF; only the rules follow the file
+      thresholdConfig = { ...thresholdConfig, rules: config.rules };
+      sensorState.setThresholds(config.rules);
       return;
     }
 
-    agentBusy = true;
-    try {
-      const context = buildBreachContext(breach);
-      console.log('\n[Agent] Analyzing threshold breach...\n');
-      const result = await agent.analyze(context);
-      console.log('\n-- Agent Analysis --');
-      console.log(result.text);
-      console.log(`Tools used: ${result.toolsUsed.join(', ')}`);
-      if (result.costUsd) console.log(`Cost: $${result.costUsd.toFixed(4)}`);
-      console.log('--------------------\n');
-    } catch (err) {
-      console.error('[Agent Error]', err);
-    } finally {
-      agentBusy = false;
-
-      // Process queued breaches
-      if (breachQueue.length > 0) {
-        const queued = breachQueue.splice(0, breachQueue.length);
-        const summary = queued.map((b) => `- ${b.message}`).join('\n');
-        // Fire a combined analysis for queued breaches
-        agent
-          .analyze(
-            `While you were analyzing the previous breach, ${queued.length} additional ` +
-              `threshold breaches occurred:\n\n${summary}\n\n` +
-              `Use get_bop_status to get the full current state and analyze all of these together. ` +
-              `Prioritize any CRITICAL conditions.`
-          )
-          .then((r) => console.log('[Queued Analysis]', r.text))
-          .catch((e) => console.error('[Queued Analysis Error]', e));
+    thresholdConfig = config;
+    const removed = Object.keys(previous.tags).filter((tag) => !(tag in config.tags));
+    const removedWebIds = removed.flatMap((tag) => sensorState.getWebId(tag) ?? []);
+    for (const tag of removed) sensorState.unregisterTag(tag);
+    for (const [tag, unit] of Object.entries(config.tags)) {
+      const webId = sensorState.getWebId(tag);
+      if (webId) sensorState.registerTag(tag, webId, unit);
+    }
+    sensorState.setThresholds(config.rules);
+    if (removedWebIds.length > 0) await unsubscribe(removedWebIds);
+
+    const added = Object.fromEntries(
+      Object.entries(config.tags).filter(([tag]) => !(tag in previous.tags))
+    );
+    if (Object.keys(added).length > 0) {
+      try {
+        console.log('Resolving PI tag WebIds for added tags...');
+        const resolved = await resolveAndRegister(added);
+        const addedWebIds = resolved.filter((webId) => !channelByWebId.has(webId));
+        if (addedWebIds.length > 0) await openChannel({ webIds: addedWebIds }).connect();
+      } catch (err) {
+        console.error('[ThresholdConfig] Could not subscribe to added tags:', err);
       }
     }
+  }
+  thresholdWatcher?.start();
+
+  // -- Wire: threshold breaches -> agent --
+  sensorState.on('threshold_breach', (breach: ThresholdBreach) => {
+    console.log(`[THRESHOLD ${breach.level}] ${breach.message}`);
+    metrics.thresholdBreaches.inc({ tag: breach.tag, level: breach.level });
+    eventStream.publish('breaches', 'threshold_breach', breach);
+    // Before scheduling, so the analysis prompt counts this breach in its incident
+    incidents.recordBreach(breach);
+
+    const outcome = scheduler.submitBreach(breach);
+    if (outcome === 'queued' || outcome === 'coalesced') {
+      console.log(`  -> Analysis ${outcome} (${scheduler.running} running, ${scheduler.queueDepth} waiting)`);
+    }
+  });
+
+  // -- Wire: bad data -> instrument-fault alert (no analysis: not a process event) --
+  sensorState.on('instrument_fault', (fault: InstrumentFault) => {
+    console.log(`[INSTRUMENT FAULT] ${fault.message}`);
+    alertManager
+      .send({
+        severity: 'WARNING',
+        title: `Instrument fault: ${fault.tag}`,
+        description:
+          `${fault.tag} has been reporting bad-quality data since ${fault.timestamp.toISOString()}. ` +
+          `Threshold checks on this tag are suspended until good data returns.`,
+        affectedComponents: ['Instrumentation'],
+        tags: [fault.tag],
+        recommendedAction:
+          'Check the transmitter, wiring and PI interface for this tag. ' +
+          'Verify the process value with a local gauge before acting on it.',
+        timestamp: new Date().toISOString(),
+      })
+      .catch((err) => console.error('[Instrument Fault Alert Error]', err));
+  });
+
+  sensorState.on('instrument_recovered', (recovered: InstrumentFault) => {
+    console.log(`[INSTRUMENT RECOVERED] ${recovered.message}`);
+  });
+
+  // -- Wire: dead or frozen transmitters -> log (visible in /health and get_sensor_liveness) --
+  sensorState.on('sensor_stale', (event: SensorStaleEvent) => {
+    console.warn(`[SENSOR ${event.kind.toUpperCase()}] ${event.message}`);
+  });
+  sensorState.on('sensor_stale_cleared', (event: SensorStaleEvent) => {
+    console.log(`[SENSOR ${event.kind.toUpperCase()} CLEARED] ${event.message}`);
+  });
+
+  // Recoveries are logged and pushed to live displays; alerts auto-resolve through the lifecycle check
+  sensorState.on('breach_cleared', (cleared: BreachCleared) => {
+    console.log(`[THRESHOLD CLEARED] ${cleared.message}`);
+    incidents.recordBreachCleared(cleared);
+    eventStream.publish('breaches', 'breach_cleared', cleared);
+  });
+
+  // Rules changed or the tag was removed on reload: its active breaches will never clear
+  sensorState.on('breach_reset', (tag: string) => {
+    console.log(`[THRESHOLD RESET] ${tag} breach state dropped`);
+    incidents.recordBreachReset(tag);
   });
 
-  // -- Periodic analysis (every N minutes) --
-  setInterval(async () => {
-    if (agentBusy) return;
-    agentBusy = true;
+  // -- Periodic analysis (every N minutes); waits behind breach analyses instead of being skipped --
+  setInterval(() => scheduler.submitPeriodic(), BOP_CONFIG.analysisIntervalMs);
 
-    try {
-      const snapshot = sensorState.getFullSnapshot();
-      const context =
-        `Perform a routine ${BOP_CONFIG.analysisIntervalMs / 60000}-minute BOP system health check.\n\n` +
-        `Current sensor readings:\n${JSON.stringify(snapshot, null, 2)}\n\n` +
-        `Analyze these readings for any concerns. Check trends by querying sensor history ` +
-        `for any values that look borderline. Provide a brief status summary and flag ` +
-        `any items needing attention. If everything is normal, confirm system health.`;
+  // -- Start streaming (a failed first attempt is retried like any reconnect) --
+  await openChannel(subscription).connect();
 
+  console.log('BOP Monitoring Agent is running.\n');
+  console.log(`   Monitoring ${monitoredTagCount} tags`);
+  console.log(`   Periodic analysis every ${BOP_CONFIG.analysisIntervalMs / 60000} min`);
+  console.log(
+    agent.engineName === 'scripted'
+      ? '   Engine: scripted playbook (no LLM calls)\n'
+      : `   Model: ${BOP_CONFIG.agentModel}${agent.engineName === 'session' ? ' (long-lived session)' : ''}\n`
+  );
+}
+
+/** Build the prompt for a scheduled job and run it */
+async function runAnalysisJob(
+  agent: BOPAgent,
+  sensorState: SensorStateManager,
+  incidents: IncidentMemory,
+  job: AnalysisJob,
+  model?: string
+): Promise<void> {
+  try {
+    if (job.priority === 'PERIODIC') {
       console.log('\nRunning periodic BOP health check...\n');
-      const result = await agent.analyze(context);
+      // Snapshot taken when the job runs, not when it was queued
+      const context = buildPeriodicContext(sensorState.getFullSnapshot(), incidents.summarize());
+      const result = await agent.analyze(context, { type: 'periodic' }, { model });
       console.log('\n-- Periodic Analysis --');
       console.log(result.text);
       console.log('------------------------\n');
-    } catch (err) {
-      console.error('[Periodic Analysis Error]', err);
-    } finally {
-      agentBusy = false;
+      return;
     }
-  }, BOP_CONFIG.analysisIntervalMs);
 
-  // -- Start streaming --
-  piChannel.connect();
+    const tags = [...new Set(job.breaches.map((b) => b.tag))];
+    const incidentSummary = incidents.summarize(job.subsystem);
+    const context =
+      job.breaches.length === 1
+        ? buildBreachContext(job.breaches[0]!, incidentSummary)
+        : buildCoalescedContext(job, incidentSummary);
+    console.log(`\n[Agent] Analyzing ${job.priority} threshold breach in ${job.subsystem}...\n`);
+    const result = await agent.analyze(
+      context,
+      { type: job.breaches.length === 1 ? 'threshold_breach' : 'queued_breaches', tags, breaches: job.breaches },
+      { model }
+    );
+    console.log('\n-- Agent Analysis --');
+    console.log(result.text);
+    console.log(`Tools used: ${result.toolsUsed.join(', ')}`);
+    if (result.costUsd) console.log(`Cost: $${result.costUsd.toFixed(4)}`);
+    console.log('--------------------\n');
+  } catch (err) {
+    console.error('[Agent Error]', err);
+  }
+}
 
-  piChannel.on('maxReconnectReached', () => {
-    console.error('FATAL: PI Web API connection lost permanently. Exiting.');
-    process.exit(1);
-  });
+/** Incident memory goes ahead of the instructions; nothing is added when there are no recent incidents */
+function incidentSection(incidentSummary: string): string {
+  return incidentSummary ? `${incidentSummary}\n\n` : '';
+}
 
-  console.log('BOP Monitoring Agent is running.\n');
-  console.log(`   Monitoring ${webIds.length} tags`);
-  console.log(`   Periodic analysis every ${BOP_CONFIG.analysisIntervalMs / 60000} min`);
-  console.log(`   Model: ${BOP_CONFIG.agentModel}\n`);
+function buildPeriodicContext(snapshot: Record<string, Record<string, unknown>>, incidentSummary: string): string {
+  return (
+    `Perform a routine ${BOP_CONFIG.analysisIntervalMs / 60000}-minute BOP system health check.\n\n` +
+    `Current sensor readings:\n${JSON.stringify(snapshot, null, 2)}\n\n` +
+    incidentSection(incidentSummary) +
+    `Analyze these readings for any concerns. Check trends by querying sensor history ` +
+    `for any values that look borderline. Provide a brief status summary and flag ` +
+    `any items needing attention. If everything is normal, confirm system health.`
+  );
+}
+
+function buildQuestionContext(question: OperatorQuestion, incidentSummary: string): string {
+  return (
+    `OPERATOR QUESTION from ${question.operator}:\n${question.question}\n\n` +
+    incidentSection(incidentSummary) +
+    `Instructions:\n` +
+    `1. Answer for the rig crew. Check current readings, history, instrument health and incident ` +
+    `history with the tools first; never guess a value.\n` +
+    `2. Lead with the answer. For "is it safe to ..." questions say yes, no or not yet, and under ` +
+    `which conditions.\n` +
+    `3. Then give the evidence, with PI tag names and values.\n` +
+    `4. Only call send_alert or log_recommendation if you find a condition that needs it.`
+  );
+}
+
+/** Several breaches in one subsystem arrived while the job waited */
+function buildCoalescedContext(job: AnalysisJob, incidentSummary: string): string {
+  const summary = job.breaches.map((b) => `- [${b.level}] ${b.message}`).join('\n');
+  return (
+    `ALERT TRIGGER: ${job.breaches.length} threshold breaches occurred in the ${job.subsystem} subsystem ` +
+    `while earlier analyses were running:\n\n${summary}\n\n` +
+    incidentSection(incidentSummary) +
+    `Use get_bop_status to get the full current state and analyze all of these together. ` +
+    `Prioritize any CRITICAL conditions — call send_alert immediately for them.`
+  );
 }
 
-function buildBreachContext(breach: ThresholdBreach): string {
+function buildBreachContext(breach: ThresholdBreach, incidentSummary: string): string {
   return (
     `ALERT TRIGGER: A ${breach.level} threshold breach has been detected.\n\n` +
     `Breach details:\n` +
@@ -179,6 +606,7 @@ function buildBreachContext(breach: ThresholdBreach): string {
     `  Type: ${breach.type}\n` +
     `  Threshold: ${breach.threshold}\n` +
     `  Message: ${breach.message}\n\n` +
+    incidentSection(incidentSummary) +
     `Instructions:\n` +
     `1. If this is CRITICAL, call send_alert IMMEDIATELY before further investigation.\n` +
     `2. Use get_sensor_data to check related parameters across the BOP system.\n` +
@@ -0,0 +1,264 @@
+import type { BudgetStatus } from './analysis-budget.js';
+
+export type MetricLabels = Record<string, string>;
+
+/** Label values in a label set, escaped for the text exposition format */
+function formatLabels(names: string[], values: string[], extra = ''): string {
+  const pairs = names.map((name, i) => `${name}="${escapeLabelValue(values[i]!)}"`);
+  if (extra) pairs.push(extra);
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+function formatValue(value: number): string {
+  if (value === Infinity) return '+Inf';
+  if (value === -Infinity) return '-Inf';
+  return String(value);
+}
+
+abstract class Metric<T> {
+  protected series = new Map<string, { values: string[]; data: T }>();
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    readonly labelNames: string[]
+  ) {}
+
+  abstract readonly type: 'counter' | 'gauge' | 'histogram';
+
+  protected abstract initial(): T;
+
+  protected abstract renderSeries(labels: string[], data: T): string[];
+
+  protected entry(labels: MetricLabels = {}): T {
+    const values = this.labelNames.map((name) => labels[name] ?? '');
+    const key = JSON.stringify(values);
+    let series = this.series.get(key);
+    if (!series) {
+      series = { values, data: this.initial() };
+      this.series.set(key, series);
+    }
+    return series.data;
+  }
+
+  render(): string {
+    const help = this.help.replace(/\\/g, '\\\\').replace(/\n/g, '\\n');
+    const lines = [`# HELP ${this.name} ${help}`, `# TYPE ${this.name} ${this.type}`];
+    // An unlabelled metric is always reported, starting at zero
+    if (this.series.size === 0 && this.labelNames.length === 0) this.entry();
+    for (const { values, data } of this.series.values()) lines.push(...this.renderSeries(values, data));
+    return lines.join('\n');
+  }
+}
+
+export class Counter extends Metric<{ value: number }> {
+  readonly type = 'counter';
+
+  protected initial() {
+    return { value: 0 };
+  }
+
+  inc(labels?: MetricLabels, by = 1): void {
+    if (by < 0) throw new Error(`Counter ${this.name} cannot decrease`);
+    this.entry(labels).value += by;
+  }
+
+  get(labels?: MetricLabels): number {
+    return this.entry(labels).value;
+  }
+
+  protected renderSeries(values: string[], data: { value: number }): string[] {
+    return [`${this.name}${formatLabels(this.labelNames, values)} ${formatValue(data.value)}`];
+  }
+}
+
+export class Gauge extends Metric<{ value: number }> {
+  readonly type = 'gauge';
+
+  /** `collect` reads an unlabelled gauge's value at scrape time instead of it being set */
+  constructor(name: string, help: string, labelNames: string[], private collect?: () => number) {
+    super(name, help, labelNames);
+  }
+
+  protected initial() {
+    return { value: 0 };
+  }
+
+  set(value: number, labels?: MetricLabels): void {
+    this.entry(labels).value = value;
+  }
+
+  inc(labels?: MetricLabels, by = 1): void {
+    this.entry(labels).value += by;
+  }
+
+  get(labels?: MetricLabels): number {
+    if (this.collect) this.entry().value = this.collect();
+    return this.entry(labels).value;
+  }
+
+  render(): string {
+    if (this.collect) this.entry().value = this.collect();
+    return super.render();
+  }
+
+  protected renderSeries(values: string[], data: { value: number }): string[] {
+    return [`${this.name}${formatLabels(this.labelNames, values)} ${formatValue(data.value)}`];
+  }
+}
+
+interface HistogramData {
+  /** Cumulative count per bucket upper bound */
+  buckets: number[];
+  sum: number;
+  count: number;
+}
+
+export class Histogram extends Metric<HistogramData> {
+  readonly type = 'histogram';
+
+  constructor(name: string, help: string, labelNames: string[], private bounds: number[]) {
+    super(name, help, labelNames);
+    this.bounds = [...bounds].sort((a, b) => a - b);
+  }
+
+  protected initial(): HistogramData {
+    return { buckets: this.bounds.map(() => 0), sum: 0, count: 0 };
+  }
+
+  observe(value: number, labels?: MetricLabels): void {
+    const data = this.entry(labels);
+    this.bounds.forEach((bound, i) => {
+      if (value <= bound) data.buckets[i]!++;
+    });
+    data.sum += value;
+    data.count++;
+  }
+
+  protected renderSeries(values: string[], data: HistogramData): string[] {
+    const lines = this.bounds.map((bound, i) => {
+      const labels = formatLabels(this.labelNames, values, `le="${formatValue(bound)}"`);
+      return `${this.name}_bucket${labels} ${data.buckets[i]}`;
+    });
+    lines.push(`${this.name}_bucket${formatLabels(this.labelNames, values, 'le="+Inf"')} ${data.count}`);
+    lines.push(`${this.name}_sum${formatLabels(this.labelNames, values)} ${formatValue(data.sum)}`);
+    lines.push(`${this.name}_count${formatLabels(this.labelNames, values)} ${data.count}`);
+    return lines;
+  }
+}
+
+/** A minimal Prometheus registry: register metrics, render them in the text exposition format. */
+export class MetricsRegistry {
+  private metrics = new Map<string, Counter | Gauge | Histogram>();
+
+  counter(name: string, help: string, labelNames: string[] = []): Counter {
+    return this.register(new Counter(name, help, labelNames));
+  }
+
+  gauge(name: string, help: string, labelNames: string[] = [], collect?: () => number): Gauge {
+    return this.register(new Gauge(name, help, labelNames, collect));
+  }
+
+  histogram(name: string, help: string, buckets: number[], labelNames: string[] = []): Histogram {
+    return this.register(new Histogram(name, help, labelNames, buckets));
+  }
+
+  render(): string {
+    return [...this.metrics.values()].map((m) => m.render()).join('\n') + '\n';
+  }
+
+  private register<M extends Counter | Gauge | Histogram>(metric: M): M {
+    if (this.metrics.has(metric.name)) throw new Error(`Metric ${metric.name} is already registered`);
+    this.metrics.set(metric.name, metric);
+    return metric;
+  }
+}
+
+/** The agent's own metrics; index.ts, BOPAgent, AnalysisScheduler and AlertManager report into these. */
+export interface BOPMetrics {
+  registry: MetricsRegistry;
+  piChannelReconnects: Counter;
+  valuesReceived: Counter;
+  thresholdBreaches: Counter;
+  analysesStarted: Counter;
+  analysesCompleted: Counter;
+  analysesFailed: Counter;
+  analysisDuration: Histogram;
+  analysisCostUsd: Counter;
+  analysisQueueDepth: Gauge;
+  analysesRunning: Gauge;
+  analysisQueueDropped: Counter;
+  analysisQueueCoalesced: Counter;
+  /** Non-critical analyses run on the fallback model or as a rule-based summary */
+  analysesDowngraded: Counter;
+  alertsSent: Counter;
+}
+
+export interface BOPMetricsSources {
+  isPiChannelConnected: () => boolean;
+  getBudgetStatus?: () => BudgetStatus;
+}
+
+const BUDGET_LEVEL_VALUE = { OK: 0, NEAR: 1, EXCEEDED: 2 } as const;
+
+export function createBOPMetrics(sources: BOPMetricsSources, registry = new MetricsRegistry()): BOPMetrics {
+  registry.gauge('bop_pi_channel_connected', 'Whether every PI channel is connected (1) or not (0)', [], () =>
+    sources.isPiChannelConnected() ? 1 : 0
+  );
+  const { getBudgetStatus } = sources;
+  if (getBudgetStatus) {
+    registry.gauge('bop_llm_spend_last_hour_usd', 'LLM spend over the last 60 minutes in USD', [], () =>
+      getBudgetStatus().lastHour.spentUsd
+    );
+    registry.gauge('bop_llm_spend_last_day_usd', 'LLM spend over the last 24 hours in USD', [], () =>
+      getBudgetStatus().lastDay.spentUsd
+    );
+    registry.gauge('bop_agent_analyses_last_hour', 'Agent analyses over the last 60 minutes', [], () =>
+      getBudgetStatus().lastHour.analyses
+    );
+    registry.gauge('bop_llm_budget_level', 'LLM budget state: 0 OK, 1 NEAR, 2 EXCEEDED', [], () =>
+      BUDGET_LEVEL_VALUE[getBudgetStatus().level]
+    );
+  }
+  return {
+    registry,
+    piChannelReconnects: registry.counter('bop_pi_channel_reconnects_total', 'PI channel reconnections'),
+    valuesReceived: registry.counter('bop_pi_values_received_total', 'Sensor values received from PI', ['tag']),
+    thresholdBreaches: registry.counter('bop_threshold_breaches_total', 'Threshold breaches detected', [
+      'tag',
+      'level',
+    ]),
+    analysesStarted: registry.counter('bop_agent_analyses_started_total', 'Agent analyses started'),
+    analysesCompleted: registry.counter('bop_agent_analyses_completed_total', 'Agent analyses completed'),
+    analysesFailed: registry.counter('bop_agent_analyses_failed_total', 'Agent analyses that threw an error'),
+    analysisDuration: registry.histogram(
+      'bop_agent_analysis_duration_seconds',
+      'Wall-clock duration of agent analyses, failed ones included',
+      [5, 10, 30, 60, 120, 300, 600]
+    ),
+    analysisCostUsd: registry.counter('bop_agent_analysis_cost_usd_total', 'Reported cost of agent analyses in USD'),
+    analysisQueueDepth: registry.gauge('bop_analysis_queue_depth', 'Analysis jobs waiting for a free slot'),
+    analysesRunning: registry.gauge('bop_analyses_running', 'Analyses currently running'),
+    analysisQueueDropped: registry.counter(
+      'bop_analysis_queue_dropped_total',
+      'Analysis jobs dropped because the queue was full',
+      ['priority']
+    ),
+    analysisQueueCoalesced: registry.counter(
+      'bop_analysis_queue_coalesced_total',
+      'Breaches or periodic checks merged into an already queued job'
+    ),
+    analysesDowngraded: registry.counter(
+      'bop_agent_analyses_downgraded_total',
+      'Non-critical analyses run on the fallback model or as a rule-based summary because of the LLM budget',
+      ['mode']
+    ),
+    alertsSent: registry.counter('bop_alerts_sent_total', 'Alerts raised (duplicates and shelved excluded)', [
+      'severity',
+    ]),
+  };
+}
@@ -0,0 +1,154 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { Alert, AlertManager, AlertState } from '../alert-manager.js';
+import {
+  Notification,
+  NotificationEvent,
+  NotificationSink,
+  SinkRoute,
+  matchesRoute,
+} from './notification-sink.js';
+
+export interface RetryPolicy {
+  maxAttempts: number;
+  initialDelayMs: number;
+  maxDelayMs: number;
+}
+
+export interface SinkRegistration {
+  route?: SinkRoute;
+  retry?: Partial<RetryPolicy>;
+  /** JSONL file that receives notifications this sink could not deliver */
+  deadLetterFile?: string;
+}
+
+interface RegisteredSink {
+  sink: NotificationSink;
+  route: SinkRoute;
+  retry: RetryPolicy;
+  deadLetterFile?: string;
+}
+
+const DEFAULT_RETRY: RetryPolicy = {
+  maxAttempts: 5,
+  initialDelayMs: 1000,
+  maxDelayMs: 60_000,
+};
+
+const STATE_EVENTS: Partial<Record<AlertState, NotificationEvent>> = {
+  ACKNOWLEDGED: 'acknowledged',
+  CLEARED: 'cleared',
+  RESOLVED: 'resolved',
+};
+
+/**
+ * Fans alert notifications out to registered sinks. Each sink gets its own
+ * routing, retry with exponential backoff, and dead-letter file; a slow or
+ * failing sink never delays the others or the caller.
+ */
+export class NotificationDispatcher {
+  private sinks: RegisteredSink[] = [];
+  private pending = new Set<Promise<void>>();
+
+  register(sink: NotificationSink, options: SinkRegistration = {}): void {
+    this.sinks.push({
+      sink,
+      route: options.route ?? {},
+      retry: { ...DEFAULT_RETRY, ...options.retry },
+      deadLetterFile: options.deadLetterFile,
+    });
+  }
+
+  get sinkNames(): string[] {
+    return this.sinks.map((s) => s.sink.name);
+  }
+
+  /** Subscribe to an AlertManager's alert and lifecycle events. */
+  attach(alertManager: AlertManager): void {
+    alertManager.on('alert', (alert: Alert) => this.dispatch({ event: 'raised', alert }));
+    alertManager.on('alert_escalated', (alert: Alert) => this.dispatch({ event: 'escalated', alert }));
+    alertManager.on('alert_state_change', ({ alert }: { alert: Alert }) => {
+      const event = STATE_EVENTS[alert.state];
+      if (event) this.dispatch({ event, alert });
+    });
+  }
+
+  /** Start delivery to every matching sink. Returns immediately. */
+  dispatch(notification: Notification): void {
+    for (const entry of this.sinks) {
+      if (!matchesRoute(entry.route, notification)) continue;
+      const delivery = this.deliverWithRetry(entry, notification);
+      this.pending.add(delivery);
+      delivery.finally(() => this.pending.delete(delivery));
+    }
+  }
+
+  /** Wait for in-flight deliveries (including retries) to finish. */
+  async flush(): Promise<void> {
+    while (this.pending.size > 0) {
+      await Promise.all([...this.pending]);
+    }
+  }
+
+  async close(): Promise<void> {
+    await this.flush();
+    for (const { sink } of this.sinks) {
+      await sink.close?.();
+    }
+  }
+
+  private async deliverWithRetry(entry: RegisteredSink, notification: Notification): Promise<void> {
+    const { sink, retry } = entry;
+    let delay = retry.initialDelayMs;
+    let lastError: unknown;
+
+    for (let attempt = 1; attempt <= retry.maxAttempts; attempt++) {
+      try {
+        await sink.deliver(notification);
+        return;
+      } catch (err) {
+        lastError = err;
+        if (attempt < retry.maxAttempts) {
+          console.warn(
+            `[Notify] ${sink.name} delivery failed (attempt ${attempt}/${retry.maxAttempts}): ` +
+              `${errorMessage(err)} — retrying in ${delay}ms`
+          );
+          await new Promise((r) => setTimeout(r, delay));
+          delay = Math.min(delay * 2, retry.maxDelayMs);
+        }
+      }
+    }
+
+    console.error(
+      `[Notify] ${sink.name} gave up on alert ${notification.alert.id} after ` +
+        `${retry.maxAttempts} attempts: ${errorMessage(lastError)}`
+    );
+    await this.deadLetter(entry, notification, retry.maxAttempts, lastError);
+  }
+
+  private async deadLetter(
+    entry: RegisteredSink,
+    notification: Notification,
+    attempts: number,
+    error: unknown
+  ): Promise<void> {
+    if (!entry.deadLetterFile) return;
+    const record = {
+      sink: entry.sink.name,
+      failedAt: new Date().toISOString(),
+      attempts,
+      error: errorMessage(error),
+      notification,
+    };
+    try {
+      await fs.mkdir(path.dirname(entry.deadLetterFile), { recursive: true });
+      await fs.appendFile(entry.deadLetterFile, JSON.stringify(record) + '\n');
+    } catch (err) {
+      console.error(`[Notify] Could not write dead letter for ${entry.sink.name}:`, err);
+    }
+  }
+}
+
+function errorMessage(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
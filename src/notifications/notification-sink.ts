@@ -0,0 +1,66 @@
+import type { Alert } from '../alert-manager.js';
+
+export type NotificationEvent = 'raised' | 'escalated' | 'acknowledged' | 'cleared' | 'resolved';
+
+export interface Notification {
+  event: NotificationEvent;
+  alert: Alert;
+}
+
+/**
+ * A destination for alert notifications. Implementations only need to make a
+ * single delivery attempt and throw on failure — routing, retries and
+ * dead-lettering are handled by NotificationDispatcher.
+ */
+export interface NotificationSink {
+  readonly name: string;
+  deliver(notification: Notification): Promise<void>;
+  close?(): Promise<void>;
+}
+
+/** Which notifications a sink receives. Omitted fields match everything. */
+export interface SinkRoute {
+  severities?: string[];
+  components?: string[];
+  events?: NotificationEvent[];
+}
+
+export function matchesRoute(route: SinkRoute, notification: Notification): boolean {
+  const { alert, event } = notification;
+  if (route.events && !route.events.includes(event)) return false;
+  if (route.severities && !route.severities.includes(alert.severity)) return false;
+  if (route.components) {
+    const components = alert.affectedComponents ?? [];
+    if (!route.components.some((c) => components.includes(c))) return false;
+  }
+  return true;
+}
+
+/** One-line summary used as an email subject or syslog message. */
+export function formatSubject(notification: Notification): string {
+  const { alert, event } = notification;
+  const label = event === 'raised' ? alert.severity : `${alert.severity} ${event.toUpperCase()}`;
+  return `[BOP ${label}] ${alert.title}`;
+}
+
+/** Plain-text body for human-readable sinks. */
+export function formatBody(notification: Notification): string {
+  const { alert } = notification;
+  const lines = [
+    formatSubject(notification),
+    '',
+    alert.description,
+    '',
+    `Recommended action: ${alert.recommendedAction}`,
+    `Alert id: ${alert.id}`,
+    `State: ${alert.state}`,
+    `Raised at: ${alert.timestamp}`,
+  ];
+  if (alert.affectedComponents?.length) {
+    lines.push(`Components: ${alert.affectedComponents.join(', ')}`);
+  }
+  if (alert.tags?.length) lines.push(`Tags: ${alert.tags.join(', ')}`);
+  if (alert.acknowledgedBy) lines.push(`Acknowledged by: ${alert.acknowledgedBy}`);
+  if (alert.escalationLevel) lines.push(`Escalation level: ${alert.escalationLevel}`);
+  return lines.join('\n');
+}
@@ -0,0 +1,109 @@
+import { readFileSync } from 'fs';
+import { z } from 'zod';
+import { NotificationDispatcher } from './dispatcher.js';
+import type { NotificationSink } from './notification-sink.js';
+import { WebhookSink } from './webhook-sink.js';
+import { SmtpSink } from './smtp-sink.js';
+import { SyslogSink } from './syslog-sink.js';
+
+const severitySchema = z.enum(['CRITICAL', 'WARNING', 'INFO']);
+const eventSchema = z.enum(['raised', 'escalated', 'acknowledged', 'cleared', 'resolved']);
+
+const commonSchema = z.object({
+  name: z.string().min(1).optional(),
+  route: z
+    .object({
+      severities: z.array(severitySchema).optional(),
+      components: z.array(z.string()).optional(),
+      events: z.array(eventSchema).optional(),
+    })
+    .optional(),
+  retry: z
+    .object({
+      maxAttempts: z.number().int().min(1).optional(),
+      initialDelayMs: z.number().int().min(0).optional(),
+      maxDelayMs: z.number().int().min(0).optional(),
+    })
+    .optional(),
+  deadLetterFile: z.string().min(1).optional(),
+});
+
+const sinkSchema = z.discriminatedUnion('type', [
+  commonSchema.extend({
+    type: z.literal('webhook'),
+    url: z.string().url(),
+    secret: z.string().min(1).optional(),
+    headers: z.record(z.string()).optional(),
+    timeoutMs: z.number().int().positive().optional(),
+  }),
+  commonSchema.extend({
+    type: z.literal('smtp'),
+    host: z.string().min(1),
+    port: z.number().int().positive().optional(),
+    secure: z.boolean().optional(),
+    rejectUnauthorized: z.boolean().optional(),
+    username: z.string().optional(),
+    password: z.string().optional(),
+    from: z.string().min(1),
+    to: z.array(z.string().min(1)).min(1),
+    timeoutMs: z.number().int().positive().optional(),
+  }),
+  commonSchema.extend({
+    type: z.literal('syslog'),
+    host: z.string().min(1),
+    port: z.number().int().positive().optional(),
+    protocol: z.enum(['udp', 'tcp']).optional(),
+    facility: z.number().int().min(0).max(23).optional(),
+    appName: z.string().min(1).optional(),
+    timeoutMs: z.number().int().positive().optional(),
+  }),
+]);
+
+export const notificationConfigSchema = z.object({
+  sinks: z.array(sinkSchema),
+});
+
+export type SinkConfig = z.infer<typeof sinkSchema>;
+
+function createSink(config: SinkConfig): NotificationSink {
+  switch (config.type) {
+    case 'webhook':
+      return new WebhookSink(config);
+    case 'smtp':
+      return new SmtpSink(config);
+    case 'syslog':
+      return new SyslogSink(config);
+  }
+}
+
+/** Build a dispatcher from a parsed { sinks: [...] } document. */
+export function createDispatcher(raw: unknown): NotificationDispatcher {
+  const config = notificationConfigSchema.parse(raw);
+  const dispatcher = new NotificationDispatcher();
+  for (const sinkConfig of config.sinks) {
+    dispatcher.register(createSink(sinkConfig), {
+      route: sinkConfig.route,
+      retry: sinkConfig.retry,
+      deadLetterFile: sinkConfig.deadLetterFile,
+    });
+  }
+  return dispatcher;
+}
+
+/** Load and validate the JSON sink configuration file. */
+export function loadDispatcherFromFile(file: string): NotificationDispatcher {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(readFileSync(file, 'utf-8'));
+  } catch (err: any) {
+    throw new Error(`Cannot read notification config ${file}: ${err.message}`);
+  }
+  const result = notificationConfigSchema.safeParse(raw);
+  if (!result.success) {
+    const issues = result.error.issues
+      .map((i) => `  ${i.path.join('.') || '(root)'}: ${i.message}`)
+      .join('\n');
+    throw new Error(`Invalid notification config ${file}:\n${issues}`);
+  }
+  return createDispatcher(result.data);
+}
@@ -0,0 +1,198 @@
+import net from 'net';
+import tls from 'tls';
+import os from 'os';
+import type { Notification, NotificationSink } from './notification-sink.js';
+import { formatBody, formatSubject } from './notification-sink.js';
+
+export interface SmtpSinkConfig {
+  name?: string;
+  host: string;
+  port?: number;
+  /** Implicit TLS (port 465). STARTTLS is not supported. */
+  secure?: boolean;
+  rejectUnauthorized?: boolean;
+  username?: string;
+  password?: string;
+  from: string;
+  to: string[];
+  timeoutMs?: number;
+}
+
+/**
+ * Minimal SMTP client — EHLO, optional AUTH PLAIN, one message, QUIT.
+ * Enough for a rig mail relay without pulling in a mail library.
+ */
+class SmtpSession {
+  private socket: net.Socket;
+  private buffer = '';
+  private waiter: ((line: string) => void) | null = null;
+  private rejectWaiter: ((err: Error) => void) | null = null;
+  private failure: Error | null = null;
+  private lines: string[] = [];
+
+  constructor(socket: net.Socket, timeoutMs: number) {
+    this.socket = socket;
+    socket.setEncoding('utf-8');
+    socket.setTimeout(timeoutMs, () => this.fail(new Error('SMTP connection timed out')));
+    socket.on('data', (chunk: string) => {
+      this.buffer += chunk;
+      let idx: number;
+      while ((idx = this.buffer.indexOf('\r\n')) !== -1) {
+        this.lines.push(this.buffer.slice(0, idx));
+        this.buffer = this.buffer.slice(idx + 2);
+      }
+      this.flushLines();
+    });
+    socket.on('error', (err) => this.fail(err));
+    socket.on('close', () => this.fail(new Error('SMTP connection closed')));
+  }
+
+  /** Read one (possibly multi-line) reply and require the given status code. */
+  async expect(code: number): Promise<void> {
+    let line: string;
+    do {
+      line = await this.nextLine();
+    } while (line[3] === '-');
+    const actual = Number(line.slice(0, 3));
+    if (actual !== code) {
+      throw new Error(`SMTP expected ${code}, got: ${line}`);
+    }
+  }
+
+  async command(cmd: string, code: number): Promise<void> {
+    this.socket.write(cmd + '\r\n');
+    await this.expect(code);
+  }
+
+  async data(message: string): Promise<void> {
+    await this.command('DATA', 354);
+    // Dot-stuffing: lines starting with "." get an extra "."
+    const stuffed = message.replace(/\r?\n/g, '\r\n').replace(/^\./gm, '..');
+    this.socket.write(stuffed + '\r\n.\r\n');
+    await this.expect(250);
+  }
+
+  end(): void {
+    this.socket.removeAllListeners('close');
+    this.socket.end();
+  }
+
+  private nextLine(): Promise<string> {
+    if (this.failure) return Promise.reject(this.failure);
+    const line = this.lines.shift();
+    if (line !== undefined) return Promise.resolve(line);
+    return new Promise((resolve, reject) => {
+      this.waiter = resolve;
+      this.rejectWaiter = reject;
+    });
+  }
+
+  private flushLines(): void {
+    if (this.waiter && this.lines.length > 0) {
+      const resolve = this.waiter;
+      this.waiter = null;
+      this.rejectWaiter = null;
+      resolve(this.lines.shift()!);
+    }
+  }
+
+  private fail(err: Error): void {
+    if (this.failure) return;
+    this.failure = err;
+    this.socket.destroy();
+    if (this.rejectWaiter) {
+      const reject = this.rejectWaiter;
+      this.waiter = null;
+      this.rejectWaiter = null;
+      reject(err);
+    }
+  }
+}
+
+export class SmtpSink implements NotificationSink {
+  readonly name: string;
+  private config: SmtpSinkConfig;
+
+  constructor(config: SmtpSinkConfig) {
+    this.config = config;
+    this.name = config.name ?? `smtp:${config.host}`;
+  }
+
+  async deliver(notification: Notification): Promise<void> {
+    const { config } = this;
+    const socket = await this.connect();
+    const session = new SmtpSession(socket, config.timeoutMs ?? 15_000);
+
+    try {
+      await session.expect(220);
+      await session.command(`EHLO ${os.hostname()}`, 250);
+      if (config.username) {
+        const token = Buffer.from(`\0${config.username}\0${config.password ?? ''}`).toString('base64');
+        await session.command(`AUTH PLAIN ${token}`, 235);
+      }
+      await session.command(`MAIL FROM:<${config.from}>`, 250);
+      for (const recipient of config.to) {
+        await session.command(`RCPT TO:<${recipient}>`, 250);
+      }
+      await session.data(this.buildMessage(notification));
+      await session.command('QUIT', 221);
+    } finally {
+      session.end();
+    }
+  }
+
+  private connect(): Promise<net.Socket> {
+    const { host, secure } = this.config;
+    const port = this.config.port ?? (secure ? 465 : 25);
+    return new Promise((resolve, reject) => {
+      const socket = secure
+        ? tls.connect({ host, port, rejectUnauthorized: this.config.rejectUnauthorized ?? true })
+        : net.createConnection({ host, port });
+      socket.once(secure ? 'secureConnect' : 'connect', () => {
+        socket.removeListener('error', reject);
+        resolve(socket);
+      });
+      socket.once('error', reject);
+    });
+  }
+
+  private buildMessage(notification: Notification): string {
+    const { alert } = notification;
+    const headers = [
+      `From: ${headerValue(this.config.from)}`,
+      `To: ${headerValue(this.config.to.join(', '))}`,
+      `Subject: ${encodeHeader(headerValue(formatSubject(notification)))}`,
+      `Date: ${new Date().toUTCString()}`,
+      `Message-ID: <${alert.id}.${notification.event}.${Date.now()}@${os.hostname()}>`,
+      'MIME-Version: 1.0',
+      'Content-Type: text/plain; charset=utf-8',
+      `X-Priority: ${alert.severity === 'CRITICAL' ? 1 : 3}`,
+    ];
+    return headers.join('\r\n') + '\r\n\r\n' + formatBody(notification);
+  }
+}
+
+/** Alert titles are written by the agent; a line break would start a new header */
+function headerValue(value: string): string {
+  return value.replace(/[\r\n]+/g, ' ');
+}
+
+/**
+ * RFC 2047 encoded-words for non-ASCII text, folded so each stays within 75
+ * characters and no UTF-8 sequence is split between words.
+ */
+function encodeHeader(value: string): string {
+  if (!/[^\x20-\x7e]/.test(value)) return value;
+  const words: string[] = [];
+  let chunk = '';
+  for (const char of value) {
+    // 45 bytes encode to 60 base64 characters, plus 12 for =?UTF-8?B?...?=
+    if (Buffer.byteLength(chunk + char) > 45) {
+      words.push(chunk);
+      chunk = '';
+    }
+    chunk += char;
+  }
+  words.push(chunk);
+  return words.map((w) => `=?UTF-8?B?${Buffer.from(w).toString('base64')}?=`).join('\r\n ');
+}
@@ -0,0 +1,84 @@
+import dgram from 'dgram';
+import net from 'net';
+import os from 'os';
+import type { Notification, NotificationSink } from './notification-sink.js';
+import { formatSubject } from './notification-sink.js';
+
+export interface SyslogSinkConfig {
+  name?: string;
+  host: string;
+  port?: number;
+  protocol?: 'udp' | 'tcp';
+  /** Syslog facility number (default 16 = local0) */
+  facility?: number;
+  appName?: string;
+  timeoutMs?: number;
+}
+
+// RFC 5424 severities: 2 = critical, 4 = warning, 6 = informational
+const SEVERITY_CODES: Record<string, number> = {
+  CRITICAL: 2,
+  WARNING: 4,
+  INFO: 6,
+};
+
+/** Build an RFC 5424 message with the alert id and event as structured data. */
+export function formatSyslogMessage(
+  notification: Notification,
+  facility = 16,
+  appName = 'bop-agent',
+  hostname = os.hostname()
+): string {
+  const { alert, event } = notification;
+  const severity = SEVERITY_CODES[alert.severity] ?? 5;
+  const pri = facility * 8 + severity;
+  const escape = (v: string) => v.replace(/["\\\]]/g, (c) => `\\${c}`);
+  const sd = `[bop@32473 alertId="${escape(alert.id)}" event="${event}" state="${alert.state}"]`;
+  const msg = `${formatSubject(notification)} — ${alert.description} Action: ${alert.recommendedAction}`;
+  return `<${pri}>1 ${new Date().toISOString()} ${hostname} ${appName} ${process.pid} ALERT ${sd} ${msg}`;
+}
+
+/** Syslog over UDP (one datagram per message) or TCP (RFC 6587 octet counting). */
+export class SyslogSink implements NotificationSink {
+  readonly name: string;
+  private config: SyslogSinkConfig;
+
+  constructor(config: SyslogSinkConfig) {
+    this.config = config;
+    this.name = config.name ?? `syslog:${config.host}`;
+  }
+
+  async deliver(notification: Notification): Promise<void> {
+    const message = formatSyslogMessage(notification, this.config.facility, this.config.appName);
+    if ((this.config.protocol ?? 'udp') === 'udp') {
+      await this.sendUdp(message);
+    } else {
+      await this.sendTcp(message);
+    }
+  }
+
+  private sendUdp(message: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const socket = dgram.createSocket(net.isIPv6(this.config.host) ? 'udp6' : 'udp4');
+      socket.send(message, this.config.port ?? 514, this.config.host, (err) => {
+        socket.close();
+        if (err) reject(err);
+        else resolve();
+      });
+    });
+  }
+
+  private sendTcp(message: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const frame = `${Buffer.byteLength(message)} ${message}`;
+      const socket = net.createConnection({ host: this.config.host, port: this.config.port ?? 514 });
+      socket.setTimeout(this.config.timeoutMs ?? 10_000, () => {
+        socket.destroy(new Error('Syslog connection timed out'));
+      });
+      socket.once('error', reject);
+      socket.once('connect', () => {
+        socket.end(frame, () => resolve());
+      });
+    });
+  }
+}
@@ -0,0 +1,58 @@
+import { createHmac } from 'crypto';
+import axios, { AxiosInstance } from 'axios';
+import type { Notification, NotificationSink } from './notification-sink.js';
+
+export interface WebhookSinkConfig {
+  name?: string;
+  url: string;
+  /** Shared secret for the X-BOP-Signature header. Unsigned when omitted. */
+  secret?: string;
+  headers?: Record<string, string>;
+  /** Per-request timeout; a receiver that hangs counts as a failed attempt (default 10s) */
+  timeoutMs?: number;
+}
+
+/** Sign `${timestamp}.${body}` so receivers can reject replays as well as forgeries. */
+export function signWebhookPayload(secret: string, timestamp: string, body: string): string {
+  return 'sha256=' + createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+/**
+ * Generic JSON webhook. Each notification is POSTed as
+ * { event, alert, sentAt } with X-BOP-Timestamp and X-BOP-Signature headers.
+ */
+export class WebhookSink implements NotificationSink {
+  readonly name: string;
+  private config: WebhookSinkConfig;
+  private client: AxiosInstance;
+
+  constructor(config: WebhookSinkConfig) {
+    this.config = config;
+    this.name = config.name ?? `webhook:${new URL(config.url).host}`;
+    this.client = axios.create({
+      timeout: config.timeoutMs ?? 10_000,
+      // The body is signed, so it must go out byte for byte; the status is checked below
+      transformRequest: [(data) => data],
+      validateStatus: () => true,
+    });
+  }
+
+  async deliver(notification: Notification): Promise<void> {
+    const sentAt = new Date().toISOString();
+    const body = JSON.stringify({ ...notification, sentAt });
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      'X-BOP-Event': notification.event,
+      'X-BOP-Timestamp': sentAt,
+      ...this.config.headers,
+    };
+    if (this.config.secret) {
+      headers['X-BOP-Signature'] = signWebhookPayload(this.config.secret, sentAt, body);
+    }
+
+    const res = await this.client.post(this.config.url, body, { headers });
+    if (res.status < 200 || res.status >= 300) {
+      throw new Error(`Webhook responded ${res.status} ${res.statusText}`);
+    }
+  }
+}
@@ -0,0 +1,152 @@
+import { randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { AnalysisResult } from './analysis-engine.js';
+import type { SubmitOutcome } from './analysis-scheduler.js';
+
+/** A question from the rig crew, waiting in the analysis scheduler */
+export interface OperatorQuestion {
+  id: string;
+  /** Who asked; recorded for the audit trail */
+  operator: string;
+  question: string;
+  askedAt: string;
+}
+
+/** A question and what came of it, as written to the audit trail */
+export interface OperatorExchange extends OperatorQuestion {
+  status: 'answered' | 'failed';
+  answeredAt: string;
+  answer: string;
+  toolsUsed: string[];
+  costUsd?: number;
+  error?: string;
+}
+
+export interface AskHandlers {
+  /** The scheduler took the question; `queued` when it waits behind other analyses */
+  onAccepted?: (question: OperatorQuestion, queued: boolean) => void;
+  /** Answer text as the agent writes it */
+  onText?: (text: string) => void;
+}
+
+export class OperatorChatError extends Error {
+  constructor(
+    message: string,
+    readonly code: 'BUSY' | 'DECLINED' | 'FAILED'
+  ) {
+    super(message);
+    this.name = 'OperatorChatError';
+  }
+}
+
+export interface OperatorChatDependencies {
+  /** Queue the question (AnalysisScheduler.submitQuestion) */
+  submit: (question: OperatorQuestion) => SubmitOutcome;
+  /** Answer it with the agent, streaming the text; `model` overrides AGENT_MODEL */
+  answer: (question: OperatorQuestion, onText: (text: string) => void, model?: string) => Promise<AnalysisResult>;
+  /** Every exchange, answered or not, is recorded here */
+  audit?: ChatAuditLog;
+}
+
+interface PendingQuestion {
+  question: OperatorQuestion;
+  handlers: AskHandlers;
+  resolve: (exchange: OperatorExchange) => void;
+  reject: (err: OperatorChatError) => void;
+}
+
+/**
+ * Operator questions ("why is accumulator pressure trending down?") answered
+ * by the agent with the same MCP tools. A question is queued in the analysis
+ * scheduler like any other job; ask() settles once the scheduler has run it
+ * (run) or given up on it (fail).
+ */
+export class OperatorChat {
+  private pending = new Map<string, PendingQuestion>();
+
+  constructor(private deps: OperatorChatDependencies) {}
+
+  ask(operator: string, question: string, handlers: AskHandlers = {}): Promise<OperatorExchange> {
+    const asked: OperatorQuestion = { id: randomUUID(), operator, question, askedAt: new Date().toISOString() };
+    console.log(`[Chat] ${operator} asked: ${question}`);
+    const answered = new Promise<OperatorExchange>((resolve, reject) => {
+      this.pending.set(asked.id, { question: asked, handlers, resolve, reject });
+    });
+
+    const outcome = this.deps.submit(asked);
+    if (outcome === 'dropped') {
+      this.fail(asked, new OperatorChatError('The analysis queue is full; ask again shortly', 'BUSY'));
+    } else {
+      handlers.onAccepted?.(asked, outcome === 'queued');
+    }
+    return answered;
+  }
+
+  /** Scheduler job for a question: answer it and settle ask() */
+  async run(question: OperatorQuestion, model?: string): Promise<void> {
+    const pending = this.pending.get(question.id);
+    const onText = (text: string) => pending?.handlers.onText?.(text);
+    let result: AnalysisResult;
+    try {
+      result = await this.deps.answer(question, onText, model);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      await this.fail(question, new OperatorChatError(`The agent could not answer: ${message}`, 'FAILED'));
+      return;
+    }
+
+    const exchange: OperatorExchange = {
+      ...question,
+      status: 'answered',
+      answeredAt: new Date().toISOString(),
+      answer: result.text,
+      toolsUsed: result.toolsUsed,
+      ...(result.costUsd !== undefined && { costUsd: result.costUsd }),
+    };
+    this.pending.delete(question.id);
+    await this.record(exchange);
+    pending?.resolve(exchange);
+  }
+
+  /** The question will not be answered: queue full, budget exhausted or agent error */
+  async fail(question: OperatorQuestion, err: OperatorChatError): Promise<void> {
+    const pending = this.pending.get(question.id);
+    if (!pending) return;
+    this.pending.delete(question.id);
+    await this.record({
+      ...question,
+      status: 'failed',
+      answeredAt: new Date().toISOString(),
+      answer: '',
+      toolsUsed: [],
+      error: err.message,
+    });
+    pending.reject(err);
+  }
+
+  private async record(exchange: OperatorExchange): Promise<void> {
+    console.log(
+      `[Chat] ${exchange.status === 'answered' ? 'Answered' : 'Could not answer'} ` +
+        `${exchange.operator}'s question (${exchange.id})`
+    );
+    try {
+      await this.deps.audit?.record(exchange);
+    } catch (err) {
+      console.error('[Chat] Could not write the audit trail:', err);
+    }
+  }
+}
+
+/** Append-only JSONL file of operator exchanges, one per line */
+export class ChatAuditLog {
+  private ready: Promise<unknown> | null = null;
+
+  constructor(private file: string) {}
+
+  async record(exchange: OperatorExchange): Promise<void> {
+    this.ready ??= fs.mkdir(path.dirname(this.file), { recursive: true });
+    await this.ready;
+    await fs.appendFile(this.file, JSON.stringify(exchange) + '\n');
+  }
+}
@@ -0,0 +1,169 @@
+import { z } from 'zod';
+
+export type PIAuthMode = 'basic' | 'bearer' | 'client_credentials';
+
+export type PIAuthConfig =
+  | { mode: 'basic'; username: string; password: string }
+  | { mode: 'bearer'; token: string }
+  | {
+      mode: 'client_credentials';
+      tokenUrl: string;
+      clientId: string;
+      clientSecret: string;
+      scope?: string;
+      /** Refresh this long before the token expires (default 60s) */
+      refreshSkewMs?: number;
+      rejectUnauthorized?: boolean;
+    };
+
+/**
+ * Supplies the Authorization header for PI Web API requests. Shared by the
+ * REST and WebSocket clients so an OAuth2 token is fetched once for both.
+ */
+export interface PIAuthProvider {
+  readonly mode: PIAuthMode;
+  getAuthorizationHeader(): Promise<string>;
+  /** Drop a credential the server rejected (401) so the next call fetches a new one */
+  invalidate(): void;
+}
+
+/** A token endpoint or credential failure; `status` is the token endpoint's HTTP status */
+export class PIAuthError extends Error {
+  constructor(
+    message: string,
+    readonly status?: number
+  ) {
+    super(message);
+    this.name = 'PIAuthError';
+  }
+}
+
+export class BasicAuthProvider implements PIAuthProvider {
+  readonly mode = 'basic';
+  private header: string;
+
+  constructor(username: string, password: string) {
+    this.header = 'Basic ' + Buffer.from(`${username}:${password}`).toString('base64');
+  }
+
+  async getAuthorizationHeader(): Promise<string> {
+    return this.header;
+  }
+
+  invalidate(): void {}
+}
+
+export class BearerTokenProvider implements PIAuthProvider {
+  readonly mode = 'bearer';
+
+  constructor(private token: string) {}
+
+  async getAuthorizationHeader(): Promise<string> {
+    return `Bearer ${this.token}`;
+  }
+
+  invalidate(): void {}
+}
+
+/** Token endpoint response, success (RFC 6749 §5.1) or error (§5.2) */
+const tokenResponseSchema = z.object({
+  access_token: z.string().optional(),
+  expires_in: z.union([z.number(), z.string()]).optional(),
+  error: z.string().optional(),
+  error_description: z.string().optional(),
+});
+type TokenResponse = z.infer<typeof tokenResponseSchema>;
+
+interface CachedToken {
+  accessToken: string;
+  /** Epoch ms; Infinity when the endpoint gave no expires_in */
+  expiresAt: number;
+}
+
+/**
+ * OAuth2 client-credentials grant (RFC 6749 §4.4). The token is cached and
+ * fetched again `refreshSkewMs` before it expires; concurrent callers share
+ * one in-flight token request.
+ */
+export class ClientCredentialsProvider implements PIAuthProvider {
+  readonly mode = 'client_credentials';
+  private token: CachedToken | null = null;
+  private pending: Promise<CachedToken> | null = null;
+
+  constructor(
+    private config: Extract<PIAuthConfig, { mode: 'client_credentials' }>,
+    private now: () => number = Date.now
+  ) {}
+
+  async getAuthorizationHeader(): Promise<string> {
+    const skew = this.config.refreshSkewMs ?? 60_000;
+    if (!this.token || this.now() >= this.token.expiresAt - skew) {
+      this.pending ??= this.fetchToken().finally(() => {
+        this.pending = null;
+      });
+      this.token = await this.pending;
+    }
+    return `Bearer ${this.token.accessToken}`;
+  }
+
+  invalidate(): void {
+    this.token = null;
+  }
+
+  private async fetchToken(): Promise<CachedToken> {
+    const { tokenUrl, clientId, clientSecret, scope } = this.config;
+    const body = new URLSearchParams({ grant_type: 'client_credentials' });
+    if (scope) body.set('scope', scope);
+
+    let res: Response;
+    try {
+      res = await fetch(tokenUrl, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/x-www-form-urlencoded',
+          Accept: 'application/json',
+          Authorization:
+            'Basic ' +
+            Buffer.from(`${encodeURIComponent(clientId)}:${encodeURIComponent(clientSecret)}`).toString('base64'),
+        },
+        body,
+        signal: AbortSignal.timeout(10_000),
+        tls: { rejectUnauthorized: this.config.rejectUnauthorized ?? true },
+      });
+    } catch (err: any) {
+      throw new PIAuthError(`OAuth2 token request to ${tokenUrl} failed: ${err.message}`);
+    }
+
+    const parsed = tokenResponseSchema.safeParse(await res.json().catch(() => ({})));
+    const data: TokenResponse = parsed.success ? parsed.data : {};
+    if (!res.ok) {
+      const reason = data.error_description ?? data.error;
+      throw new PIAuthError(
+        `OAuth2 token request to ${tokenUrl} returned ${res.status}${reason ? `: ${reason}` : ''}`,
+        res.status
+      );
+    }
+    if (data.access_token === undefined) {
+      throw new PIAuthError(`OAuth2 token response from ${tokenUrl} has no access_token`, res.status);
+    }
+
+    const expiresIn = Number(data.expires_in);
+    const expiresAt = expiresIn > 0 ? this.now() + expiresIn * 1000 : Infinity;
+    console.log(
+      `[PI Auth] Obtained access token from ${tokenUrl}` +
+        (expiresAt !== Infinity ? `, expires ${new Date(expiresAt).toISOString()}` : '')
+    );
+    return { accessToken: data.access_token, expiresAt };
+  }
+}
+
+export function createPIAuthProvider(config: PIAuthConfig): PIAuthProvider {
+  switch (config.mode) {
+    case 'basic':
+      return new BasicAuthProvider(config.username, config.password);
+    case 'bearer':
+      return new BearerTokenProvider(config.token);
+    case 'client_credentials':
+      return new ClientCredentialsProvider(config);
+  }
+}
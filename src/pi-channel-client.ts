@@ -1,9 +1,18 @@
 import WebSocket from 'ws';
 import { EventEmitter } from 'events';
+import type { RecordedValuesQuery } from './pi-rest-client.js';
+import type { PIAuthProvider } from './pi-auth.js';
+
+/** Value of a digital (enumerated) PI point, e.g. { Name: "FAULT", Value: 2 } */
+export interface PIDigitalState {
+  Name: string;
+  Value: number;
+  IsSystem?: boolean;
+}
 
 export interface PIStreamValue {
   Timestamp: string;
-  Value: number | string | boolean;
+  Value: number | string | boolean | PIDigitalState;
   UnitsAbbreviation: string;
   Good: boolean;
   Questionable: boolean;
@@ -11,6 +20,20 @@ export interface PIStreamValue {
   Annotated: boolean;
 }
 
+/**
+ * Flatten a stream value for SensorStateManager: digital states become their
+ * name plus numeric code; numbers, booleans and strings pass through.
+ */
+export function decodePIValue(raw: PIStreamValue['Value']): {
+  value: number | string | boolean;
+  stateCode?: number;
+} {
+  if (typeof raw === 'object' && raw !== null) {
+    return { value: raw.Name, stateCode: raw.Value };
+  }
+  return { value: raw };
+}
+
 export interface PIChannelMessage {
   Items: Array<{
     WebId?: string;
@@ -20,15 +43,43 @@ export interface PIChannelMessage {
   }>;
 }
 
+/** Payload of the 'value' event: one stream value plus its stream identity */
+export interface PIChannelValueEvent extends PIStreamValue {
+  webId?: string;
+  name?: string;
+  path?: string;
+  /** Replayed from recorded values after a reconnect, not received live */
+  backfilled?: true;
+}
+
+/** Where gap backfill reads recorded values from (PIRestClient) */
+export interface RecordedValuesSource {
+  getRecordedValuesForStreams(queries: RecordedValuesQuery[]): Promise<Map<string, PIStreamValue[] | Error>>;
+}
+
 export interface PIChannelConfig {
   server: string;
-  webIds: string[];
-  username: string;
-  password: string;
+  /** Streams to subscribe to (ad-hoc streamsets/channel) */
+  webIds?: string[];
+  /** AF element to subscribe to instead — every PI Point attribute beneath it (streamsets/{webId}/channel) */
+  elementWebId?: string;
+  /** Shared with PIRestClient, so both use the same credentials or access token */
+  auth: PIAuthProvider;
   includeInitialValues?: boolean;
   heartbeatRate?: number;
   maxReconnectAttempts?: number;
   rejectUnauthorized?: boolean;
+  /** Replay recorded values for the outage window after a reconnect */
+  backfill?: RecordedValuesSource;
+  /** Page size for recorded-value requests during backfill (default 1000) */
+  backfillPageSize?: number;
+}
+
+interface StreamCursor {
+  name?: string;
+  path?: string;
+  /** Timestamp of the newest value emitted for the stream */
+  lastTimestamp: string;
 }
 
 export class PIChannelClient extends EventEmitter {
@@ -39,32 +90,54 @@ export class PIChannelClient extends EventEmitter {
   private intentionallyClosed = false;
   private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
   private url: string;
-  private authHeader: string;
   private config: PIChannelConfig;
+  private streams = new Map<string, StreamCursor>();
+  private hasConnected = false;
+  /** Live messages held back while a backfill is replaying */
+  private held: PIChannelMessage[] | null = null;
+  /** Reconnected while a backfill was replaying: messages of the new socket, held for the backfill that follows */
+  private heldAfterReconnect: PIChannelMessage[] | null = null;
 
   constructor(config: PIChannelConfig) {
     super();
     this.config = config;
 
     // Build the channel URL — all subscriptions are defined in the URL
-    const webIdParams = config.webIds.map((id) => `webId=${id}`).join('&');
     const initValues = config.includeInitialValues !== false ? 'true' : 'false';
     const heartbeat = config.heartbeatRate ?? 5;
 
     // Note: wss:// not https:// — this is a raw WebSocket, not SignalR
-    this.url =
-      `wss://${config.server}/piwebapi/streamsets/channel` +
-      `?${webIdParams}` +
-      `&includeInitialValues=${initValues}` +
-      `&heartbeatRate=${heartbeat}`;
-
-    this.authHeader =
-      'Basic ' + Buffer.from(`${config.username}:${config.password}`).toString('base64');
+    if (config.elementWebId) {
+      this.url =
+        `wss://${config.server}/piwebapi/streamsets/${config.elementWebId}/channel` +
+        `?searchFullHierarchy=true` +
+        `&includeInitialValues=${initValues}` +
+        `&heartbeatRate=${heartbeat}`;
+    } else {
+      const webIdParams = (config.webIds ?? []).map((id) => `webId=${id}`).join('&');
+      this.url =
+        `wss://${config.server}/piwebapi/streamsets/channel` +
+        `?${webIdParams}` +
+        `&includeInitialValues=${initValues}` +
+        `&heartbeatRate=${heartbeat}`;
+    }
   }
 
-  connect(): void {
+  /** Open the channel. Never rejects: a failed attempt is logged and retried. */
+  async connect(): Promise<void> {
     this.intentionallyClosed = false;
 
+    let authorization: string;
+    try {
+      authorization = await this.config.auth.getAuthorizationHeader();
+    } catch (err: any) {
+      console.error(`[PI Channel] Cannot authenticate: ${err.message}`);
+      this.scheduleReconnect();
+      return;
+    }
+    // disconnect() may have been called while a token was being fetched
+    if (this.intentionallyClosed) return;
+
     // Clean up any previous socket to prevent orphaned connections
     if (this.ws) {
       this.ws.removeAllListeners();
@@ -74,48 +147,139 @@ export class PIChannelClient extends EventEmitter {
       this.ws = null;
     }
 
-    this.ws = new WebSocket(this.url, {
-      headers: { Authorization: this.authHeader },
-      rejectUnauthorized: this.config.rejectUnauthorized ?? true,
-    });
+    try {
+      this.ws = new WebSocket(this.url, {
+        headers: { Authorization: authorization },
+        rejectUnauthorized: this.config.rejectUnauthorized ?? true,
+      });
+    } catch (err: any) {
+      // e.g. a server name that does not make a valid URL
+      console.error(`[PI Channel] Cannot open the channel: ${err.message}`);
+      this.scheduleReconnect();
+      return;
+    }
 
     this.ws.on('open', () => {
       console.log('[PI Channel] Connected — streaming sensor data');
       this.reconnectDelay = 1000;
       this.reconnectAttempts = 0;
+      const reconnected = this.hasConnected;
+      this.hasConnected = true;
       this.emit('connected');
+      if (reconnected && this.config.backfill && this.streams.size > 0) {
+        // A backfill still replaying the previous gap runs again for this one once it is done
+        if (this.held) this.heldAfterReconnect ??= [];
+        else void this.backfillGap(this.config.backfill);
+      }
     });
 
     this.ws.on('message', (data: WebSocket.Data) => {
+      let msg: PIChannelMessage;
       try {
-        const msg: PIChannelMessage = JSON.parse(data.toString());
-        // Each message can contain multiple streams, each with multiple values
-        for (const stream of msg.Items) {
-          for (const value of stream.Items) {
-            this.emit('value', {
-              webId: stream.WebId,
-              name: stream.Name,
-              path: stream.Path,
-              ...value,
-            });
-          }
-        }
+        msg = JSON.parse(data.toString());
       } catch {
         // Heartbeat or keep-alive frame — ignore
+        return;
       }
+      if (this.heldAfterReconnect) this.heldAfterReconnect.push(msg);
+      else if (this.held) this.held.push(msg);
+      else this.dispatch(msg);
     });
 
     this.ws.on('close', () => {
+      this.emit('close');
       if (!this.intentionallyClosed) this.scheduleReconnect();
     });
 
     this.ws.on('error', (err: Error) => {
       console.error('[PI Channel] Error:', err.message);
+      // Handshake rejected — drop the cached token so the reconnect fetches a fresh one
+      if (err.message.includes('Unexpected server response: 401')) this.config.auth.invalidate();
     });
 
     this.ws.on('ping', () => this.ws?.pong());
   }
 
+  private dispatch(msg: PIChannelMessage): void {
+    // Each message can contain multiple streams, each with multiple values
+    for (const stream of msg.Items ?? []) {
+      const cursor = stream.WebId ? this.streams.get(stream.WebId) : undefined;
+      for (const value of stream.Items) {
+        // Already replayed by the backfill (e.g. the initial value on reconnect)
+        if (cursor && Date.parse(value.Timestamp) <= Date.parse(cursor.lastTimestamp)) continue;
+        this.emitValue({ webId: stream.WebId, name: stream.Name, path: stream.Path, ...value });
+      }
+    }
+  }
+
+  private emitValue(event: PIChannelValueEvent): void {
+    if (event.webId) {
+      this.streams.set(event.webId, { name: event.name, path: event.path, lastTimestamp: event.Timestamp });
+    }
+    this.emit('value', event);
+  }
+
+  /**
+   * Fetch recorded values for every known stream from its last value up to
+   * now and replay them in timestamp order, flagged as backfilled. Live
+   * messages arriving meanwhile are held and delivered afterwards. If the
+   * socket reconnects meanwhile, the replay runs again from there, with the
+   * new socket's messages held until it is done.
+   */
+  private async backfillGap(source: RecordedValuesSource, held: PIChannelMessage[] = []): Promise<void> {
+    this.held = held;
+    const pageSize = this.config.backfillPageSize ?? 1000;
+    const replay: PIChannelValueEvent[] = [];
+    let oldest = Infinity;
+
+    // One batch per round; streams with a full page get another round
+    let queries: RecordedValuesQuery[] = [...this.streams].map(([webId, cursor]) => {
+      oldest = Math.min(oldest, Date.parse(cursor.lastTimestamp));
+      return { webId, startTime: cursor.lastTimestamp, endTime: '*', maxCount: pageSize };
+    });
+    while (queries.length > 0) {
+      let results: Map<string, PIStreamValue[] | Error>;
+      try {
+        results = await source.getRecordedValuesForStreams(queries);
+      } catch (err: any) {
+        console.error(`[PI Channel] Backfill failed: ${err.message}`);
+        break;
+      }
+
+      const next: RecordedValuesQuery[] = [];
+      for (const query of queries) {
+        const cursor = this.streams.get(query.webId)!;
+        const page = results.get(query.webId) ?? new Error('no response');
+        if (page instanceof Error) {
+          console.error(`[PI Channel] Backfill failed for ${cursor.name ?? query.webId}: ${page.message}`);
+          continue;
+        }
+        const fresh = page.filter((v) => Date.parse(v.Timestamp) > Date.parse(query.startTime!));
+        for (const value of fresh) {
+          replay.push({ webId: query.webId, name: cursor.name, path: cursor.path, ...value, backfilled: true });
+        }
+        if (page.length >= pageSize && fresh.length > 0) {
+          next.push({ ...query, startTime: fresh[fresh.length - 1]!.Timestamp });
+        }
+      }
+      queries = next;
+    }
+
+    replay.sort((a, b) => Date.parse(a.Timestamp) - Date.parse(b.Timestamp));
+    for (const event of replay) this.emitValue(event);
+
+    const gapSec = Math.round((Date.now() - oldest) / 1000);
+    console.log(`[PI Channel] Backfilled ${replay.length} values across ${this.streams.size} streams (gap ${gapSec}s)`);
+    this.emit('backfilled', { values: replay.length, streams: this.streams.size, gapSec });
+
+    this.held = null;
+    for (const msg of held) this.dispatch(msg);
+
+    const next = this.heldAfterReconnect;
+    this.heldAfterReconnect = null;
+    if (next) await this.backfillGap(source, next);
+  }
+
   private scheduleReconnect(): void {
     // Prevent multiple concurrent reconnect timers
     if (this.reconnectTimer) return;
@@ -138,7 +302,7 @@ export class PIChannelClient extends EventEmitter {
       this.reconnectTimer = null;
       this.reconnectAttempts++;
       this.reconnectDelay = Math.min(this.reconnectDelay * 2, this.maxReconnectDelay);
-      this.connect();
+      void this.connect();
     }, delay);
   }
 
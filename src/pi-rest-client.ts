@@ -1,26 +1,232 @@
-import axios, { AxiosInstance } from 'axios';
+import axios, { AxiosInstance, AxiosResponse } from 'axios';
 import https from 'https';
+import { CircuitBreaker, CircuitBreakerStatus } from './circuit-breaker.js';
+import { PIAuthError, PIAuthProvider } from './pi-auth.js';
+import type { PIStreamValue } from './pi-channel-client.js';
+
+export interface PIRequestPolicy {
+  /** Per-attempt request timeout */
+  timeoutMs: number;
+  /** Extra attempts for idempotent requests that time out, fail to connect, or get a 5xx/429 */
+  retries: number;
+  retryInitialDelayMs: number;
+  retryMaxDelayMs: number;
+  /** Consecutive failed requests that open the circuit breaker */
+  breakerFailureThreshold: number;
+  /** How long the breaker fails fast before letting a trial request through */
+  breakerResetMs: number;
+}
+
+const DEFAULT_REQUEST_POLICY: PIRequestPolicy = {
+  timeoutMs: 10_000,
+  retries: 3,
+  retryInitialDelayMs: 500,
+  retryMaxDelayMs: 5_000,
+  breakerFailureThreshold: 5,
+  breakerResetMs: 30_000,
+};
+
+export type PIRequestErrorCode = 'TIMEOUT' | 'NETWORK' | 'HTTP' | 'NOT_FOUND' | 'AUTH' | 'CIRCUIT_OPEN';
+
+export class PIRequestError extends Error {
+  constructor(
+    message: string,
+    readonly code: PIRequestErrorCode,
+    readonly details: { status?: number; attempts?: number; retryInMs?: number } = {}
+  ) {
+    super(message);
+    this.name = 'PIRequestError';
+  }
+
+  /** The server is slow, unreachable or failing — as opposed to rejecting the request */
+  get transient(): boolean {
+    const status = this.details.status ?? 0;
+    return (
+      this.code === 'TIMEOUT' ||
+      this.code === 'NETWORK' ||
+      (this.code === 'HTTP' && (status >= 500 || status === 429))
+    );
+  }
+}
+
+/** One named sub-request of a PI Web API batch */
+export interface PIBatchRequest {
+  Method: 'GET';
+  /** Absolute URL; {0}, {1}, ... are replaced with the resolved Parameters */
+  Resource?: string;
+  /** JSONPath expressions over the parent responses, e.g. "$.1.Content.WebId" */
+  Parameters?: string[];
+  ParentIds?: string[];
+  /** Run once per parameter value; the results come back as Content.Items */
+  RequestTemplate?: { Resource: string };
+}
+
+/** Body of a failed PI Web API request */
+export interface PIErrorContent {
+  Errors?: string[];
+  Message?: string;
+}
+
+/** One sub-response of a batch: the resource's body when Status is 200, else the error body */
+export interface PIBatchResponse<T = unknown> {
+  Status: number;
+  Headers?: Record<string, string>;
+  Content?: T | PIErrorContent;
+}
+
+/** Collection responses (recorded values, attributes, child elements) */
+export interface PIItems<T> {
+  Items: T[];
+}
+
+export interface PIPoint {
+  WebId: string;
+  Name?: string;
+  Path?: string;
+}
+
+export interface PIElement {
+  WebId: string;
+  Name?: string;
+  Path?: string;
+  HasChildren?: boolean;
+}
+
+export interface PIAttribute {
+  WebId: string;
+  Name?: string;
+  Path: string;
+  DataReferencePlugIn?: string;
+  ConfigString?: string;
+  DefaultUnitsOfMeasure?: string;
+  Links?: { Point?: string };
+}
+
+export interface RecordedValuesQuery {
+  webId: string;
+  startTime?: string;
+  endTime?: string;
+  maxCount?: number;
+}
+
+/** A PI Point referenced by an AF attribute, found by discoverElementTags */
+export interface DiscoveredTag {
+  tag: string;
+  unit: string;
+  /** PI Point WebId; the attribute WebId when the server does not link the point */
+  webId: string;
+  /** Element-based channels report values under the attribute WebId */
+  attributeWebId: string;
+  attributePath: string;
+}
+
+export interface ElementDiscovery {
+  elementWebId: string;
+  elementPath: string;
+  tags: DiscoveredTag[];
+}
+
+/**
+ * PI Point name from a PI Point data reference config string, e.g.
+ * \\PISRV01\BOP.ACC.PRESS.SYS;ReadOnly=False → "BOP.ACC.PRESS.SYS".
+ * Returns null for references that still contain %substitution% parameters.
+ */
+export function piPointNameFromConfigString(configString: string): string | null {
+  const reference = configString.split(/[;?]/)[0]!.trim();
+  const name = reference.split('\\').filter(Boolean).pop();
+  if (!name || name.includes('%')) return null;
+  return name;
+}
+
+function toPIRequestError(
+  err: any,
+  method: string,
+  url: string,
+  attempts: number,
+  timeoutMs: number
+): PIRequestError {
+  const status: number | undefined = err?.response?.status;
+  const tried = attempts > 1 ? ` (after ${attempts} attempts)` : '';
+  if (err instanceof PIAuthError) {
+    // The token endpoint rejecting our client is final; it being down or slow is not
+    const rejected = err.status !== undefined && err.status < 500;
+    return new PIRequestError(
+      `PI Web API ${method} ${url} failed: ${err.message}${tried}`,
+      rejected ? 'AUTH' : 'NETWORK',
+      { status: err.status, attempts }
+    );
+  }
+  if (status !== undefined) {
+    const data = err.response.data;
+    const reason = data?.Message ?? data?.Errors?.join('; ');
+    const code: PIRequestErrorCode =
+      status === 404 ? 'NOT_FOUND' : status === 401 || status === 403 ? 'AUTH' : 'HTTP';
+    return new PIRequestError(
+      `PI Web API ${method} ${url} returned ${status}${reason ? `: ${reason}` : ''}${tried}`,
+      code,
+      { status, attempts }
+    );
+  }
+  if (err?.code === 'ECONNABORTED' || err?.code === 'ETIMEDOUT') {
+    return new PIRequestError(`PI Web API ${method} ${url} timed out after ${timeoutMs}ms${tried}`, 'TIMEOUT', {
+      attempts,
+    });
+  }
+  return new PIRequestError(`PI Web API ${method} ${url} failed: ${err?.message ?? err}${tried}`, 'NETWORK', {
+    attempts,
+  });
+}
+
+/** The sub-request's body, when it succeeded */
+function batchContent<T>(response: PIBatchResponse<T> | undefined): T | undefined {
+  return response?.Status === 200 ? (response.Content as T) : undefined;
+}
+
+function describeBatchFailure(response: PIBatchResponse | undefined): string {
+  if (!response) return 'missing from batch response';
+  const content = (response.Content ?? {}) as PIErrorContent;
+  const errors = content.Errors ?? (content.Message ? [content.Message] : []);
+  return `status ${response.Status}${errors.length > 0 ? ` — ${errors.join('; ')}` : ''}`;
+}
 
 export class PIRestClient {
   private client: AxiosInstance;
+  private baseUrl: string;
+  private policy: PIRequestPolicy;
+  private breaker: CircuitBreaker;
 
-  constructor(server: string, username: string, password: string, rejectUnauthorized = true) {
+  constructor(
+    server: string,
+    private auth: PIAuthProvider,
+    rejectUnauthorized = true,
+    policy: Partial<PIRequestPolicy> = {}
+  ) {
+    this.baseUrl = `https://${server}/piwebapi`;
+    this.policy = { ...DEFAULT_REQUEST_POLICY, ...policy };
+    this.breaker = new CircuitBreaker('PI REST', {
+      failureThreshold: this.policy.breakerFailureThreshold,
+      resetTimeoutMs: this.policy.breakerResetMs,
+    });
     this.client = axios.create({
-      baseURL: `https://${server}/piwebapi`,
-      auth: { username, password },
+      baseURL: this.baseUrl,
+      timeout: this.policy.timeoutMs,
       headers: { 'X-Requested-With': 'XMLHttpRequest' },
       httpsAgent: new https.Agent({ rejectUnauthorized }),
     });
+    this.client.interceptors.request.use(async (request) => {
+      request.headers.Authorization = await this.auth.getAuthorizationHeader();
+      return request;
+    });
   }
 
   async getPointWebId(dataArchive: string, tagName: string): Promise<string> {
     const path = `\\\\${dataArchive}\\${tagName}`;
-    const res = await this.client.get('/points', { params: { path } });
+    const res = await this.get<PIPoint>('/points', { params: { path } });
     return res.data.WebId;
   }
 
   async getStreamValue(webId: string): Promise<any> {
-    const res = await this.client.get(`/streams/${webId}/value`);
+    const res = await this.get<PIStreamValue>(`/streams/${webId}/value`);
     return res.data;
   }
 
@@ -30,25 +236,214 @@ export class PIRestClient {
     endTime: string = '*',
     maxCount: number = 100
   ): Promise<any[]> {
-    const res = await this.client.get(`/streams/${webId}/recorded`, {
+    const res = await this.get<PIItems<PIStreamValue>>(`/streams/${webId}/recorded`, {
       params: { startTime, endTime, maxCount },
     });
     return res.data.Items;
   }
 
+  getCircuitStatus(): CircuitBreakerStatus {
+    return this.breaker.getStatus();
+  }
+
+  private get<T>(url: string, config?: { params: Record<string, unknown> }): Promise<AxiosResponse<T>> {
+    return this.send('GET', url, () => (config ? this.client.get(url, config) : this.client.get(url)));
+  }
+
+  // Our batches only carry GET sub-requests, so they are as safe to retry as a GET
+  private post(url: string, data: unknown): Promise<AxiosResponse> {
+    return this.send('POST', url, () => this.client.post(url, data));
+  }
+
+  /**
+   * Run a request through the circuit breaker, retrying transient failures
+   * with exponential backoff. Rejects with a PIRequestError.
+   */
+  private async send(method: string, url: string, request: () => Promise<AxiosResponse>): Promise<AxiosResponse> {
+    if (!this.breaker.allow()) {
+      const retryInMs = this.breaker.retryInMs();
+      throw new PIRequestError(
+        `PI Web API unavailable (circuit open after repeated failures), retry in ${Math.ceil(retryInMs / 1000)}s`,
+        'CIRCUIT_OPEN',
+        { retryInMs }
+      );
+    }
+
+    let delay = this.policy.retryInitialDelayMs;
+    let reauthenticated = false;
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const res = await request();
+        this.breaker.recordSuccess();
+        return res;
+      } catch (err: any) {
+        const error = toPIRequestError(err, method, url, attempt, this.policy.timeoutMs);
+        const tokenRejected = err?.response?.status === 401 && this.auth.mode === 'client_credentials';
+        if (tokenRejected && !reauthenticated) {
+          // The token may have been revoked or expired early; fetch a new one once
+          console.warn(`[PI REST] ${method} ${url} returned 401 — refreshing the access token`);
+          this.auth.invalidate();
+          reauthenticated = true;
+          continue;
+        }
+        if (!error.transient) {
+          // The server answered; it is up even if it rejected this request
+          this.breaker.recordSuccess();
+          throw error;
+        }
+        if (attempt > this.policy.retries) {
+          this.breaker.recordFailure(error.message);
+          throw error;
+        }
+        console.warn(
+          `[PI REST] ${method} ${url} failed (attempt ${attempt}/${this.policy.retries + 1}): ` +
+            `${error.message} — retrying in ${delay}ms`
+        );
+        await new Promise((r) => setTimeout(r, delay));
+        delay = Math.min(delay * 2, this.policy.retryMaxDelayMs);
+      }
+    }
+  }
+
+  /**
+   * POST /batch: run several requests in one round trip. Sub-request
+   * failures come back as non-2xx Status entries rather than rejections.
+   */
+  async batch<T = unknown>(requests: Record<string, PIBatchRequest>): Promise<Record<string, PIBatchResponse<T>>> {
+    const res = await this.post('/batch', requests);
+    return res.data;
+  }
+
+  /** Resolve tag names to WebIds in a single batch request. */
   async resolveTagsToWebIds(
     dataArchive: string,
     tagNames: string[]
   ): Promise<Map<string, string>> {
     const map = new Map<string, string>();
-    for (const tag of tagNames) {
-      try {
-        const webId = await this.getPointWebId(dataArchive, tag);
-        map.set(tag, webId);
-      } catch (err: any) {
-        console.warn(`Failed to resolve tag "${tag}": ${err.message}`);
+    if (tagNames.length === 0) return map;
+
+    const requests: Record<string, PIBatchRequest> = {};
+    tagNames.forEach((tag, i) => {
+      const path = encodeURIComponent(`\\\\${dataArchive}\\${tag}`);
+      requests[String(i)] = { Method: 'GET', Resource: `${this.baseUrl}/points?path=${path}` };
+    });
+    const responses = await this.batch<PIPoint>(requests);
+
+    tagNames.forEach((tag, i) => {
+      const response = responses[String(i)];
+      const point = batchContent(response);
+      if (point?.WebId) {
+        map.set(tag, point.WebId);
+      } else {
+        console.warn(`Failed to resolve tag "${tag}": ${describeBatchFailure(response)}`);
       }
-    }
+    });
     return map;
   }
+
+  /** Current value per WebId in a single batch request; failed streams are left out. */
+  async getStreamValues(webIds: string[]): Promise<Map<string, PIStreamValue>> {
+    const results = await this.batchPerStream<{ webId: string }, PIStreamValue>(
+      webIds.map((webId) => ({ webId })),
+      (q) => `streams/${q.webId}/value`
+    );
+    const values = new Map<string, PIStreamValue>();
+    for (const [webId, result] of results) {
+      if (result instanceof Error) console.warn(`Failed to read ${webId}: ${result.message}`);
+      else values.set(webId, result);
+    }
+    return values;
+  }
+
+  /**
+   * Recorded values for several streams in a single batch request. Each
+   * stream maps to its values, or to an Error when its sub-request failed.
+   */
+  async getRecordedValuesForStreams(queries: RecordedValuesQuery[]): Promise<Map<string, PIStreamValue[] | Error>> {
+    const results = await this.batchPerStream<RecordedValuesQuery, PIItems<PIStreamValue>>(queries, (q) => {
+      const params = new URLSearchParams({
+        startTime: q.startTime ?? '*-1h',
+        endTime: q.endTime ?? '*',
+        maxCount: String(q.maxCount ?? 100),
+      });
+      return `streams/${q.webId}/recorded?${params}`;
+    });
+    return new Map(
+      [...results].map(([webId, result]) => [webId, result instanceof Error ? result : result.Items])
+    );
+  }
+
+  private async batchPerStream<Q extends { webId: string }, T>(
+    queries: Q[],
+    resource: (query: Q) => string
+  ): Promise<Map<string, T | Error>> {
+    const results = new Map<string, T | Error>();
+    if (queries.length === 0) return results;
+
+    const requests: Record<string, PIBatchRequest> = {};
+    queries.forEach((q, i) => {
+      requests[String(i)] = { Method: 'GET', Resource: `${this.baseUrl}/${resource(q)}` };
+    });
+    const responses = await this.batch<T>(requests);
+
+    queries.forEach((q, i) => {
+      const response = responses[String(i)];
+      const content = batchContent(response);
+      results.set(q.webId, content !== undefined ? content : new Error(describeBatchFailure(response)));
+    });
+    return results;
+  }
+
+  async getElementByPath(path: string): Promise<PIElement> {
+    const res = await this.get<PIElement>('/elements', { params: { path } });
+    return res.data;
+  }
+
+  async getElementAttributes(elementWebId: string): Promise<PIAttribute[]> {
+    const res = await this.get<PIItems<PIAttribute>>(`/elements/${elementWebId}/attributes`);
+    return res.data.Items;
+  }
+
+  async getChildElements(elementWebId: string): Promise<PIElement[]> {
+    const res = await this.get<PIItems<PIElement>>(`/elements/${elementWebId}/elements`);
+    return res.data.Items;
+  }
+
+  /**
+   * Walk an AF element and its descendants, collecting every attribute backed
+   * by a PI Point. Units come from the attribute's DefaultUnitsOfMeasure.
+   */
+  async discoverElementTags(elementPath: string): Promise<ElementDiscovery> {
+    const root = await this.getElementByPath(elementPath);
+    const tags: DiscoveredTag[] = [];
+    const seen = new Set<string>();
+
+    const walk = async (element: PIElement): Promise<void> => {
+      for (const attr of await this.getElementAttributes(element.WebId)) {
+        if (attr.DataReferencePlugIn !== 'PI Point') continue;
+        const tag = piPointNameFromConfigString(attr.ConfigString ?? '');
+        if (!tag) {
+          console.warn(`Skipping AF attribute "${attr.Path}": unresolved PI Point reference "${attr.ConfigString}"`);
+          continue;
+        }
+        if (seen.has(tag)) continue;
+        seen.add(tag);
+        const pointLink = attr.Links?.Point;
+        tags.push({
+          tag,
+          unit: attr.DefaultUnitsOfMeasure ?? '',
+          webId: pointLink ? pointLink.slice(pointLink.lastIndexOf('/') + 1) : attr.WebId,
+          attributeWebId: attr.WebId,
+          attributePath: attr.Path,
+        });
+      }
+      if (element.HasChildren === false) return;
+      for (const child of await this.getChildElements(element.WebId)) {
+        await walk(child);
+      }
+    };
+
+    await walk(root);
+    return { elementWebId: root.WebId, elementPath: root.Path ?? elementPath, tags };
+  }
 }
@@ -0,0 +1,266 @@
+import { z } from 'zod';
+import type { SdkMcpToolDefinition } from '@anthropic-ai/claude-agent-sdk';
+import { AnalysisEngine, AnalysisRequest, AnalysisResult, SUBMIT_FINDINGS_TOOL } from './analysis-engine.js';
+import { AnalysisFindings, createSubmitFindingsTool } from './analysis-findings.js';
+import { defaultSubsystemOf } from './analysis-scheduler.js';
+import type { InstrumentHealth, SensorLiveness, ThresholdBreach } from './sensor-state.js';
+
+/** One tool call made by the playbook, with its parsed JSON output (raw text when not JSON) */
+export interface PlaybookCall {
+  tool: string;
+  args: Record<string, unknown>;
+  output: unknown;
+}
+
+/** What one run of the playbook has seen so far */
+export interface PlaybookContext {
+  request: AnalysisRequest;
+  /** Breaches the analysis was triggered for; empty for periodic checks */
+  breaches: ThresholdBreach[];
+  calls: PlaybookCall[];
+}
+
+export interface PlaybookStep {
+  /** Tool name without its MCP prefix, e.g. get_bop_status or submit_findings */
+  tool: string;
+  /** Arguments for each call to make; an empty list skips the step */
+  calls: (ctx: PlaybookContext) => Record<string, unknown>[];
+}
+
+/** Tool calls in a fixed order, each step deciding its arguments from what came before */
+export interface Playbook {
+  steps: PlaybookStep[];
+  /** The analysis text, once every step has run */
+  summarize: (ctx: PlaybookContext) => string;
+}
+
+/** Output of the most recent call to `tool` */
+export function outputOf<T>(ctx: PlaybookContext, tool: string): T | undefined {
+  return ctx.calls.filter((c) => c.tool === tool).at(-1)?.output as T | undefined;
+}
+
+/** First thing to check for a breach, by tag prefix (first match wins) */
+const RESPONSE_BY_TAG_PREFIX: [string, string][] = [
+  [
+    'BOP.ACC',
+    'Check accumulator pumps, precharge and hydraulic fluid level; confirm usable volume before the next BOP function.',
+  ],
+  [
+    'BOP.ANN',
+    'Check annular closing pressure and element condition; verify annular response on the next function test.',
+  ],
+  ['BOP.RAM', 'Confirm ram position indication at the panel and check hydraulic supply to the affected ram.'],
+  ['BOP.CTRL', 'Check control pod and battery status; switch to the healthy pod if one has faulted.'],
+  ['WELL', 'Stop drilling, flow-check the well and be ready to shut in per the well control procedure.'],
+];
+
+const DEFAULT_RESPONSE = 'Verify the reading locally and inspect the affected component.';
+
+/** Breaches on instruments that are not failed, degraded, stale or frozen */
+function genuineBreaches(ctx: PlaybookContext): ThresholdBreach[] {
+  const suspect = new Set(suspectTags(ctx));
+  return ctx.breaches.filter((b) => !suspect.has(b.tag));
+}
+
+function suspectTags(ctx: PlaybookContext): string[] {
+  const health = outputOf<InstrumentHealth[]>(ctx, 'get_instrument_health') ?? [];
+  const liveness = outputOf<SensorLiveness[]>(ctx, 'get_sensor_liveness') ?? [];
+  return [
+    ...new Set([
+      ...health.filter((h) => h.status !== 'OK').map((h) => h.tag),
+      ...liveness.filter((l) => l.status !== 'OK').map((l) => l.tag),
+    ]),
+  ];
+}
+
+function uniqueTags(breaches: ThresholdBreach[]): string[] {
+  return [...new Set(breaches.map((b) => b.tag))];
+}
+
+function responseFor(tag: string): string {
+  return RESPONSE_BY_TAG_PREFIX.find(([prefix]) => tag.startsWith(prefix))?.[1] ?? DEFAULT_RESPONSE;
+}
+
+/**
+ * Sudden when at least half of the change over the hour came in its last
+ * fifth; unknown without enough numeric history (e.g. PI unreachable).
+ */
+function onsetOf(ctx: PlaybookContext, tags: string[]): AnalysisFindings['onset'] {
+  const onsets = tags.map((tag) => {
+    const history = ctx.calls.find((c) => c.tool === 'get_sensor_history' && c.args.tag === tag)?.output;
+    const values = Array.isArray(history)
+      ? history.map((item) => item?.Value).filter((v): v is number => typeof v === 'number')
+      : [];
+    if (values.length < 3) return 'unknown';
+    const last = values.at(-1)!;
+    const total = Math.abs(last - values[0]!);
+    const recent = Math.abs(last - values[Math.floor(values.length * 0.8)]!);
+    return recent >= total / 2 ? 'sudden' : 'gradual';
+  });
+  if (onsets.includes('sudden')) return 'sudden';
+  return onsets.includes('gradual') ? 'gradual' : 'unknown';
+}
+
+/**
+ * The checks the system prompt asks of Claude, done mechanically: look at
+ * the whole BOP, rule out instrumentation, pull recent history for the
+ * breached tags, then alert on genuine breaches and log an inspection for
+ * suspect instruments.
+ */
+export const DEFAULT_PLAYBOOK: Playbook = {
+  steps: [
+    { tool: 'get_bop_status', calls: () => [{}] },
+    {
+      tool: 'get_instrument_health',
+      calls: (ctx) => [ctx.breaches.length > 0 ? { tags: uniqueTags(ctx.breaches) } : {}],
+    },
+    {
+      tool: 'get_sensor_liveness',
+      calls: (ctx) => [ctx.breaches.length > 0 ? { tags: uniqueTags(ctx.breaches) } : {}],
+    },
+    {
+      tool: 'get_sensor_history',
+      calls: (ctx) => uniqueTags(ctx.breaches).map((tag) => ({ tag, startTime: '*-1h', maxCount: 60 })),
+    },
+    {
+      tool: 'send_alert',
+      calls: (ctx) => {
+        const breaches = genuineBreaches(ctx);
+        if (breaches.length === 0) return [];
+        const tags = uniqueTags(breaches);
+        const responses = new Set(tags.map(responseFor));
+        return [
+          {
+            severity: breaches.some((b) => b.level === 'CRITICAL') ? 'CRITICAL' : 'WARNING',
+            title: `Threshold breach: ${tags.join(', ')}`.slice(0, 100),
+            description:
+              breaches.map((b) => `[${b.level}] ${b.message}`).join('\n') +
+              '\nInstrument health and liveness are OK for these tags, so the readings are treated as genuine.',
+            tags,
+            recommendedAction: [...responses].join(' '),
+          },
+        ];
+      },
+    },
+    {
+      tool: 'log_recommendation',
+      calls: (ctx) => {
+        const breached = new Set(uniqueTags(ctx.breaches));
+        return suspectTags(ctx).map((tag) => ({
+          category: 'INSPECTION',
+          component: tag,
+          recommendation:
+            `Inspect and calibrate the transmitter for ${tag}: its data quality or liveness is not OK` +
+            (breached.has(tag) ? ', so its threshold breach could not be confirmed.' : '.'),
+          priority: breached.has(tag) ? 'HIGH' : 'MEDIUM',
+          dueWithinDays: breached.has(tag) ? 1 : 7,
+        }));
+      },
+    },
+    {
+      tool: 'submit_findings',
+      calls: (ctx) => {
+        const genuine = uniqueTags(genuineBreaches(ctx));
+        const suspect = suspectTags(ctx);
+        const tags = [...new Set([...genuine, ...suspect])];
+        const findings: AnalysisFindings = {
+          summary:
+            tags.length === 0
+              ? 'No concerns found.'
+              : `${genuine.length} tag(s) in genuine breach, ${suspect.length} with suspect instrumentation.`,
+          rootCauses: [
+            ...genuineBreaches(ctx).map((b) => ({ cause: b.message, confidence: 0.6 })),
+            ...suspect.map((tag) => ({ cause: `Instrument fault on ${tag}`, confidence: 0.8 })),
+          ],
+          affectedSubsystems: [...new Set(tags.map(defaultSubsystemOf))],
+          tags,
+          recommendedActions: [
+            ...new Set(genuine.map(responseFor)),
+            ...suspect.map((tag) => `Inspect and calibrate the transmitter for ${tag}.`),
+          ],
+          onset: onsetOf(ctx, genuine),
+        };
+        return [findings];
+      },
+    },
+  ],
+
+  summarize: (ctx) => {
+    const lines = ['Scripted analysis (playbook, no LLM call).'];
+    const genuine = genuineBreaches(ctx);
+    const suspect = suspectTags(ctx);
+    if (ctx.breaches.length === 0) {
+      const status = outputOf<{ sensors?: Record<string, unknown> }>(ctx, 'get_bop_status');
+      lines.push(`Routine check of ${Object.keys(status?.sensors ?? {}).length} tags.`);
+    }
+    for (const b of genuine) lines.push(`Genuine ${b.level} breach: ${b.message}`);
+    if (genuine.length > 0) lines.push('Alert sent to the drilling crew.');
+    if (suspect.length > 0) lines.push(`Suspect instrumentation, inspection logged: ${suspect.join(', ')}`);
+    if (genuine.length === 0 && suspect.length === 0) lines.push('No concerns found.');
+    return lines.join('\n');
+  },
+};
+
+/**
+ * Deterministic stand-in for Claude: runs a playbook against the same BOP
+ * tool handlers the Agent SDK would call, plus submit_findings, with the
+ * same input validation.
+ * Needs no network access, so end-to-end tests and air-gapped demos can
+ * drive the whole breach → analysis → send_alert pipeline.
+ */
+export class ScriptedAnalysisEngine implements AnalysisEngine {
+  readonly name = 'scripted';
+  private tools: Map<string, SdkMcpToolDefinition<any>>;
+
+  constructor(
+    tools: SdkMcpToolDefinition<any>[],
+    private playbook: Playbook = DEFAULT_PLAYBOOK
+  ) {
+    this.tools = new Map(tools.map((t) => [t.name, t]));
+  }
+
+  async run(request: AnalysisRequest): Promise<AnalysisResult> {
+    const ctx: PlaybookContext = { request, breaches: request.trigger.breaches ?? [], calls: [] };
+    let findings: AnalysisFindings | undefined;
+    const submitFindings = createSubmitFindingsTool((submitted) => (findings = submitted));
+    const tools = new Map([...this.tools, [submitFindings.name, submitFindings]]);
+
+    for (const step of this.playbook.steps) {
+      for (const args of step.calls(ctx)) {
+        ctx.calls.push({ tool: step.tool, args, output: await this.call(tools, step.tool, args) });
+      }
+    }
+    const text = this.playbook.summarize(ctx);
+    request.onText?.(text);
+    return {
+      text,
+      toolsUsed: [
+        ...new Set(
+          ctx.calls.map((c) => (c.tool === submitFindings.name ? SUBMIT_FINDINGS_TOOL : `mcp__bop-tools__${c.tool}`))
+        ),
+      ],
+      costUsd: 0,
+      model: 'scripted',
+      findings,
+    };
+  }
+
+  private async call(
+    tools: Map<string, SdkMcpToolDefinition<any>>,
+    name: string,
+    args: Record<string, unknown>
+  ): Promise<unknown> {
+    const definition = tools.get(name);
+    if (!definition) throw new Error(`Playbook calls unknown tool "${name}"`);
+    const input = z.object(definition.inputSchema).parse(args);
+    const result = await definition.handler(input, {});
+    const text = result.content
+      .map((c: { type: string; text?: string }) => (c.type === 'text' ? c.text : ''))
+      .join('\n');
+    try {
+      return JSON.parse(text);
+    } catch {
+      return text;
+    }
+  }
+}
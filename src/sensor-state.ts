@@ -1,142 +1,720 @@
 import { EventEmitter } from 'events';
-import { ThresholdRule } from './config.js';
+import { ThresholdRule, StateMatch } from './config.js';
+
+/** Readings kept per tag: 300 = 5 min at 1 Hz */
+export const DEFAULT_HISTORY_SIZE = 300;
+
+/** Numeric, boolean, string, or digital-state name */
+export type SensorValue = number | boolean | string;
+export type SensorValueType = 'number' | 'boolean' | 'string' | 'digital';
+
+/** Extra per-sample detail from the PI stream value */
+export interface SampleDetails {
+  /** Numeric code when the value is a digital-state name */
+  stateCode?: number;
+  questionable?: boolean;
+  substituted?: boolean;
+  /** Replayed from recorded values after a channel outage */
+  backfilled?: boolean;
+}
 
 interface SensorReading {
-  value: number;
+  value: SensorValue;
   timestamp: Date;
   good: boolean;
+  questionable: boolean;
+  substituted: boolean;
+  backfilled: boolean;
 }
 
 interface TagState {
   tag: string;
   webId: string;
   unit: string;
-  currentValue: number;
+  currentValue: SensorValue;
+  valueType: SensorValueType;
+  /** Numeric code of the current digital state */
+  stateCode?: number;
   currentTimestamp: Date;
   good: boolean;
+  questionable: boolean;
+  substituted: boolean;
+  /** Current value is the last good one, held over bad samples */
+  held: boolean;
+  /** Start of the current run of bad samples */
+  badSince: Date | null;
+  /** An instrument_fault event is outstanding for this tag */
+  faulted: boolean;
+  /** Local time of the last sample (or of registration), for staleness */
+  receivedAt: Date;
+  staleSince: Date | null;
+  flatlineSince: Date | null;
+  /** Standard deviation over the flatline window at the last evaluation */
+  windowStdDev?: number;
   history: SensorReading[];
   historyMaxSize: number;
 }
 
 export interface ThresholdBreach {
   tag: string;
-  value: number;
+  value: SensorValue;
   level: 'CRITICAL' | 'WARNING';
-  type: 'low' | 'high' | 'rate_of_change';
-  threshold: number;
+  type: 'low' | 'high' | 'rate_of_change' | 'state' | 'transition';
+  /** Numeric limit, or the matched state for 'state' and 'transition' */
+  threshold: number | string | boolean;
+  message: string;
+  /** Raised by a sample replayed after a channel outage; the condition may already be over */
+  backfilled?: true;
+}
+
+export interface InstrumentFault {
+  tag: string;
+  value: SensorValue;
+  timestamp: Date;
+  message: string;
+}
+
+/** Data quality over the tag's history window */
+export interface InstrumentHealth {
+  tag: string;
+  samples: number;
+  badPct: number;
+  questionablePct: number;
+  substitutedPct: number;
+  /** FAILED: latest sample is bad. DEGRADED: too many bad or questionable samples. */
+  status: 'OK' | 'DEGRADED' | 'FAILED';
+  badSince?: string;
+}
+
+/** Share of bad plus questionable samples at which a tag counts as DEGRADED */
+const DEGRADED_SAMPLE_PCT = 10;
+
+export interface SensorStaleEvent {
+  tag: string;
+  /** stale: no samples arriving; flatline: samples arrive but the value is frozen */
+  kind: 'stale' | 'flatline';
+  since: Date;
   message: string;
 }
 
+export interface SensorLiveness {
+  tag: string;
+  status: 'OK' | 'STALE' | 'FLATLINE';
+  /** Seconds since the last sample was received */
+  ageSec: number;
+  lastSampleAt: string | null;
+  /** Standard deviation over the flatline window, for tags with flatline detection */
+  windowStdDev?: number;
+  since?: string;
+}
+
+export interface SensorStateOptions {
+  /** Default max sample age before a tag is stale; 0 disables */
+  maxAgeMs: number;
+}
+
+export interface BreachCleared {
+  tag: string;
+  value: SensorValue;
+  /** Level of the breach that cleared */
+  level: ThresholdBreach['level'];
+  type: ThresholdBreach['type'];
+  threshold: ThresholdBreach['threshold'];
+  /** 'WARNING' when a critical breach stepped down but the warning limit is still exceeded */
+  remainingLevel: 'WARNING' | null;
+  durationMs: number;
+  message: string;
+  backfilled?: true;
+}
+
+type BreachCandidate = [ThresholdBreach['level'], ThresholdBreach['type'], ThresholdBreach['threshold']];
+
+interface ActiveCondition {
+  level: ThresholdBreach['level'];
+  type: ThresholdBreach['type'];
+  threshold: ThresholdBreach['threshold'];
+  since: Date;
+}
+
+/** Tracking for one condition of a rule (static limits, rate of change, or states). */
+interface ConditionState {
+  active: ActiveCondition | null;
+  /** Raw candidate on consecutive samples and when it first appeared, for the time on-delay */
+  pending: { candidate: BreachCandidate; since: number } | null;
+  /** Raw candidates of the most recent samples, for the M-of-N on-delay */
+  recent: Array<BreachCandidate | null>;
+}
+
+interface RuleState {
+  limits: ConditionState;
+  rateOfChange: ConditionState;
+  states: ConditionState;
+}
+
+const LEVEL_RANK = { WARNING: 1, CRITICAL: 2 } as const;
+
 export class SensorStateManager extends EventEmitter {
   private tags = new Map<string, TagState>();
   private webIdToTag = new Map<string, string>();
   private thresholds: ThresholdRule[] = [];
+  private ruleStates = new Map<string, RuleState>();
   private historySize: number;
+  private options: SensorStateOptions;
+  private livenessTimer: ReturnType<typeof setInterval> | null = null;
 
-  constructor(historySize = 300) {
-    // 300 readings = 5 min at 1 Hz
+  constructor(historySize = DEFAULT_HISTORY_SIZE, options: Partial<SensorStateOptions> = {}) {
     super();
     this.historySize = historySize;
+    this.options = { maxAgeMs: 120_000, ...options };
   }
 
+  /** Register a tag. Re-registering with the same WebId only updates the unit. */
   registerTag(tag: string, webId: string, unit: string): void {
+    const existing = this.tags.get(tag);
+    if (existing && existing.webId === webId) {
+      existing.unit = unit;
+      return;
+    }
+    if (existing) this.webIdToTag.delete(existing.webId);
+
     this.tags.set(tag, {
       tag,
       webId,
       unit,
       currentValue: NaN,
+      valueType: 'number',
       currentTimestamp: new Date(0),
       good: false,
+      questionable: false,
+      substituted: false,
+      held: false,
+      badSince: null,
+      faulted: false,
+      receivedAt: new Date(),
+      staleSince: null,
+      flatlineSince: null,
       history: [],
       historyMaxSize: this.historySize,
     });
     this.webIdToTag.set(webId, tag);
   }
 
+  /** Stop tracking a tag; later values for its WebId are ignored. */
+  unregisterTag(tag: string): void {
+    const state = this.tags.get(tag);
+    if (!state) return;
+    this.webIdToTag.delete(state.webId);
+    this.tags.delete(tag);
+    this.resetRuleState(tag);
+  }
+
+  /**
+   * Replace the rule set. Breach state is kept for tags whose rule is
+   * unchanged, so an active breach is not raised again; it is reset for
+   * tags whose rule changed or was removed.
+   */
   setThresholds(rules: ThresholdRule[]): void {
+    const previous = new Map(this.thresholds.map((r) => [r.tag, JSON.stringify(r)]));
     this.thresholds = rules;
+    const unchanged = new Set(
+      rules.filter((r) => previous.get(r.tag) === JSON.stringify(r)).map((r) => r.tag)
+    );
+    for (const tag of [...this.ruleStates.keys()]) {
+      if (!unchanged.has(tag)) this.resetRuleState(tag);
+    }
+  }
+
+  /**
+   * Drop a tag's breach state. Its active breaches will never see a
+   * 'breach_cleared', so 'breach_reset' tells listeners to stop waiting for one.
+   */
+  private resetRuleState(tag: string): void {
+    const ruleState = this.ruleStates.get(tag);
+    if (!ruleState) return;
+    this.ruleStates.delete(tag);
+    if (ruleState.limits.active || ruleState.rateOfChange.active || ruleState.states.active) {
+      this.emit('breach_reset', tag);
+    }
   }
 
-  /** Called on every PI channel value event */
-  update(webId: string, value: number, timestamp: Date, good: boolean): void {
+  /**
+   * Called on every PI channel value event. Samples that are not Good are
+   * recorded for instrument health but never evaluated against thresholds;
+   * the rule's qualityPolicy decides what the tag reports meanwhile.
+   */
+  update(
+    webId: string,
+    value: SensorValue,
+    timestamp: Date,
+    good: boolean,
+    details: SampleDetails = {}
+  ): void {
     const tag = this.webIdToTag.get(webId);
     if (!tag) return;
     const state = this.tags.get(tag);
     if (!state) return;
 
-    state.currentValue = value;
-    state.currentTimestamp = timestamp;
+    const questionable = details.questionable ?? false;
+    const substituted = details.substituted ?? false;
+    const gapMs = Date.now() - state.receivedAt.getTime();
+    state.receivedAt = new Date();
+    if (state.staleSince) {
+      const detail = `updating again after ${Math.round(gapMs / 1000)}s`;
+      this.emitStaleCleared(state, 'stale', state.staleSince, detail);
+      state.staleSince = null;
+    }
     state.good = good;
+    state.questionable = questionable;
+    state.substituted = substituted;
 
     // Ring buffer
-    state.history.push({ value, timestamp, good });
+    const backfilled = details.backfilled ?? false;
+    state.history.push({ value, timestamp, good, questionable, substituted, backfilled });
     if (state.history.length > state.historyMaxSize) {
       state.history.shift();
     }
 
+    const rule = this.thresholds.find((r) => r.tag === tag);
+    const policy = rule?.qualityPolicy ?? 'skip';
+
+    if (!good) {
+      state.badSince ??= timestamp;
+      state.held = policy === 'hold' && !Number.isNaN(state.currentValue);
+      if (!state.held) setCurrent(state, value, timestamp, details.stateCode);
+
+      if (policy === 'instrument_fault' && !state.faulted) {
+        state.faulted = true;
+        const fault: InstrumentFault = {
+          tag,
+          value,
+          timestamp,
+          message: `${tag} reporting bad data (${value}) — instrument fault suspected`,
+        };
+        this.emit('instrument_fault', fault);
+      }
+      return;
+    }
+
+    const badSince = state.badSince;
+    state.badSince = null;
+    state.held = false;
+    setCurrent(state, value, timestamp, details.stateCode);
+    if (state.faulted) {
+      state.faulted = false;
+      const recovered: InstrumentFault = {
+        tag,
+        value,
+        timestamp,
+        message: `${tag} good data restored after ${Math.round((timestamp.getTime() - badSince!.getTime()) / 1000)}s`,
+      };
+      this.emit('instrument_recovered', recovered);
+    }
+
+    if (rule?.flatline) this.evaluateFlatline(state, rule.flatline, timestamp);
     this.evaluateThresholds(tag, value, state);
   }
 
-  private evaluateThresholds(tag: string, value: number, state: TagState): void {
+  /**
+   * Frozen-value check, on good numeric samples. Only decided once the
+   * history spans the whole window.
+   */
+  private evaluateFlatline(
+    state: TagState,
+    flatline: NonNullable<ThresholdRule['flatline']>,
+    timestamp: Date
+  ): void {
+    const windowStart = timestamp.getTime() - flatline.windowSec * 1000;
+    const samples = state.history.filter((r) => r.good && typeof r.value === 'number');
+    if (samples.length < 2 || samples[0].timestamp.getTime() > windowStart) return;
+
+    const values = samples
+      .filter((r) => r.timestamp.getTime() >= windowStart)
+      .map((r) => r.value as number);
+    const mean = values.reduce((a, b) => a + b, 0) / values.length;
+    const stdDev = Math.sqrt(values.reduce((a, v) => a + (v - mean) ** 2, 0) / values.length);
+    state.windowStdDev = Math.round(stdDev * 1000) / 1000;
+
+    if (stdDev < flatline.minStdDev && !state.flatlineSince) {
+      state.flatlineSince = timestamp;
+      const event: SensorStaleEvent = {
+        tag: state.tag,
+        kind: 'flatline',
+        since: timestamp,
+        message:
+          `${state.tag} frozen at ${state.currentValue} — std dev ${state.windowStdDev} ` +
+          `over ${flatline.windowSec}s is below ${flatline.minStdDev}`,
+      };
+      this.emit('sensor_stale', event);
+    } else if (stdDev >= flatline.minStdDev && state.flatlineSince) {
+      const detail = `no longer frozen (std dev ${state.windowStdDev})`;
+      this.emitStaleCleared(state, 'flatline', state.flatlineSince, detail);
+      state.flatlineSince = null;
+    }
+  }
+
+  /**
+   * Flag tags that have not received a sample within their max age. Runs on
+   * the liveness timer, since a dead transmitter produces no updates to react to.
+   */
+  checkLiveness(now = new Date()): void {
+    for (const state of this.tags.values()) {
+      const maxAgeMs = this.maxAgeMs(state.tag);
+      if (maxAgeMs <= 0 || state.staleSince) continue;
+      const ageMs = now.getTime() - state.receivedAt.getTime();
+      if (ageMs > maxAgeMs) {
+        state.staleSince = now;
+        const event: SensorStaleEvent = {
+          tag: state.tag,
+          kind: 'stale',
+          since: now,
+          message: `${state.tag} has not updated for ${Math.round(ageMs / 1000)}s (max ${maxAgeMs / 1000}s)`,
+        };
+        this.emit('sensor_stale', event);
+      }
+    }
+  }
+
+  startLivenessChecks(intervalMs: number): void {
+    this.stopLivenessChecks();
+    this.livenessTimer = setInterval(() => this.checkLiveness(), intervalMs);
+  }
+
+  stopLivenessChecks(): void {
+    if (this.livenessTimer) {
+      clearInterval(this.livenessTimer);
+      this.livenessTimer = null;
+    }
+  }
+
+  /** Staleness and flatline status per tag. */
+  getSensorLiveness(tags?: string[], now = new Date()): SensorLiveness[] {
+    const result: SensorLiveness[] = [];
+    for (const state of this.tags.values()) {
+      if (tags && !tags.includes(state.tag)) continue;
+      const status: SensorLiveness['status'] = state.staleSince
+        ? 'STALE'
+        : state.flatlineSince
+          ? 'FLATLINE'
+          : 'OK';
+      const since = state.staleSince ?? state.flatlineSince;
+      result.push({
+        tag: state.tag,
+        status,
+        ageSec: Math.round((now.getTime() - state.receivedAt.getTime()) / 1000),
+        lastSampleAt: state.history.length > 0 ? state.currentTimestamp.toISOString() : null,
+        ...(state.windowStdDev !== undefined && { windowStdDev: state.windowStdDev }),
+        ...(since && { since: since.toISOString() }),
+      });
+    }
+    return result;
+  }
+
+  private maxAgeMs(tag: string): number {
+    const maxAgeSec = this.thresholds.find((r) => r.tag === tag)?.maxAgeSec;
+    return maxAgeSec !== undefined ? maxAgeSec * 1000 : this.options.maxAgeMs;
+  }
+
+  private emitStaleCleared(
+    state: TagState,
+    kind: SensorStaleEvent['kind'],
+    since: Date,
+    detail: string
+  ): void {
+    const event: SensorStaleEvent = { tag: state.tag, kind, since, message: `${state.tag} ${detail}` };
+    this.emit('sensor_stale_cleared', event);
+  }
+
+  /**
+   * Advance the rule's state machines with the new sample. Events are emitted
+   * on transitions only: 'threshold_breach' when a condition is raised (after
+   * its on-delay) or moves to a more severe level or the other side, and
+   * 'breach_cleared' when it recovers past the deadband or steps down.
+   * Numeric limits apply to numeric values; state matches to everything else.
+   */
+  private evaluateThresholds(tag: string, value: SensorValue, state: TagState): void {
     const rule = this.thresholds.find((r) => r.tag === tag);
     if (!rule) return;
 
-    // Static thresholds
-    if (rule.criticalLow !== undefined && value < rule.criticalLow) {
-      this.emitBreach(tag, value, 'CRITICAL', 'low', rule.criticalLow);
-    } else if (rule.criticalHigh !== undefined && value > rule.criticalHigh) {
-      this.emitBreach(tag, value, 'CRITICAL', 'high', rule.criticalHigh);
-    } else if (rule.warningLow !== undefined && value < rule.warningLow) {
-      this.emitBreach(tag, value, 'WARNING', 'low', rule.warningLow);
-    } else if (rule.warningHigh !== undefined && value > rule.warningHigh) {
-      this.emitBreach(tag, value, 'WARNING', 'high', rule.warningHigh);
-    }
-
-    // Rate of change check (over ~5 minute window)
-    if (rule.rateOfChangePer5Min !== undefined && state.history.length >= 2) {
-      const recent = state.history[state.history.length - 1];
-      const fiveMinAgo = state.history.find(
-        (r) => recent.timestamp.getTime() - r.timestamp.getTime() >= 270_000
+    let ruleState = this.ruleStates.get(tag);
+    if (!ruleState) {
+      ruleState = {
+        limits: newConditionState(),
+        rateOfChange: newConditionState(),
+        states: newConditionState(),
+      };
+      this.ruleStates.set(tag, ruleState);
+    }
+    const timestamp = state.currentTimestamp;
+
+    if (typeof value === 'number') {
+      const deadband = rule.deadband ?? 0;
+      this.advance(
+        tag,
+        value,
+        timestamp,
+        rule,
+        ruleState.limits,
+        classifyLimits(rule, value, 0),
+        classifyLimits(rule, value, deadband)
       );
-      if (fiveMinAgo) {
-        const roc = Math.abs(recent.value - fiveMinAgo.value);
-        if (roc > rule.rateOfChangePer5Min) {
-          this.emitBreach(tag, value, 'WARNING', 'rate_of_change', rule.rateOfChangePer5Min);
+
+      const roc = rule.rateOfChangePer5Min !== undefined ? rateOfChange(state) : undefined;
+      if (roc !== undefined) {
+        const limit = rule.rateOfChangePer5Min!;
+        const candidate: BreachCandidate = ['WARNING', 'rate_of_change', limit];
+        this.advance(
+          tag,
+          value,
+          timestamp,
+          rule,
+          ruleState.rateOfChange,
+          roc > limit ? candidate : null,
+          roc > limit - deadband ? candidate : null
+        );
+      }
+    }
+
+    if (rule.states) {
+      const matched = classifyStates(rule.states, value);
+      this.advance(tag, value, timestamp, rule, ruleState.states, matched, matched);
+
+      // Transition matches fire once, when the value changes into the state
+      const previous = state.history.slice(0, -1).reverse().find((r) => r.good)?.value;
+      if (previous !== undefined && !sameState(previous, value)) {
+        for (const match of rule.states) {
+          if (match.on === 'transition' && sameState(match.equals, value)) {
+            this.emitBreach(tag, value, match.level, 'transition', match.equals, previous);
+          }
         }
       }
     }
   }
 
+  /**
+   * One step of a condition's state machine.
+   * @param raised  what the sample breaches against the plain limits
+   * @param holding what it breaches once the deadband is applied (used for clearing)
+   */
+  private advance(
+    tag: string,
+    value: SensorValue,
+    timestamp: Date,
+    rule: ThresholdRule,
+    cond: ConditionState,
+    raised: BreachCandidate | null,
+    holding: BreachCandidate | null
+  ): void {
+    const now = timestamp.getTime();
+
+    if (rule.onDelaySamples) {
+      cond.recent.push(raised);
+      if (cond.recent.length > rule.onDelaySamples.outOf) cond.recent.shift();
+    }
+    if (!raised) {
+      cond.pending = null;
+    } else if (!cond.pending || !sameCandidate(cond.pending.candidate, raised)) {
+      cond.pending = { candidate: raised, since: now };
+    }
+
+    const { active } = cond;
+    const escalates =
+      raised !== null &&
+      (!active || !sameSide(active, raised) || LEVEL_RANK[raised[0]] > LEVEL_RANK[active.level]);
+
+    if (escalates && this.onDelayElapsed(rule, cond, raised!, now)) {
+      if (active && !sameSide(active, raised!)) {
+        this.emitCleared(tag, value, timestamp, active, null);
+      }
+      const [level, type, threshold] = raised!;
+      cond.active = { level, type, threshold, since: timestamp };
+      this.emitBreach(tag, value, level, type, threshold);
+      return;
+    }
+
+    if (!active) return;
+    if (!holding || !sameSide(active, holding)) {
+      cond.active = null;
+      this.emitCleared(tag, value, timestamp, active, null);
+    } else if (active.level === 'CRITICAL' && holding[0] === 'WARNING') {
+      cond.active = { level: 'WARNING', type: active.type, threshold: holding[2], since: active.since };
+      this.emitCleared(tag, value, timestamp, active, 'WARNING');
+    }
+  }
+
+  private onDelayElapsed(
+    rule: ThresholdRule,
+    cond: ConditionState,
+    candidate: BreachCandidate,
+    now: number
+  ): boolean {
+    if (rule.onDelaySec !== undefined && now - cond.pending!.since < rule.onDelaySec * 1000) {
+      return false;
+    }
+    if (rule.onDelaySamples) {
+      // A sample counts if it breached on the same side at this level or worse
+      const [level, type, threshold] = candidate;
+      const hits = cond.recent.filter(
+        (c) =>
+          c !== null && sameSide({ type, threshold }, c) && LEVEL_RANK[c[0]] >= LEVEL_RANK[level]
+      ).length;
+      if (hits < rule.onDelaySamples.count) return false;
+    }
+    return true;
+  }
+
+  /**
+   * Whether the tag is currently normal: no raised breach, and the value is
+   * not beyond a limit or in an alarm state (including while an on-delay is
+   * still running). A bad latest sample is never normal. Returns undefined
+   * when the tag is unknown, has no rule or has no value yet, and while it
+   * is stale or frozen: its value then says nothing either way, and the
+   * liveness problem is reported on its own (sensor_stale, /health).
+   */
+  isWithinThresholds(tag: string): boolean | undefined {
+    const state = this.tags.get(tag);
+    const rule = this.thresholds.find((r) => r.tag === tag);
+    const value = state?.currentValue;
+    if (!state || !rule || value === undefined || Number.isNaN(value)) return undefined;
+    if (state.staleSince || state.flatlineSince) return undefined;
+    if (!state.good) return false;
+
+    const ruleState = this.ruleStates.get(tag);
+    if (ruleState?.limits.active || ruleState?.rateOfChange.active || ruleState?.states.active) {
+      return false;
+    }
+    if (rule.states && classifyStates(rule.states, value)) return false;
+    if (typeof value !== 'number') return true;
+    if (classifyLimits(rule, value, 0)) return false;
+    const roc = rule.rateOfChangePer5Min !== undefined ? rateOfChange(state) : undefined;
+    return roc === undefined || roc <= rule.rateOfChangePer5Min!;
+  }
+
   private emitBreach(
     tag: string,
-    value: number,
-    level: 'CRITICAL' | 'WARNING',
-    type: 'low' | 'high' | 'rate_of_change',
-    threshold: number
+    value: SensorValue,
+    level: ThresholdBreach['level'],
+    type: ThresholdBreach['type'],
+    threshold: ThresholdBreach['threshold'],
+    previous?: SensorValue
   ): void {
+    let detail: string;
+    switch (type) {
+      case 'state':
+        detail = `in ${level.toLowerCase()} alarm state ${threshold}`;
+        break;
+      case 'transition':
+        detail = `changed from ${previous} to ${threshold} (${level.toLowerCase()})`;
+        break;
+      default:
+        detail = `${type === 'rate_of_change' ? 'rate of change exceeds' : type === 'low' ? 'below' : 'above'} ${level.toLowerCase()} threshold ${threshold}`;
+    }
+    const backfilledAt = this.backfilledAt(tag);
     const breach: ThresholdBreach = {
       tag,
       value,
       level,
       type,
       threshold,
-      message: `${tag} = ${value} — ${type === 'rate_of_change' ? 'rate of change exceeds' : type === 'low' ? 'below' : 'above'} ${level.toLowerCase()} threshold ${threshold}`,
+      message: `${tag} = ${value} — ${detail}` + (backfilledAt ? ` (backfilled, recorded ${backfilledAt})` : ''),
+      ...(backfilledAt && { backfilled: true }),
     };
     this.emit('threshold_breach', breach);
   }
 
+  private emitCleared(
+    tag: string,
+    value: SensorValue,
+    timestamp: Date,
+    active: ActiveCondition,
+    remainingLevel: 'WARNING' | null
+  ): void {
+    let what: string;
+    switch (active.type) {
+      case 'rate_of_change':
+        what = 'rate of change back within';
+        break;
+      case 'state':
+        what = 'left alarm state';
+        break;
+      default:
+        what = `back ${active.type === 'low' ? 'above' : 'below'}`;
+    }
+    const limit = active.type === 'state' ? `${active.threshold}` : `${active.level.toLowerCase()} threshold ${active.threshold}`;
+    const backfilledAt = this.backfilledAt(tag);
+    const cleared: BreachCleared = {
+      tag,
+      value,
+      level: active.level,
+      type: active.type,
+      threshold: active.threshold,
+      remainingLevel,
+      durationMs: Math.max(0, timestamp.getTime() - active.since.getTime()),
+      message:
+        `${tag} = ${value} — ${what} ${limit}` +
+        (remainingLevel ? ' (warning still active)' : '') +
+        (backfilledAt ? ` (backfilled, recorded ${backfilledAt})` : ''),
+      ...(backfilledAt && { backfilled: true }),
+    };
+    this.emit('breach_cleared', cleared);
+  }
+
+  /** Timestamp of the sample being evaluated, when it is a backfilled one. */
+  private backfilledAt(tag: string): string | null {
+    const latest = this.tags.get(tag)?.history.at(-1);
+    return latest?.backfilled ? latest.timestamp.toISOString() : null;
+  }
+
+  /** Data quality per tag, over each tag's history window. */
+  getInstrumentHealth(tags?: string[]): InstrumentHealth[] {
+    const result: InstrumentHealth[] = [];
+    for (const state of this.tags.values()) {
+      if (tags && !tags.includes(state.tag)) continue;
+      const n = state.history.length;
+      if (n === 0) continue;
+
+      const bad = state.history.filter((r) => !r.good).length;
+      const questionable = state.history.filter((r) => r.questionable).length;
+      const substituted = state.history.filter((r) => r.substituted).length;
+      const pct = (count: number) => Math.round((count / n) * 1000) / 10;
+
+      let status: InstrumentHealth['status'] = 'OK';
+      if (!state.good) status = 'FAILED';
+      else if (pct(bad + questionable) >= DEGRADED_SAMPLE_PCT) status = 'DEGRADED';
+
+      result.push({
+        tag: state.tag,
+        samples: n,
+        badPct: pct(bad),
+        questionablePct: pct(questionable),
+        substitutedPct: pct(substituted),
+        status,
+        ...(state.badSince && { badSince: state.badSince.toISOString() }),
+      });
+    }
+    return result;
+  }
+
+  /** Whether any sample has arrived for the tag since it was registered */
+  hasSamples(tag: string): boolean {
+    return (this.tags.get(tag)?.history.length ?? 0) > 0;
+  }
+
   getCurrentValue(tag: string): Record<string, unknown> {
     const state = this.tags.get(tag);
     if (!state) return { error: `Unknown tag: ${tag}` };
     return {
       tag: state.tag,
-      value: state.currentValue,
+      ...describeValue(state),
       timestamp: state.currentTimestamp.toISOString(),
       unit: state.unit,
       good: state.good,
     };
   }
 
+  getTagForWebId(webId: string): string | undefined {
+    return this.webIdToTag.get(webId);
+  }
+
   getWebId(tag: string): string | undefined {
     return this.tags.get(tag)?.webId;
   }
@@ -145,7 +723,7 @@ export class SensorStateManager extends EventEmitter {
     const snapshot: Record<string, Record<string, unknown>> = {};
     for (const [tag, state] of this.tags) {
       snapshot[tag] = {
-        value: state.currentValue,
+        ...describeValue(state),
         timestamp: state.currentTimestamp.toISOString(),
         unit: state.unit,
         good: state.good,
@@ -154,3 +732,90 @@ export class SensorStateManager extends EventEmitter {
     return snapshot;
   }
 }
+
+function setCurrent(state: TagState, value: SensorValue, timestamp: Date, stateCode?: number): void {
+  state.currentValue = value;
+  state.valueType = stateCode !== undefined ? 'digital' : (typeof value as SensorValueType);
+  state.stateCode = stateCode;
+  state.currentTimestamp = timestamp;
+}
+
+/**
+ * Value fields for tool output. Numeric tags with clean data keep the plain
+ * { value } shape; type and quality flags are added only when they apply.
+ */
+function describeValue(state: TagState): Record<string, unknown> {
+  return {
+    value: state.currentValue,
+    ...(state.valueType !== 'number' && { valueType: state.valueType }),
+    ...(state.stateCode !== undefined && { stateCode: state.stateCode }),
+    ...(state.questionable && { questionable: true }),
+    ...(state.substituted && { substituted: true }),
+    ...(state.held && { held: true }),
+  };
+}
+
+function newConditionState(): ConditionState {
+  return { active: null, pending: null, recent: [] };
+}
+
+/** Same condition side: same type, and for state matches the same state. */
+function sameSide(
+  a: { type: ThresholdBreach['type']; threshold: ThresholdBreach['threshold'] },
+  b: BreachCandidate
+): boolean {
+  return a.type === b[1] && (a.type !== 'state' || a.threshold === b[2]);
+}
+
+function sameCandidate(a: BreachCandidate, b: BreachCandidate): boolean {
+  return a[0] === b[0] && sameSide({ type: a[1], threshold: a[2] }, b);
+}
+
+/** String states compare case-insensitively; booleans and numbers exactly. */
+function sameState(expected: SensorValue, actual: SensorValue): boolean {
+  if (typeof expected === 'string' && typeof actual === 'string') {
+    return expected.trim().toLowerCase() === actual.trim().toLowerCase();
+  }
+  return expected === actual;
+}
+
+/** The most severe 'state' match for the value, if any. */
+function classifyStates(matches: StateMatch[], value: SensorValue): BreachCandidate | null {
+  let best: StateMatch | null = null;
+  for (const match of matches) {
+    if ((match.on ?? 'state') !== 'state' || !sameState(match.equals, value)) continue;
+    if (!best || LEVEL_RANK[match.level] > LEVEL_RANK[best.level]) best = match;
+  }
+  return best ? [best.level, 'state', best.equals] : null;
+}
+
+/**
+ * Classify a value against the static limits, each pulled `margin` units
+ * towards normal. Critical takes precedence; at most one candidate results.
+ */
+function classifyLimits(rule: ThresholdRule, value: number, margin: number): BreachCandidate | null {
+  if (rule.criticalLow !== undefined && value < rule.criticalLow + margin) {
+    return ['CRITICAL', 'low', rule.criticalLow];
+  } else if (rule.criticalHigh !== undefined && value > rule.criticalHigh - margin) {
+    return ['CRITICAL', 'high', rule.criticalHigh];
+  } else if (rule.warningLow !== undefined && value < rule.warningLow + margin) {
+    return ['WARNING', 'low', rule.warningLow];
+  } else if (rule.warningHigh !== undefined && value > rule.warningHigh - margin) {
+    return ['WARNING', 'high', rule.warningHigh];
+  }
+  return null;
+}
+
+/** Absolute change over the ~5 minute window of good samples, or undefined until the history spans it. */
+function rateOfChange(state: TagState): number | undefined {
+  const history = state.history.filter((r) => r.good);
+  if (history.length < 2) return undefined;
+  const recent = history[history.length - 1];
+  const fiveMinAgo = history.find(
+    (r) => recent.timestamp.getTime() - r.timestamp.getTime() >= 270_000
+  );
+  if (!fiveMinAgo || typeof recent.value !== 'number' || typeof fiveMinAgo.value !== 'number') {
+    return undefined;
+  }
+  return Math.abs(recent.value - fiveMinAgo.value);
+}
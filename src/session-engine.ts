@@ -0,0 +1,310 @@
+import type { SDKMessage, SDKUserMessage } from '@anthropic-ai/claude-agent-sdk';
+import type { AnalysisEngine, AnalysisRequest, AnalysisResult } from './analysis-engine.js';
+import { AnalysisFindings, createFindingsServer } from './analysis-findings.js';
+import type { StreamingOptions } from './bop-agent.js';
+
+export interface SessionOptions {
+  /** Model the conversation runs on (AGENT_MODEL) */
+  model: string;
+  /** Analyses per session before it is rotated */
+  maxTurns: number;
+  /** Context size (tokens) at which the session is asked to /compact; 0 disables */
+  compactAtTokens: number;
+  /** Context size (tokens) at which the session is rotated */
+  maxContextTokens: number;
+  /** A turn with no result by then fails, and the session is abandoned */
+  turnTimeoutMs: number;
+}
+
+/** Runs one conversation over the streamed user messages (BOPAgent.analyzeStreaming) */
+export type StreamingRunner = (messages: AsyncIterable<SDKUserMessage>, options: StreamingOptions) => Promise<void>;
+
+const CARRY_OVER_PROMPT =
+  'SESSION ROTATION: this monitoring conversation is about to be closed and a fresh one started. ' +
+  'Write a carry-over summary for it: open conditions and alerts, what you concluded per subsystem, ' +
+  'trends you are watching and actions still pending, with PI tag names. Under 300 words. ' +
+  'Do not call any tools.';
+
+/** Async-iterable queue of user messages; the input of one session's query() */
+class MessageChannel implements AsyncIterable<SDKUserMessage> {
+  private buffer: SDKUserMessage[] = [];
+  private waiting: ((message: SDKUserMessage | null) => void) | null = null;
+  private closed = false;
+
+  push(message: SDKUserMessage): void {
+    if (this.waiting) {
+      this.waiting(message);
+      this.waiting = null;
+    } else {
+      this.buffer.push(message);
+    }
+  }
+
+  close(): void {
+    this.closed = true;
+    this.waiting?.(null);
+    this.waiting = null;
+  }
+
+  async *[Symbol.asyncIterator](): AsyncIterator<SDKUserMessage> {
+    while (true) {
+      const next =
+        this.buffer.shift() ??
+        (this.closed ? null : await new Promise<SDKUserMessage | null>((resolve) => (this.waiting = resolve)));
+      if (!next) return;
+      yield next;
+    }
+  }
+}
+
+interface TurnOutcome {
+  text: string;
+  toolsUsed: string[];
+  costUsd: number;
+  findings?: AnalysisFindings;
+}
+
+interface PendingTurn {
+  text: string[];
+  onText?: (text: string) => void;
+  toolsUsed: string[];
+  findings?: AnalysisFindings;
+  resolve: (outcome: TurnOutcome) => void;
+  reject: (err: Error) => void;
+}
+
+interface Session {
+  id: number;
+  channel: MessageChannel;
+  done: Promise<void>;
+  /** Analyses sent, not counting compaction and carry-over turns */
+  turns: number;
+  /** Context size at the latest API call */
+  contextTokens: number;
+  /** The SDK reports cost cumulatively over the session */
+  totalCostUsd: number;
+  /** A turn ran out of the SDK's own maxTurns */
+  maxTurnsReached: boolean;
+}
+
+/**
+ * Feeds every analysis — breaches, periodic checks, operator questions —
+ * into one long-lived conversation, so the agent remembers what it
+ * concluded earlier. Turns run one at a time. Between turns the session
+ * is compacted once its context grows past `compactAtTokens`, and rotated
+ * after `maxTurns` analyses or past `maxContextTokens`: the old session
+ * writes a carry-over summary that opens the next one.
+ *
+ * Two kinds of analysis run one-shot on `oneShot` instead: those asking
+ * for another model (the budget's fallback), so the conversation never
+ * changes model, and CRITICAL breaches arriving while the conversation is
+ * busy, so the scheduler's fast-path slot does not wait behind it.
+ */
+export class SessionAnalysisEngine implements AnalysisEngine {
+  readonly name = 'session';
+  private session: Session | null = null;
+  private current: PendingTurn | null = null;
+  private carryOver: string | null = null;
+  private tail: Promise<void> = Promise.resolve();
+  /** Turns queued or running, with the maintenance that follows them */
+  private busy = 0;
+  private sessionCount = 0;
+
+  constructor(
+    private stream: StreamingRunner,
+    private options: SessionOptions,
+    private oneShot: AnalysisEngine
+  ) {}
+
+  run(request: AnalysisRequest): Promise<AnalysisResult> {
+    if (request.model !== this.options.model) {
+      console.log(`[Session] Running a ${request.trigger.type} analysis on ${request.model} outside the session`);
+      return this.oneShot.run(request);
+    }
+    if (this.busy > 0 && request.trigger.breaches?.some((b) => b.level === 'CRITICAL')) {
+      console.log('[Session] Session busy; running the CRITICAL breach analysis outside it');
+      return this.oneShot.run(request);
+    }
+
+    this.busy++;
+    const result = this.tail.then(() => this.runTurn(request));
+    this.tail = result
+      .then(
+        () => this.maintain(),
+        () => this.maintain()
+      )
+      .then(() => {
+        this.busy--;
+      });
+    return result;
+  }
+
+  /** Wait for queued turns, then end the session */
+  async close(): Promise<void> {
+    await this.tail;
+    if (this.session) await this.endSession(this.session);
+  }
+
+  private async runTurn(request: AnalysisRequest): Promise<AnalysisResult> {
+    const session = this.session ?? this.startSession();
+    let prompt = `[${new Date().toISOString()} — ${request.trigger.type}]\n${request.prompt}`;
+    if (session.turns === 0 && this.carryOver) {
+      prompt = `Carry-over summary from the previous monitoring session:\n${this.carryOver}\n\n---\n\n${prompt}`;
+      this.carryOver = null;
+    }
+    session.turns++;
+    const outcome = await this.send(session, prompt, request.onText);
+    return {
+      text: outcome.text,
+      toolsUsed: outcome.toolsUsed,
+      costUsd: outcome.costUsd,
+      findings: outcome.findings,
+    };
+  }
+
+  /** Compact or rotate the session between turns */
+  private async maintain(): Promise<void> {
+    const session = this.session;
+    if (!session) return;
+    const { maxTurns, maxContextTokens, compactAtTokens } = this.options;
+    try {
+      if (session.maxTurnsReached || session.turns >= maxTurns || session.contextTokens >= maxContextTokens) {
+        await this.rotate(session);
+      } else if (compactAtTokens > 0 && session.contextTokens >= compactAtTokens) {
+        console.log(`[Session] Compacting session #${session.id} at ${session.contextTokens} context tokens`);
+        await this.send(session, '/compact');
+      }
+    } catch (err) {
+      console.error(`[Session] Maintenance of session #${session.id} failed:`, err);
+    }
+  }
+
+  private async rotate(session: Session): Promise<void> {
+    console.log(
+      `[Session] Rotating session #${session.id} after ${session.turns} analyses ` +
+        `(${session.contextTokens} context tokens)`
+    );
+    try {
+      const summary = await this.send(session, CARRY_OVER_PROMPT);
+      this.carryOver = summary.text.trim() || null;
+    } catch (err) {
+      console.error(`[Session] Carry-over summary for session #${session.id} failed:`, err);
+    }
+    await this.endSession(session);
+  }
+
+  private startSession(): Session {
+    const channel = new MessageChannel();
+    const session: Session = {
+      id: ++this.sessionCount,
+      channel,
+      done: Promise.resolve(),
+      turns: 0,
+      contextTokens: 0,
+      totalCostUsd: 0,
+      maxTurnsReached: false,
+    };
+    // One submit_findings server per session; turns run one at a time, so it reports for the current one
+    const findingsServer = createFindingsServer((findings) => {
+      if (this.current) this.current.findings = findings;
+    });
+    session.done = this.stream(channel, {
+      model: this.options.model,
+      mcpServers: { 'bop-findings': findingsServer },
+      onMessage: (message) => this.onMessage(session, message),
+    }).then(
+      () => this.ended(session, new Error(`Agent session #${session.id} ended`)),
+      (err) => this.ended(session, err instanceof Error ? err : new Error(String(err)))
+    );
+    this.session = session;
+    console.log(`[Session] Started agent session #${session.id}` + (this.carryOver ? ' with carry-over summary' : ''));
+    return session;
+  }
+
+  private async endSession(session: Session): Promise<void> {
+    session.channel.close();
+    await session.done;
+  }
+
+  /** The conversation is over, on purpose or not: fail any turn still waiting */
+  private ended(session: Session, err: Error): void {
+    if (this.session !== session) return;
+    this.session = null;
+    this.current?.reject(err);
+    this.current = null;
+  }
+
+  private send(session: Session, prompt: string, onText?: (text: string) => void): Promise<TurnOutcome> {
+    return new Promise<TurnOutcome>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        console.error(`[Session] No result from session #${session.id} in ${this.options.turnTimeoutMs} ms`);
+        this.ended(session, new Error(`Agent session #${session.id} timed out`));
+        session.channel.close();
+      }, this.options.turnTimeoutMs);
+      this.current = {
+        text: [],
+        onText,
+        toolsUsed: [],
+        resolve: (outcome) => {
+          clearTimeout(timer);
+          resolve(outcome);
+        },
+        reject: (err) => {
+          clearTimeout(timer);
+          reject(err);
+        },
+      };
+      session.channel.push({
+        type: 'user',
+        message: { role: 'user', content: prompt },
+        parent_tool_use_id: null,
+        session_id: '',
+      });
+    });
+  }
+
+  private onMessage(session: Session, message: SDKMessage): void {
+    const turn = this.current;
+    switch (message.type) {
+      case 'assistant': {
+        const usage = message.message.usage;
+        session.contextTokens =
+          usage.input_tokens + (usage.cache_creation_input_tokens ?? 0) + (usage.cache_read_input_tokens ?? 0);
+        for (const block of message.message.content) {
+          if ('text' in block && block.text) {
+            turn?.text.push(block.text);
+            turn?.onText?.(block.text);
+          }
+          if ('name' in block) turn?.toolsUsed.push(block.name);
+        }
+        break;
+      }
+
+      case 'system':
+        if (message.subtype === 'compact_boundary') {
+          console.log(
+            `[Session] Session #${session.id} compacted (${message.compact_metadata.trigger}, ` +
+              `${message.compact_metadata.pre_tokens} tokens before)`
+          );
+          // Unknown until the next API call reports it
+          session.contextTokens = 0;
+        }
+        break;
+
+      case 'result': {
+        const costUsd = Math.max(0, message.total_cost_usd - session.totalCostUsd);
+        session.totalCostUsd = message.total_cost_usd;
+        if (message.subtype === 'error_max_turns') session.maxTurnsReached = true;
+        if (message.subtype === 'success' && message.result) turn?.text.push(message.result);
+        this.current = null;
+        turn?.resolve({
+          text: turn.text.join('\n'),
+          toolsUsed: [...new Set(turn.toolsUsed)],
+          costUsd,
+          findings: turn.findings,
+        });
+        break;
+      }
+    }
+  }
+}
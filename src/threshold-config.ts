@@ -0,0 +1,257 @@
+import { EventEmitter } from 'events';
+import fs from 'fs';
+import path from 'path';
+import { YAML } from 'bun';
+import { z } from 'zod';
+import type { ThresholdRule } from './config.js';
+import { DEFAULT_HISTORY_SIZE } from './sensor-state.js';
+
+/** Monitored tags (tag → unit) and their threshold rules, as loaded from THRESHOLD_CONFIG */
+export interface ThresholdConfig {
+  tags: Record<string, string>;
+  rules: ThresholdRule[];
+}
+
+const levelSchema = z.enum(['CRITICAL', 'WARNING']);
+
+const ruleSchema = z
+  .object({
+    tag: z.string().min(1),
+    warningLow: z.number().optional(),
+    warningHigh: z.number().optional(),
+    criticalLow: z.number().optional(),
+    criticalHigh: z.number().optional(),
+    rateOfChangePer5Min: z.number().positive().optional(),
+    deadband: z.number().min(0).optional(),
+    onDelaySec: z.number().min(0).optional(),
+    onDelaySamples: z
+      .object({ count: z.number().int().positive(), outOf: z.number().int().positive() })
+      .strict()
+      .refine((d) => d.count <= d.outOf, 'count cannot exceed outOf')
+      .optional(),
+    states: z
+      .array(
+        z
+          .object({
+            equals: z.union([z.string(), z.boolean(), z.number()]),
+            level: levelSchema,
+            on: z.enum(['state', 'transition']).optional(),
+          })
+          .strict()
+      )
+      .optional(),
+    qualityPolicy: z.enum(['skip', 'hold', 'instrument_fault']).optional(),
+    maxAgeSec: z.number().min(0).optional(),
+    flatline: z
+      .object({
+        windowSec: z
+          .number()
+          .positive()
+          // N samples at 1 Hz span N - 1 seconds, and the window must be covered to be decided
+          .max(
+            DEFAULT_HISTORY_SIZE - 1,
+            `windowSec must fit in the ${DEFAULT_HISTORY_SIZE}-sample history ` +
+              `(at most ${DEFAULT_HISTORY_SIZE - 1}s at 1 Hz); a longer window never fills`
+          ),
+        minStdDev: z.number().positive(),
+      })
+      .strict()
+      .optional(),
+  })
+  .strict()
+  .superRefine((rule, ctx) => {
+    if (rule.warningLow !== undefined && rule.criticalLow !== undefined && rule.criticalLow > rule.warningLow) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['criticalLow'],
+        message: `criticalLow (${rule.criticalLow}) must not be above warningLow (${rule.warningLow})`,
+      });
+    }
+    if (rule.warningHigh !== undefined && rule.criticalHigh !== undefined && rule.criticalHigh < rule.warningHigh) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['criticalHigh'],
+        message: `criticalHigh (${rule.criticalHigh}) must not be below warningHigh (${rule.warningHigh})`,
+      });
+    }
+  });
+
+export const thresholdConfigSchema = z
+  .object({
+    tags: z.record(z.string()),
+    rules: z.array(ruleSchema),
+  })
+  .strict()
+  .superRefine((config, ctx) => {
+    const seen = new Set<string>();
+    config.rules.forEach((rule, i) => {
+      if (seen.has(rule.tag)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['rules', i, 'tag'],
+          message: `Duplicate rule for ${rule.tag}`,
+        });
+      }
+      seen.add(rule.tag);
+      if (!(rule.tag in config.tags)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['rules', i, 'tag'],
+          message: `${rule.tag} is not listed under tags`,
+        });
+      }
+    });
+  });
+
+/** Parse and validate JSON or YAML (by extension) threshold config text. */
+export function parseThresholdConfig(text: string, file: string): ThresholdConfig {
+  let raw: unknown;
+  try {
+    raw = /\.ya?ml$/i.test(file) ? YAML.parse(text) : JSON.parse(text);
+  } catch (err: any) {
+    throw new Error(`Cannot parse threshold config ${file}: ${err.message}`);
+  }
+  const result = thresholdConfigSchema.safeParse(raw);
+  if (!result.success) {
+    const issues = result.error.issues
+      .map((i) => `  ${i.path.join('.') || '(root)'}: ${i.message}`)
+      .join('\n');
+    throw new Error(`Invalid threshold config ${file}:\n${issues}`);
+  }
+  return result.data;
+}
+
+export function loadThresholdConfig(file: string): ThresholdConfig {
+  let text: string;
+  try {
+    text = fs.readFileSync(file, 'utf-8');
+  } catch (err: any) {
+    throw new Error(`Cannot read threshold config ${file}: ${err.message}`);
+  }
+  return parseThresholdConfig(text, file);
+}
+
+/**
+ * Human-readable changes between two configs, one line each:
+ * "+ ..." added, "- ..." removed, "~ ..." changed.
+ */
+export function diffThresholdConfig(previous: ThresholdConfig, next: ThresholdConfig): string[] {
+  const changes: string[] = [];
+
+  for (const [tag, unit] of Object.entries(next.tags)) {
+    if (!(tag in previous.tags)) changes.push(`+ tag ${tag} (${unit || 'no unit'})`);
+    else if (previous.tags[tag] !== unit) changes.push(`~ tag ${tag}: unit ${previous.tags[tag]} → ${unit}`);
+  }
+  for (const tag of Object.keys(previous.tags)) {
+    if (!(tag in next.tags)) changes.push(`- tag ${tag}`);
+  }
+
+  const before = new Map(previous.rules.map((r) => [r.tag, r]));
+  const after = new Map(next.rules.map((r) => [r.tag, r]));
+  for (const [tag, rule] of after) {
+    const old = before.get(tag);
+    if (!old) {
+      changes.push(`+ rule ${tag}: ${JSON.stringify(withoutTag(rule))}`);
+      continue;
+    }
+    const fields = new Set([...Object.keys(old), ...Object.keys(rule)] as (keyof ThresholdRule)[]);
+    for (const field of fields) {
+      const a = JSON.stringify(old[field]);
+      const b = JSON.stringify(rule[field]);
+      if (a !== b) changes.push(`~ rule ${tag}: ${field} ${a ?? 'unset'} → ${b ?? 'unset'}`);
+    }
+  }
+  for (const tag of before.keys()) {
+    if (!after.has(tag)) changes.push(`- rule ${tag}`);
+  }
+
+  return changes;
+}
+
+function withoutTag(rule: ThresholdRule): Omit<ThresholdRule, 'tag'> {
+  const { tag: _tag, ...rest } = rule;
+  return rest;
+}
+
+export interface ThresholdReload {
+  config: ThresholdConfig;
+  previous: ThresholdConfig;
+  changes: string[];
+}
+
+/**
+ * Reloads the config file when it changes on disk or the process gets SIGHUP.
+ * Emits 'reload' (ThresholdReload) for a valid file with changes and
+ * 'reload_failed' (Error) for an invalid one — the current config is kept.
+ */
+export class ThresholdConfigWatcher extends EventEmitter {
+  private file: string;
+  private current: ThresholdConfig;
+  private debounceMs: number;
+  private watcher: fs.FSWatcher | null = null;
+  private debounceTimer: ReturnType<typeof setTimeout> | null = null;
+  private onSighup = () => this.reload('SIGHUP');
+
+  constructor(file: string, initial: ThresholdConfig, debounceMs = 500) {
+    super();
+    this.file = file;
+    this.current = initial;
+    this.debounceMs = debounceMs;
+  }
+
+  get config(): ThresholdConfig {
+    return this.current;
+  }
+
+  start(): void {
+    this.stop();
+    // Watch the directory: editors often save by writing a new file and renaming it
+    const name = path.basename(this.file);
+    this.watcher = fs.watch(path.dirname(path.resolve(this.file)), (_event, changed) => {
+      if (changed === name) this.scheduleReload();
+    });
+    process.on('SIGHUP', this.onSighup);
+  }
+
+  stop(): void {
+    this.watcher?.close();
+    this.watcher = null;
+    if (this.debounceTimer) clearTimeout(this.debounceTimer);
+    this.debounceTimer = null;
+    process.off('SIGHUP', this.onSighup);
+  }
+
+  /** Re-read the file now. Returns true when a new config took effect. */
+  reload(reason = 'manual'): boolean {
+    let next: ThresholdConfig;
+    try {
+      next = loadThresholdConfig(this.file);
+    } catch (err: any) {
+      console.error(`[ThresholdConfig] Reload (${reason}) rejected, keeping previous config:\n${err.message}`);
+      this.emit('reload_failed', err);
+      return false;
+    }
+
+    const changes = diffThresholdConfig(this.current, next);
+    if (changes.length === 0) {
+      console.log(`[ThresholdConfig] Reload (${reason}): no changes`);
+      return false;
+    }
+
+    const previous = this.current;
+    this.current = next;
+    console.log(`[ThresholdConfig] Reloaded ${this.file} (${reason}), ${changes.length} change(s):`);
+    for (const line of changes) console.log(`  ${line}`);
+    const reload: ThresholdReload = { config: next, previous, changes };
+    this.emit('reload', reload);
+    return true;
+  }
+
+  private scheduleReload(): void {
+    if (this.debounceTimer) clearTimeout(this.debounceTimer);
+    this.debounceTimer = setTimeout(() => {
+      this.debounceTimer = null;
+      this.reload('file change');
+    }, this.debounceMs);
+  }
+}
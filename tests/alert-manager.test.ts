@@ -1,5 +1,13 @@
 import { describe, it, expect, beforeEach, afterEach, jest, spyOn } from 'bun:test';
-import { AlertManager, Alert, Recommendation } from '../src/alert-manager';
+import {
+  AlertManager,
+  AlertLifecycleError,
+  NewAlert,
+  Recommendation,
+  alertFingerprint,
+} from '../src/alert-manager';
+import { AlertQuery, MemoryAlertStore } from '../src/alert-store';
+import { createBOPMetrics } from '../src/metrics';
 
 describe('AlertManager', () => {
   let alertManager: AlertManager;
@@ -15,7 +23,7 @@ describe('AlertManager', () => {
 
   describe('send', () => {
     it('stores alert and returns confirmation string', async () => {
-      const alert: Alert = {
+      const alert: NewAlert = {
         severity: 'CRITICAL',
         title: 'Low accumulator pressure',
         description: 'System pressure dropped below MOP',
@@ -25,13 +33,21 @@ describe('AlertManager', () => {
       };
 
       const result = await alertManager.send(alert);
-      expect(result).toBe('Alert sent at 2025-01-01T00:00:00.000Z');
-      expect(alertManager.getActiveAlerts()).toHaveLength(1);
-      expect(alertManager.getActiveAlerts()[0]).toEqual(alert);
+      const alerts = await alertManager.getActiveAlerts();
+      expect(alerts).toHaveLength(1);
+      expect(alerts[0]).toEqual({
+        ...alert,
+        id: alerts[0].id,
+        state: 'OPEN',
+        fingerprint: 'CRITICAL|Accumulator|',
+        occurrences: 1,
+        lastSeenAt: alert.timestamp,
+      });
+      expect(result).toBe(`Alert ${alerts[0].id} sent at 2025-01-01T00:00:00.000Z`);
     });
 
     it('logs alert to console', async () => {
-      const alert: Alert = {
+      const alert: NewAlert = {
         severity: 'WARNING',
         title: 'Test alert',
         description: 'Test description',
@@ -56,7 +72,7 @@ describe('AlertManager', () => {
         });
       }
 
-      const active = alertManager.getActiveAlerts();
+      const active = await alertManager.getActiveAlerts();
       expect(active).toHaveLength(50);
       expect(active[0].title).toBe('Alert 10');
       expect(active[49].title).toBe('Alert 59');
@@ -76,8 +92,9 @@ describe('AlertManager', () => {
 
       const result = await alertManager.logRecommendation(rec);
       expect(result).toBe('Recommendation logged at 2025-01-01T00:00:00.000Z');
-      expect(alertManager.getRecommendations()).toHaveLength(1);
-      expect(alertManager.getRecommendations()[0]).toEqual(rec);
+      const recs = await alertManager.getRecommendations();
+      expect(recs).toHaveLength(1);
+      expect(recs[0]).toEqual(rec);
     });
 
     it('caps recommendations at 100', async () => {
@@ -91,7 +108,7 @@ describe('AlertManager', () => {
         });
       }
 
-      const recs = alertManager.getRecommendations();
+      const recs = await alertManager.getRecommendations();
       expect(recs).toHaveLength(100);
       expect(recs[0].component).toBe('Component 10');
       expect(recs[99].component).toBe('Component 109');
@@ -99,9 +116,325 @@ describe('AlertManager', () => {
   });
 
   describe('getActiveAlerts / getRecommendations', () => {
-    it('returns empty arrays initially', () => {
-      expect(alertManager.getActiveAlerts()).toEqual([]);
-      expect(alertManager.getRecommendations()).toEqual([]);
+    it('returns empty arrays initially', async () => {
+      expect(await alertManager.getActiveAlerts()).toEqual([]);
+      expect(await alertManager.getRecommendations()).toEqual([]);
+    });
+  });
+
+  describe('lifecycle', () => {
+    const t0 = new Date('2025-01-01T00:00:00.000Z');
+    const at = (ms: number) => new Date(t0.getTime() + ms);
+
+    function raise(overrides: Partial<NewAlert> = {}) {
+      return alertManager.send({
+        severity: 'CRITICAL',
+        title: 'Low accumulator pressure',
+        description: 'Below MOP',
+        tags: ['BOP.ACC.PRESS.SYS'],
+        recommendedAction: 'Check pumps',
+        timestamp: t0.toISOString(),
+        ...overrides,
+      });
+    }
+
+    async function onlyAlert() {
+      const [alert] = await alertManager.queryAlerts({});
+      return alert;
+    }
+
+    beforeEach(() => {
+      alertManager = new AlertManager(undefined, {
+        autoResolveAfterMs: 60_000,
+        escalationIntervalMs: 120_000,
+      });
+    });
+
+    it('acknowledge records operator and time, and keeps the alert active', async () => {
+      await raise();
+      const { id } = await onlyAlert();
+
+      const acked = await alertManager.acknowledge(id, 'driller-1', at(5_000));
+
+      expect(acked.state).toBe('ACKNOWLEDGED');
+      expect(acked.acknowledgedBy).toBe('driller-1');
+      expect(acked.acknowledgedAt).toBe(at(5_000).toISOString());
+      expect(await alertManager.getActiveAlerts()).toHaveLength(1);
+    });
+
+    it('clear removes the alert from active alerts but keeps history', async () => {
+      await raise();
+      const { id } = await onlyAlert();
+
+      await alertManager.clear(id, 'toolpusher');
+
+      expect(await alertManager.getActiveAlerts()).toEqual([]);
+      expect((await onlyAlert()).state).toBe('CLEARED');
+    });
+
+    it('rejects invalid transitions and unknown ids', async () => {
+      await raise();
+      const { id } = await onlyAlert();
+      await alertManager.clear(id, 'toolpusher');
+
+      await expect(alertManager.acknowledge(id, 'driller-1')).rejects.toBeInstanceOf(AlertLifecycleError);
+      await expect(alertManager.clear('nope', 'driller-1')).rejects.toThrow('Unknown alert: nope');
+    });
+
+    it('emits alert_state_change with the previous state', async () => {
+      await raise();
+      const { id } = await onlyAlert();
+      const changes: any[] = [];
+      alertManager.on('alert_state_change', (e) => changes.push(e));
+
+      await alertManager.acknowledge(id, 'driller-1');
+
+      expect(changes).toHaveLength(1);
+      expect(changes[0].previousState).toBe('OPEN');
+      expect(changes[0].alert.state).toBe('ACKNOWLEDGED');
+    });
+
+    it('auto-resolves once tags have been normal for the configured time', async () => {
+      await raise();
+      let normal = true;
+      const check = () => normal;
+
+      await alertManager.evaluateLifecycle(check, at(10_000));
+      expect((await onlyAlert()).state).toBe('OPEN');
+
+      await alertManager.evaluateLifecycle(check, at(70_000));
+      const alert = await onlyAlert();
+      expect(alert.state).toBe('RESOLVED');
+      expect(alert.resolvedAt).toBe(at(70_000).toISOString());
+    });
+
+    it('restarts the auto-resolve timer if the tag breaches again', async () => {
+      await raise();
+      let normal = true;
+      const check = () => normal;
+
+      await alertManager.evaluateLifecycle(check, at(10_000));
+      normal = false;
+      await alertManager.evaluateLifecycle(check, at(40_000));
+      normal = true;
+      await alertManager.evaluateLifecycle(check, at(50_000));
+      await alertManager.evaluateLifecycle(check, at(100_000));
+      expect((await onlyAlert()).state).toBe('OPEN');
+
+      await alertManager.evaluateLifecycle(check, at(110_000));
+      expect((await onlyAlert()).state).toBe('RESOLVED');
+    });
+
+    it('never auto-resolves alerts without tags or with unknown tags', async () => {
+      await raise({ tags: undefined });
+      await alertManager.evaluateLifecycle(() => true, at(0));
+      await alertManager.evaluateLifecycle(() => true, at(600_000));
+      expect((await onlyAlert()).state).not.toBe('RESOLVED');
+
+      alertManager = new AlertManager(undefined, { autoResolveAfterMs: 0 });
+      await raise({ severity: 'WARNING' });
+      await alertManager.evaluateLifecycle(() => undefined, at(600_000));
+      expect((await onlyAlert()).state).toBe('OPEN');
+    });
+
+    it('escalates unacknowledged CRITICAL alerts each interval', async () => {
+      await raise();
+      const escalations: any[] = [];
+      alertManager.on('alert_escalated', (a) => escalations.push(a));
+      const check = () => false;
+
+      await alertManager.evaluateLifecycle(check, at(60_000));
+      expect(escalations).toHaveLength(0);
+
+      await alertManager.evaluateLifecycle(check, at(120_000));
+      await alertManager.evaluateLifecycle(check, at(180_000));
+      await alertManager.evaluateLifecycle(check, at(240_000));
+
+      expect(escalations.map((a) => a.escalationLevel)).toEqual([1, 2]);
+      expect((await onlyAlert()).lastEscalatedAt).toBe(at(240_000).toISOString());
+    });
+
+    it('does not escalate acknowledged or WARNING alerts', async () => {
+      await raise({ severity: 'WARNING' });
+      await raise();
+      const critical = (await alertManager.queryAlerts({ severity: 'CRITICAL' }))[0];
+      await alertManager.acknowledge(critical.id, 'driller-1');
+      const escalated = jest.fn();
+      alertManager.on('alert_escalated', escalated);
+
+      await alertManager.evaluateLifecycle(() => false, at(600_000));
+
+      expect(escalated).not.toHaveBeenCalled();
+    });
+
+    it('does not undo an acknowledge that lands while an escalation is being worked out', async () => {
+      // Returns copies, as a database would, and holds the lifecycle check's read until released
+      class SlowStore extends MemoryAlertStore {
+        hold: Promise<void> | null = null;
+        async queryAlerts(query: AlertQuery = {}) {
+          const rows = (await super.queryAlerts(query)).map((a) => ({ ...a }));
+          if (this.hold) await this.hold;
+          return rows;
+        }
+      }
+      const store = new SlowStore();
+      alertManager = new AlertManager(store, { escalationIntervalMs: 120_000 });
+      await raise();
+      const { id } = await onlyAlert();
+      const escalated = jest.fn();
+      alertManager.on('alert_escalated', escalated);
+
+      let release!: () => void;
+      store.hold = new Promise((resolve) => (release = resolve));
+      const lifecycle = alertManager.evaluateLifecycle(() => false, at(600_000));
+      store.hold = null;
+      await alertManager.acknowledge(id, 'driller-1', at(599_000));
+      release();
+      await lifecycle;
+
+      expect(escalated).not.toHaveBeenCalled();
+      expect(await alertManager.getAlert(id)).toMatchObject({
+        state: 'ACKNOWLEDGED',
+        acknowledgedBy: 'driller-1',
+        acknowledgedAt: at(599_000).toISOString(),
+      });
+    });
+  });
+
+  describe('de-duplication and shelving', () => {
+    const t0 = new Date('2025-01-01T00:00:00.000Z');
+    const at = (ms: number) => new Date(t0.getTime() + ms);
+
+    function raise(ms: number, overrides: Partial<NewAlert> = {}) {
+      return alertManager.send({
+        severity: 'WARNING',
+        title: 'Accumulator pressure low',
+        description: 'Below 2200 PSI',
+        affectedComponents: ['Accumulator'],
+        tags: ['BOP.ACC.PRESS.SYS'],
+        recommendedAction: 'Check pumps',
+        timestamp: at(ms).toISOString(),
+        ...overrides,
+      });
+    }
+
+    beforeEach(() => {
+      alertManager = new AlertManager(undefined, { dedupWindowMs: 60_000 });
+    });
+
+    it('counts raised alerts by severity in metrics, not suppressed repeats', async () => {
+      const metrics = createBOPMetrics({ isPiChannelConnected: () => true });
+      alertManager = new AlertManager(undefined, { dedupWindowMs: 60_000 }, metrics);
+
+      await raise(0);
+      await raise(10_000);
+      await raise(20_000, { severity: 'CRITICAL', title: 'Accumulator pressure critical' });
+
+      expect(metrics.alertsSent.get({ severity: 'WARNING' })).toBe(1);
+      expect(metrics.alertsSent.get({ severity: 'CRITICAL' })).toBe(1);
+    });
+
+    it('fingerprints ignore order of components and tags', () => {
+      const base = { severity: 'WARNING', title: 't', description: '', recommendedAction: '', timestamp: '' };
+      expect(
+        alertFingerprint({ ...base, affectedComponents: ['B', 'A'], tags: ['y', 'x'] })
+      ).toBe(alertFingerprint({ ...base, affectedComponents: ['A', 'B'], tags: ['x', 'y'] }));
+      expect(alertFingerprint({ ...base, title: 'one' })).not.toBe(
+        alertFingerprint({ ...base, title: 'two' })
+      );
+    });
+
+    it('suppresses repeats inside the window and counts occurrences', async () => {
+      const raised = jest.fn();
+      const suppressed = jest.fn();
+      alertManager.on('alert', raised);
+      alertManager.on('alert_suppressed', suppressed);
+
+      await raise(0);
+      const result = await raise(30_000, { title: 'Accumulator pressure still low' });
+      await raise(80_000);
+
+      const alerts = await alertManager.getActiveAlerts();
+      expect(alerts).toHaveLength(1);
+      expect(alerts[0].occurrences).toBe(3);
+      expect(alerts[0].lastSeenAt).toBe(at(80_000).toISOString());
+      expect(result).toContain(`Duplicate of active alert ${alerts[0].id}`);
+      expect(raised).toHaveBeenCalledTimes(1);
+      expect(suppressed).toHaveBeenCalledTimes(2);
+    });
+
+    it('raises one alert when the same condition is sent concurrently', async () => {
+      const raised = jest.fn();
+      alertManager.on('alert', raised);
+
+      await Promise.all([raise(0), raise(1_000), raise(2_000)]);
+
+      const alerts = await alertManager.getActiveAlerts();
+      expect(alerts).toHaveLength(1);
+      expect(alerts[0].occurrences).toBe(3);
+      expect(raised).toHaveBeenCalledTimes(1);
+    });
+
+    it('raises a fresh alert once the window since the last sighting has passed', async () => {
+      await raise(0);
+      await raise(61_000);
+      expect(await alertManager.getActiveAlerts()).toHaveLength(2);
+    });
+
+    it('does not de-duplicate against resolved or cleared alerts', async () => {
+      await raise(0);
+      const [first] = await alertManager.getActiveAlerts();
+      await alertManager.clear(first.id, 'driller-1');
+
+      await raise(1_000);
+      const active = await alertManager.getActiveAlerts();
+      expect(active).toHaveLength(1);
+      expect(active[0].id).not.toBe(first.id);
+    });
+
+    it('treats different severities as different conditions', async () => {
+      await raise(0);
+      await raise(1_000, { severity: 'CRITICAL' });
+      expect(await alertManager.getActiveAlerts()).toHaveLength(2);
+    });
+
+    it('shelving drops matching alerts until it expires', async () => {
+      await raise(0);
+      const [alert] = await alertManager.getActiveAlerts();
+      const shelf = await alertManager.shelve(alert.id, 'toolpusher', 3_600_000, 'Known faulty transmitter', at(0));
+      await alertManager.clear(alert.id, 'toolpusher');
+
+      const result = await raise(600_000);
+      expect(result).toContain('shelved by toolpusher');
+      expect(await alertManager.getActiveAlerts()).toHaveLength(0);
+      expect(shelf.suppressedCount).toBe(1);
+      expect(alertManager.getShelves(at(600_000))).toHaveLength(1);
+
+      await raise(3_600_001);
+      expect(await alertManager.getActiveAlerts()).toHaveLength(1);
+      expect(alertManager.getShelves(at(3_600_001))).toHaveLength(0);
+    });
+
+    it('unshelve restores normal handling', async () => {
+      await raise(0);
+      const [alert] = await alertManager.getActiveAlerts();
+      await alertManager.shelve(alert.id, 'toolpusher', 3_600_000, 'nuisance', at(0));
+
+      expect(await alertManager.unshelve(alert.id)).toBe(true);
+      expect(await alertManager.unshelve(alert.id)).toBe(false);
+    });
+
+    it('shelved CRITICAL alerts do not escalate', async () => {
+      alertManager = new AlertManager(undefined, { escalationIntervalMs: 60_000 });
+      await raise(0, { severity: 'CRITICAL' });
+      const [alert] = await alertManager.getActiveAlerts();
+      await alertManager.shelve(alert.id, 'toolpusher', 3_600_000, 'Sensor under repair', at(0));
+      const escalated = jest.fn();
+      alertManager.on('alert_escalated', escalated);
+
+      await alertManager.evaluateLifecycle(() => false, at(120_000));
+
+      expect(escalated).not.toHaveBeenCalled();
     });
   });
 });
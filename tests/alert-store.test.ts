@@ -0,0 +1,246 @@
+import { describe, it, expect, beforeEach, afterEach, jest, spyOn } from 'bun:test';
+import { mkdtempSync, rmSync, appendFileSync, readFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { MemoryAlertStore, JsonlAlertStore, createAlertStore } from '../src/alert-store';
+import { AlertManager, Alert, Recommendation } from '../src/alert-manager';
+
+let nextId = 0;
+
+function makeAlert(overrides: Partial<Alert> = {}): Alert {
+  return {
+    id: `alert-${++nextId}`,
+    state: 'OPEN',
+    fingerprint: 'fp',
+    occurrences: 1,
+    lastSeenAt: '2025-01-01T00:00:00.000Z',
+    severity: 'WARNING',
+    title: 'Accumulator pressure low',
+    description: 'System pressure below 2200 PSI',
+    affectedComponents: ['Accumulator'],
+    tags: ['BOP.ACC.PRESS.SYS'],
+    recommendedAction: 'Check pump output',
+    timestamp: '2025-01-01T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
+function makeRec(overrides: Partial<Recommendation> = {}): Recommendation {
+  return {
+    category: 'MAINTENANCE',
+    component: 'Annular Preventer #1',
+    recommendation: 'Inspect sealing element',
+    priority: 'MEDIUM',
+    timestamp: '2025-01-01T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
+describe('MemoryAlertStore', () => {
+  let store: MemoryAlertStore;
+
+  beforeEach(async () => {
+    store = new MemoryAlertStore();
+    await store.init();
+    await store.appendAlert(makeAlert({ timestamp: '2025-01-01T00:00:00.000Z' }));
+    await store.appendAlert(
+      makeAlert({
+        severity: 'CRITICAL',
+        title: 'Pit gain',
+        affectedComponents: ['Wellbore'],
+        tags: ['WELL.PIT.VOL.DELTA'],
+        timestamp: '2025-01-01T01:00:00.000Z',
+      })
+    );
+    await store.appendAlert(makeAlert({ timestamp: '2025-01-01T02:00:00.000Z' }));
+  });
+
+  it('filters alerts by severity', async () => {
+    const result = await store.queryAlerts({ severity: 'CRITICAL' });
+    expect(result).toHaveLength(1);
+    expect(result[0].title).toBe('Pit gain');
+  });
+
+  it('filters alerts by component and tag', async () => {
+    expect(await store.queryAlerts({ component: 'Accumulator' })).toHaveLength(2);
+    expect(await store.queryAlerts({ tag: 'WELL.PIT.VOL.DELTA' })).toHaveLength(1);
+    expect(await store.queryAlerts({ tag: 'UNKNOWN' })).toHaveLength(0);
+  });
+
+  it('filters alerts by time range (inclusive)', async () => {
+    const result = await store.queryAlerts({
+      from: new Date('2025-01-01T01:00:00.000Z'),
+      to: new Date('2025-01-01T02:00:00.000Z'),
+    });
+    expect(result.map((a) => a.timestamp)).toEqual([
+      '2025-01-01T01:00:00.000Z',
+      '2025-01-01T02:00:00.000Z',
+    ]);
+  });
+
+  it('limit keeps the most recent matches in chronological order', async () => {
+    const result = await store.queryAlerts({ limit: 2 });
+    expect(result.map((a) => a.timestamp)).toEqual([
+      '2025-01-01T01:00:00.000Z',
+      '2025-01-01T02:00:00.000Z',
+    ]);
+  });
+
+  it('offset pages back from the most recent matches', async () => {
+    expect((await store.queryAlerts({ limit: 1, offset: 1 })).map((a) => a.timestamp)).toEqual([
+      '2025-01-01T01:00:00.000Z',
+    ]);
+    expect(await store.queryAlerts({ limit: 2, offset: 2 })).toHaveLength(1);
+    expect(await store.queryAlerts({ offset: 5 })).toEqual([]);
+  });
+
+  it('filters alerts by state', async () => {
+    const [first] = await store.queryAlerts({ limit: 1 });
+    await store.updateAlert({ ...first, state: 'RESOLVED' });
+
+    expect(await store.queryAlerts({ state: ['OPEN', 'ACKNOWLEDGED'] })).toHaveLength(2);
+    expect((await store.getAlert(first.id))?.state).toBe('RESOLVED');
+  });
+
+  it('rejects updates for unknown alerts', async () => {
+    await expect(store.updateAlert(makeAlert({ id: 'missing' }))).rejects.toThrow(
+      'Unknown alert: missing'
+    );
+  });
+
+  it('filters recommendations by priority and component', async () => {
+    await store.appendRecommendation(makeRec({ priority: 'HIGH' }));
+    await store.appendRecommendation(makeRec({ component: 'Accumulator' }));
+
+    expect(await store.queryRecommendations({ priority: 'HIGH' })).toHaveLength(1);
+    expect(await store.queryRecommendations({ component: 'Accumulator' })).toHaveLength(1);
+    expect(await store.queryRecommendations()).toHaveLength(2);
+  });
+});
+
+describe('JsonlAlertStore', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(path.join(tmpdir(), 'alert-store-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+    jest.restoreAllMocks();
+  });
+
+  it('appends one JSON record per line', async () => {
+    const store = new JsonlAlertStore(dir);
+    await store.init();
+    await store.appendAlert(makeAlert());
+    await store.appendAlert(makeAlert({ severity: 'CRITICAL' }));
+
+    const lines = readFileSync(path.join(dir, 'alerts.jsonl'), 'utf-8').trim().split('\n');
+    expect(lines).toHaveLength(2);
+    expect(JSON.parse(lines[1]).severity).toBe('CRITICAL');
+  });
+
+  it('history survives a restart', async () => {
+    const first = new JsonlAlertStore(dir);
+    await first.init();
+    await first.appendAlert(makeAlert());
+    await first.appendRecommendation(makeRec());
+
+    const second = new JsonlAlertStore(dir);
+    await second.init();
+    const alerts = await second.queryAlerts();
+    expect(alerts).toHaveLength(1);
+    expect(alerts[0].title).toBe('Accumulator pressure low');
+    expect(await second.queryRecommendations()).toEqual([makeRec()]);
+  });
+
+  it('replays updates so the latest revision of each alert wins', async () => {
+    const first = new JsonlAlertStore(dir);
+    await first.init();
+    const alert = makeAlert();
+    await first.appendAlert(alert);
+    await first.updateAlert({ ...alert, state: 'ACKNOWLEDGED', acknowledgedBy: 'driller-1' });
+
+    const second = new JsonlAlertStore(dir);
+    await second.init();
+    const alerts = await second.queryAlerts();
+    expect(alerts).toHaveLength(1);
+    expect(alerts[0].state).toBe('ACKNOWLEDGED');
+    expect(alerts[0].acknowledgedBy).toBe('driller-1');
+  });
+
+  it('drops superseded revisions from the file on startup', async () => {
+    const alert = makeAlert();
+    const other = makeAlert({ severity: 'CRITICAL' });
+    const file = path.join(dir, 'alerts.jsonl');
+    appendFileSync(file, [alert, other, { ...alert, occurrences: 2 }, { ...alert, state: 'RESOLVED' }]
+      .map((a) => JSON.stringify(a) + '\n').join(''));
+
+    const store = new JsonlAlertStore(dir);
+    await store.init();
+
+    const lines = readFileSync(file, 'utf-8').trim().split('\n').map((l) => JSON.parse(l));
+    expect(lines).toEqual([{ ...alert, state: 'RESOLVED' }, other]);
+    expect(await store.queryAlerts()).toEqual(lines);
+  });
+
+  it('compacts the file once superseded revisions pass the threshold', async () => {
+    const store = new JsonlAlertStore(dir, 3);
+    await store.init();
+    const alert = makeAlert();
+    await store.appendAlert(alert);
+    const lineCount = () => readFileSync(path.join(dir, 'alerts.jsonl'), 'utf-8').trim().split('\n').length;
+
+    await store.updateAlert({ ...alert, occurrences: 2 });
+    await store.updateAlert({ ...alert, occurrences: 3 });
+    expect(lineCount()).toBe(3);
+
+    await store.updateAlert({ ...alert, occurrences: 4 });
+    expect(lineCount()).toBe(1);
+    await store.updateAlert({ ...alert, occurrences: 5 });
+    expect(lineCount()).toBe(2);
+
+    const reopened = new JsonlAlertStore(dir);
+    await reopened.init();
+    expect((await reopened.getAlert(alert.id))?.occurrences).toBe(5);
+  });
+
+  it('skips a torn trailing line and keeps the rest', async () => {
+    spyOn(console, 'warn').mockImplementation((() => {}) as any);
+    appendFileSync(path.join(dir, 'alerts.jsonl'), JSON.stringify(makeAlert()) + '\n{"severity":');
+
+    const store = new JsonlAlertStore(dir);
+    await store.init();
+
+    expect(await store.queryAlerts()).toHaveLength(1);
+    expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('malformed line 2'));
+  });
+
+  it('backs AlertManager so alerts are visible after restart', async () => {
+    spyOn(console, 'log').mockImplementation((() => {}) as any);
+    const store = new JsonlAlertStore(dir);
+    await store.init();
+    const { id, state, ...input } = makeAlert();
+    await new AlertManager(store).send(input);
+
+    const reopened = new JsonlAlertStore(dir);
+    await reopened.init();
+    const alerts = await new AlertManager(reopened).getActiveAlerts();
+    expect(alerts).toHaveLength(1);
+    expect(alerts[0].title).toBe('Accumulator pressure low');
+  });
+});
+
+describe('createAlertStore', () => {
+  it('builds the configured backend', () => {
+    expect(createAlertStore({ backend: 'memory', dir: '.' })).toBeInstanceOf(MemoryAlertStore);
+    expect(createAlertStore({ backend: 'jsonl', dir: '.' })).toBeInstanceOf(JsonlAlertStore);
+  });
+
+  it('requires a database URL for postgres', () => {
+    expect(() => createAlertStore({ backend: 'postgres', dir: '.' })).toThrow(
+      'ALERT_DATABASE_URL is required'
+    );
+  });
+});
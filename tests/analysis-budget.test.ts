@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'bun:test';
+import { AnalysisBudget, AnalysisBudgetConfig, ruleBasedSummary } from '../src/analysis-budget';
+
+const CONFIG: AnalysisBudgetConfig = {
+  hourlyUsd: 1,
+  dailyUsd: 5,
+  maxAnalysesPerHour: 10,
+  warnRatio: 0.8,
+  fallbackModel: 'haiku',
+};
+
+function budget(config: Partial<AnalysisBudgetConfig> = {}) {
+  let now = Date.parse('2025-01-01T00:00:00Z');
+  const b = new AnalysisBudget({ ...CONFIG, ...config }, () => now);
+  return { budget: b, advance: (ms: number) => (now += ms) };
+}
+
+describe('AnalysisBudget', () => {
+  it('is OK and runs everything in full while under budget', () => {
+    const { budget: b } = budget();
+    b.record(0.2);
+
+    const status = b.getStatus();
+    expect(status.level).toBe('OK');
+    expect(status.lastHour).toEqual({ spentUsd: 0.2, analyses: 1 });
+    expect(status.limits).toEqual({ hourlyUsd: 1, dailyUsd: 5, maxAnalysesPerHour: 10 });
+    expect(b.decide('WARNING')).toEqual({ mode: 'full' });
+  });
+
+  it('drops non-critical analyses to the fallback model once a limit is near', () => {
+    const { budget: b } = budget();
+    b.record(0.85);
+
+    expect(b.getStatus().level).toBe('NEAR');
+    expect(b.decide('WARNING')).toEqual({ mode: 'fallback_model', model: 'haiku' });
+    expect(b.decide('PERIODIC')).toEqual({ mode: 'fallback_model', model: 'haiku' });
+    expect(b.decide('CRITICAL')).toEqual({ mode: 'full' });
+  });
+
+  it('keeps the normal model when no fallback model is configured', () => {
+    const { budget: b } = budget({ fallbackModel: '' });
+    b.record(0.85);
+    expect(b.decide('WARNING')).toEqual({ mode: 'full' });
+  });
+
+  it('switches non-critical analyses to rule-based summaries once exceeded, CRITICAL still runs', () => {
+    const { budget: b } = budget();
+    b.record(0.6);
+    b.record(0.5);
+
+    expect(b.getStatus().level).toBe('EXCEEDED');
+    expect(b.decide('WARNING')).toEqual({ mode: 'rule_based' });
+    expect(b.decide('CRITICAL')).toEqual({ mode: 'full' });
+  });
+
+  it('counts analyses against the hourly rate limit', () => {
+    const { budget: b } = budget({ maxAnalysesPerHour: 2 });
+    b.record();
+    b.record();
+    expect(b.getStatus().level).toBe('EXCEEDED');
+  });
+
+  it('uses rolling windows: spend leaves the hour first, then the day', () => {
+    const { budget: b, advance } = budget({ hourlyUsd: 1, dailyUsd: 2 });
+    b.record(1.2);
+    expect(b.getStatus().level).toBe('EXCEEDED');
+
+    advance(61 * 60_000);
+    expect(b.getStatus().lastHour).toEqual({ spentUsd: 0, analyses: 0 });
+    expect(b.getStatus().lastDay.spentUsd).toBe(1.2);
+    expect(b.getStatus().level).toBe('OK');
+
+    b.record(0.5);
+    expect(b.getStatus().level).toBe('NEAR'); // 1.7 of 2 for the day
+
+    advance(24 * 3_600_000);
+    expect(b.getStatus().lastDay).toEqual({ spentUsd: 0, analyses: 0 });
+  });
+
+  it('never limits with every limit at 0', () => {
+    const { budget: b } = budget({ hourlyUsd: 0, dailyUsd: 0, maxAnalysesPerHour: 0 });
+    for (let i = 0; i < 100; i++) b.record(10);
+    expect(b.getStatus().level).toBe('OK');
+    expect(b.getStatus().limits).toEqual({ hourlyUsd: null, dailyUsd: null, maxAnalysesPerHour: null });
+  });
+});
+
+describe('ruleBasedSummary', () => {
+  it('lists each breach with its limit', () => {
+    const text = ruleBasedSummary([
+      {
+        tag: 'BOP.ACC.PRESS.SYS',
+        value: 2150,
+        level: 'WARNING',
+        type: 'low',
+        threshold: 2200,
+        message: 'Accumulator pressure low',
+      },
+    ]);
+    expect(text).toContain('LLM budget exhausted');
+    expect(text).toContain('- [WARNING] BOP.ACC.PRESS.SYS = 2150 (low limit 2200): Accumulator pressure low');
+  });
+
+  it('notes a skipped routine check', () => {
+    expect(ruleBasedSummary([])).toContain('Routine health check skipped');
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, it, expect, jest, mock } from 'bun:test';
+import { sdkMock } from './shared-mocks';
+
+mock.module('@anthropic-ai/claude-agent-sdk', () =>
+  sdkMock({
+    tool: (name: string, description: string, inputSchema: any, handler: Function) => ({
+      name,
+      description,
+      inputSchema,
+      handler,
+    }),
+  })
+);
+
+const { createSubmitFindingsTool, findingsSchema } = await import('../src/analysis-findings');
+
+const findings = {
+  summary: 'Blue pod offline; yellow pod healthy',
+  rootCauses: [{ cause: 'Blue pod communication fault', confidence: 0.8 }],
+  affectedSubsystems: ['Blue control pod'],
+  tags: ['BOP.CTRL.POD.BLUE.STATUS'],
+  recommendedActions: ['Confirm yellow pod is selected', 'Troubleshoot blue pod MUX link'],
+  onset: 'sudden' as const,
+};
+
+describe('submit_findings', () => {
+  it('hands the validated findings to the run', async () => {
+    const onSubmit = jest.fn();
+    const submitFindings = createSubmitFindingsTool(onSubmit);
+
+    const result = await submitFindings.handler(findings, {});
+
+    expect(submitFindings.name).toBe('submit_findings');
+    expect(onSubmit).toHaveBeenCalledWith(findings);
+    expect(result.content[0]).toEqual({ type: 'text', text: 'Findings recorded.' });
+  });
+
+  it('rejects a confidence outside 0-1', async () => {
+    const onSubmit = jest.fn();
+    const submitFindings = createSubmitFindingsTool(onSubmit);
+
+    await expect(
+      submitFindings.handler({ ...findings, rootCauses: [{ cause: 'Leak', confidence: 80 }] }, {})
+    ).rejects.toThrow();
+    expect(onSubmit).not.toHaveBeenCalled();
+  });
+
+  it('only accepts sudden, gradual or unknown as onset', () => {
+    expect(findingsSchema.safeParse({ ...findings, onset: 'intermittent' }).success).toBe(false);
+    expect(findingsSchema.safeParse({ ...findings, onset: 'unknown' }).success).toBe(true);
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'bun:test';
+import { AnalysisLog, AnalysisRecord } from '../src/analysis-log';
+
+let nextId = 0;
+
+function makeRecord(overrides: Partial<AnalysisRecord> = {}): AnalysisRecord {
+  return {
+    id: `analysis-${++nextId}`,
+    trigger: { type: 'periodic', context: 'Routine check' },
+    status: 'completed',
+    startedAt: '2025-01-01T00:00:00.000Z',
+    completedAt: '2025-01-01T00:00:30.000Z',
+    durationMs: 30_000,
+    model: 'sonnet',
+    text: 'All normal',
+    toolsUsed: ['mcp__bop-tools__get_bop_status'],
+    ...overrides,
+  };
+}
+
+describe('AnalysisLog', () => {
+  it('looks records up by id', () => {
+    const log = new AnalysisLog();
+    const record = makeRecord();
+    log.record(record);
+    expect(log.get(record.id)).toEqual(record);
+    expect(log.get('missing')).toBeUndefined();
+  });
+
+  it('filters by trigger, status, tag and time range', () => {
+    const log = new AnalysisLog();
+    log.record(makeRecord());
+    log.record(
+      makeRecord({
+        trigger: { type: 'threshold_breach', tags: ['BOP.ACC.PRESS.SYS'], context: 'Breach' },
+        startedAt: '2025-01-01T01:00:00.000Z',
+      })
+    );
+    log.record(makeRecord({ status: 'failed', error: 'API overloaded', startedAt: '2025-01-01T02:00:00.000Z' }));
+
+    expect(log.query({ trigger: 'threshold_breach' })).toHaveLength(1);
+    expect(log.query({ tag: 'BOP.ACC.PRESS.SYS' })).toHaveLength(1);
+    expect(log.query({ status: 'failed' })[0].error).toBe('API overloaded');
+    expect(log.query({ from: new Date('2025-01-01T00:30:00Z') })).toHaveLength(2);
+  });
+
+  it('filters operator questions by who asked', () => {
+    const log = new AnalysisLog();
+    const question = (operator: string) =>
+      makeRecord({ trigger: { type: 'operator_question', operator, question: 'Why?', context: 'OPERATOR QUESTION' } });
+    log.record(question('driller-1'));
+    log.record(question('toolpusher'));
+    log.record(makeRecord());
+
+    expect(log.query({ operator: 'toolpusher' }).map((r) => r.trigger.operator)).toEqual(['toolpusher']);
+    expect(log.query({ trigger: 'operator_question' })).toHaveLength(2);
+  });
+
+  it('pages back from the most recent records', () => {
+    const log = new AnalysisLog();
+    for (let i = 0; i < 5; i++) log.record(makeRecord({ text: `run ${i}` }));
+
+    expect(log.query({ limit: 2 }).map((r) => r.text)).toEqual(['run 3', 'run 4']);
+    expect(log.query({ limit: 2, offset: 2 }).map((r) => r.text)).toEqual(['run 1', 'run 2']);
+  });
+
+  it('drops the oldest records past the limit', () => {
+    const log = new AnalysisLog(3);
+    for (let i = 0; i < 5; i++) log.record(makeRecord({ text: `run ${i}` }));
+    expect(log.query().map((r) => r.text)).toEqual(['run 2', 'run 3', 'run 4']);
+  });
+});
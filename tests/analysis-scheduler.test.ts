@@ -0,0 +1,177 @@
+import { describe, it, expect, beforeEach, afterEach, jest, spyOn } from 'bun:test';
+import { AnalysisJob, AnalysisScheduler, defaultSubsystemOf } from '../src/analysis-scheduler';
+import { createBOPMetrics } from '../src/metrics';
+import type { ThresholdBreach } from '../src/sensor-state';
+
+function breach(tag: string, level: 'CRITICAL' | 'WARNING' = 'WARNING', type: ThresholdBreach['type'] = 'low'): ThresholdBreach {
+  return { tag, value: 0, level, type, threshold: 1, message: `${tag} ${level}` };
+}
+
+/** A run function whose jobs finish only when the test says so */
+function controllableRun() {
+  const started: AnalysisJob[] = [];
+  const finishers = new Map<number, () => void>();
+  const run = jest.fn(
+    (job: AnalysisJob) =>
+      new Promise<void>((resolve) => {
+        started.push(job);
+        finishers.set(job.id, resolve);
+      })
+  );
+  const finish = async (job: AnalysisJob) => {
+    finishers.get(job.id)!();
+    // Let the scheduler's finally() and the next dispatch run
+    await new Promise((r) => setTimeout(r, 0));
+  };
+  return { run, started, finish };
+}
+
+const tick = () => new Promise((r) => setTimeout(r, 0));
+
+describe('defaultSubsystemOf', () => {
+  it('groups BOP tags by component and well tags together', () => {
+    expect(defaultSubsystemOf('BOP.ACC.PRESS.SYS')).toBe('BOP.ACC');
+    expect(defaultSubsystemOf('BOP.RAM.BSR01.POS')).toBe('BOP.RAM');
+    expect(defaultSubsystemOf('WELL.PIT.VOL.DELTA')).toBe('WELL');
+    expect(defaultSubsystemOf('WELL.FLOW.DELTA')).toBe('WELL');
+  });
+});
+
+describe('AnalysisScheduler', () => {
+  beforeEach(() => {
+    spyOn(console, 'warn').mockImplementation((() => {}) as any);
+    spyOn(console, 'error').mockImplementation((() => {}) as any);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('starts a job at once when a slot is free', async () => {
+    const { run, started } = controllableRun();
+    const scheduler = new AnalysisScheduler(run);
+
+    expect(scheduler.submitBreach(breach('BOP.ACC.PRESS.SYS'))).toBe('started');
+    await tick();
+    expect(started).toHaveLength(1);
+    expect(scheduler.running).toBe(1);
+  });
+
+  it('runs queued jobs highest priority first once the slot frees up', async () => {
+    const { run, started, finish } = controllableRun();
+    const scheduler = new AnalysisScheduler(run, { criticalFastPath: false });
+
+    scheduler.submitBreach(breach('BOP.ACC.PRESS.SYS'));
+    await tick();
+    expect(scheduler.submitPeriodic()).toBe('queued');
+    expect(scheduler.submitBreach(breach('BOP.RAM.BSR01.POS', 'WARNING'))).toBe('queued');
+    expect(scheduler.submitBreach(breach('WELL.PIT.VOL.DELTA', 'CRITICAL'))).toBe('queued');
+    expect(scheduler.getQueue().map((j) => j.priority)).toEqual(['CRITICAL', 'WARNING', 'PERIODIC']);
+
+    await finish(started[0]!);
+    expect(started.map((j) => j.subsystem)).toEqual(['BOP.ACC', 'WELL']);
+    await finish(started[1]!);
+    await finish(started[2]!);
+    expect(started.map((j) => j.priority)).toEqual(['WARNING', 'CRITICAL', 'WARNING', 'PERIODIC']);
+  });
+
+  it('queues operator questions behind breaches but ahead of the periodic check, one job each', async () => {
+    const { run, started } = controllableRun();
+    const scheduler = new AnalysisScheduler(run);
+    const question = (id: string) => ({ id, operator: 'driller-1', question: 'Why?', askedAt: '' });
+
+    scheduler.submitBreach(breach('BOP.ACC.PRESS.SYS'));
+    await tick();
+    scheduler.submitPeriodic();
+    expect(scheduler.submitQuestion(question('q1'))).toBe('queued');
+    expect(scheduler.submitQuestion(question('q2'))).toBe('queued');
+    scheduler.submitBreach(breach('BOP.RAM.BSR01.POS'));
+
+    expect(scheduler.getQueue().map((j) => j.question?.id ?? j.priority)).toEqual(['WARNING', 'q1', 'q2', 'PERIODIC']);
+    expect(started).toHaveLength(1);
+  });
+
+  it('lets a CRITICAL job take the fast path past the concurrency limit', async () => {
+    const { run, started } = controllableRun();
+    const scheduler = new AnalysisScheduler(run);
+
+    scheduler.submitBreach(breach('BOP.ACC.PRESS.SYS'));
+    expect(scheduler.submitBreach(breach('BOP.RAM.BSR01.POS'))).toBe('queued');
+    expect(scheduler.submitBreach(breach('WELL.PIT.VOL.DELTA', 'CRITICAL'))).toBe('started');
+    // Only one extra slot: a second CRITICAL waits
+    expect(scheduler.submitBreach(breach('BOP.CTRL.BATT.BLUE.VOLTS', 'CRITICAL'))).toBe('queued');
+    await tick();
+    expect(started.map((j) => j.subsystem)).toEqual(['BOP.ACC', 'WELL']);
+  });
+
+  it('coalesces breaches per subsystem into the waiting job, keeping the latest per tag', async () => {
+    const { run, started, finish } = controllableRun();
+    const metrics = createBOPMetrics({ isPiChannelConnected: () => true });
+    const scheduler = new AnalysisScheduler(run, { criticalFastPath: false }, metrics);
+
+    scheduler.submitBreach(breach('WELL.FLOW.DELTA'));
+    await tick();
+    scheduler.submitBreach(breach('WELL.PIT.VOL.DELTA'));
+    expect(scheduler.submitBreach(breach('WELL.FLOW.DELTA', 'CRITICAL'))).toBe('coalesced');
+    expect(scheduler.submitBreach({ ...breach('WELL.PIT.VOL.DELTA'), message: 'newer' })).toBe('coalesced');
+    expect(scheduler.submitPeriodic()).toBe('queued');
+    expect(scheduler.submitPeriodic()).toBe('coalesced');
+
+    expect(scheduler.queueDepth).toBe(2);
+    const [merged] = scheduler.getQueue();
+    expect(merged!.priority).toBe('CRITICAL');
+    expect(merged!.breaches.map((b) => b.message)).toEqual(['WELL.FLOW.DELTA CRITICAL', 'newer']);
+    expect(metrics.analysisQueueCoalesced.get()).toBe(3);
+
+    await finish(started[0]!);
+    expect(started[1]!.breaches).toHaveLength(2);
+  });
+
+  it('bounds the queue, evicting the oldest lowest-priority job and counting drops', async () => {
+    const { run } = controllableRun();
+    const metrics = createBOPMetrics({ isPiChannelConnected: () => true });
+    const scheduler = new AnalysisScheduler(run, { maxQueued: 2, criticalFastPath: false }, metrics);
+    const dropped = jest.fn();
+    scheduler.on('dropped', dropped);
+
+    scheduler.submitBreach(breach('BOP.ACC.PRESS.SYS'));
+    scheduler.submitPeriodic();
+    scheduler.submitBreach(breach('BOP.RAM.BSR01.POS'));
+    // Full: the periodic job makes room for a WARNING
+    expect(scheduler.submitBreach(breach('BOP.CTRL.BATT.BLUE.VOLTS'))).toBe('queued');
+    // Full of WARNINGs: another WARNING is turned away
+    expect(scheduler.submitBreach(breach('BOP.MAN.PRESS.REG'))).toBe('dropped');
+
+    expect(scheduler.getQueue().map((j) => j.subsystem)).toEqual(['BOP.RAM', 'BOP.CTRL']);
+    expect(dropped.mock.calls.map(([e]) => e.job.priority)).toEqual(['PERIODIC', 'WARNING']);
+    expect(metrics.analysisQueueDropped.get({ priority: 'PERIODIC' })).toBe(1);
+    expect(metrics.analysisQueueDropped.get({ priority: 'WARNING' })).toBe(1);
+    expect(metrics.analysisQueueDepth.get()).toBe(2);
+  });
+
+  it('runs up to maxConcurrent jobs side by side', async () => {
+    const { run, started } = controllableRun();
+    const scheduler = new AnalysisScheduler(run, { maxConcurrent: 2 });
+
+    scheduler.submitBreach(breach('BOP.ACC.PRESS.SYS'));
+    scheduler.submitBreach(breach('BOP.RAM.BSR01.POS'));
+    expect(scheduler.submitPeriodic()).toBe('queued');
+    await tick();
+    expect(started).toHaveLength(2);
+  });
+
+  it('frees the slot when a job fails', async () => {
+    const run = jest.fn(async (job: AnalysisJob) => {
+      if (job.priority === 'WARNING') throw new Error('API overloaded');
+    });
+    const scheduler = new AnalysisScheduler(run);
+
+    scheduler.submitBreach(breach('BOP.ACC.PRESS.SYS'));
+    scheduler.submitPeriodic();
+    await scheduler.idle();
+
+    expect(run).toHaveBeenCalledTimes(2);
+    expect(scheduler.running).toBe(0);
+    expect(console.error).toHaveBeenCalledWith('[Scheduler] Analysis job failed:', expect.any(Error));
+  });
+});
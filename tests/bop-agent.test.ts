@@ -21,10 +21,24 @@ const mockQuery = jest.fn((args: any) => {
   };
 });
 
-mock.module('@anthropic-ai/claude-agent-sdk', () => sdkMock({ query: mockQuery }));
+mock.module('@anthropic-ai/claude-agent-sdk', () =>
+  sdkMock({
+    query: mockQuery,
+    tool: (name: string, description: string, inputSchema: any, handler: Function) => ({
+      name,
+      description,
+      inputSchema,
+      handler,
+    }),
+    createSdkMcpServer: (config: any) => ({ name: config.name, tools: config.tools }),
+  })
+);
 
 const { BOPAgent } = await import('../src/bop-agent');
 const { BOP_SYSTEM_PROMPT } = await import('../src/bop-system-prompt');
+const { createBOPMetrics } = await import('../src/metrics');
+const { AnalysisLog } = await import('../src/analysis-log');
+const { AnalysisBudget } = await import('../src/analysis-budget');
 
 describe('BOPAgent', () => {
   const mockMcpServer = {
@@ -40,6 +54,7 @@ describe('BOPAgent', () => {
     mockMessages = [];
     jest.clearAllMocks();
     spyOn(console, 'log').mockImplementation((() => {}) as any);
+    spyOn(console, 'warn').mockImplementation((() => {}) as any);
     agent = new BOPAgent(mockMcpServer);
   });
 
@@ -71,8 +86,11 @@ describe('BOPAgent', () => {
               'mcp__bop-tools__get_sensor_data',
               'mcp__bop-tools__get_sensor_history',
               'mcp__bop-tools__get_bop_status',
+              'mcp__bop-tools__get_instrument_health',
+              'mcp__bop-tools__get_sensor_liveness',
               'mcp__bop-tools__send_alert',
               'mcp__bop-tools__log_recommendation',
+              'mcp__bop-tools__get_incident_history',
             ]),
           }),
         })
@@ -102,6 +120,19 @@ describe('BOPAgent', () => {
       expect(result.text).toContain('Found anomaly.');
     });
 
+    it('streams assistant text to onText as it arrives', async () => {
+      mockMessages = [
+        { type: 'assistant', message: { content: [{ text: 'Checking the accumulator...' }] } },
+        { type: 'assistant', message: { content: [{ text: 'Pre-charge is low.' }] } },
+        { type: 'result', subtype: 'success', result: 'Pre-charge is low.' },
+      ];
+      const streamed: string[] = [];
+
+      await agent.analyze('Why is pressure low?', { type: 'manual' }, { onText: (text) => streamed.push(text) });
+
+      expect(streamed).toEqual(['Checking the accumulator...', 'Pre-charge is low.']);
+    });
+
     it('tracks tool usage from assistant messages', async () => {
       mockMessages = [
         {
@@ -211,8 +242,162 @@ describe('BOPAgent', () => {
 
       expect(lastQueryArgs.options.mcpServers).toEqual({
         'bop-tools': mockMcpServer,
+        'bop-findings': { name: 'bop-findings', tools: [expect.objectContaining({ name: 'submit_findings' })] },
+      });
+      expect(lastQueryArgs.options.allowedTools).toContain('mcp__bop-findings__submit_findings');
+    });
+
+    it('stores the findings submitted during the run with the analysis', async () => {
+      const findings = {
+        summary: 'Accumulator pressure decaying from a hydraulic leak',
+        rootCauses: [{ cause: 'Hydraulic leak downstream of the accumulator', confidence: 0.7 }],
+        affectedSubsystems: ['Accumulator'],
+        tags: ['BOP.ACC.PRESS.SYS'],
+        recommendedActions: ['Inspect hydraulic lines for leaks'],
+        onset: 'gradual' as const,
+      };
+      mockQuery.mockImplementationOnce((args: any) => ({
+        [Symbol.asyncIterator]: async function* () {
+          await args.options.mcpServers['bop-findings'].tools[0].handler(findings, {});
+          yield { type: 'result', subtype: 'success', result: 'Done' };
+        },
+      }));
+      const log = new AnalysisLog();
+      agent = new BOPAgent(mockMcpServer, { analysisLog: log });
+
+      const result = await agent.analyze('Check');
+
+      expect(result.findings).toEqual(findings);
+      expect(log.query()[0].findings).toEqual(findings);
+    });
+
+    it('warns when the run ends without findings', async () => {
+      mockMessages = [{ type: 'result', subtype: 'success', result: 'Done' }];
+
+      const result = await agent.analyze('Check');
+
+      expect(result.findings).toBeUndefined();
+      expect(console.warn).toHaveBeenCalledWith('[Agent] Analysis finished without calling submit_findings');
+    });
+
+    it('reports started, completed, duration and cost to metrics', async () => {
+      const metrics = createBOPMetrics({ isPiChannelConnected: () => true });
+      agent = new BOPAgent(mockMcpServer, { metrics });
+      mockMessages = [{ type: 'result', subtype: 'success', result: 'Done', total_cost_usd: 0.02 }];
+
+      await agent.analyze('Check');
+      await agent.analyze('Check');
+
+      expect(metrics.analysesStarted.get()).toBe(2);
+      expect(metrics.analysesCompleted.get()).toBe(2);
+      expect(metrics.analysesFailed.get()).toBe(0);
+      expect(metrics.analysisCostUsd.get()).toBeCloseTo(0.04);
+      expect(metrics.registry.render()).toContain('bop_agent_analysis_duration_seconds_count 2');
+    });
+
+    it('counts failed analyses', async () => {
+      const metrics = createBOPMetrics({ isPiChannelConnected: () => true });
+      agent = new BOPAgent(mockMcpServer, { metrics });
+      mockQuery.mockImplementationOnce(() => {
+        throw new Error('API overloaded');
+      });
+
+      await expect(agent.analyze('Check')).rejects.toThrow('API overloaded');
+      expect(metrics.analysesStarted.get()).toBe(1);
+      expect(metrics.analysesFailed.get()).toBe(1);
+      expect(metrics.analysesCompleted.get()).toBe(0);
+    });
+
+    it('records each run with its trigger in the analysis log', async () => {
+      const log = new AnalysisLog();
+      agent = new BOPAgent(mockMcpServer, { analysisLog: log });
+      mockMessages = [{ type: 'result', subtype: 'success', result: 'All normal', total_cost_usd: 0.01 }];
+
+      await agent.analyze('Breach on BOP.ACC.PRESS.SYS', { type: 'threshold_breach', tags: ['BOP.ACC.PRESS.SYS'] });
+      mockQuery.mockImplementationOnce(() => {
+        throw new Error('API overloaded');
+      });
+      await agent.analyze('Routine check', { type: 'periodic' }).catch(() => {});
+
+      const [completed, failed] = log.query();
+      expect(completed).toMatchObject({
+        trigger: { type: 'threshold_breach', tags: ['BOP.ACC.PRESS.SYS'], context: 'Breach on BOP.ACC.PRESS.SYS' },
+        status: 'completed',
+        text: 'All normal',
+        costUsd: 0.01,
+      });
+      expect(failed).toMatchObject({
+        trigger: { type: 'periodic', context: 'Routine check' },
+        status: 'failed',
+        error: 'API overloaded',
       });
     });
+
+    it('runs on an overriding model and counts cost against the budget', async () => {
+      const budget = new AnalysisBudget({
+        hourlyUsd: 1,
+        dailyUsd: 0,
+        maxAnalysesPerHour: 0,
+        warnRatio: 0.8,
+        fallbackModel: 'haiku',
+      });
+      const log = new AnalysisLog();
+      agent = new BOPAgent(mockMcpServer, { budget, analysisLog: log });
+      mockMessages = [{ type: 'result', subtype: 'success', result: 'Done', total_cost_usd: 0.3 }];
+
+      await agent.analyze('Check', { type: 'periodic' }, { model: 'haiku' });
+
+      expect(lastQueryArgs.options.model).toBe('haiku');
+      expect(log.query()[0].model).toBe('haiku');
+      expect(budget.getStatus().lastHour).toEqual({ spentUsd: 0.3, analyses: 1 });
+    });
+
+    it('emits analysis_started and analysis_finished with the same id', async () => {
+      const started = jest.fn();
+      const finished = jest.fn();
+      agent.on('analysis_started', started);
+      agent.on('analysis_finished', finished);
+      mockMessages = [{ type: 'result', subtype: 'success', result: 'Done' }];
+
+      await agent.analyze('Routine check', { type: 'periodic' });
+
+      expect(started.mock.calls[0][0]).toMatchObject({ trigger: { type: 'periodic', context: 'Routine check' } });
+      expect(finished.mock.calls[0][0]).toMatchObject({ id: started.mock.calls[0][0].id, status: 'completed' });
+    });
+
+    it('records the last success and last error for the readiness probe', async () => {
+      expect(agent.getStatus()).toEqual({ lastSuccessAt: null, lastError: null });
+
+      mockQuery.mockImplementationOnce(() => {
+        throw new Error('API overloaded');
+      });
+      await agent.analyze('Check').catch(() => {});
+      const failed = agent.getStatus();
+      expect(failed.lastError?.message).toBe('API overloaded');
+      expect(failed.lastSuccessAt).toBeNull();
+
+      await agent.analyze('Check');
+      const recovered = agent.getStatus();
+      expect(recovered.lastSuccessAt!.getTime()).toBeGreaterThanOrEqual(failed.lastError!.at.getTime());
+      expect(recovered.lastError).toEqual(failed.lastError);
+    });
+
+    it('runs on an injected engine instead of query()', async () => {
+      const engine = {
+        name: 'scripted',
+        run: jest.fn(async () => ({ text: 'Playbook done', toolsUsed: [], costUsd: 0, model: 'scripted' })),
+      };
+      const log = new AnalysisLog();
+      agent = new BOPAgent(mockMcpServer, { engine, analysisLog: log });
+
+      const result = await agent.analyze('Check', { type: 'periodic' });
+
+      expect(engine.run).toHaveBeenCalledWith({ prompt: 'Check', model: 'sonnet', trigger: { type: 'periodic' } });
+      expect(mockQuery).not.toHaveBeenCalled();
+      expect(result.text).toBe('Playbook done');
+      expect(agent.engineName).toBe('scripted');
+      expect(log.query()[0].model).toBe('scripted');
+    });
   });
 
   describe('analyzeStreaming', () => {
@@ -244,5 +429,26 @@ describe('BOPAgent', () => {
         'Streaming analysis result'
       );
     });
+
+    it('forwards messages, extra MCP servers and the model for session use', async () => {
+      mockMessages = [{ type: 'result', subtype: 'success', result: 'Done' }];
+      const onMessage = jest.fn();
+      const findingsServer = { name: 'bop-findings' } as any;
+
+      async function* generator(): AsyncIterable<any> {}
+      await agent.analyzeStreaming(generator(), {
+        model: 'opus',
+        mcpServers: { 'bop-findings': findingsServer },
+        onMessage,
+      });
+
+      expect(lastQueryArgs.options.model).toBe('opus');
+      expect(lastQueryArgs.options.mcpServers).toEqual({
+        'bop-tools': mockMcpServer,
+        'bop-findings': findingsServer,
+      });
+      expect(lastQueryArgs.options.allowedTools).toContain('mcp__bop-findings__submit_findings');
+      expect(onMessage).toHaveBeenCalledWith(mockMessages[0]);
+    });
   });
 });
@@ -37,8 +37,8 @@ describe('BOP_SYSTEM_PROMPT', () => {
     expect(BOP_SYSTEM_PROMPT).toContain('INFO:');
   });
 
-  it('includes 10 behavioral rules', () => {
-    for (let i = 1; i <= 10; i++) {
+  it('includes 11 behavioral rules', () => {
+    for (let i = 1; i <= 11; i++) {
       expect(BOP_SYSTEM_PROMPT).toContain(`${i}.`);
     }
   });
@@ -16,22 +16,30 @@ mock.module('@anthropic-ai/claude-agent-sdk', () => sdkMock({
 }));
 
 const mockAxiosGet = jest.fn<(...args: any[]) => any>();
+const mockAxiosPost = jest.fn<(...args: any[]) => any>();
 
 mock.module('axios', () => ({
   default: {
-    create: jest.fn(() => ({ get: mockAxiosGet })),
+    create: jest.fn(() => ({
+      get: mockAxiosGet,
+      post: mockAxiosPost,
+      interceptors: { request: { use: jest.fn() } },
+    })),
   },
 }));
 
 const { SensorStateManager } = await import('../src/sensor-state');
 const { PIRestClient } = await import('../src/pi-rest-client');
+const { BasicAuthProvider } = await import('../src/pi-auth');
 const { AlertManager } = await import('../src/alert-manager');
 const { createBOPToolsServer } = await import('../src/bop-tools');
+const { IncidentMemory } = await import('../src/incident-memory');
 
 describe('createBOPToolsServer', () => {
   let sensorState: InstanceType<typeof SensorStateManager>;
   let piRest: InstanceType<typeof PIRestClient>;
   let alertManager: InstanceType<typeof AlertManager>;
+  let incidents: InstanceType<typeof IncidentMemory>;
 
   beforeEach(() => {
     mockToolHandlers.clear();
@@ -43,33 +51,37 @@ describe('createBOPToolsServer', () => {
     sensorState.update('w1', 3000, new Date('2025-01-01T00:00:00Z'), true);
     sensorState.update('w2', 1, new Date('2025-01-01T00:00:00Z'), true);
 
-    piRest = new PIRestClient('server', 'user', 'pass');
+    piRest = new PIRestClient('server', new BasicAuthProvider('user', 'pass'), true, { retries: 0 });
     alertManager = new AlertManager();
+    incidents = new IncidentMemory();
   });
 
   afterEach(() => {
     jest.restoreAllMocks();
   });
 
-  it('creates MCP server with 5 tools', () => {
-    const server = createBOPToolsServer(sensorState, piRest, alertManager) as any;
-    expect(server.tools).toHaveLength(5);
+  it('creates MCP server with 8 tools', () => {
+    const server = createBOPToolsServer(sensorState, piRest, alertManager, incidents) as any;
+    expect(server.tools).toHaveLength(8);
     expect(server.name).toBe('bop-tools');
     expect(server.version).toBe('1.0.0');
   });
 
   it('registers all expected tool names', () => {
-    createBOPToolsServer(sensorState, piRest, alertManager);
+    createBOPToolsServer(sensorState, piRest, alertManager, incidents);
     expect(mockToolHandlers.has('get_sensor_data')).toBe(true);
     expect(mockToolHandlers.has('get_sensor_history')).toBe(true);
     expect(mockToolHandlers.has('get_bop_status')).toBe(true);
+    expect(mockToolHandlers.has('get_instrument_health')).toBe(true);
+    expect(mockToolHandlers.has('get_sensor_liveness')).toBe(true);
     expect(mockToolHandlers.has('send_alert')).toBe(true);
     expect(mockToolHandlers.has('log_recommendation')).toBe(true);
+    expect(mockToolHandlers.has('get_incident_history')).toBe(true);
   });
 
   describe('get_sensor_data tool', () => {
     it('returns current values for requested tags', async () => {
-      createBOPToolsServer(sensorState, piRest, alertManager);
+      createBOPToolsServer(sensorState, piRest, alertManager, incidents);
       const handler = mockToolHandlers.get('get_sensor_data')!;
 
       const result = await handler({
@@ -82,14 +94,71 @@ describe('createBOPToolsServer', () => {
       expect(parsed['BOP.ANN01.POS'].value).toBe(1);
     });
 
+    it('renders boolean, string and digital-state values with their type', async () => {
+      sensorState.registerTag('BOP.CTRL.POD.BLUE.STATUS', 'w3', '');
+      sensorState.registerTag('BOP.RAM.BSR01.LOCKED', 'w4', '');
+      sensorState.update('w3', 'FAULT', new Date('2025-01-01T00:00:00Z'), true, { stateCode: 2 });
+      sensorState.update('w4', false, new Date('2025-01-01T00:00:00Z'), true);
+      createBOPToolsServer(sensorState, piRest, alertManager, incidents);
+      const handler = mockToolHandlers.get('get_sensor_data')!;
+
+      const result = await handler({
+        tags: ['BOP.CTRL.POD.BLUE.STATUS', 'BOP.RAM.BSR01.LOCKED', 'BOP.ACC.PRESS.SYS'],
+      });
+
+      const parsed = JSON.parse(result.content[0].text);
+      expect(parsed['BOP.CTRL.POD.BLUE.STATUS'].value).toBe('FAULT');
+      expect(parsed['BOP.CTRL.POD.BLUE.STATUS'].valueType).toBe('digital');
+      expect(parsed['BOP.CTRL.POD.BLUE.STATUS'].stateCode).toBe(2);
+      expect(parsed['BOP.RAM.BSR01.LOCKED'].value).toBe(false);
+      expect(parsed['BOP.RAM.BSR01.LOCKED'].valueType).toBe('boolean');
+      expect(parsed['BOP.ACC.PRESS.SYS'].valueType).toBeUndefined();
+    });
+
     it('returns error for unknown tags', async () => {
-      createBOPToolsServer(sensorState, piRest, alertManager);
+      createBOPToolsServer(sensorState, piRest, alertManager, incidents);
       const handler = mockToolHandlers.get('get_sensor_data')!;
 
       const result = await handler({ tags: ['NONEXISTENT'] });
       const parsed = JSON.parse(result.content[0].text);
       expect(parsed['NONEXISTENT']).toEqual({ error: 'Unknown tag: NONEXISTENT' });
     });
+
+    it('reads tags with no live sample yet from the PI snapshot', async () => {
+      sensorState.registerTag('WELL.FLOW.DELTA', 'w5', 'gpm');
+      sensorState.registerTag('BOP.CTRL.POD.BLUE.STATUS', 'w6', '');
+      mockAxiosPost.mockResolvedValue({
+        data: {
+          '0': { Status: 200, Content: { Timestamp: '2025-01-01T00:00:05Z', Value: 0.4, Good: true } },
+          '1': {
+            Status: 200,
+            Content: { Timestamp: '2025-01-01T00:00:05Z', Value: { Name: 'ACTIVE', Value: 1 }, Good: true },
+          },
+        },
+      });
+      createBOPToolsServer(sensorState, piRest, alertManager, incidents);
+      const handler = mockToolHandlers.get('get_sensor_data')!;
+
+      const result = await handler({ tags: ['BOP.ACC.PRESS.SYS', 'WELL.FLOW.DELTA', 'BOP.CTRL.POD.BLUE.STATUS'] });
+
+      const parsed = JSON.parse(result.content[0].text);
+      expect(mockAxiosPost).toHaveBeenCalledTimes(1);
+      expect(parsed['BOP.ACC.PRESS.SYS'].source).toBeUndefined();
+      expect(parsed['WELL.FLOW.DELTA']).toEqual({
+        tag: 'WELL.FLOW.DELTA',
+        value: 0.4,
+        timestamp: '2025-01-01T00:00:05Z',
+        unit: 'gpm',
+        good: true,
+        source: 'pi_snapshot',
+      });
+      expect(parsed['BOP.CTRL.POD.BLUE.STATUS']).toMatchObject({
+        value: 'ACTIVE',
+        valueType: 'digital',
+        stateCode: 1,
+        source: 'pi_snapshot',
+      });
+    });
   });
 
   describe('get_sensor_history tool', () => {
@@ -102,7 +171,7 @@ describe('createBOPToolsServer', () => {
         data: { Items: historyItems },
       });
 
-      createBOPToolsServer(sensorState, piRest, alertManager);
+      createBOPToolsServer(sensorState, piRest, alertManager, incidents);
       const handler = mockToolHandlers.get('get_sensor_history')!;
 
       const result = await handler({
@@ -115,7 +184,7 @@ describe('createBOPToolsServer', () => {
     });
 
     it('returns error for unknown tag', async () => {
-      createBOPToolsServer(sensorState, piRest, alertManager);
+      createBOPToolsServer(sensorState, piRest, alertManager, incidents);
       const handler = mockToolHandlers.get('get_sensor_history')!;
 
       const result = await handler({
@@ -129,7 +198,7 @@ describe('createBOPToolsServer', () => {
     it('returns error on PI query failure', async () => {
       mockAxiosGet.mockRejectedValue(new Error('Connection timeout'));
 
-      createBOPToolsServer(sensorState, piRest, alertManager);
+      createBOPToolsServer(sensorState, piRest, alertManager, incidents);
       const handler = mockToolHandlers.get('get_sensor_history')!;
 
       const result = await handler({
@@ -137,7 +206,28 @@ describe('createBOPToolsServer', () => {
         startTime: '*-1h',
       });
 
-      expect(result.content[0].text).toContain('PI query error: Connection timeout');
+      expect(result.content[0].text).toContain('PI query error: PI Web API GET /streams/w1/recorded failed: Connection timeout');
+      expect(result.content[0].text).toContain('use get_sensor_data for live values');
+    });
+
+    it('tells Claude not to retry while the PI circuit is open', async () => {
+      piRest = new PIRestClient('server', new BasicAuthProvider('user', 'pass'), true, {
+        retries: 0,
+        breakerFailureThreshold: 1,
+      });
+      mockAxiosGet.mockClear();
+      mockAxiosGet.mockRejectedValue(Object.assign(new Error('timeout of 10000ms exceeded'), { code: 'ECONNABORTED' }));
+
+      createBOPToolsServer(sensorState, piRest, alertManager, incidents);
+      const handler = mockToolHandlers.get('get_sensor_history')!;
+      const first = await handler({ tag: 'BOP.ACC.PRESS.SYS', startTime: '*-1h' });
+      expect(first.content[0].text).toContain('timed out after 10000ms');
+      expect(first.content[0].text).toContain('try a shorter time range');
+
+      const second = await handler({ tag: 'BOP.ACC.PRESS.SYS', startTime: '*-1h' });
+      expect(second.content[0].text).toContain('circuit open after repeated failures');
+      expect(second.content[0].text).toContain('do not retry this query');
+      expect(mockAxiosGet).toHaveBeenCalledTimes(1);
     });
   });
 
@@ -151,7 +241,7 @@ describe('createBOPToolsServer', () => {
         timestamp: '2025-01-01T00:00:00Z',
       });
 
-      createBOPToolsServer(sensorState, piRest, alertManager);
+      createBOPToolsServer(sensorState, piRest, alertManager, incidents);
       const handler = mockToolHandlers.get('get_bop_status')!;
 
       const result = await handler({});
@@ -161,13 +251,59 @@ describe('createBOPToolsServer', () => {
       expect(parsed.sensors['BOP.ANN01.POS'].value).toBe(1);
       expect(parsed.activeAlerts).toHaveLength(1);
       expect(parsed.activeAlerts[0].title).toBe('Test');
+      expect(parsed.instrumentation).toEqual([]);
       expect(parsed.timestamp).toBeDefined();
     });
+
+    it('lists unhealthy instrumentation', async () => {
+      sensorState.update('w1', 0, new Date('2025-01-01T00:00:01Z'), false);
+      createBOPToolsServer(sensorState, piRest, alertManager, incidents);
+      const handler = mockToolHandlers.get('get_bop_status')!;
+
+      const parsed = JSON.parse((await handler({})).content[0].text);
+      expect(parsed.instrumentation).toHaveLength(1);
+      expect(parsed.instrumentation[0].tag).toBe('BOP.ACC.PRESS.SYS');
+      expect(parsed.instrumentation[0].status).toBe('FAILED');
+    });
+  });
+
+  describe('get_instrument_health tool', () => {
+    it('reports data quality for the requested tags', async () => {
+      sensorState.update('w2', 1, new Date('2025-01-01T00:00:01Z'), true, { questionable: true });
+      createBOPToolsServer(sensorState, piRest, alertManager, incidents);
+      const handler = mockToolHandlers.get('get_instrument_health')!;
+
+      const parsed = JSON.parse((await handler({ tags: ['BOP.ANN01.POS'] })).content[0].text);
+      expect(parsed).toEqual([
+        {
+          tag: 'BOP.ANN01.POS',
+          samples: 2,
+          badPct: 0,
+          questionablePct: 50,
+          substitutedPct: 0,
+          status: 'DEGRADED',
+        },
+      ]);
+    });
+  });
+
+  describe('get_sensor_liveness tool', () => {
+    it('reports stale tags', async () => {
+      sensorState.checkLiveness(new Date(Date.now() + 10 * 60_000));
+      createBOPToolsServer(sensorState, piRest, alertManager, incidents);
+      const handler = mockToolHandlers.get('get_sensor_liveness')!;
+
+      const parsed = JSON.parse((await handler({ tags: ['BOP.ACC.PRESS.SYS'] })).content[0].text);
+      expect(parsed).toHaveLength(1);
+      expect(parsed[0].tag).toBe('BOP.ACC.PRESS.SYS');
+      expect(parsed[0].status).toBe('STALE');
+      expect(parsed[0].lastSampleAt).toBe('2025-01-01T00:00:00.000Z');
+    });
   });
 
   describe('send_alert tool', () => {
     it('sends alert through AlertManager', async () => {
-      createBOPToolsServer(sensorState, piRest, alertManager);
+      createBOPToolsServer(sensorState, piRest, alertManager, incidents);
       const handler = mockToolHandlers.get('send_alert')!;
 
       const result = await handler({
@@ -175,18 +311,22 @@ describe('createBOPToolsServer', () => {
         title: 'Low pressure',
         description: 'Accumulator below MOP',
         affectedComponents: ['Accumulator'],
+        tags: ['BOP.ACC.PRESS.SYS'],
         recommendedAction: 'Check hydraulics',
       });
 
-      expect(result.content[0].text).toContain('Alert sent at');
-      expect(alertManager.getActiveAlerts()).toHaveLength(1);
-      expect(alertManager.getActiveAlerts()[0].severity).toBe('CRITICAL');
+      expect(result.content[0].text).toMatch(/^Alert \S+ sent at/);
+      const alerts = await alertManager.getActiveAlerts();
+      expect(alerts).toHaveLength(1);
+      expect(alerts[0].severity).toBe('CRITICAL');
+      expect(alerts[0].state).toBe('OPEN');
+      expect(alerts[0].tags).toEqual(['BOP.ACC.PRESS.SYS']);
     });
   });
 
   describe('log_recommendation tool', () => {
     it('logs recommendation through AlertManager', async () => {
-      createBOPToolsServer(sensorState, piRest, alertManager);
+      createBOPToolsServer(sensorState, piRest, alertManager, incidents);
       const handler = mockToolHandlers.get('log_recommendation')!;
 
       const result = await handler({
@@ -198,8 +338,51 @@ describe('createBOPToolsServer', () => {
       });
 
       expect(result.content[0].text).toContain('Recommendation logged at');
-      expect(alertManager.getRecommendations()).toHaveLength(1);
-      expect(alertManager.getRecommendations()[0].category).toBe('MAINTENANCE');
+      const recs = await alertManager.getRecommendations();
+      expect(recs).toHaveLength(1);
+      expect(recs[0].category).toBe('MAINTENANCE');
+    });
+  });
+
+  describe('get_incident_history tool', () => {
+    const breach = {
+      tag: 'BOP.ACC.PRESS.SYS',
+      value: 1400,
+      level: 'CRITICAL' as const,
+      type: 'low' as const,
+      threshold: 1500,
+      message: 'Accumulator pressure critically low',
+    };
+
+    it('returns incidents matching the filters', async () => {
+      incidents.recordBreach(breach);
+      incidents.recordBreach({ ...breach, tag: 'WELL.PIT.VOL.DELTA', message: 'Pit gain' });
+      createBOPToolsServer(sensorState, piRest, alertManager, incidents);
+      const handler = mockToolHandlers.get('get_incident_history')!;
+
+      const result = await handler({ subsystem: 'BOP.ACC' });
+      const parsed = JSON.parse(result.content[0].text);
+      expect(parsed).toHaveLength(1);
+      expect(parsed[0].id).toBe('INC-1');
+      expect(parsed[0].activeBreaches).toEqual(['BOP.ACC.PRESS.SYS low']);
+    });
+
+    it('returns one incident by ID, with its timeline', async () => {
+      incidents.recordBreach(breach);
+      createBOPToolsServer(sensorState, piRest, alertManager, incidents);
+      const handler = mockToolHandlers.get('get_incident_history')!;
+
+      const parsed = JSON.parse((await handler({ incidentId: 'INC-1' })).content[0].text);
+      expect(parsed.events[0].summary).toBe('[CRITICAL] Accumulator pressure critically low');
+      expect((await handler({ incidentId: 'INC-9' })).content[0].text).toBe('No incident INC-9.');
+    });
+
+    it('reports when nothing matches', async () => {
+      createBOPToolsServer(sensorState, piRest, alertManager, incidents);
+      const handler = mockToolHandlers.get('get_incident_history')!;
+
+      const result = await handler({ status: 'OPEN' });
+      expect(result.content[0].text).toBe('No matching incidents.');
     });
   });
 });
@@ -0,0 +1,71 @@
+import { describe, it, expect, beforeEach, afterEach, jest, spyOn } from 'bun:test';
+import { CircuitBreaker } from '../src/circuit-breaker';
+
+describe('CircuitBreaker', () => {
+  let breaker: CircuitBreaker;
+
+  beforeEach(() => {
+    spyOn(console, 'log').mockImplementation((() => {}) as any);
+    breaker = new CircuitBreaker('Test', { failureThreshold: 3, resetTimeoutMs: 1000 });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('stays closed below the failure threshold', () => {
+    breaker.recordFailure('boom', 0);
+    breaker.recordFailure('boom', 0);
+    expect(breaker.allow(0)).toBe(true);
+    expect(breaker.getStatus()).toEqual({
+      state: 'CLOSED',
+      consecutiveFailures: 2,
+      openedAt: null,
+      retryAt: null,
+      lastError: 'boom',
+    });
+  });
+
+  it('a success resets the consecutive failure count', () => {
+    breaker.recordFailure('boom', 0);
+    breaker.recordFailure('boom', 0);
+    breaker.recordSuccess();
+    breaker.recordFailure('boom', 0);
+    expect(breaker.getStatus().state).toBe('CLOSED');
+  });
+
+  it('opens at the threshold and rejects until the reset timeout', () => {
+    for (let i = 0; i < 3; i++) breaker.recordFailure('boom', 5000);
+
+    expect(breaker.getStatus()).toMatchObject({
+      state: 'OPEN',
+      openedAt: new Date(5000).toISOString(),
+      retryAt: new Date(6000).toISOString(),
+    });
+    expect(breaker.allow(5500)).toBe(false);
+    expect(breaker.retryInMs(5500)).toBe(500);
+    expect(console.log).toHaveBeenCalledWith('[Test] Circuit CLOSED → OPEN after 3 consecutive failures: boom');
+  });
+
+  it('lets one trial through when half-open and closes on success', () => {
+    for (let i = 0; i < 3; i++) breaker.recordFailure('boom', 0);
+
+    expect(breaker.allow(1000)).toBe(true);
+    expect(breaker.getStatus().state).toBe('HALF_OPEN');
+    expect(breaker.allow(1000)).toBe(false);
+
+    breaker.recordSuccess();
+    expect(breaker.getStatus().state).toBe('CLOSED');
+    expect(breaker.allow(1000)).toBe(true);
+  });
+
+  it('reopens when the trial fails', () => {
+    for (let i = 0; i < 3; i++) breaker.recordFailure('boom', 0);
+    breaker.allow(1000);
+
+    breaker.recordFailure('still down', 1000);
+    expect(breaker.getStatus()).toMatchObject({ state: 'OPEN', lastError: 'still down' });
+    expect(breaker.allow(1500)).toBe(false);
+    expect(breaker.allow(2000)).toBe(true);
+  });
+});
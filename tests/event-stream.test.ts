@@ -0,0 +1,191 @@
+import { describe, it, expect, afterEach, beforeEach } from 'bun:test';
+import http from 'http';
+import { EventEmitter } from 'events';
+import { EventStream, parseTopics } from '../src/event-stream';
+
+interface ReceivedEvent {
+  event: string;
+  data: any;
+}
+
+/** Minimal SSE client: collects parsed events from a stream */
+function connect(port: number, query = ''): Promise<{ events: ReceivedEvent[]; raw: () => string; close: () => void }> {
+  return new Promise((resolve, reject) => {
+    const req = http.get(`http://localhost:${port}/events${query}`, (res) => {
+      let buffer = '';
+      let pending = '';
+      const events: ReceivedEvent[] = [];
+      res.setEncoding('utf-8');
+      res.on('data', (chunk: string) => {
+        buffer += chunk;
+        const frames = (pending + chunk).split('\n\n');
+        pending = frames.pop()!;
+        for (const frame of frames) {
+          const event = frame.match(/^event: (.+)$/m)?.[1];
+          const data = frame.match(/^data: (.+)$/m)?.[1];
+          if (event && data) events.push({ event, data: JSON.parse(data) });
+        }
+      });
+      resolve({ events, raw: () => buffer, close: () => req.destroy() });
+    });
+    req.on('error', reject);
+  });
+}
+
+const wait = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+describe('parseTopics', () => {
+  it('defaults to every topic', () => {
+    expect(parseTopics(null)).toEqual(['alerts', 'breaches', 'analyses', 'sensors']);
+  });
+
+  it('accepts a comma-separated subset and rejects unknown topics', () => {
+    expect(parseTopics('alerts, sensors,alerts')).toEqual(['alerts', 'sensors']);
+    expect(() => parseTopics('alerts,weather')).toThrow('Unknown topic(s): weather');
+  });
+});
+
+describe('EventStream', () => {
+  let stream: EventStream;
+  let server: http.Server;
+
+  async function listen(getSnapshot?: () => Record<string, Record<string, unknown>>, sensorIntervalMs = 0) {
+    stream = new EventStream(getSnapshot, { sensorIntervalMs, heartbeatMs: 60_000 });
+    stream.start();
+    server = http.createServer((req, res) => {
+      const topics = new URL(req.url!, 'http://localhost').searchParams.get('topics');
+      stream.subscribe(req, res, parseTopics(topics));
+    });
+    await new Promise<void>((r) => server.listen(0, r));
+    return (server.address() as any).port as number;
+  }
+
+  afterEach(async () => {
+    stream.stop();
+    await new Promise((r) => server.close(r));
+  });
+
+  it('sends events only to clients subscribed to the topic', async () => {
+    const port = await listen();
+    const alerts = await connect(port, '?topics=alerts');
+    const breaches = await connect(port, '?topics=breaches');
+    await wait(20);
+
+    stream.publish('alerts', 'alert', { id: 'a1' });
+    stream.publish('breaches', 'threshold_breach', { tag: 'BOP.ACC.PRESS.SYS' });
+    await wait(20);
+
+    expect(alerts.events).toEqual([
+      { event: 'subscribed', data: { topics: ['alerts'] } },
+      { event: 'alert', data: { id: 'a1' } },
+    ]);
+    expect(breaches.events.map((e) => e.event)).toEqual(['subscribed', 'threshold_breach']);
+    expect(alerts.raw()).toMatch(/^id: \d+$/m);
+  });
+
+  it('forgets clients that disconnect', async () => {
+    const port = await listen();
+    const client = await connect(port);
+    await wait(20);
+    expect(stream.subscriberCount).toBe(1);
+
+    client.close();
+    await wait(20);
+    expect(stream.subscriberCount).toBe(0);
+  });
+
+  it('sends the current snapshot on subscribe, then throttled snapshots only when they change', async () => {
+    let value = 3000;
+    const port = await listen(() => ({ 'BOP.ACC.PRESS.SYS': { value } }), 25);
+    const client = await connect(port, '?topics=sensors');
+    await wait(90);
+    value = 2950;
+    await wait(60);
+
+    const snapshots = client.events.filter((e) => e.event === 'sensor_snapshot');
+    // Initial snapshot, first timer push (new to the stream), then one for the change
+    expect(snapshots.map((s) => s.data.sensors['BOP.ACC.PRESS.SYS'].value)).toEqual([3000, 3000, 2950]);
+  });
+
+  it('ends open streams on stop', async () => {
+    const port = await listen();
+    const ended = new Promise<void>((resolve) => {
+      http.get(`http://localhost:${port}/events`, (res) => {
+        res.resume();
+        res.on('end', resolve);
+      });
+    });
+    await wait(20);
+
+    stream.stop();
+    await ended;
+    expect(stream.subscriberCount).toBe(0);
+  });
+
+  describe('slow clients', () => {
+    /** Response whose socket never drains unless told to */
+    function slowResponse() {
+      const res = Object.assign(new EventEmitter(), {
+        writableLength: 0,
+        accepting: true,
+        destroyed: false,
+        writeHead: () => res,
+        write(chunk: string) {
+          res.writableLength += chunk.length;
+          return res.accepting;
+        },
+        drain() {
+          res.writableLength = 0;
+          res.accepting = true;
+          res.emit('drain');
+        },
+        destroy() {
+          res.destroyed = true;
+        },
+        end() {},
+      });
+      return res;
+    }
+
+    function subscribeSlow(res: ReturnType<typeof slowResponse>) {
+      stream.subscribe(new EventEmitter() as any, res as any, ['alerts']);
+    }
+
+    beforeEach(() => {
+      server = http.createServer();
+    });
+
+    it('drops a client whose queued output passes the bound', () => {
+      stream = new EventStream(undefined, { heartbeatMs: 60_000, maxBufferedBytes: 200 });
+      const res = slowResponse();
+      subscribeSlow(res);
+
+      stream.publish('alerts', 'alert', { id: 'a1' });
+      expect(stream.subscriberCount).toBe(1);
+      stream.publish('alerts', 'alert', { id: 'a2', message: 'x'.repeat(200) });
+      stream.publish('alerts', 'alert', { id: 'a3' });
+
+      expect(stream.subscriberCount).toBe(0);
+      expect(res.destroyed).toBe(true);
+    });
+
+    it('drops a client that has not drained by the next heartbeat and keeps one that has', async () => {
+      stream = new EventStream(undefined, { heartbeatMs: 30 });
+      stream.start();
+      const stuck = slowResponse();
+      const recovering = slowResponse();
+      subscribeSlow(stuck);
+      subscribeSlow(recovering);
+      stuck.accepting = false;
+      recovering.accepting = false;
+
+      stream.publish('alerts', 'alert', { id: 'a1' });
+      recovering.drain();
+      await wait(45);
+
+      expect(stuck.destroyed).toBe(true);
+      expect(recovering.destroyed).toBe(false);
+      expect(stream.subscriberCount).toBe(1);
+    });
+  });
+});
@@ -1,15 +1,23 @@
 import { describe, it, expect, beforeEach, afterEach, jest, spyOn } from 'bun:test';
 import { HealthServer, HealthDependencies } from '../src/health';
+import { AlertLifecycleError } from '../src/alert-manager';
+import { EventStream } from '../src/event-stream';
+import { OperatorChatError } from '../src/operator-chat';
+import type { AskHandlers } from '../src/operator-chat';
 
 function makeDeps(overrides: Partial<HealthDependencies> = {}): HealthDependencies {
   return {
     isPiChannelConnected: () => true,
     getSensorTagCount: () => 25,
     getLastSensorUpdate: () => new Date(),
+    operatorTokens: { 'driller-1': 'driller-token', toolpusher: 'toolpusher-token' },
     ...overrides,
   };
 }
 
+const asDriller = { Authorization: 'Bearer driller-token' };
+const asToolpusher = { Authorization: 'Bearer toolpusher-token' };
+
 describe('HealthServer', () => {
   let server: HealthServer;
 
@@ -60,6 +68,146 @@ describe('HealthServer', () => {
       expect(status.checks.sensorData.lastUpdate).toBeNull();
       expect(status.checks.sensorData.staleSec).toBeNull();
     });
+
+    it('returns degraded and lists tags that are stale or flatlined', () => {
+      server = new HealthServer(
+        makeDeps({
+          getSensorLiveness: () => [
+            { tag: 'A', status: 'OK', ageSec: 1, lastSampleAt: null },
+            { tag: 'B', status: 'STALE', ageSec: 300, lastSampleAt: null },
+            { tag: 'C', status: 'FLATLINE', ageSec: 1, lastSampleAt: null, windowStdDev: 0 },
+          ],
+        })
+      );
+      const status = server.getStatus();
+
+      expect(status.status).toBe('degraded');
+      expect(status.checks.sensorData.staleTags).toEqual(['B']);
+      expect(status.checks.sensorData.flatlineTags).toEqual(['C']);
+    });
+
+    it('reports the PI REST circuit and is degraded while it is open', () => {
+      const circuit = {
+        state: 'OPEN' as const,
+        consecutiveFailures: 5,
+        openedAt: '2025-01-01T00:00:00.000Z',
+        retryAt: '2025-01-01T00:00:30.000Z',
+        lastError: 'PI Web API GET /streams/W1/value timed out after 10000ms',
+      };
+      server = new HealthServer(makeDeps({ getPiRestCircuit: () => circuit }));
+      const status = server.getStatus();
+
+      expect(status.status).toBe('degraded');
+      expect(status.checks.piRest).toEqual({ circuit });
+    });
+
+    it('reports the LLM budget and is degraded once it is exceeded', () => {
+      const budget = {
+        level: 'EXCEEDED' as const,
+        lastHour: { spentUsd: 2.5, analyses: 12 },
+        lastDay: { spentUsd: 2.5, analyses: 12 },
+        limits: { hourlyUsd: 2, dailyUsd: null, maxAnalysesPerHour: null },
+      };
+      server = new HealthServer(makeDeps({ getBudgetStatus: () => budget }));
+      const status = server.getStatus();
+
+      expect(status.status).toBe('degraded');
+      expect(status.checks.budget).toEqual(budget);
+    });
+
+    it('stays healthy with a closed PI REST circuit', () => {
+      server = new HealthServer(
+        makeDeps({
+          getPiRestCircuit: () => ({
+            state: 'CLOSED',
+            consecutiveFailures: 0,
+            openedAt: null,
+            retryAt: null,
+            lastError: null,
+          }),
+        })
+      );
+      expect(server.getStatus().status).toBe('healthy');
+    });
+  });
+
+  describe('getLiveness', () => {
+    it('is ok while the event loop keeps up', () => {
+      server = new HealthServer(makeDeps(), 0, { maxEventLoopLagMs: 50 });
+      const liveness = server.getLiveness();
+
+      expect(liveness.status).toBe('ok');
+      expect(liveness.checks.eventLoop).toEqual({ lagMs: 0, maxLagMs: 50 });
+    });
+
+    it('fails after the event loop was blocked past the limit', async () => {
+      server = new HealthServer(makeDeps(), 0, { maxEventLoopLagMs: 50, lagSampleIntervalMs: 10 });
+      await server.start();
+
+      const blockedUntil = Date.now() + 120;
+      while (Date.now() < blockedUntil) {}
+      await new Promise((r) => setTimeout(r, 5));
+
+      const liveness = server.getLiveness();
+      expect(liveness.status).toBe('fail');
+      expect(liveness.checks.eventLoop.lagMs).toBeGreaterThan(50);
+    });
+
+    it('does not depend on PI or the agent', () => {
+      server = new HealthServer(
+        makeDeps({
+          isPiChannelConnected: () => false,
+          getAgentStatus: () => ({ lastSuccessAt: null, lastError: { message: 'down', at: new Date() } }),
+        })
+      );
+      expect(server.getLiveness().status).toBe('ok');
+    });
+  });
+
+  describe('getReadiness', () => {
+    const resolution = { configured: 4, resolved: 3, unresolved: ['BOP.ANN.PRESS'] };
+
+    it('is ready with resolved tags, a connected channel and no agent errors', () => {
+      server = new HealthServer(makeDeps({ getTagResolution: () => resolution }));
+      const readiness = server.getReadiness();
+
+      expect(readiness.status).toBe('ready');
+      expect(readiness.checks.tags).toEqual({ ...resolution, coverage: 0.75, ready: true });
+      expect(readiness.checks.piChannel.ready).toBe(true);
+      expect(readiness.checks.agent).toEqual({ lastSuccessAt: null, lastError: null, ready: true });
+    });
+
+    it('is not ready before any tag is resolved', () => {
+      server = new HealthServer(
+        makeDeps({ getTagResolution: () => ({ configured: 2, resolved: 0, unresolved: ['A', 'B'] }) })
+      );
+      const readiness = server.getReadiness();
+
+      expect(readiness.status).toBe('not_ready');
+      expect(readiness.checks.tags.ready).toBe(false);
+    });
+
+    it('is not ready while the PI channel is down', () => {
+      server = new HealthServer(makeDeps({ isPiChannelConnected: () => false }));
+      expect(server.getReadiness().status).toBe('not_ready');
+    });
+
+    it('is not ready after an agent error until an analysis succeeds again', () => {
+      const lastError = { message: 'Connection error', at: new Date('2025-01-01T00:10:00Z') };
+      let lastSuccessAt = new Date('2025-01-01T00:05:00Z');
+      server = new HealthServer(makeDeps({ getAgentStatus: () => ({ lastSuccessAt, lastError }) }));
+
+      const failing = server.getReadiness();
+      expect(failing.status).toBe('not_ready');
+      expect(failing.checks.agent).toEqual({
+        lastSuccessAt: '2025-01-01T00:05:00.000Z',
+        lastError: { message: 'Connection error', at: '2025-01-01T00:10:00.000Z' },
+        ready: false,
+      });
+
+      lastSuccessAt = new Date('2025-01-01T00:15:00Z');
+      expect(server.getReadiness().status).toBe('ready');
+    });
   });
 
   describe('HTTP server', () => {
@@ -90,6 +238,41 @@ describe('HealthServer', () => {
       expect(body.status).toBe('unhealthy');
     });
 
+    it('serves Prometheus metrics on /metrics', async () => {
+      server = new HealthServer(makeDeps({ getMetrics: () => '# TYPE up gauge\nup 1\n' }), 0);
+      await server.start();
+      const addr = (server as any).server.address();
+
+      const res = await fetch(`http://localhost:${addr.port}/metrics`);
+      expect(res.status).toBe(200);
+      expect(res.headers.get('content-type')).toBe('text/plain; version=0.0.4; charset=utf-8');
+      expect(await res.text()).toBe('# TYPE up gauge\nup 1\n');
+    });
+
+    it('responds on /livez and /readyz with 200 or 503', async () => {
+      server = new HealthServer(makeDeps({ isPiChannelConnected: () => false }), 0);
+      await server.start();
+      const addr = (server as any).server.address();
+
+      const live = await fetch(`http://localhost:${addr.port}/livez`);
+      expect(live.status).toBe(200);
+      expect((await live.json()).status).toBe('ok');
+
+      const ready = await fetch(`http://localhost:${addr.port}/readyz`);
+      expect(ready.status).toBe(503);
+      expect((await ready.json()).checks.piChannel.connected).toBe(false);
+    });
+
+    it('ignores the query string on probe and scrape paths', async () => {
+      server = new HealthServer(makeDeps({ getMetrics: () => 'up 1\n' }), 0);
+      await server.start();
+      const addr = (server as any).server.address();
+
+      for (const path of ['/health?x=1', '/livez?x=1', '/readyz?x=1', '/metrics?format=text']) {
+        expect((await fetch(`http://localhost:${addr.port}${path}`)).status).toBe(200);
+      }
+    });
+
     it('responds 404 on unknown paths', async () => {
       server = new HealthServer(makeDeps(), 0);
       await server.start();
@@ -100,9 +283,295 @@ describe('HealthServer', () => {
       expect(res.status).toBe(404);
     });
 
+    it('acknowledges an alert via POST /alerts/{id}/acknowledge as the token operator', async () => {
+      const acknowledgeAlert = jest.fn(async (id: string, by: string) => ({ id, acknowledgedBy: by }) as any);
+      server = new HealthServer(makeDeps({ acknowledgeAlert }), 0);
+      await server.start();
+
+      const addr = (server as any).server.address();
+      const res = await fetch(`http://localhost:${addr.port}/alerts/a1/acknowledge`, {
+        method: 'POST',
+        headers: asDriller,
+        body: JSON.stringify({ by: 'toolpusher' }),
+      });
+
+      expect(res.status).toBe(200);
+      expect(acknowledgeAlert).toHaveBeenCalledWith('a1', 'driller-1');
+      expect((await res.json()).acknowledgedBy).toBe('driller-1');
+    });
+
+    it('refuses alert actions without a valid operator token', async () => {
+      const clearAlert = jest.fn();
+      server = new HealthServer(makeDeps({ clearAlert: clearAlert as any }), 0);
+      await server.start();
+
+      const addr = (server as any).server.address();
+      const clear = (headers: Record<string, string>) =>
+        fetch(`http://localhost:${addr.port}/alerts/a1/clear`, { method: 'POST', headers, body: '{}' });
+
+      const anonymous = await clear({});
+      expect(anonymous.status).toBe(401);
+      expect(anonymous.headers.get('www-authenticate')).toBe('Bearer');
+      expect((await clear({ Authorization: 'Bearer wrong' })).status).toBe(401);
+      expect((await clear({ Authorization: 'Basic driller-token' })).status).toBe(401);
+
+      await server.stop();
+      server = new HealthServer(makeDeps({ clearAlert: clearAlert as any, operatorTokens: undefined }), 0);
+      await server.start();
+      const port = (server as any).server.address().port;
+      const unconfigured = await fetch(`http://localhost:${port}/alerts/a1/clear`, {
+        method: 'POST',
+        headers: asDriller,
+      });
+      expect(unconfigured.status).toBe(401);
+      expect(clearAlert).not.toHaveBeenCalled();
+    });
+
+    it('maps lifecycle errors to 404 / 409', async () => {
+      const clearAlert = jest.fn(async (id: string) => {
+        throw new AlertLifecycleError(`Unknown alert: ${id}`, 'NOT_FOUND');
+      });
+      const acknowledgeAlert = jest.fn(async (id: string) => {
+        throw new AlertLifecycleError(`Alert ${id} is CLEARED, not OPEN`, 'INVALID_STATE');
+      });
+      server = new HealthServer(makeDeps({ clearAlert, acknowledgeAlert }), 0);
+      await server.start();
+
+      const addr = (server as any).server.address();
+      const post = (path: string) =>
+        fetch(`http://localhost:${addr.port}${path}`, { method: 'POST', headers: asDriller });
+
+      expect((await post('/alerts/x/clear')).status).toBe(404);
+      expect((await post('/alerts/x/acknowledge')).status).toBe(409);
+    });
+
+    it('shelves an alert with a duration and reason', async () => {
+      const shelveAlert = jest.fn(async () => ({}) as any);
+      server = new HealthServer(makeDeps({ shelveAlert }), 0);
+      await server.start();
+
+      const addr = (server as any).server.address();
+      const url = `http://localhost:${addr.port}/alerts/a1/shelve`;
+      const ok = await fetch(url, {
+        method: 'POST',
+        headers: asToolpusher,
+        body: JSON.stringify({ durationMinutes: 30, reason: 'Faulty transmitter' }),
+      });
+      const tooLong = await fetch(url, {
+        method: 'POST',
+        headers: asToolpusher,
+        body: JSON.stringify({ durationMinutes: 10_000, reason: 'x' }),
+      });
+
+      expect(ok.status).toBe(200);
+      expect(shelveAlert).toHaveBeenCalledWith('a1', 'toolpusher', 1_800_000, 'Faulty transmitter');
+      expect(tooLong.status).toBe(400);
+      expect((await tooLong.json()).error).toContain('12 hours');
+    });
+
+    it('answers an oversized body with 413 before closing the connection', async () => {
+      const shelveAlert = jest.fn();
+      server = new HealthServer(makeDeps({ shelveAlert: shelveAlert as any }), 0);
+      await server.start();
+
+      const addr = (server as any).server.address();
+      const res = await fetch(`http://localhost:${addr.port}/alerts/a1/shelve`, {
+        method: 'POST',
+        headers: asToolpusher,
+        body: JSON.stringify({ durationMinutes: 30, reason: 'x'.repeat(100_000) }),
+      });
+
+      expect(res.status).toBe(413);
+      expect(res.headers.get('connection')).toBe('close');
+      expect((await res.json()).error).toContain('too large');
+      expect(shelveAlert).not.toHaveBeenCalled();
+    });
+
     it('stop is safe to call when server not started', async () => {
       server = new HealthServer(makeDeps());
       await expect(server.stop()).resolves.toBeUndefined();
     });
   });
+
+  describe('read-only API', () => {
+    async function get(path: string) {
+      const addr = (server as any).server.address();
+      const res = await fetch(`http://localhost:${addr.port}${path}`);
+      return { status: res.status, body: await res.json() };
+    }
+
+    it('pages alerts newest first and passes filters to the query', async () => {
+      const alerts = [{ id: 'a1' }, { id: 'a2' }, { id: 'a3' }] as any[];
+      const queryAlerts = jest.fn(async (query: any) => alerts.slice(-query.limit));
+      server = new HealthServer(makeDeps({ queryAlerts }), 0);
+      await server.start();
+
+      const { status, body } = await get(
+        '/api/alerts?severity=CRITICAL&state=open,acknowledged&tag=BOP.ACC.PRESS.SYS&limit=2&offset=1&from=2025-01-01T00:00:00Z'
+      );
+
+      expect(status).toBe(200);
+      expect(body).toEqual({ items: [{ id: 'a3' }, { id: 'a2' }], limit: 2, offset: 1, hasMore: true });
+      expect(queryAlerts).toHaveBeenCalledWith({
+        severity: 'CRITICAL',
+        state: ['OPEN', 'ACKNOWLEDGED'],
+        tag: 'BOP.ACC.PRESS.SYS',
+        limit: 3,
+        offset: 1,
+        from: new Date('2025-01-01T00:00:00Z'),
+      });
+    });
+
+    it('reports the last page without hasMore', async () => {
+      server = new HealthServer(
+        makeDeps({ queryRecommendations: async () => [{ component: 'Accumulator' }] as any[] }),
+        0
+      );
+      await server.start();
+
+      const { body } = await get('/api/recommendations');
+      expect(body).toEqual({ items: [{ component: 'Accumulator' }], limit: 50, offset: 0, hasMore: false });
+    });
+
+    it('rejects invalid query parameters with 400', async () => {
+      server = new HealthServer(makeDeps({ queryAlerts: async () => [] }), 0);
+      await server.start();
+
+      expect((await get('/api/alerts?limit=0')).status).toBe(400);
+      expect((await get('/api/alerts?state=BROKEN')).status).toBe(400);
+      const badDate = await get('/api/alerts?from=yesterday');
+      expect(badDate.status).toBe(400);
+      expect(badDate.body.error).toContain('from');
+    });
+
+    it('serves analyses and the sensor snapshot', async () => {
+      const queryAnalyses = jest.fn(() => [{ id: 'r1', trigger: { type: 'periodic' } }] as any[]);
+      const snapshot = { 'BOP.ACC.PRESS.SYS': { value: 3000, unit: 'PSI' } };
+      server = new HealthServer(makeDeps({ queryAnalyses, getSensorSnapshot: () => snapshot }), 0);
+      await server.start();
+
+      const analyses = await get('/api/analyses?trigger=periodic&status=completed');
+      expect(analyses.body.items).toEqual([{ id: 'r1', trigger: { type: 'periodic' } }]);
+      expect(queryAnalyses).toHaveBeenCalledWith({ trigger: 'periodic', status: 'completed', limit: 51, offset: 0 });
+      expect((await get('/api/sensors')).body).toEqual(snapshot);
+    });
+
+    it('streams live events on /events and rejects unknown topics', async () => {
+      const eventStream = new EventStream(undefined, { heartbeatMs: 60_000 });
+      server = new HealthServer(makeDeps({ eventStream }), 0);
+      await server.start();
+      const addr = (server as any).server.address();
+
+      const bad = await fetch(`http://localhost:${addr.port}/events?topics=weather`);
+      expect(bad.status).toBe(400);
+
+      const res = await fetch(`http://localhost:${addr.port}/events?topics=alerts`);
+      expect(res.status).toBe(200);
+      expect(res.headers.get('content-type')).toBe('text/event-stream');
+      const reader = res.body!.getReader();
+      const first = new TextDecoder().decode((await reader.read()).value);
+      expect(first).toContain('event: subscribed');
+
+      eventStream.stop();
+      await reader.cancel();
+    });
+
+    it('responds 404 for API routes that are not wired', async () => {
+      server = new HealthServer(makeDeps(), 0);
+      await server.start();
+
+      const addr = (server as any).server.address();
+      expect((await fetch(`http://localhost:${addr.port}/api/alerts`)).status).toBe(404);
+    });
+  });
+
+  describe('operator chat', () => {
+    const question = { id: 'q1', operator: 'driller-1', question: 'Is it safe to function test the BSR?', askedAt: '' };
+
+    async function ask(body: unknown, headers: Record<string, string> = asDriller, path = '/chat') {
+      const addr = (server as any).server.address();
+      return fetch(`http://localhost:${addr.port}${path}`, { method: 'POST', headers, body: JSON.stringify(body) });
+    }
+
+    it('streams the answer to POST /chat as server-sent events', async () => {
+      const askOperatorQuestion = jest.fn(async (operator: string, text: string, handlers: AskHandlers) => {
+        handlers.onAccepted?.(question, true);
+        handlers.onText?.('Not yet: accumulator pressure is 2,650 PSI.');
+        return { ...question, status: 'answered' as const, answeredAt: '', answer: 'Not yet', toolsUsed: [] };
+      });
+      server = new HealthServer(makeDeps({ askOperatorQuestion }), 0);
+      await server.start();
+
+      // "by" in the body is ignored; the token says who asked
+      const body = { by: 'toolpusher', question: 'Is it safe to function test the BSR?' };
+      const res = await ask(body, asDriller, '/chat?v=1');
+
+      expect(res.status).toBe(200);
+      expect(res.headers.get('content-type')).toBe('text/event-stream');
+      expect(askOperatorQuestion).toHaveBeenCalledWith(
+        'driller-1',
+        'Is it safe to function test the BSR?',
+        expect.any(Object)
+      );
+      const events = (await res.text()).trim().split('\n\n');
+      expect(events).toEqual([
+        'event: accepted\ndata: {"id":"q1","queued":true}',
+        'event: text\ndata: {"text":"Not yet: accumulator pressure is 2,650 PSI."}',
+        expect.stringMatching(/^event: answer\ndata: {"id":"q1","operator":"driller-1"/),
+      ]);
+    });
+
+    it('requires a question', async () => {
+      server = new HealthServer(makeDeps({ askOperatorQuestion: jest.fn() as any }), 0);
+      await server.start();
+
+      const res = await ask({ question: '  ' });
+
+      expect(res.status).toBe(400);
+      expect((await res.json()).error).toBe('A question is required');
+      expect((await ask({})).status).toBe(400);
+    });
+
+    it('refuses questions without a valid operator token', async () => {
+      const askOperatorQuestion = jest.fn();
+      server = new HealthServer(makeDeps({ askOperatorQuestion }), 0);
+      await server.start();
+
+      const res = await ask({ question: 'Why?' }, {});
+
+      expect(res.status).toBe(401);
+      expect(res.headers.get('www-authenticate')).toBe('Bearer');
+      expect((await ask({ question: 'Why?' }, { Authorization: 'Bearer guessed' })).status).toBe(401);
+      expect(askOperatorQuestion).not.toHaveBeenCalled();
+    });
+
+    it('refuses with 503 when the analysis queue is full', async () => {
+      const askOperatorQuestion = jest.fn(async () => {
+        throw new OperatorChatError('The analysis queue is full; ask again shortly', 'BUSY');
+      });
+      server = new HealthServer(makeDeps({ askOperatorQuestion }), 0);
+      await server.start();
+
+      const res = await ask({ question: 'Why?' });
+
+      expect(res.status).toBe(503);
+      expect((await res.json()).error).toContain('queue is full');
+    });
+
+    it('ends the stream with an error event when the agent fails', async () => {
+      const askOperatorQuestion = jest.fn(async (_operator: string, _text: string, handlers: AskHandlers) => {
+        handlers.onAccepted?.(question, false);
+        throw new OperatorChatError('The agent could not answer: API overloaded', 'FAILED');
+      });
+      server = new HealthServer(makeDeps({ askOperatorQuestion }), 0);
+      await server.start();
+
+      const res = await ask({ question: 'Why?' });
+
+      expect(res.status).toBe(200);
+      expect(await res.text()).toContain(
+        'event: error\ndata: {"error":"The agent could not answer: API overloaded"}'
+      );
+    });
+  });
 });
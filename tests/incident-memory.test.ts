@@ -0,0 +1,250 @@
+import { describe, it, expect } from 'bun:test';
+import { IncidentMemory } from '../src/incident-memory';
+import type { ThresholdBreach, BreachCleared } from '../src/sensor-state';
+import type { Alert } from '../src/alert-manager';
+import type { AnalysisRecord } from '../src/analysis-log';
+
+const t0 = new Date('2025-01-01T10:00:00.000Z').getTime();
+const at = (minutes: number) => new Date(t0 + minutes * 60_000);
+
+function breach(overrides: Partial<ThresholdBreach> = {}): ThresholdBreach {
+  return {
+    tag: 'BOP.ACC.PRESS.SYS',
+    value: 2600,
+    level: 'WARNING',
+    type: 'low',
+    threshold: 2700,
+    message: 'Accumulator pressure low',
+    ...overrides,
+  };
+}
+
+function cleared(overrides: Partial<BreachCleared> = {}): BreachCleared {
+  return {
+    tag: 'BOP.ACC.PRESS.SYS',
+    value: 2900,
+    level: 'WARNING',
+    type: 'low',
+    threshold: 2700,
+    remainingLevel: null,
+    durationMs: 60_000,
+    message: 'BOP.ACC.PRESS.SYS = 2900 — back above 2700',
+    ...overrides,
+  };
+}
+
+function alert(overrides: Partial<Alert> = {}): Alert {
+  return {
+    id: 'alert-1',
+    severity: 'CRITICAL',
+    title: 'Accumulator pressure critical',
+    description: '',
+    tags: ['BOP.ACC.PRESS.SYS'],
+    recommendedAction: '',
+    timestamp: at(0).toISOString(),
+    state: 'OPEN',
+    fingerprint: '',
+    occurrences: 1,
+    lastSeenAt: at(0).toISOString(),
+    ...overrides,
+  };
+}
+
+function analysis(overrides: Partial<AnalysisRecord> = {}): AnalysisRecord {
+  return {
+    id: 'analysis-1',
+    trigger: { type: 'threshold_breach', tags: ['BOP.ACC.PRESS.SYS'], context: '' },
+    status: 'completed',
+    startedAt: at(1).toISOString(),
+    completedAt: at(2).toISOString(),
+    durationMs: 60_000,
+    model: 'sonnet',
+    text: '\nAccumulator pressure decaying from a hydraulic leak.\nDetails follow.',
+    toolsUsed: [],
+    ...overrides,
+  };
+}
+
+describe('IncidentMemory', () => {
+  it('groups breaches in one subsystem into one incident', () => {
+    const memory = new IncidentMemory();
+    memory.recordBreach(breach(), at(0));
+    memory.recordBreach(breach({ tag: 'BOP.ACC.PRECHARGE', level: 'CRITICAL' }), at(5));
+    memory.recordBreach(breach({ tag: 'WELL.PIT.VOL.DELTA', type: 'high' }), at(6));
+
+    const [acc, well] = memory.query({}, at(6));
+    expect(acc).toMatchObject({
+      id: 'INC-1',
+      subsystem: 'BOP.ACC',
+      status: 'OPEN',
+      peakLevel: 'CRITICAL',
+      breachCount: 2,
+      tags: ['BOP.ACC.PRESS.SYS', 'BOP.ACC.PRECHARGE'],
+      activeBreaches: ['BOP.ACC.PRESS.SYS low', 'BOP.ACC.PRECHARGE low'],
+    });
+    expect(well).toMatchObject({ id: 'INC-2', subsystem: 'WELL' });
+  });
+
+  it('resolves an incident once its breaches have cleared and it has been quiet', () => {
+    const memory = new IncidentMemory({ resolveAfterMs: 600_000 });
+    memory.recordBreach(breach(), at(0));
+    expect(memory.get('INC-1', at(30))!.status).toBe('OPEN');
+
+    // A critical breach stepping down to warning is still active
+    memory.recordBreachCleared(cleared({ remainingLevel: 'WARNING' }), at(31));
+    expect(memory.get('INC-1', at(60))!.status).toBe('OPEN');
+
+    memory.recordBreachCleared(cleared(), at(62));
+    expect(memory.get('INC-1', at(71))!.status).toBe('OPEN');
+    const incident = memory.get('INC-1', at(72))!;
+    expect(incident.status).toBe('RESOLVED');
+    expect(incident.resolvedAt).toBe(at(72).toISOString());
+  });
+
+  it('resolves an incident opened by a transition, which never clears', () => {
+    const memory = new IncidentMemory({ resolveAfterMs: 600_000 });
+    memory.recordBreach(breach({ tag: 'BOP.RAM.BSR01.POS', type: 'transition', threshold: 'CLOSED' }), at(0));
+
+    expect(memory.get('INC-1', at(0))!).toMatchObject({ status: 'OPEN', breachCount: 1, activeBreaches: [] });
+    expect(memory.get('INC-1', at(10))!.status).toBe('RESOLVED');
+  });
+
+  it('stops waiting for breaches of a tag whose rules were reset', () => {
+    const memory = new IncidentMemory({ resolveAfterMs: 600_000 });
+    memory.recordBreach(breach(), at(0));
+    memory.recordBreach(breach({ tag: 'BOP.ACC.PRECHARGE' }), at(1));
+
+    memory.recordBreachReset('BOP.ACC.PRESS.SYS', at(5));
+    expect(memory.get('INC-1', at(5))!.activeBreaches).toEqual(['BOP.ACC.PRECHARGE low']);
+    memory.recordBreachReset('BOP.ACC.PRECHARGE', at(6));
+    expect(memory.get('INC-1', at(15))!.status).toBe('OPEN');
+    expect(memory.get('INC-1', at(16))!.status).toBe('RESOLVED');
+  });
+
+  it('reopens a recently resolved incident, and starts a new one after the merge window', () => {
+    const memory = new IncidentMemory({ mergeWindowMs: 1_800_000, resolveAfterMs: 600_000 });
+    memory.recordBreach(breach(), at(0));
+    memory.recordBreachCleared(cleared(), at(1));
+
+    memory.recordBreach(breach(), at(20));
+    expect(memory.query({}, at(20))).toHaveLength(1);
+    expect(memory.get('INC-1', at(20))!.status).toBe('OPEN');
+
+    memory.recordBreachCleared(cleared(), at(21));
+    memory.recordBreach(breach(), at(60));
+    expect(memory.query({}, at(60)).map((i) => [i.id, i.status])).toEqual([
+      ['INC-1', 'RESOLVED'],
+      ['INC-2', 'OPEN'],
+    ]);
+  });
+
+  it('lets CRITICAL and WARNING alerts open incidents, and INFO alerts only join them', () => {
+    const memory = new IncidentMemory();
+    memory.recordAlert(alert({ id: 'a1', severity: 'INFO', tags: ['BOP.RAM.UPR.POS'] }), at(0));
+    expect(memory.query({}, at(0))).toEqual([]);
+
+    memory.recordAlert(alert({ id: 'a2' }), at(1));
+    memory.recordAlert(alert({ id: 'a2' }), at(2));
+    memory.recordAlert(alert({ id: 'a3', severity: 'INFO' }), at(3));
+
+    const [incident] = memory.query({}, at(3));
+    expect(incident!.alertIds).toEqual(['a2', 'a3']);
+    expect(incident!.peakLevel).toBe('CRITICAL');
+    expect(incident!.events.map((e) => e.ref)).toEqual(['a2', 'a3']);
+  });
+
+  it('adds analysis conclusions to the incidents they were about', () => {
+    const memory = new IncidentMemory();
+    memory.recordBreach(breach(), at(0));
+    memory.recordAnalysis(analysis(), at(2));
+    memory.recordAnalysis(
+      analysis({
+        id: 'analysis-2',
+        trigger: { type: 'periodic', context: '' },
+        findings: {
+          summary: 'Pressure still falling about 20 psi/h',
+          rootCauses: [],
+          affectedSubsystems: ['Accumulator'],
+          tags: ['BOP.ACC.PRESS.SYS'],
+          recommendedActions: [],
+          onset: 'gradual',
+        },
+      }),
+      at(10)
+    );
+
+    expect(memory.get('INC-1', at(10))!.conclusions).toEqual([
+      {
+        analysisId: 'analysis-1',
+        at: at(2).toISOString(),
+        summary: 'Accumulator pressure decaying from a hydraulic leak.',
+      },
+      {
+        analysisId: 'analysis-2',
+        at: at(10).toISOString(),
+        summary: 'Pressure still falling about 20 psi/h',
+        onset: 'gradual',
+      },
+    ]);
+  });
+
+  it('ignores failed analyses, rule-based summaries and subsystems without an incident', () => {
+    const memory = new IncidentMemory();
+    memory.recordBreach(breach(), at(0));
+    memory.recordAnalysis(analysis({ status: 'failed', error: 'API overloaded' }), at(1));
+    memory.recordAnalysis(analysis({ model: 'rule-based' }), at(1));
+    memory.recordAnalysis(
+      analysis({ trigger: { type: 'threshold_breach', tags: ['WELL.FLOW.DELTA'], context: '' } }),
+      at(1)
+    );
+
+    expect(memory.get('INC-1', at(1))!.conclusions).toEqual([]);
+    expect(memory.query({}, at(1))).toHaveLength(1);
+  });
+
+  it('summarizes open and recently resolved incidents, the focus subsystem first', () => {
+    const memory = new IncidentMemory();
+    expect(memory.summarize(undefined, at(0))).toBe('');
+
+    memory.recordBreach(breach({ tag: 'WELL.PIT.VOL.DELTA', type: 'high' }), at(0));
+    memory.recordBreachCleared(cleared({ tag: 'WELL.PIT.VOL.DELTA', type: 'high' }), at(4));
+    memory.recordBreach(breach({ level: 'CRITICAL' }), at(10));
+    memory.recordAnalysis(
+      analysis({
+        findings: {
+          summary: 'Hydraulic leak on the accumulator',
+          rootCauses: [],
+          affectedSubsystems: [],
+          tags: [],
+          recommendedActions: [],
+          onset: 'gradual',
+        },
+      }),
+      at(12)
+    );
+
+    const summary = memory.summarize('WELL', at(20));
+    expect(summary).toStartWith('INCIDENT MEMORY');
+    const lines = summary.split('\n');
+    expect(lines[1]).toBe('- INC-1 WELL — RESOLVED 10:14Z (active 4 min), peak WARNING, 1 breach, 0 alerts');
+    expect(lines[2]).toBe(
+      '- INC-2 BOP.ACC — OPEN since 10:10Z, peak CRITICAL, 1 breach, 0 alerts; active: BOP.ACC.PRESS.SYS low'
+    );
+    expect(lines[3]).toBe('  10:12Z concluded (gradual): Hydraulic leak on the accumulator');
+
+    // Resolved incidents drop out after the merge window
+    expect(memory.summarize(undefined, at(60))).not.toContain('INC-1');
+  });
+
+  it('limits stored incidents and events per incident', () => {
+    const memory = new IncidentMemory({ maxIncidents: 2, maxEventsPerIncident: 3 });
+    for (let i = 0; i < 5; i++) memory.recordBreach(breach({ value: 2600 - i }), at(i));
+    expect(memory.get('INC-1', at(5))!.events).toHaveLength(3);
+    expect(memory.get('INC-1', at(5))!.breachCount).toBe(5);
+
+    memory.recordBreach(breach({ tag: 'WELL.PIT.VOL.DELTA' }), at(6));
+    memory.recordBreach(breach({ tag: 'BOP.RAM.UPR.POS' }), at(7));
+    expect(memory.query({}, at(7)).map((i) => i.id)).toEqual(['INC-2', 'INC-3']);
+    expect(memory.query({ limit: 1 }, at(7)).map((i) => i.id)).toEqual(['INC-3']);
+  });
+});
@@ -0,0 +1,117 @@
+import { describe, it, expect } from 'bun:test';
+import { MetricsRegistry, createBOPMetrics } from '../src/metrics';
+
+describe('MetricsRegistry', () => {
+  it('renders counters with HELP, TYPE and one line per label set', () => {
+    const registry = new MetricsRegistry();
+    const counter = registry.counter('bop_test_total', 'Things counted', ['tag', 'level']);
+    counter.inc({ tag: 'A', level: 'WARNING' });
+    counter.inc({ tag: 'A', level: 'WARNING' }, 2);
+    counter.inc({ tag: 'B', level: 'CRITICAL' });
+
+    expect(registry.render()).toBe(
+      [
+        '# HELP bop_test_total Things counted',
+        '# TYPE bop_test_total counter',
+        'bop_test_total{tag="A",level="WARNING"} 3',
+        'bop_test_total{tag="B",level="CRITICAL"} 1',
+        '',
+      ].join('\n')
+    );
+  });
+
+  it('reports unlabelled metrics at zero before anything happens', () => {
+    const registry = new MetricsRegistry();
+    registry.counter('bop_idle_total', 'Idle');
+    expect(registry.render()).toContain('\nbop_idle_total 0\n');
+  });
+
+  it('escapes label values', () => {
+    const registry = new MetricsRegistry();
+    registry.counter('bop_x_total', 'x', ['tag']).inc({ tag: 'a"b\\c\nd' });
+    expect(registry.render()).toContain('bop_x_total{tag="a\\"b\\\\c\\nd"} 1');
+  });
+
+  it('rejects negative counter increments and duplicate names', () => {
+    const registry = new MetricsRegistry();
+    const counter = registry.counter('bop_x_total', 'x');
+    expect(() => counter.inc(undefined, -1)).toThrow('cannot decrease');
+    expect(() => registry.gauge('bop_x_total', 'x')).toThrow('already registered');
+  });
+
+  it('reads collected gauges at scrape time', () => {
+    let depth = 0;
+    const registry = new MetricsRegistry();
+    registry.gauge('bop_depth', 'Queue depth', [], () => depth);
+    depth = 4;
+    expect(registry.render()).toContain('\nbop_depth 4\n');
+  });
+
+  it('renders histograms as cumulative buckets with sum and count', () => {
+    const registry = new MetricsRegistry();
+    const histogram = registry.histogram('bop_duration_seconds', 'Duration', [1, 5]);
+    histogram.observe(0.5);
+    histogram.observe(3);
+    histogram.observe(8);
+
+    expect(registry.render()).toContain(
+      [
+        'bop_duration_seconds_bucket{le="1"} 1',
+        'bop_duration_seconds_bucket{le="5"} 2',
+        'bop_duration_seconds_bucket{le="+Inf"} 3',
+        'bop_duration_seconds_sum 11.5',
+        'bop_duration_seconds_count 3',
+      ].join('\n')
+    );
+  });
+});
+
+describe('createBOPMetrics', () => {
+  it('registers the agent metrics, reading channel state on scrape', () => {
+    let connected = false;
+    const metrics = createBOPMetrics({ isPiChannelConnected: () => connected });
+    metrics.analysisQueueDepth.set(2);
+    metrics.thresholdBreaches.inc({ tag: 'BOP.ACC.PRESS.SYS', level: 'CRITICAL' });
+    connected = true;
+
+    const text = metrics.registry.render();
+    expect(text).toContain('\nbop_pi_channel_connected 1\n');
+    expect(text).toContain('\nbop_analysis_queue_depth 2\n');
+    expect(text).toContain('bop_threshold_breaches_total{tag="BOP.ACC.PRESS.SYS",level="CRITICAL"} 1');
+    for (const name of [
+      'bop_pi_channel_reconnects_total',
+      'bop_pi_values_received_total',
+      'bop_agent_analyses_started_total',
+      'bop_agent_analyses_completed_total',
+      'bop_agent_analyses_failed_total',
+      'bop_agent_analysis_duration_seconds',
+      'bop_agent_analysis_cost_usd_total',
+      'bop_analyses_running',
+      'bop_analysis_queue_dropped_total',
+      'bop_analysis_queue_coalesced_total',
+      'bop_alerts_sent_total',
+    ]) {
+      expect(text).toContain(`# TYPE ${name} `);
+    }
+  });
+
+  it('exposes the LLM budget when a budget source is given', () => {
+    const metrics = createBOPMetrics({
+      isPiChannelConnected: () => true,
+      getBudgetStatus: () => ({
+        level: 'NEAR',
+        lastHour: { spentUsd: 0.85, analyses: 4 },
+        lastDay: { spentUsd: 3.2, analyses: 20 },
+        limits: { hourlyUsd: 1, dailyUsd: null, maxAnalysesPerHour: null },
+      }),
+    });
+    metrics.analysesDowngraded.inc({ mode: 'fallback_model' });
+
+    const text = metrics.registry.render();
+    expect(text).toContain('\nbop_llm_spend_last_hour_usd 0.85\n');
+    expect(text).toContain('\nbop_llm_spend_last_day_usd 3.2\n');
+    expect(text).toContain('\nbop_agent_analyses_last_hour 4\n');
+    expect(text).toContain('\nbop_llm_budget_level 1\n');
+    expect(text).toContain('bop_agent_analyses_downgraded_total{mode="fallback_model"} 1');
+  });
+});
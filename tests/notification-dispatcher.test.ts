@@ -0,0 +1,153 @@
+import { describe, it, expect, beforeEach, afterEach, jest, spyOn } from 'bun:test';
+import { mkdtempSync, rmSync, readFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { NotificationDispatcher } from '../src/notifications/dispatcher';
+import type { Notification, NotificationSink } from '../src/notifications/notification-sink';
+import { matchesRoute, formatSubject } from '../src/notifications/notification-sink';
+import { AlertManager, Alert } from '../src/alert-manager';
+
+function makeAlert(overrides: Partial<Alert> = {}): Alert {
+  return {
+    id: 'a1',
+    state: 'OPEN',
+    fingerprint: 'fp',
+    occurrences: 1,
+    lastSeenAt: '2025-01-01T00:00:00.000Z',
+    severity: 'CRITICAL',
+    title: 'Pit gain',
+    description: 'Pit volume up 12 bbl',
+    affectedComponents: ['Wellbore'],
+    tags: ['WELL.PIT.VOL.DELTA'],
+    recommendedAction: 'Flow check',
+    timestamp: '2025-01-01T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
+function recordingSink(name = 'test', failures = 0): NotificationSink & { received: Notification[] } {
+  let remaining = failures;
+  const sink = {
+    name,
+    received: [] as Notification[],
+    deliver: jest.fn(async (n: Notification) => {
+      if (remaining-- > 0) throw new Error('receiver down');
+      sink.received.push(n);
+    }),
+  };
+  return sink;
+}
+
+describe('matchesRoute', () => {
+  const notification: Notification = { event: 'raised', alert: makeAlert() };
+
+  it('matches everything with an empty route', () => {
+    expect(matchesRoute({}, notification)).toBe(true);
+  });
+
+  it('filters by severity, component and event', () => {
+    expect(matchesRoute({ severities: ['WARNING'] }, notification)).toBe(false);
+    expect(matchesRoute({ components: ['Accumulator'] }, notification)).toBe(false);
+    expect(matchesRoute({ components: ['Accumulator', 'Wellbore'] }, notification)).toBe(true);
+    expect(matchesRoute({ events: ['resolved'] }, notification)).toBe(false);
+  });
+});
+
+describe('formatSubject', () => {
+  it('labels lifecycle events after the severity', () => {
+    expect(formatSubject({ event: 'raised', alert: makeAlert() })).toBe('[BOP CRITICAL] Pit gain');
+    expect(formatSubject({ event: 'escalated', alert: makeAlert() })).toBe(
+      '[BOP CRITICAL ESCALATED] Pit gain'
+    );
+  });
+});
+
+describe('NotificationDispatcher', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(path.join(tmpdir(), 'notify-'));
+    spyOn(console, 'log').mockImplementation((() => {}) as any);
+    spyOn(console, 'warn').mockImplementation((() => {}) as any);
+    spyOn(console, 'error').mockImplementation((() => {}) as any);
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+    jest.restoreAllMocks();
+  });
+
+  it('delivers only to sinks whose route matches', async () => {
+    const dispatcher = new NotificationDispatcher();
+    const critical = recordingSink('critical');
+    const warning = recordingSink('warning');
+    dispatcher.register(critical, { route: { severities: ['CRITICAL'] } });
+    dispatcher.register(warning, { route: { severities: ['WARNING'] } });
+
+    dispatcher.dispatch({ event: 'raised', alert: makeAlert() });
+    await dispatcher.flush();
+
+    expect(critical.received).toHaveLength(1);
+    expect(warning.received).toHaveLength(0);
+  });
+
+  it('retries with backoff until delivery succeeds', async () => {
+    const dispatcher = new NotificationDispatcher();
+    const sink = recordingSink('flaky', 2);
+    dispatcher.register(sink, { retry: { maxAttempts: 3, initialDelayMs: 1 } });
+
+    dispatcher.dispatch({ event: 'raised', alert: makeAlert() });
+    await dispatcher.flush();
+
+    expect(sink.deliver).toHaveBeenCalledTimes(3);
+    expect(sink.received).toHaveLength(1);
+  });
+
+  it('writes a dead letter after the last failed attempt', async () => {
+    const deadLetterFile = path.join(dir, 'dead', 'webhook.jsonl');
+    const dispatcher = new NotificationDispatcher();
+    const sink = recordingSink('broken', 10);
+    dispatcher.register(sink, { retry: { maxAttempts: 2, initialDelayMs: 1 }, deadLetterFile });
+
+    dispatcher.dispatch({ event: 'raised', alert: makeAlert() });
+    await dispatcher.flush();
+
+    const [line] = readFileSync(deadLetterFile, 'utf-8').trim().split('\n');
+    const record = JSON.parse(line);
+    expect(record.sink).toBe('broken');
+    expect(record.attempts).toBe(2);
+    expect(record.error).toBe('receiver down');
+    expect(record.notification.alert.id).toBe('a1');
+  });
+
+  it('a failing sink does not hold up the others', async () => {
+    const dispatcher = new NotificationDispatcher();
+    const slow = recordingSink('slow', 10);
+    const fast = recordingSink('fast');
+    dispatcher.register(slow, { retry: { maxAttempts: 3, initialDelayMs: 20 } });
+    dispatcher.register(fast);
+
+    dispatcher.dispatch({ event: 'raised', alert: makeAlert() });
+    await new Promise((r) => setTimeout(r, 5));
+
+    expect(fast.received).toHaveLength(1);
+    await dispatcher.flush();
+  });
+
+  it('forwards AlertManager alerts, escalations and state changes', async () => {
+    const dispatcher = new NotificationDispatcher();
+    const sink = recordingSink();
+    dispatcher.register(sink);
+    const alertManager = new AlertManager(undefined, { escalationIntervalMs: 0 });
+    dispatcher.attach(alertManager);
+
+    const { id, state, ...input } = makeAlert();
+    await alertManager.send(input);
+    const [alert] = await alertManager.getActiveAlerts();
+    await alertManager.evaluateLifecycle(() => false);
+    await alertManager.acknowledge(alert.id, 'driller-1');
+    await dispatcher.flush();
+
+    expect(sink.received.map((n) => n.event)).toEqual(['raised', 'escalated', 'acknowledged']);
+  });
+});
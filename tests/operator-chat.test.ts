@@ -0,0 +1,147 @@
+import { describe, it, expect, beforeEach, afterEach, jest, spyOn } from 'bun:test';
+import { mkdtempSync, rmSync, readFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { ChatAuditLog, OperatorChat, OperatorChatError, OperatorQuestion } from '../src/operator-chat';
+import { AnalysisScheduler } from '../src/analysis-scheduler';
+
+describe('OperatorChat', () => {
+  let dir: string;
+  let audit: ChatAuditLog;
+  let auditFile: string;
+
+  beforeEach(() => {
+    spyOn(console, 'log').mockImplementation((() => {}) as any);
+    spyOn(console, 'warn').mockImplementation((() => {}) as any);
+    dir = mkdtempSync(path.join(tmpdir(), 'operator-chat-'));
+    auditFile = path.join(dir, 'audit', 'operator-chat.jsonl');
+    audit = new ChatAuditLog(auditFile);
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+    jest.restoreAllMocks();
+  });
+
+  function auditTrail() {
+    return readFileSync(auditFile, 'utf8')
+      .trim()
+      .split('\n')
+      .map((line) => JSON.parse(line));
+  }
+
+  it('answers through the scheduler, streaming the text, and audits the exchange', async () => {
+    const answer = jest.fn(async (_q: OperatorQuestion, onText: (text: string) => void) => {
+      onText('Accumulator pressure is falling about 20 psi/h.');
+      onText('Likely a hydraulic leak.');
+      return {
+        text: 'Accumulator pressure is falling',
+        toolsUsed: ['mcp__bop-tools__get_sensor_history'],
+        costUsd: 0.02,
+      };
+    });
+    let chat: OperatorChat;
+    const scheduler = new AnalysisScheduler((job) => chat.run(job.question!));
+    chat = new OperatorChat({ submit: (q) => scheduler.submitQuestion(q), answer, audit });
+    const streamed: string[] = [];
+    const onAccepted = jest.fn();
+
+    const exchange = await chat.ask('toolpusher', 'Why is accumulator pressure trending down?', {
+      onAccepted,
+      onText: (text) => streamed.push(text),
+    });
+
+    expect(onAccepted).toHaveBeenCalledWith(expect.objectContaining({ operator: 'toolpusher' }), false);
+    expect(streamed).toEqual(['Accumulator pressure is falling about 20 psi/h.', 'Likely a hydraulic leak.']);
+    expect(exchange).toMatchObject({
+      operator: 'toolpusher',
+      question: 'Why is accumulator pressure trending down?',
+      status: 'answered',
+      answer: 'Accumulator pressure is falling',
+      toolsUsed: ['mcp__bop-tools__get_sensor_history'],
+      costUsd: 0.02,
+    });
+    expect(auditTrail()).toEqual([exchange]);
+  });
+
+  it('reports a question waiting behind other analyses as queued', async () => {
+    const submit = jest.fn((_question: OperatorQuestion) => 'queued' as const);
+    const chat = new OperatorChat({ submit, answer: jest.fn() as any });
+    const onAccepted = jest.fn();
+
+    chat.ask('driller-1', 'Is it safe to function test the BSR now?', { onAccepted });
+
+    expect(onAccepted).toHaveBeenCalledWith(submit.mock.calls[0]![0], true);
+  });
+
+  it('refuses a question the scheduler drops, and audits the refusal', async () => {
+    const chat = new OperatorChat({ submit: () => 'dropped', answer: jest.fn() as any, audit });
+
+    const asked = chat.ask('driller-1', 'Why?');
+
+    await expect(asked).rejects.toThrow(new OperatorChatError('The analysis queue is full; ask again shortly', 'BUSY'));
+    const [entry] = auditTrail();
+    expect(entry).toMatchObject({ operator: 'driller-1', question: 'Why?', status: 'failed' });
+    expect(entry.error).toContain('queue is full');
+  });
+
+  it('fails the question when the agent errors', async () => {
+    let question: OperatorQuestion | undefined;
+    const chat = new OperatorChat({
+      submit: (q) => {
+        question = q;
+        return 'queued';
+      },
+      answer: async () => {
+        throw new Error('API overloaded');
+      },
+      audit,
+    });
+
+    const asked = chat.ask('driller-1', 'Why?');
+    await chat.run(question!);
+
+    const err = await asked.catch((e) => e);
+    expect(err).toBeInstanceOf(OperatorChatError);
+    expect(err.code).toBe('FAILED');
+    expect(err.message).toBe('The agent could not answer: API overloaded');
+    expect(auditTrail()[0]).toMatchObject({ status: 'failed', error: 'The agent could not answer: API overloaded' });
+  });
+
+  it('passes the budget fallback model to the agent', async () => {
+    let question: OperatorQuestion | undefined;
+    const answer = jest.fn(async () => ({ text: 'ok', toolsUsed: [] }));
+    const chat = new OperatorChat({
+      submit: (q) => {
+        question = q;
+        return 'queued';
+      },
+      answer,
+    });
+
+    const asked = chat.ask('driller-1', 'Why?');
+    await chat.run(question!, 'haiku');
+
+    await asked;
+    expect(answer).toHaveBeenCalledWith(question, expect.any(Function), 'haiku');
+  });
+
+  it('settles a question only once', async () => {
+    let question: OperatorQuestion | undefined;
+    const chat = new OperatorChat({
+      submit: (q) => {
+        question = q;
+        return 'queued';
+      },
+      answer: jest.fn() as any,
+      audit,
+    });
+
+    const asked = chat.ask('driller-1', 'Why?');
+    await chat.fail(question!, new OperatorChatError('LLM budget exhausted', 'DECLINED'));
+    await chat.fail(question!, new OperatorChatError('The analysis queue is full', 'BUSY'));
+
+    await expect(asked).rejects.toThrow('LLM budget exhausted');
+    expect(auditTrail()).toHaveLength(1);
+  });
+});
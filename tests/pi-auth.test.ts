@@ -0,0 +1,137 @@
+import { describe, it, expect, beforeEach, afterEach, jest, spyOn } from 'bun:test';
+import http from 'http';
+import {
+  BasicAuthProvider,
+  BearerTokenProvider,
+  ClientCredentialsProvider,
+  PIAuthError,
+  createPIAuthProvider,
+} from '../src/pi-auth';
+
+interface TokenRequest {
+  authorization?: string;
+  body: URLSearchParams;
+}
+
+/** Local stand-in for an OAuth2 token endpoint; `respond` decides each reply. */
+function startTokenEndpoint(
+  respond: (n: number) => { status: number; body: unknown }
+): Promise<{ url: string; requests: TokenRequest[]; server: http.Server }> {
+  const requests: TokenRequest[] = [];
+  const server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', (c) => (body += c));
+    req.on('end', () => {
+      requests.push({ authorization: req.headers.authorization, body: new URLSearchParams(body) });
+      const reply = respond(requests.length);
+      res.writeHead(reply.status, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(reply.body));
+    });
+  });
+  return new Promise((resolve) => {
+    server.listen(0, () => {
+      const { port } = server.address() as any;
+      resolve({ url: `http://localhost:${port}/token`, requests, server });
+    });
+  });
+}
+
+describe('PI auth providers', () => {
+  it('Basic encodes the username and password', async () => {
+    const header = await new BasicAuthProvider('DOMAIN\\user', 'secret').getAuthorizationHeader();
+    expect(header).toBe('Basic ' + Buffer.from('DOMAIN\\user:secret').toString('base64'));
+  });
+
+  it('bearer sends the static token', async () => {
+    expect(await new BearerTokenProvider('abc').getAuthorizationHeader()).toBe('Bearer abc');
+  });
+
+  it('createPIAuthProvider picks the provider for the mode', () => {
+    expect(createPIAuthProvider({ mode: 'bearer', token: 't' }).mode).toBe('bearer');
+    expect(
+      createPIAuthProvider({ mode: 'client_credentials', tokenUrl: 'http://x', clientId: 'a', clientSecret: 'b' }).mode
+    ).toBe('client_credentials');
+  });
+
+  describe('ClientCredentialsProvider', () => {
+    let server: http.Server | null = null;
+    let now = 0;
+
+    beforeEach(() => {
+      now = Date.parse('2025-01-01T00:00:00Z');
+      spyOn(console, 'log').mockImplementation((() => {}) as any);
+    });
+
+    afterEach(async () => {
+      await new Promise((r) => (server ? server.close(r) : r(undefined)));
+      server = null;
+      jest.restoreAllMocks();
+    });
+
+    async function provider(respond: (n: number) => { status: number; body: unknown }, scope?: string) {
+      const endpoint = await startTokenEndpoint(respond);
+      server = endpoint.server;
+      const auth = new ClientCredentialsProvider(
+        { mode: 'client_credentials', tokenUrl: endpoint.url, clientId: 'bop-agent', clientSecret: 's3cret', scope },
+        () => now
+      );
+      return { auth, requests: endpoint.requests, url: endpoint.url };
+    }
+
+    const token = (n: number) => ({ status: 200, body: { access_token: `T${n}`, token_type: 'Bearer', expires_in: 300 } });
+
+    it('requests a token with the client credentials grant', async () => {
+      const { auth, requests } = await provider(token, 'piwebapi');
+
+      expect(await auth.getAuthorizationHeader()).toBe('Bearer T1');
+      expect(requests[0].authorization).toBe('Basic ' + Buffer.from('bop-agent:s3cret').toString('base64'));
+      expect(requests[0].body.get('grant_type')).toBe('client_credentials');
+      expect(requests[0].body.get('scope')).toBe('piwebapi');
+    });
+
+    it('reuses the token and refreshes it shortly before expiry', async () => {
+      const { auth, requests } = await provider(token);
+
+      await auth.getAuthorizationHeader();
+      now += 200_000;
+      expect(await auth.getAuthorizationHeader()).toBe('Bearer T1');
+      // Within the 60s refresh window
+      now += 50_000;
+      expect(await auth.getAuthorizationHeader()).toBe('Bearer T2');
+      expect(requests).toHaveLength(2);
+    });
+
+    it('shares one token request between concurrent callers', async () => {
+      const { auth, requests } = await provider(token);
+
+      const headers = await Promise.all([auth.getAuthorizationHeader(), auth.getAuthorizationHeader()]);
+      expect(headers).toEqual(['Bearer T1', 'Bearer T1']);
+      expect(requests).toHaveLength(1);
+    });
+
+    it('fetches a new token after invalidate', async () => {
+      const { auth } = await provider(token);
+
+      await auth.getAuthorizationHeader();
+      auth.invalidate();
+      expect(await auth.getAuthorizationHeader()).toBe('Bearer T2');
+    });
+
+    it('reports token endpoint errors with the status', async () => {
+      const { auth, url } = await provider(() => ({
+        status: 401,
+        body: { error: 'invalid_client', error_description: 'Unknown client' },
+      }));
+
+      const err = await auth.getAuthorizationHeader().catch((e) => e);
+      expect(err).toBeInstanceOf(PIAuthError);
+      expect(err.status).toBe(401);
+      expect(err.message).toBe(`OAuth2 token request to ${url} returned 401: Unknown client`);
+    });
+
+    it('rejects a response without an access token', async () => {
+      const { auth } = await provider(() => ({ status: 200, body: { token_type: 'Bearer' } }));
+      await expect(auth.getAuthorizationHeader()).rejects.toThrow('has no access_token');
+    });
+  });
+});
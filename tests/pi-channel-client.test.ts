@@ -8,7 +8,13 @@ mock.module('ws', () => ({
 }));
 
 // Dynamic import after mock setup
-const { PIChannelClient } = await import('../src/pi-channel-client');
+const { PIChannelClient, decodePIValue } = await import('../src/pi-channel-client');
+const { BasicAuthProvider } = await import('../src/pi-auth');
+
+/** Let connect() finish awaiting the auth header after a reconnect timer fires. */
+async function flushMicrotasks(): Promise<void> {
+  for (let i = 0; i < 5; i++) await Promise.resolve();
+}
 
 function createMockWs(): EventEmitter & { close: ReturnType<typeof jest.fn>; pong: ReturnType<typeof jest.fn> } {
   const emitter = new EventEmitter() as EventEmitter & {
@@ -24,8 +30,7 @@ describe('PIChannelClient', () => {
   const defaultConfig = {
     server: 'piwebapi.example.com',
     webIds: ['WEBID_A', 'WEBID_B'],
-    username: 'DOMAIN\\user',
-    password: 'secret',
+    auth: new BasicAuthProvider('DOMAIN\\user', 'secret'),
     includeInitialValues: true as boolean | undefined,
     heartbeatRate: 10,
     maxReconnectAttempts: 3,
@@ -49,9 +54,9 @@ describe('PIChannelClient', () => {
   });
 
   describe('constructor', () => {
-    it('builds correct WebSocket URL with webId params', () => {
+    it('builds correct WebSocket URL with webId params', async () => {
       const client = new PIChannelClient(defaultConfig);
-      client.connect();
+      await client.connect();
 
       const url = MockWebSocketConstructor.mock.calls[0][0] as string;
       expect(url).toContain('wss://piwebapi.example.com/piwebapi/streamsets/channel');
@@ -61,28 +66,39 @@ describe('PIChannelClient', () => {
       expect(url).toContain('heartbeatRate=10');
     });
 
-    it('sets Basic auth header', () => {
+    it('subscribes to a whole AF element via the path-based channel', async () => {
+      const client = new PIChannelClient({ ...defaultConfig, webIds: undefined, elementWebId: 'EL_BOP' });
+      await client.connect();
+
+      const url = MockWebSocketConstructor.mock.calls[0][0] as string;
+      expect(url).toStartWith('wss://piwebapi.example.com/piwebapi/streamsets/EL_BOP/channel?');
+      expect(url).toContain('searchFullHierarchy=true');
+      expect(url).not.toContain('webId=');
+      expect(url).toContain('heartbeatRate=10');
+    });
+
+    it('sets Basic auth header', async () => {
       const client = new PIChannelClient(defaultConfig);
-      client.connect();
+      await client.connect();
 
       const opts = MockWebSocketConstructor.mock.calls[0][1] as any;
       const expected = 'Basic ' + Buffer.from('DOMAIN\\user:secret').toString('base64');
       expect(opts.headers.Authorization).toBe(expected);
     });
 
-    it('defaults includeInitialValues to true', () => {
+    it('defaults includeInitialValues to true', async () => {
       const config = { ...defaultConfig, includeInitialValues: undefined };
       const client = new PIChannelClient(config);
-      client.connect();
+      await client.connect();
 
       const url = MockWebSocketConstructor.mock.calls[0][0] as string;
       expect(url).toContain('includeInitialValues=true');
     });
 
-    it('sets includeInitialValues=false when configured', () => {
+    it('sets includeInitialValues=false when configured', async () => {
       const config = { ...defaultConfig, includeInitialValues: false };
       const client = new PIChannelClient(config);
-      client.connect();
+      await client.connect();
 
       const url = MockWebSocketConstructor.mock.calls[0][0] as string;
       expect(url).toContain('includeInitialValues=false');
@@ -90,18 +106,20 @@ describe('PIChannelClient', () => {
   });
 
   describe('connect — message handling', () => {
-    it('emits connected on open', (done) => {
+    it('emits connected on open', async () => {
       const client = new PIChannelClient(defaultConfig);
-      client.on('connected', done);
-      client.connect();
+      const handler = jest.fn();
+      client.on('connected', handler);
+      await client.connect();
       mockWs.emit('open');
+      expect(handler).toHaveBeenCalledTimes(1);
     });
 
-    it('emits value events for each stream item', () => {
+    it('emits value events for each stream item', async () => {
       const client = new PIChannelClient(defaultConfig);
       const handler = jest.fn();
       client.on('value', handler);
-      client.connect();
+      await client.connect();
 
       const message = JSON.stringify({
         Items: [
@@ -137,11 +155,11 @@ describe('PIChannelClient', () => {
       );
     });
 
-    it('emits multiple value events for multiple streams/items', () => {
+    it('emits multiple value events for multiple streams/items', async () => {
       const client = new PIChannelClient(defaultConfig);
       const handler = jest.fn();
       client.on('value', handler);
-      client.connect();
+      await client.connect();
 
       const message = JSON.stringify({
         Items: [
@@ -165,50 +183,62 @@ describe('PIChannelClient', () => {
       expect(handler).toHaveBeenCalledTimes(3);
     });
 
-    it('ignores non-JSON messages (heartbeats)', () => {
+    it('ignores non-JSON messages (heartbeats)', async () => {
       const client = new PIChannelClient(defaultConfig);
       const handler = jest.fn();
       client.on('value', handler);
-      client.connect();
+      await client.connect();
 
       mockWs.emit('message', 'not-json');
       expect(handler).not.toHaveBeenCalled();
     });
 
-    it('responds to ping with pong', () => {
+    it('responds to ping with pong', async () => {
       const client = new PIChannelClient(defaultConfig);
-      client.connect();
+      await client.connect();
       mockWs.emit('ping');
       expect(mockWs.pong).toHaveBeenCalled();
     });
   });
 
   describe('reconnection', () => {
-    it('schedules reconnect on unexpected close', () => {
+    it('schedules reconnect on unexpected close', async () => {
       const client = new PIChannelClient(defaultConfig);
-      client.connect();
+      await client.connect();
 
       spyOn(Math, 'random').mockReturnValue(0);
 
       mockWs.emit('close');
 
       jest.advanceTimersByTime(1000);
+      await flushMicrotasks();
       expect(MockWebSocketConstructor).toHaveBeenCalledTimes(2);
     });
 
-    it('does not reconnect on intentional disconnect', () => {
+    it('emits close when the socket closes', async () => {
+      const client = new PIChannelClient(defaultConfig);
+      const handler = jest.fn();
+      client.on('close', handler);
+      await client.connect();
+
+      mockWs.emit('close');
+      expect(handler).toHaveBeenCalledTimes(1);
+    });
+
+    it('does not reconnect on intentional disconnect', async () => {
       const client = new PIChannelClient(defaultConfig);
-      client.connect();
+      await client.connect();
 
       client.disconnect();
       expect(mockWs.close).toHaveBeenCalled();
 
       mockWs.emit('close');
       jest.advanceTimersByTime(60000);
+      await flushMicrotasks();
       expect(MockWebSocketConstructor).toHaveBeenCalledTimes(1);
     });
 
-    it('emits maxReconnectReached after max attempts', () => {
+    it('emits maxReconnectReached after max attempts', async () => {
       const config = { ...defaultConfig, maxReconnectAttempts: 2 };
       const client = new PIChannelClient(config);
       const maxHandler = jest.fn();
@@ -216,11 +246,12 @@ describe('PIChannelClient', () => {
 
       spyOn(Math, 'random').mockReturnValue(0);
 
-      client.connect();
+      await client.connect();
 
       // First close — attempt 1
       mockWs.emit('close');
       jest.advanceTimersByTime(1000);
+      await flushMicrotasks();
 
       const mockWs2 = createMockWs();
       MockWebSocketConstructor.mockImplementation(() => mockWs2);
@@ -228,6 +259,7 @@ describe('PIChannelClient', () => {
       // Second close — attempt 2
       mockWs.emit('close');
       jest.advanceTimersByTime(2000);
+      await flushMicrotasks();
 
       const mockWs3 = createMockWs();
       MockWebSocketConstructor.mockImplementation(() => mockWs3);
@@ -238,10 +270,177 @@ describe('PIChannelClient', () => {
     });
   });
 
+  describe('gap backfill', () => {
+    function sample(Timestamp: string, Value: number) {
+      return { Timestamp, Value, UnitsAbbreviation: '', Good: true, Questionable: false, Substituted: false, Annotated: false };
+    }
+
+    function message(streams: Record<string, ReturnType<typeof sample>[]>): string {
+      return JSON.stringify({
+        Items: Object.entries(streams).map(([WebId, Items]) => ({ WebId, Name: `TAG_${WebId}`, Items })),
+      });
+    }
+
+    /** Connect, receive one value per stream, drop, and open a second socket. */
+    async function reconnect(client: InstanceType<typeof PIChannelClient>) {
+      spyOn(Math, 'random').mockReturnValue(0);
+      await client.connect();
+      mockWs.emit('open');
+      mockWs.emit('message', message({
+        WEBID_A: [sample('2025-01-01T00:00:00Z', 100)],
+        WEBID_B: [sample('2025-01-01T00:00:01Z', 200)],
+      }));
+
+      const mockWs2 = createMockWs();
+      MockWebSocketConstructor.mockImplementation(() => mockWs2);
+      mockWs.emit('close');
+      jest.advanceTimersByTime(1000);
+      await flushMicrotasks();
+      return mockWs2;
+    }
+
+    it('replays recorded values for the gap in timestamp order before live values', async () => {
+      const recorded: Record<string, ReturnType<typeof sample>[]> = {
+        // The recorded window starts at the last value seen, inclusive
+        WEBID_A: [sample('2025-01-01T00:00:00Z', 100), sample('2025-01-01T00:00:10Z', 110), sample('2025-01-01T00:00:30Z', 130)],
+        WEBID_B: [sample('2025-01-01T00:00:20Z', 220)],
+      };
+      const backfill = {
+        getRecordedValuesForStreams: jest.fn(async (queries: any[]) => new Map(queries.map((q) => [q.webId, recorded[q.webId]!]))),
+      };
+      const client = new PIChannelClient({ ...defaultConfig, backfill });
+      const values: any[] = [];
+      client.on('value', (v) => values.push(v));
+      const backfilled = new Promise<any>((resolve) => client.once('backfilled', resolve));
+
+      const ws2 = await reconnect(client);
+      values.length = 0;
+      ws2.emit('open');
+      // Initial value (already replayed) and a new one arrive while the backfill runs
+      ws2.emit('message', message({ WEBID_A: [sample('2025-01-01T00:00:30Z', 130), sample('2025-01-01T00:00:40Z', 140)] }));
+
+      expect(await backfilled).toEqual(expect.objectContaining({ values: 3, streams: 2 }));
+      expect(backfill.getRecordedValuesForStreams).toHaveBeenCalledTimes(1);
+      expect(backfill.getRecordedValuesForStreams).toHaveBeenCalledWith([
+        { webId: 'WEBID_A', startTime: '2025-01-01T00:00:00Z', endTime: '*', maxCount: 1000 },
+        { webId: 'WEBID_B', startTime: '2025-01-01T00:00:01Z', endTime: '*', maxCount: 1000 },
+      ]);
+      expect(values.map((v) => [v.webId, v.Value, v.backfilled])).toEqual([
+        ['WEBID_A', 110, true],
+        ['WEBID_B', 220, true],
+        ['WEBID_A', 130, true],
+        ['WEBID_A', 140, undefined],
+      ]);
+    });
+
+    it('pages through long gaps', async () => {
+      const pages = [
+        [sample('2025-01-01T00:00:00Z', 100), sample('2025-01-01T00:00:10Z', 110)],
+        [sample('2025-01-01T00:00:10Z', 110), sample('2025-01-01T00:00:20Z', 120)],
+        [sample('2025-01-01T00:00:20Z', 120)],
+      ];
+      const backfill = {
+        getRecordedValuesForStreams: jest.fn(async (queries: any[]) =>
+          new Map(queries.map((q) => [q.webId, q.webId === 'WEBID_A' ? pages.shift()! : []]))
+        ),
+      };
+      const client = new PIChannelClient({ ...defaultConfig, backfill, backfillPageSize: 2 });
+      const backfilled = new Promise<any>((resolve) => client.once('backfilled', resolve));
+
+      (await reconnect(client)).emit('open');
+
+      expect((await backfilled).values).toBe(2);
+      // Only the stream with a full page is asked again
+      expect(backfill.getRecordedValuesForStreams.mock.calls.map(([queries]) => queries.map((q: any) => q.startTime))).toEqual([
+        ['2025-01-01T00:00:00Z', '2025-01-01T00:00:01Z'],
+        ['2025-01-01T00:00:10Z'],
+        ['2025-01-01T00:00:20Z'],
+      ]);
+    });
+
+    it('still resumes live values when a recorded request fails', async () => {
+      const backfill = {
+        getRecordedValuesForStreams: jest.fn(async () =>
+          new Map<string, any>([['WEBID_A', new Error('status 503 — Service Unavailable')], ['WEBID_B', []]])
+        ),
+      };
+      const client = new PIChannelClient({ ...defaultConfig, backfill });
+      const values: any[] = [];
+      client.on('value', (v) => values.push(v));
+      const backfilled = new Promise<any>((resolve) => client.once('backfilled', resolve));
+
+      const ws2 = await reconnect(client);
+      ws2.emit('open');
+      ws2.emit('message', message({ WEBID_B: [sample('2025-01-01T00:01:00Z', 260)] }));
+
+      expect((await backfilled).values).toBe(0);
+      expect(values.at(-1)).toEqual(expect.objectContaining({ webId: 'WEBID_B', Value: 260 }));
+      expect(console.error).toHaveBeenCalledWith(
+        '[PI Channel] Backfill failed for TAG_WEBID_A: status 503 — Service Unavailable'
+      );
+    });
+
+    it('backfills the new gap too when the socket reconnects during a backfill', async () => {
+      let answerFirst!: (results: Map<string, any>) => void;
+      const backfill = {
+        getRecordedValuesForStreams: jest
+          .fn<(queries: any[]) => Promise<Map<string, any>>>()
+          .mockImplementationOnce(() => new Promise((resolve) => (answerFirst = resolve)))
+          .mockImplementationOnce(async () =>
+            new Map([['WEBID_A', [sample('2025-01-01T00:00:30Z', 130)]], ['WEBID_B', []]])
+          ),
+      };
+      const client = new PIChannelClient({ ...defaultConfig, backfill });
+      const values: any[] = [];
+      client.on('value', (v) => values.push(v));
+      let backfills = 0;
+      const secondBackfill = new Promise<void>((resolve) =>
+        client.on('backfilled', () => ++backfills === 2 && resolve())
+      );
+
+      const ws2 = await reconnect(client);
+      values.length = 0;
+      ws2.emit('open');
+      ws2.emit('message', message({ WEBID_A: [sample('2025-01-01T00:00:05Z', 105)] }));
+
+      // Drops again and comes back while the first backfill is still waiting on PI
+      const ws3 = createMockWs();
+      MockWebSocketConstructor.mockImplementation(() => ws3);
+      ws2.emit('close');
+      jest.advanceTimersByTime(1000);
+      await flushMicrotasks();
+      ws3.emit('open');
+      ws3.emit('message', message({ WEBID_A: [sample('2025-01-01T00:01:00Z', 160)] }));
+
+      answerFirst(new Map([['WEBID_A', [sample('2025-01-01T00:00:02Z', 102)]], ['WEBID_B', []]]));
+      await secondBackfill;
+
+      // The second backfill starts after the values the old socket delivered
+      expect(backfill.getRecordedValuesForStreams.mock.calls[1]![0]).toEqual([
+        { webId: 'WEBID_A', startTime: '2025-01-01T00:00:05Z', endTime: '*', maxCount: 1000 },
+        { webId: 'WEBID_B', startTime: '2025-01-01T00:00:01Z', endTime: '*', maxCount: 1000 },
+      ]);
+      expect(values.map((v) => [v.Value, v.backfilled])).toEqual([
+        [102, true],
+        [105, undefined],
+        [130, true],
+        [160, undefined],
+      ]);
+    });
+
+    it('does not backfill on the first connection', async () => {
+      const backfill = { getRecordedValuesForStreams: jest.fn(async () => new Map()) };
+      const client = new PIChannelClient({ ...defaultConfig, backfill });
+      await client.connect();
+      mockWs.emit('open');
+      expect(backfill.getRecordedValuesForStreams).not.toHaveBeenCalled();
+    });
+  });
+
   describe('error handling', () => {
-    it('logs WebSocket errors', () => {
+    it('logs WebSocket errors', async () => {
       const client = new PIChannelClient(defaultConfig);
-      client.connect();
+      await client.connect();
       mockWs.emit('error', new Error('Connection refused'));
       expect(console.error).toHaveBeenCalledWith(
         '[PI Channel] Error:',
@@ -249,4 +448,76 @@ describe('PIChannelClient', () => {
       );
     });
   });
+
+  describe('authentication', () => {
+    function provider(header: () => Promise<string>) {
+      return { mode: 'client_credentials' as const, getAuthorizationHeader: jest.fn(header), invalidate: jest.fn() };
+    }
+
+    it('sends the header from the auth provider', async () => {
+      const auth = provider(async () => 'Bearer T1');
+      await new PIChannelClient({ ...defaultConfig, auth }).connect();
+
+      const opts = MockWebSocketConstructor.mock.calls[0][1] as any;
+      expect(opts.headers.Authorization).toBe('Bearer T1');
+    });
+
+    it('drops the token when the handshake is rejected with 401', async () => {
+      const auth = provider(async () => 'Bearer EXPIRED');
+      await new PIChannelClient({ ...defaultConfig, auth }).connect();
+
+      mockWs.emit('error', new Error('Unexpected server response: 401'));
+      expect(auth.invalidate).toHaveBeenCalledTimes(1);
+    });
+
+    it('retries later when no token can be obtained', async () => {
+      spyOn(Math, 'random').mockReturnValue(0);
+      let calls = 0;
+      const auth = provider(async () => {
+        if (++calls === 1) throw new Error('OAuth2 token request to https://idp/token failed: ECONNREFUSED');
+        return 'Bearer T2';
+      });
+      const client = new PIChannelClient({ ...defaultConfig, auth });
+
+      await client.connect();
+      expect(MockWebSocketConstructor).not.toHaveBeenCalled();
+      expect(console.error).toHaveBeenCalledWith(
+        '[PI Channel] Cannot authenticate: OAuth2 token request to https://idp/token failed: ECONNREFUSED'
+      );
+
+      jest.advanceTimersByTime(1000);
+      await flushMicrotasks();
+      expect((MockWebSocketConstructor.mock.calls[0][1] as any).headers.Authorization).toBe('Bearer T2');
+    });
+
+    it('retries later when the socket cannot be created', async () => {
+      spyOn(Math, 'random').mockReturnValue(0);
+      MockWebSocketConstructor.mockImplementationOnce(() => {
+        throw new SyntaxError('Invalid URL');
+      });
+      const client = new PIChannelClient(defaultConfig);
+
+      await expect(client.connect()).resolves.toBeUndefined();
+      expect(console.error).toHaveBeenCalledWith('[PI Channel] Cannot open the channel: Invalid URL');
+
+      jest.advanceTimersByTime(1000);
+      await flushMicrotasks();
+      expect(MockWebSocketConstructor).toHaveBeenCalledTimes(2);
+    });
+  });
+});
+
+describe('decodePIValue', () => {
+  it('passes numbers, booleans and strings through', () => {
+    expect(decodePIValue(3000)).toEqual({ value: 3000 });
+    expect(decodePIValue(true)).toEqual({ value: true });
+    expect(decodePIValue('CLOSED')).toEqual({ value: 'CLOSED' });
+  });
+
+  it('flattens a digital state into its name and code', () => {
+    expect(decodePIValue({ Name: 'FAULT', Value: 2, IsSystem: false })).toEqual({
+      value: 'FAULT',
+      stateCode: 2,
+    });
+  });
 });
@@ -1,20 +1,36 @@
 import { describe, it, expect, beforeEach, jest, mock, spyOn } from 'bun:test';
 
 const mockGet = jest.fn<(...args: any[]) => any>();
+const mockPost = jest.fn<(...args: any[]) => any>();
+const mockRequestInterceptor = jest.fn();
 
 mock.module('axios', () => ({
   default: {
-    create: jest.fn(() => ({ get: mockGet })),
+    create: jest.fn(() => ({
+      get: mockGet,
+      post: mockPost,
+      interceptors: { request: { use: mockRequestInterceptor } },
+    })),
   },
 }));
 
-const { PIRestClient } = await import('../src/pi-rest-client');
+const { PIRestClient, PIRequestError, piPointNameFromConfigString } = await import('../src/pi-rest-client');
+const { BasicAuthProvider, PIAuthError } = await import('../src/pi-auth');
+import type { PIStreamValue } from '../src/pi-channel-client';
+
+const FAST_RETRIES = { retryInitialDelayMs: 0, retryMaxDelayMs: 0 };
+
+function streamValue(Value: number, Timestamp = '2025-01-01T00:00:00Z'): PIStreamValue {
+  return {
+    Timestamp, Value, UnitsAbbreviation: '', Good: true, Questionable: false, Substituted: false, Annotated: false,
+  };
+}
 
 describe('PIRestClient', () => {
   let piRest: InstanceType<typeof PIRestClient>;
 
   beforeEach(() => {
-    piRest = new PIRestClient('piwebapi.example.com', 'user', 'pass');
+    piRest = new PIRestClient('piwebapi.example.com', new BasicAuthProvider('user', 'pass'), true, FAST_RETRIES);
     jest.clearAllMocks();
   });
 
@@ -83,25 +99,42 @@ describe('PIRestClient', () => {
   });
 
   describe('resolveTagsToWebIds', () => {
-    it('resolves multiple tags to webIds', async () => {
-      mockGet
-        .mockResolvedValueOnce({ data: { WebId: 'W1' } })
-        .mockResolvedValueOnce({ data: { WebId: 'W2' } });
+    it('resolves all tags in one batch request', async () => {
+      mockPost.mockResolvedValue({
+        data: {
+          '0': { Status: 200, Content: { WebId: 'W1' } },
+          '1': { Status: 200, Content: { WebId: 'W2' } },
+        },
+      });
 
       const map = await piRest.resolveTagsToWebIds('PISRV01', ['TAG1', 'TAG2']);
 
       expect(map.size).toBe(2);
       expect(map.get('TAG1')).toBe('W1');
       expect(map.get('TAG2')).toBe('W2');
+      expect(mockPost).toHaveBeenCalledTimes(1);
+      expect(mockPost).toHaveBeenCalledWith('/batch', {
+        '0': {
+          Method: 'GET',
+          Resource: `https://piwebapi.example.com/piwebapi/points?path=${encodeURIComponent('\\\\PISRV01\\TAG1')}`,
+        },
+        '1': {
+          Method: 'GET',
+          Resource: `https://piwebapi.example.com/piwebapi/points?path=${encodeURIComponent('\\\\PISRV01\\TAG2')}`,
+        },
+      });
     });
 
     it('skips tags that fail to resolve', async () => {
       spyOn(console, 'warn').mockImplementation((() => {}) as any);
 
-      mockGet
-        .mockResolvedValueOnce({ data: { WebId: 'W1' } })
-        .mockRejectedValueOnce(new Error('Not found'))
-        .mockResolvedValueOnce({ data: { WebId: 'W3' } });
+      mockPost.mockResolvedValue({
+        data: {
+          '0': { Status: 200, Content: { WebId: 'W1' } },
+          '1': { Status: 404, Content: { Errors: ["No PI Point matching '\\\\PISRV01\\BAD_TAG' was found."] } },
+          '2': { Status: 200, Content: { WebId: 'W3' } },
+        },
+      });
 
       const map = await piRest.resolveTagsToWebIds('PISRV01', [
         'TAG1',
@@ -114,13 +147,308 @@ describe('PIRestClient', () => {
       expect(map.has('BAD_TAG')).toBe(false);
       expect(map.get('TAG3')).toBe('W3');
       expect(console.warn).toHaveBeenCalledWith(
-        expect.stringContaining('Failed to resolve tag "BAD_TAG"')
+        expect.stringContaining('Failed to resolve tag "BAD_TAG": status 404 — No PI Point matching')
       );
     });
 
     it('returns empty map for empty tag list', async () => {
       const map = await piRest.resolveTagsToWebIds('PISRV01', []);
       expect(map.size).toBe(0);
+      expect(mockPost).not.toHaveBeenCalled();
+    });
+
+    it('rejects when the batch request itself fails', async () => {
+      mockPost.mockRejectedValue(new Error('502 Bad Gateway'));
+      await expect(piRest.resolveTagsToWebIds('PISRV01', ['TAG1'])).rejects.toThrow('502 Bad Gateway');
+    });
+  });
+
+  describe('batched stream reads', () => {
+    it('reads current values for several streams at once', async () => {
+      spyOn(console, 'warn').mockImplementation((() => {}) as any);
+      mockPost.mockResolvedValue({
+        data: {
+          '0': { Status: 200, Content: streamValue(3000) },
+          '1': { Status: 404, Content: { Message: 'Not found' } },
+        },
+      });
+
+      const values = await piRest.getStreamValues(['W1', 'W2']);
+
+      expect([...values]).toEqual([['W1', streamValue(3000)]]);
+      expect(mockPost.mock.calls[0][1]['0'].Resource).toBe('https://piwebapi.example.com/piwebapi/streams/W1/value');
+      expect(console.warn).toHaveBeenCalledWith('Failed to read W2: status 404 — Not found');
+    });
+
+    it('reads recorded values per stream, with an Error for failed streams', async () => {
+      mockPost.mockResolvedValue({
+        data: {
+          '0': { Status: 200, Content: { Items: [streamValue(1, 'T1')] } },
+          '1': { Status: 500, Content: {} },
+        },
+      });
+
+      const results = await piRest.getRecordedValuesForStreams([
+        { webId: 'W1', startTime: '2025-01-01T00:00:00Z', endTime: '*', maxCount: 50 },
+        { webId: 'W2' },
+      ]);
+
+      expect(results.get('W1')).toEqual([streamValue(1, 'T1')]);
+      expect(results.get('W2')).toBeInstanceOf(Error);
+      expect((results.get('W2') as Error).message).toBe('status 500');
+      const requests = mockPost.mock.calls[0][1];
+      expect(requests['0'].Resource).toBe(
+        'https://piwebapi.example.com/piwebapi/streams/W1/recorded?startTime=2025-01-01T00%3A00%3A00Z&endTime=*&maxCount=50'
+      );
+      expect(requests['1'].Resource).toBe(
+        'https://piwebapi.example.com/piwebapi/streams/W2/recorded?startTime=*-1h&endTime=*&maxCount=100'
+      );
+    });
+  });
+
+  describe('discoverElementTags', () => {
+    const elements: Record<string, any> = {
+      BOP: { WebId: 'EL_BOP', Path: '\\\\AF01\\DB\\Rig01\\BOP', HasChildren: true },
+      ACC: { WebId: 'EL_ACC', Path: '\\\\AF01\\DB\\Rig01\\BOP\\Accumulator', HasChildren: false },
+    };
+    const attributes: Record<string, any[]> = {
+      EL_BOP: [
+        { WebId: 'AT_NOTE', Path: '...|Note', DataReferencePlugIn: '', ConfigString: '' },
+      ],
+      EL_ACC: [
+        {
+          WebId: 'AT_PRESS',
+          Path: '\\\\AF01\\DB\\Rig01\\BOP\\Accumulator|System Pressure',
+          DataReferencePlugIn: 'PI Point',
+          ConfigString: '\\\\PISRV01\\BOP.ACC.PRESS.SYS;ReadOnly=False',
+          DefaultUnitsOfMeasure: 'PSI',
+          Links: { Point: 'https://pi/piwebapi/points/PT_PRESS' },
+        },
+        {
+          WebId: 'AT_TEMP',
+          Path: '\\\\AF01\\DB\\Rig01\\BOP\\Accumulator|Hydraulic Temp',
+          DataReferencePlugIn: 'PI Point',
+          ConfigString: '\\\\BOP.ACC.HYD.TEMP',
+          DefaultUnitsOfMeasure: '°F',
+          Links: {},
+        },
+        {
+          WebId: 'AT_TEMPLATED',
+          Path: '\\\\AF01\\DB\\Rig01\\BOP\\Accumulator|Level',
+          DataReferencePlugIn: 'PI Point',
+          ConfigString: '\\\\%Server%\\%Element%.LEVEL',
+          DefaultUnitsOfMeasure: 'gal',
+        },
+      ],
+    };
+
+    beforeEach(() => {
+      mockGet.mockImplementation(async (url: string, opts?: any) => {
+        if (url === '/elements') return { data: elements.BOP };
+        const attrs = url.match(/^\/elements\/(\w+)\/attributes$/);
+        if (attrs) return { data: { Items: attributes[attrs[1]] } };
+        if (url === '/elements/EL_BOP/elements') return { data: { Items: [elements.ACC] } };
+        throw new Error(`unexpected GET ${url} ${JSON.stringify(opts)}`);
+      });
+    });
+
+    it('walks child elements and maps PI Point attributes to tags and units', async () => {
+      spyOn(console, 'warn').mockImplementation((() => {}) as any);
+
+      const discovery = await piRest.discoverElementTags('\\\\AF01\\DB\\Rig01\\BOP');
+
+      expect(mockGet).toHaveBeenCalledWith('/elements', {
+        params: { path: '\\\\AF01\\DB\\Rig01\\BOP' },
+      });
+      expect(discovery.elementWebId).toBe('EL_BOP');
+      expect(discovery.tags).toEqual([
+        {
+          tag: 'BOP.ACC.PRESS.SYS',
+          unit: 'PSI',
+          webId: 'PT_PRESS',
+          attributeWebId: 'AT_PRESS',
+          attributePath: '\\\\AF01\\DB\\Rig01\\BOP\\Accumulator|System Pressure',
+        },
+        {
+          tag: 'BOP.ACC.HYD.TEMP',
+          unit: '°F',
+          webId: 'AT_TEMP',
+          attributeWebId: 'AT_TEMP',
+          attributePath: '\\\\AF01\\DB\\Rig01\\BOP\\Accumulator|Hydraulic Temp',
+        },
+      ]);
+      expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('unresolved PI Point reference'));
+      // Accumulator has no children, so it is not asked for any
+      expect(mockGet).not.toHaveBeenCalledWith('/elements/EL_ACC/elements');
+    });
+
+    it('fails when the element path does not exist', async () => {
+      mockGet.mockRejectedValue(new Error('404 Not Found'));
+
+      await expect(piRest.discoverElementTags('\\\\AF01\\DB\\Nope')).rejects.toThrow('404 Not Found');
+    });
+  });
+
+  describe('request policy', () => {
+    const httpError = (status: number, Message?: string) =>
+      Object.assign(new Error(`Request failed with status code ${status}`), {
+        response: { status, data: Message ? { Message } : {} },
+      });
+    const timeout = () => Object.assign(new Error('timeout of 10000ms exceeded'), { code: 'ECONNABORTED' });
+
+    beforeEach(() => {
+      spyOn(console, 'warn').mockImplementation((() => {}) as any);
+      spyOn(console, 'log').mockImplementation((() => {}) as any);
+    });
+
+    it('passes the timeout to axios', async () => {
+      const axios = (await import('axios')).default as any;
+      new PIRestClient('piwebapi.example.com', new BasicAuthProvider('user', 'pass'), true, { timeoutMs: 2500 });
+      expect(axios.create.mock.calls.at(-1)[0].timeout).toBe(2500);
+    });
+
+    it('retries transient GET failures and then succeeds', async () => {
+      mockGet
+        .mockRejectedValueOnce(timeout())
+        .mockRejectedValueOnce(httpError(503))
+        .mockResolvedValueOnce({ data: { Items: [] } });
+
+      expect(await piRest.getRecordedValues('WEBID1')).toEqual([]);
+      expect(mockGet).toHaveBeenCalledTimes(3);
+      expect(piRest.getCircuitStatus().consecutiveFailures).toBe(0);
+    });
+
+    it('gives up after the configured retries with a TIMEOUT error', async () => {
+      mockGet.mockRejectedValue(timeout());
+
+      const err = await piRest.getRecordedValues('WEBID1').catch((e) => e);
+      expect(err).toBeInstanceOf(PIRequestError);
+      expect(err.code).toBe('TIMEOUT');
+      expect(err.message).toBe(
+        'PI Web API GET /streams/WEBID1/recorded timed out after 10000ms (after 4 attempts)'
+      );
+      expect(mockGet).toHaveBeenCalledTimes(4);
+    });
+
+    it('does not retry requests the server rejected', async () => {
+      mockGet.mockRejectedValue(httpError(404, 'Unknown WebId'));
+
+      const err = await piRest.getRecordedValues('WEBID1').catch((e) => e);
+      expect(err.code).toBe('NOT_FOUND');
+      expect(err.details.status).toBe(404);
+      expect(err.message).toBe('PI Web API GET /streams/WEBID1/recorded returned 404: Unknown WebId');
+      expect(mockGet).toHaveBeenCalledTimes(1);
+      expect(piRest.getCircuitStatus().state).toBe('CLOSED');
+    });
+
+    it('maps 401 to AUTH', async () => {
+      mockGet.mockRejectedValue(httpError(401));
+      const err = await piRest.getStreamValue('WEBID1').catch((e) => e);
+      expect(err.code).toBe('AUTH');
+      expect(err.transient).toBe(false);
+    });
+
+    it('opens the circuit after repeated failures and fails fast', async () => {
+      piRest = new PIRestClient('piwebapi.example.com', new BasicAuthProvider('user', 'pass'), true, {
+        ...FAST_RETRIES,
+        retries: 0,
+        breakerFailureThreshold: 2,
+      });
+      mockGet.mockRejectedValue(httpError(500));
+
+      await piRest.getStreamValue('WEBID1').catch(() => {});
+      await piRest.getStreamValue('WEBID1').catch(() => {});
+      expect(piRest.getCircuitStatus().state).toBe('OPEN');
+      expect(piRest.getCircuitStatus().lastError).toBe('PI Web API GET /streams/WEBID1/value returned 500');
+
+      const err = await piRest.getStreamValue('WEBID1').catch((e) => e);
+      expect(err.code).toBe('CIRCUIT_OPEN');
+      expect(err.message).toBe('PI Web API unavailable (circuit open after repeated failures), retry in 30s');
+      expect(mockGet).toHaveBeenCalledTimes(2);
+    });
+
+    it('retries batch POSTs', async () => {
+      mockPost.mockRejectedValueOnce(httpError(502)).mockResolvedValueOnce({
+        data: { '0': { Status: 200, Content: streamValue(1) } },
+      });
+
+      const values = await piRest.getStreamValues(['W0']);
+      expect(values.get('W0')).toEqual(streamValue(1));
+      expect(mockPost).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('authentication', () => {
+    const tokenProvider = () => ({
+      mode: 'client_credentials' as const,
+      getAuthorizationHeader: jest.fn(async () => 'Bearer T1'),
+      invalidate: jest.fn(),
+    });
+
+    beforeEach(() => {
+      spyOn(console, 'warn').mockImplementation((() => {}) as any);
+    });
+
+    it('sets the Authorization header from the auth provider on every request', async () => {
+      const auth = tokenProvider();
+      new PIRestClient('piwebapi.example.com', auth, true, FAST_RETRIES);
+      const interceptor = mockRequestInterceptor.mock.calls.at(-1)![0] as (r: any) => Promise<any>;
+
+      const request = await interceptor({ headers: {} });
+      expect(request.headers.Authorization).toBe('Bearer T1');
+      expect(auth.getAuthorizationHeader).toHaveBeenCalledTimes(1);
+    });
+
+    it('drops a rejected access token and retries once', async () => {
+      const auth = tokenProvider();
+      piRest = new PIRestClient('piwebapi.example.com', auth, true, FAST_RETRIES);
+      const unauthorized = Object.assign(new Error('401'), { response: { status: 401, data: {} } });
+      mockGet.mockRejectedValueOnce(unauthorized).mockResolvedValueOnce({ data: { Value: 1 } });
+
+      expect(await piRest.getStreamValue('W1')).toEqual({ Value: 1 });
+      expect(auth.invalidate).toHaveBeenCalledTimes(1);
+      expect(mockGet).toHaveBeenCalledTimes(2);
+    });
+
+    it('does not retry when a refreshed token is rejected too', async () => {
+      const auth = tokenProvider();
+      piRest = new PIRestClient('piwebapi.example.com', auth, true, FAST_RETRIES);
+      mockGet.mockRejectedValue(Object.assign(new Error('401'), { response: { status: 401, data: {} } }));
+
+      const err = await piRest.getStreamValue('W1').catch((e) => e);
+      expect(err.code).toBe('AUTH');
+      expect(mockGet).toHaveBeenCalledTimes(2);
+    });
+
+    it('maps a token endpoint rejection to AUTH and an outage to a retried NETWORK error', async () => {
+      mockGet.mockRejectedValueOnce(
+        new PIAuthError('OAuth2 token request to https://idp/token returned 401: invalid_client', 401)
+      );
+      const rejected = await piRest.getStreamValue('W1').catch((e) => e);
+      expect(rejected.code).toBe('AUTH');
+      expect(rejected.message).toBe(
+        'PI Web API GET /streams/W1/value failed: OAuth2 token request to https://idp/token returned 401: invalid_client'
+      );
+      expect(mockGet).toHaveBeenCalledTimes(1);
+
+      mockGet.mockReset();
+      mockGet
+        .mockRejectedValueOnce(new PIAuthError('OAuth2 token request to https://idp/token returned 503', 503))
+        .mockResolvedValueOnce({ data: { Value: 2 } });
+      expect(await piRest.getStreamValue('W1')).toEqual({ Value: 2 });
+    });
+  });
+
+  describe('piPointNameFromConfigString', () => {
+    it('takes the point name from server-qualified and bare references', () => {
+      expect(piPointNameFromConfigString('\\\\PISRV01\\BOP.ACC.PRESS.SYS;ReadOnly=False')).toBe('BOP.ACC.PRESS.SYS');
+      expect(piPointNameFromConfigString('\\\\PISRV01\\WELL.FLOW.IN?1234')).toBe('WELL.FLOW.IN');
+      expect(piPointNameFromConfigString('\\\\BOP.ACC.HYD.TEMP')).toBe('BOP.ACC.HYD.TEMP');
+    });
+
+    it('rejects unresolved substitutions and empty strings', () => {
+      expect(piPointNameFromConfigString('\\\\%Server%\\%Element%.PRESS')).toBeNull();
+      expect(piPointNameFromConfigString('')).toBeNull();
     });
   });
 });
@@ -0,0 +1,182 @@
+import { describe, it, expect, beforeEach, afterEach, jest, mock, spyOn } from 'bun:test';
+import { configMock, sdkMock } from './shared-mocks';
+
+mock.module('../src/config', () => configMock());
+
+// Keep the full tool definition, schema included, as the real tool() does
+mock.module('@anthropic-ai/claude-agent-sdk', () =>
+  sdkMock({
+    tool: (name: string, description: string, inputSchema: any, handler: Function) => ({
+      name,
+      description,
+      inputSchema,
+      handler,
+    }),
+  })
+);
+
+const { SensorStateManager } = await import('../src/sensor-state');
+const { AlertManager } = await import('../src/alert-manager');
+const { createBOPTools } = await import('../src/bop-tools');
+const { ScriptedAnalysisEngine } = await import('../src/scripted-engine');
+const { BOPAgent } = await import('../src/bop-agent');
+const { IncidentMemory } = await import('../src/incident-memory');
+const { AnalysisLog } = await import('../src/analysis-log');
+import type { Playbook } from '../src/scripted-engine';
+import type { ThresholdBreach } from '../src/sensor-state';
+
+describe('ScriptedAnalysisEngine', () => {
+  let sensorState: InstanceType<typeof SensorStateManager>;
+  let alertManager: InstanceType<typeof AlertManager>;
+  const piRest = {
+    getRecordedValues: jest.fn(async () => [{ Timestamp: '2025-01-01T00:00:00Z', Value: 1500, Good: true }]),
+  } as any;
+
+  const t0 = new Date('2025-01-01T00:00:00Z');
+
+  beforeEach(() => {
+    spyOn(console, 'log').mockImplementation((() => {}) as any);
+    spyOn(console, 'warn').mockImplementation((() => {}) as any);
+    piRest.getRecordedValues.mockClear();
+
+    sensorState = new SensorStateManager(10, { maxAgeMs: 0 });
+    sensorState.registerTag('BOP.ACC.PRESS.SYS', 'w1', 'PSI');
+    sensorState.registerTag('WELL.PIT.VOL.DELTA', 'w2', 'bbl');
+    sensorState.setThresholds([
+      { tag: 'BOP.ACC.PRESS.SYS', warningLow: 2700, criticalLow: 1500 },
+      { tag: 'WELL.PIT.VOL.DELTA', warningHigh: 5, criticalHigh: 10 },
+    ]);
+    sensorState.update('w2', 0, t0, true);
+    alertManager = new AlertManager();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  function engine(playbook?: Playbook) {
+    return new ScriptedAnalysisEngine(createBOPTools(sensorState, piRest, alertManager, new IncidentMemory()), playbook);
+  }
+
+  it('runs a breach from sensor update to send_alert without an LLM', async () => {
+    const agent = new BOPAgent({} as any, { engine: engine(), analysisLog: new AnalysisLog() });
+    const breaches: ThresholdBreach[] = [];
+    sensorState.on('threshold_breach', (b: ThresholdBreach) => breaches.push(b));
+
+    sensorState.update('w1', 1400, t0, true);
+    expect(breaches).toHaveLength(1);
+
+    const result = await agent.analyze('ALERT TRIGGER', {
+      type: 'threshold_breach',
+      tags: ['BOP.ACC.PRESS.SYS'],
+      breaches,
+    });
+
+    const [alert] = await alertManager.getActiveAlerts();
+    expect(alert!.severity).toBe('CRITICAL');
+    expect(alert!.tags).toEqual(['BOP.ACC.PRESS.SYS']);
+    expect(alert!.recommendedAction).toContain('accumulator');
+    expect(piRest.getRecordedValues).toHaveBeenCalledWith('w1', '*-1h', '*', 60);
+    expect(result.toolsUsed).toEqual([
+      'mcp__bop-tools__get_bop_status',
+      'mcp__bop-tools__get_instrument_health',
+      'mcp__bop-tools__get_sensor_liveness',
+      'mcp__bop-tools__get_sensor_history',
+      'mcp__bop-tools__send_alert',
+      'mcp__bop-findings__submit_findings',
+    ]);
+    expect(result.text).toContain('Genuine CRITICAL breach');
+    expect(result.findings).toMatchObject({
+      rootCauses: [{ cause: breaches[0]!.message, confidence: 0.6 }],
+      affectedSubsystems: ['BOP.ACC'],
+      tags: ['BOP.ACC.PRESS.SYS'],
+      onset: 'unknown',
+    });
+  });
+
+  it('judges onset from the breached tag history', async () => {
+    const breach: ThresholdBreach = {
+      tag: 'BOP.ACC.PRESS.SYS',
+      value: 1400,
+      level: 'CRITICAL',
+      type: 'low',
+      threshold: 1500,
+      message: 'Accumulator pressure critically low',
+    };
+    sensorState.update('w1', 1400, t0, true);
+    const history = (values: number[]) => values.map((Value) => ({ Value, Good: true }));
+    const request = {
+      prompt: '',
+      model: 'sonnet',
+      trigger: { type: 'threshold_breach' as const, tags: [breach.tag], breaches: [breach] },
+    };
+
+    piRest.getRecordedValues.mockResolvedValueOnce(
+      history([3000, 2995, 2990, 2990, 2985, 2980, 2980, 2975, 2970, 1400])
+    );
+    expect((await engine().run(request)).findings!.onset).toBe('sudden');
+
+    piRest.getRecordedValues.mockResolvedValueOnce(
+      history([3000, 2800, 2600, 2400, 2200, 2000, 1800, 1600, 1500, 1400])
+    );
+    expect((await engine().run(request)).findings!.onset).toBe('gradual');
+  });
+
+  it('records the analysis as scripted, at no cost', async () => {
+    const log = new AnalysisLog();
+    const agent = new BOPAgent({} as any, { engine: engine(), analysisLog: log });
+
+    await agent.analyze('Routine check', { type: 'periodic' });
+
+    const [record] = log.query();
+    expect(record!.model).toBe('scripted');
+    expect(record!.costUsd).toBe(0);
+    expect(record!.text).toContain('No concerns found.');
+  });
+
+  it('logs an inspection instead of alerting when the breached instrument is suspect', async () => {
+    sensorState.update('w1', 1400, t0, false);
+    const breach: ThresholdBreach = {
+      tag: 'BOP.ACC.PRESS.SYS',
+      value: 1400,
+      level: 'CRITICAL',
+      type: 'low',
+      threshold: 1500,
+      message: 'Accumulator pressure critically low',
+    };
+
+    const result = await engine().run({
+      prompt: '',
+      model: 'sonnet',
+      trigger: { type: 'threshold_breach', tags: [breach.tag], breaches: [breach] },
+    });
+
+    expect(await alertManager.getActiveAlerts()).toEqual([]);
+    const [rec] = await alertManager.getRecommendations();
+    expect(rec!.category).toBe('INSPECTION');
+    expect(rec!.component).toBe('BOP.ACC.PRESS.SYS');
+    expect(rec!.priority).toBe('HIGH');
+    expect(result.text).toContain('Suspect instrumentation');
+    expect(result.findings!.rootCauses).toEqual([
+      { cause: 'Instrument fault on BOP.ACC.PRESS.SYS', confidence: 0.8 },
+    ]);
+  });
+
+  it('validates playbook arguments against the tool schema', async () => {
+    const playbook: Playbook = {
+      steps: [{ tool: 'send_alert', calls: () => [{ severity: 'URGENT', title: 'x' }] }],
+      summarize: () => '',
+    };
+
+    await expect(engine(playbook).run({ prompt: '', model: 'sonnet', trigger: { type: 'manual' } })).rejects.toThrow();
+    expect(await alertManager.getActiveAlerts()).toEqual([]);
+  });
+
+  it('rejects a playbook step naming an unknown tool', async () => {
+    const playbook: Playbook = { steps: [{ tool: 'open_valve', calls: () => [{}] }], summarize: () => '' };
+
+    await expect(engine(playbook).run({ prompt: '', model: 'sonnet', trigger: { type: 'manual' } })).rejects.toThrow(
+      'Playbook calls unknown tool "open_valve"'
+    );
+  });
+});
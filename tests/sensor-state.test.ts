@@ -1,5 +1,12 @@
 import { describe, it, expect, beforeEach, jest } from 'bun:test';
-import { SensorStateManager, ThresholdBreach } from '../src/sensor-state';
+import {
+  DEFAULT_HISTORY_SIZE,
+  SensorStateManager,
+  ThresholdBreach,
+  BreachCleared,
+  InstrumentFault,
+  SensorStaleEvent,
+} from '../src/sensor-state';
 import { ThresholdRule } from '../src/config';
 
 describe('SensorStateManager', () => {
@@ -24,6 +31,21 @@ describe('SensorStateManager', () => {
       expect(result.good).toBe(false);
     });
 
+    it('updates only the unit when a tag is registered again with the same webId', () => {
+      manager.registerTag('BOP.ACC.PRESS.SYS', 'webId1', 'PSI');
+      manager.update('webId1', 3000, new Date(), true);
+      manager.registerTag('BOP.ACC.PRESS.SYS', 'webId1', 'bar');
+      expect(manager.getCurrentValue('BOP.ACC.PRESS.SYS')).toMatchObject({ value: 3000, unit: 'bar' });
+    });
+
+    it('unregisters a tag and ignores its later values', () => {
+      manager.registerTag('BOP.ACC.PRESS.SYS', 'webId1', 'PSI');
+      manager.unregisterTag('BOP.ACC.PRESS.SYS');
+      manager.update('webId1', 3000, new Date(), true);
+      expect(manager.getCurrentValue('BOP.ACC.PRESS.SYS')).toEqual({ error: 'Unknown tag: BOP.ACC.PRESS.SYS' });
+      expect(manager.getWebId('BOP.ACC.PRESS.SYS')).toBeUndefined();
+    });
+
     it('resolves webId for registered tag', () => {
       manager.registerTag('BOP.ACC.PRESS.SYS', 'webId1', 'PSI');
       expect(manager.getWebId('BOP.ACC.PRESS.SYS')).toBe('webId1');
@@ -273,4 +295,500 @@ describe('SensorStateManager', () => {
       expect(handler).not.toHaveBeenCalled();
     });
   });
+
+  describe('threshold evaluation — transitions, deadband and on-delay', () => {
+    let breaches: ThresholdBreach[];
+    let cleared: BreachCleared[];
+    const t0 = Date.parse('2025-01-01T00:00:00Z');
+    const at = (sec: number) => new Date(t0 + sec * 1000);
+
+    function useRule(rule: Partial<ThresholdRule>): void {
+      manager.registerTag('BOP.ACC.PRESS.SYS', 'w1', 'PSI');
+      manager.setThresholds([{ tag: 'BOP.ACC.PRESS.SYS', warningLow: 2200, criticalLow: 1200, ...rule }]);
+      breaches = [];
+      cleared = [];
+      manager.on('threshold_breach', (b: ThresholdBreach) => breaches.push(b));
+      manager.on('breach_cleared', (c: BreachCleared) => cleared.push(c));
+    }
+
+    it('emits a breach once while the condition persists', () => {
+      useRule({});
+      manager.update('w1', 2100, at(0), true);
+      manager.update('w1', 2090, at(1), true);
+      manager.update('w1', 2080, at(2), true);
+      expect(breaches.length).toBe(1);
+    });
+
+    it('emits breach_cleared with duration when the value recovers', () => {
+      useRule({});
+      manager.update('w1', 2100, at(0), true);
+      manager.update('w1', 2300, at(30), true);
+      expect(cleared.length).toBe(1);
+      expect(cleared[0].level).toBe('WARNING');
+      expect(cleared[0].type).toBe('low');
+      expect(cleared[0].remainingLevel).toBeNull();
+      expect(cleared[0].durationMs).toBe(30_000);
+      expect(cleared[0].message).toContain('back above warning threshold 2200');
+    });
+
+    it('does not flap on a value hovering at the limit when a deadband is set', () => {
+      useRule({ deadband: 50 });
+      for (const [i, v] of [2199, 2201, 2198, 2230, 2199, 2240].entries()) {
+        manager.update('w1', v, at(i), true);
+      }
+      expect(breaches.length).toBe(1);
+      expect(cleared.length).toBe(0);
+
+      manager.update('w1', 2260, at(10), true);
+      expect(cleared.length).toBe(1);
+    });
+
+    it('flaps without a deadband', () => {
+      useRule({});
+      manager.update('w1', 2199, at(0), true);
+      manager.update('w1', 2201, at(1), true);
+      manager.update('w1', 2199, at(2), true);
+      expect(breaches.length).toBe(2);
+      expect(cleared.length).toBe(1);
+    });
+
+    it('steps a critical breach down to warning without a new breach event', () => {
+      useRule({ deadband: 50 });
+      manager.update('w1', 1100, at(0), true);
+      manager.update('w1', 1230, at(1), true);
+      expect(cleared.length).toBe(0);
+
+      manager.update('w1', 1500, at(2), true);
+      expect(breaches.map((b) => b.level)).toEqual(['CRITICAL']);
+      expect(cleared.length).toBe(1);
+      expect(cleared[0].level).toBe('CRITICAL');
+      expect(cleared[0].remainingLevel).toBe('WARNING');
+
+      // Back to critical is a new transition
+      manager.update('w1', 1100, at(3), true);
+      expect(breaches.map((b) => b.level)).toEqual(['CRITICAL', 'CRITICAL']);
+    });
+
+    it('escalates from warning to critical', () => {
+      useRule({});
+      manager.update('w1', 2100, at(0), true);
+      manager.update('w1', 1100, at(1), true);
+      expect(breaches.map((b) => b.level)).toEqual(['WARNING', 'CRITICAL']);
+      expect(cleared.length).toBe(0);
+    });
+
+    it('holds a breach back until onDelaySec has elapsed', () => {
+      useRule({ onDelaySec: 5 });
+      manager.update('w1', 2100, at(0), true);
+      manager.update('w1', 2100, at(3), true);
+      expect(breaches.length).toBe(0);
+      expect(manager.isWithinThresholds('BOP.ACC.PRESS.SYS')).toBe(false);
+
+      manager.update('w1', 2100, at(5), true);
+      expect(breaches.length).toBe(1);
+    });
+
+    it('restarts the onDelaySec timer when the value returns to normal', () => {
+      useRule({ onDelaySec: 5 });
+      manager.update('w1', 2100, at(0), true);
+      manager.update('w1', 2500, at(3), true);
+      manager.update('w1', 2100, at(4), true);
+      manager.update('w1', 2100, at(8), true);
+      expect(breaches.length).toBe(0);
+      manager.update('w1', 2100, at(9), true);
+      expect(breaches.length).toBe(1);
+    });
+
+    it('ignores a single noisy sample with an M-of-N on-delay', () => {
+      useRule({ onDelaySamples: { count: 3, outOf: 5 } });
+      for (const [i, v] of [2500, 1000, 2500, 2500, 2100, 2500].entries()) {
+        manager.update('w1', v, at(i), true);
+      }
+      expect(breaches.length).toBe(0);
+    });
+
+    it('raises once M of the last N samples breach, at the level they share', () => {
+      useRule({ onDelaySamples: { count: 3, outOf: 5 } });
+      for (const [i, v] of [2100, 2500, 1100, 2100].entries()) {
+        manager.update('w1', v, at(i), true);
+      }
+      expect(breaches.length).toBe(1);
+      expect(breaches[0].level).toBe('WARNING');
+    });
+
+    it('clears a rate of change breach once the change drops below the limit', () => {
+      manager = new SensorStateManager(2);
+      manager.registerTag('BOP.ACC.PRESS.SYS', 'w1', 'PSI');
+      manager.setThresholds([{ tag: 'BOP.ACC.PRESS.SYS', rateOfChangePer5Min: 200 }]);
+      const events: string[] = [];
+      manager.on('threshold_breach', (b: ThresholdBreach) => events.push(`breach:${b.type}`));
+      manager.on('breach_cleared', (c: BreachCleared) => events.push(`cleared:${c.type}`));
+
+      manager.update('w1', 3000, at(0), true);
+      manager.update('w1', 2700, at(300), true);
+      manager.update('w1', 2700, at(600), true);
+      expect(events).toEqual(['breach:rate_of_change', 'cleared:rate_of_change']);
+    });
+
+    it('resets tracked state when a rule changes', () => {
+      useRule({});
+      manager.update('w1', 2100, at(0), true);
+      manager.setThresholds([{ tag: 'BOP.ACC.PRESS.SYS', warningLow: 2150, criticalLow: 1200 }]);
+      manager.update('w1', 2100, at(1), true);
+      expect(breaches.length).toBe(2);
+    });
+
+    it('reports dropped breach state when a rule changes or its tag is unregistered', () => {
+      const resets: string[] = [];
+      manager.on('breach_reset', (tag: string) => resets.push(tag));
+      useRule({});
+      manager.update('w1', 2100, at(0), true);
+      manager.setThresholds([{ tag: 'BOP.ACC.PRESS.SYS', warningLow: 2150, criticalLow: 1200 }]);
+      expect(resets).toEqual(['BOP.ACC.PRESS.SYS']);
+
+      // Nothing active to drop
+      manager.setThresholds([{ tag: 'BOP.ACC.PRESS.SYS', warningLow: 2000, criticalLow: 1200 }]);
+      expect(resets).toEqual(['BOP.ACC.PRESS.SYS']);
+
+      manager.update('w1', 1900, at(1), true);
+      manager.unregisterTag('BOP.ACC.PRESS.SYS');
+      expect(resets).toEqual(['BOP.ACC.PRESS.SYS', 'BOP.ACC.PRESS.SYS']);
+    });
+
+    it('keeps tracked state when the same rule is set again', () => {
+      useRule({});
+      manager.update('w1', 2100, at(0), true);
+      manager.setThresholds([{ tag: 'BOP.ACC.PRESS.SYS', warningLow: 2200, criticalLow: 1200 }]);
+      manager.update('w1', 2100, at(1), true);
+      expect(breaches.length).toBe(1);
+    });
+
+    it('flags breaches and clears raised by backfilled samples', () => {
+      useRule({});
+      manager.update('w1', 2100, at(0), true, { backfilled: true });
+      manager.update('w1', 2300, at(10), true, { backfilled: true });
+      manager.update('w1', 2100, at(20), true);
+
+      expect(breaches[0].backfilled).toBe(true);
+      expect(breaches[0].message).toContain('(backfilled, recorded 2025-01-01T00:00:00.000Z)');
+      expect(cleared[0].backfilled).toBe(true);
+      expect(breaches[1].backfilled).toBeUndefined();
+      expect(breaches[1].message).not.toContain('backfilled');
+    });
+  });
+
+  describe('non-numeric values and state rules', () => {
+    let breaches: ThresholdBreach[];
+    let cleared: BreachCleared[];
+    const at = (sec: number) => new Date(Date.parse('2025-01-01T00:00:00Z') + sec * 1000);
+
+    beforeEach(() => {
+      manager.registerTag('BOP.CTRL.POD.BLUE.STATUS', 'w1', '');
+      manager.registerTag('BOP.ANN01.STATE', 'w2', '');
+      manager.registerTag('BOP.RAM.BSR01.LOCKED', 'w3', '');
+      manager.setThresholds([
+        {
+          tag: 'BOP.CTRL.POD.BLUE.STATUS',
+          states: [
+            { equals: 'FAULT', level: 'CRITICAL' },
+            { equals: 'STANDBY', level: 'WARNING' },
+          ],
+        },
+        { tag: 'BOP.ANN01.STATE', states: [{ equals: 'CLOSED', level: 'WARNING', on: 'transition' }] },
+        { tag: 'BOP.RAM.BSR01.LOCKED', warningLow: 1, states: [{ equals: false, level: 'WARNING' }] },
+      ]);
+      breaches = [];
+      cleared = [];
+      manager.on('threshold_breach', (b: ThresholdBreach) => breaches.push(b));
+      manager.on('breach_cleared', (c: BreachCleared) => cleared.push(c));
+    });
+
+    it('stores typed values and reports their type', () => {
+      manager.update('w1', 'ACTIVE', at(0), true, { stateCode: 1 });
+      manager.update('w3', true, at(0), true);
+      expect(manager.getCurrentValue('BOP.CTRL.POD.BLUE.STATUS')).toMatchObject({
+        value: 'ACTIVE',
+        valueType: 'digital',
+        stateCode: 1,
+      });
+      expect(manager.getFullSnapshot()['BOP.RAM.BSR01.LOCKED']).toMatchObject({
+        value: true,
+        valueType: 'boolean',
+      });
+    });
+
+    it('raises a state match once and clears when the state changes', () => {
+      manager.update('w1', 'ACTIVE', at(0), true, { stateCode: 1 });
+      manager.update('w1', 'FAULT', at(1), true, { stateCode: 2 });
+      manager.update('w1', 'FAULT', at(2), true, { stateCode: 2 });
+      expect(breaches.length).toBe(1);
+      expect(breaches[0]).toMatchObject({ level: 'CRITICAL', type: 'state', threshold: 'FAULT' });
+      expect(breaches[0].message).toBe('BOP.CTRL.POD.BLUE.STATUS = FAULT — in critical alarm state FAULT');
+
+      manager.update('w1', 'ACTIVE', at(5), true, { stateCode: 1 });
+      expect(cleared.length).toBe(1);
+      expect(cleared[0].durationMs).toBe(4000);
+      expect(cleared[0].message).toContain('left alarm state FAULT');
+    });
+
+    it('treats a change between alarm states as clear plus a new breach', () => {
+      manager.update('w1', 'STANDBY', at(0), true);
+      manager.update('w1', 'fault', at(1), true);
+      expect(breaches.map((b) => b.level)).toEqual(['WARNING', 'CRITICAL']);
+      expect(cleared.map((c) => c.threshold)).toEqual(['STANDBY']);
+    });
+
+    it('fires transition matches only on entering the state', () => {
+      manager.update('w2', 'CLOSED', at(0), true);
+      expect(breaches.length).toBe(0);
+
+      manager.update('w2', 'OPEN', at(1), true);
+      manager.update('w2', 'CLOSED', at(2), true);
+      manager.update('w2', 'CLOSED', at(3), true);
+      expect(breaches.length).toBe(1);
+      expect(breaches[0].type).toBe('transition');
+      expect(breaches[0].message).toContain('changed from OPEN to CLOSED');
+      expect(cleared.length).toBe(0);
+    });
+
+    it('matches booleans and skips numeric limits for non-numeric values', () => {
+      manager.update('w3', false, at(0), true);
+      expect(breaches.length).toBe(1);
+      expect(breaches[0].type).toBe('state');
+      expect(manager.isWithinThresholds('BOP.RAM.BSR01.LOCKED')).toBe(false);
+
+      manager.update('w3', true, at(1), true);
+      expect(cleared.length).toBe(1);
+      expect(manager.isWithinThresholds('BOP.RAM.BSR01.LOCKED')).toBe(true);
+    });
+  });
+
+  describe('data quality', () => {
+    let breaches: ThresholdBreach[];
+    const at = (sec: number) => new Date(Date.parse('2025-01-01T00:00:00Z') + sec * 1000);
+
+    function useRule(rule: Partial<ThresholdRule>): void {
+      manager.registerTag('BOP.ACC.PRESS.SYS', 'w1', 'PSI');
+      manager.setThresholds([{ tag: 'BOP.ACC.PRESS.SYS', warningLow: 2200, criticalLow: 1200, ...rule }]);
+      breaches = [];
+      manager.on('threshold_breach', (b: ThresholdBreach) => breaches.push(b));
+    }
+
+    it('never evaluates thresholds on bad samples', () => {
+      useRule({});
+      manager.update('w1', 3000, at(0), true);
+      manager.update('w1', 0, at(1), false);
+      expect(breaches.length).toBe(0);
+      expect(manager.getCurrentValue('BOP.ACC.PRESS.SYS').value).toBe(0);
+      expect(manager.isWithinThresholds('BOP.ACC.PRESS.SYS')).toBe(false);
+    });
+
+    it('holds the last good value under the hold policy', () => {
+      useRule({ qualityPolicy: 'hold' });
+      manager.update('w1', 3000, at(0), true);
+      manager.update('w1', -999, at(1), false);
+      expect(manager.getCurrentValue('BOP.ACC.PRESS.SYS')).toMatchObject({
+        value: 3000,
+        timestamp: at(0).toISOString(),
+        good: false,
+        held: true,
+      });
+
+      manager.update('w1', 2950, at(2), true);
+      expect(manager.getCurrentValue('BOP.ACC.PRESS.SYS').held).toBeUndefined();
+    });
+
+    it('emits instrument_fault once per bad run under the instrument_fault policy', () => {
+      useRule({ qualityPolicy: 'instrument_fault' });
+      const faults: InstrumentFault[] = [];
+      const recovered: InstrumentFault[] = [];
+      manager.on('instrument_fault', (f: InstrumentFault) => faults.push(f));
+      manager.on('instrument_recovered', (r: InstrumentFault) => recovered.push(r));
+
+      manager.update('w1', 3000, at(0), true);
+      manager.update('w1', 0, at(1), false);
+      manager.update('w1', 0, at(2), false);
+      expect(faults.length).toBe(1);
+      expect(faults[0].tag).toBe('BOP.ACC.PRESS.SYS');
+
+      manager.update('w1', 3000, at(31), true);
+      expect(recovered.length).toBe(1);
+      expect(recovered[0].message).toContain('after 30s');
+      expect(breaches.length).toBe(0);
+    });
+
+    it('does not emit instrument_fault under the default skip policy', () => {
+      useRule({});
+      const handler = jest.fn();
+      manager.on('instrument_fault', handler);
+      manager.update('w1', 0, at(0), false);
+      expect(handler).not.toHaveBeenCalled();
+    });
+
+    it('ignores bad samples in the rate of change window', () => {
+      useRule({ warningLow: undefined, criticalLow: undefined, rateOfChangePer5Min: 200 });
+      manager.update('w1', 0, at(0), false);
+      manager.update('w1', 3000, at(10), true);
+      manager.update('w1', 2990, at(310), true);
+      expect(breaches.length).toBe(0);
+    });
+
+    it('computes instrument health from the history window', () => {
+      useRule({});
+      manager.registerTag('BOP.ANN01.POS', 'w2', '');
+      for (let i = 0; i < 8; i++) manager.update('w1', 3000, at(i), true);
+      manager.update('w1', 3000, at(8), true, { questionable: true, substituted: true });
+      manager.update('w1', 0, at(9), false);
+
+      const [health] = manager.getInstrumentHealth();
+      expect(health).toEqual({
+        tag: 'BOP.ACC.PRESS.SYS',
+        samples: 10,
+        badPct: 10,
+        questionablePct: 10,
+        substitutedPct: 10,
+        status: 'FAILED',
+        badSince: at(9).toISOString(),
+      });
+
+      manager.update('w1', 3000, at(10), true);
+      expect(manager.getInstrumentHealth(['BOP.ACC.PRESS.SYS'])[0].status).toBe('DEGRADED');
+      expect(manager.getInstrumentHealth(['BOP.ANN01.POS'])).toEqual([]);
+    });
+
+    it('reports quality flags on the current value', () => {
+      useRule({});
+      manager.update('w1', 3000, at(0), true, { questionable: true });
+      expect(manager.getFullSnapshot()['BOP.ACC.PRESS.SYS']).toMatchObject({ questionable: true });
+    });
+  });
+
+  describe('staleness and flatline detection', () => {
+    let stale: SensorStaleEvent[];
+    let cleared: SensorStaleEvent[];
+    const at = (sec: number) => new Date(Date.parse('2025-01-01T00:00:00Z') + sec * 1000);
+    const later = (ms: number) => new Date(Date.now() + ms);
+
+    beforeEach(() => {
+      manager = new SensorStateManager(20, { maxAgeMs: 60_000 });
+      manager.registerTag('BOP.ACC.PRESS.SYS', 'w1', 'PSI');
+      manager.registerTag('BOP.ANN01.POS', 'w2', '');
+      stale = [];
+      cleared = [];
+      manager.on('sensor_stale', (e: SensorStaleEvent) => stale.push(e));
+      manager.on('sensor_stale_cleared', (e: SensorStaleEvent) => cleared.push(e));
+    });
+
+    it('flags a tag with no samples within max age, once', () => {
+      manager.update('w1', 3000, at(0), true);
+      manager.update('w2', 0, at(0), true);
+      manager.checkLiveness(later(30_000));
+      expect(stale.length).toBe(0);
+
+      manager.checkLiveness(later(90_000));
+      manager.checkLiveness(later(120_000));
+      expect(stale.map((e) => e.tag)).toEqual(['BOP.ACC.PRESS.SYS', 'BOP.ANN01.POS']);
+      expect(stale[0].kind).toBe('stale');
+
+      const [liveness] = manager.getSensorLiveness(['BOP.ACC.PRESS.SYS'], later(90_000));
+      expect(liveness.status).toBe('STALE');
+      expect(liveness.ageSec).toBe(90);
+      expect(liveness.lastSampleAt).toBe(at(0).toISOString());
+    });
+
+    it('flags tags that never report', () => {
+      manager.checkLiveness(later(90_000));
+      expect(stale.length).toBe(2);
+      expect(manager.getSensorLiveness(['BOP.ANN01.POS'])[0].lastSampleAt).toBeNull();
+    });
+
+    it('clears staleness when a sample arrives', () => {
+      manager.checkLiveness(later(90_000));
+      manager.update('w1', 3000, at(0), true);
+      expect(cleared.map((e) => e.tag)).toEqual(['BOP.ACC.PRESS.SYS']);
+      expect(manager.getSensorLiveness(['BOP.ACC.PRESS.SYS'])[0].status).toBe('OK');
+    });
+
+    it('uses the rule maxAgeSec override, where 0 disables the check', () => {
+      manager.setThresholds([
+        { tag: 'BOP.ACC.PRESS.SYS', maxAgeSec: 600 },
+        { tag: 'BOP.ANN01.POS', maxAgeSec: 0 },
+      ]);
+      manager.checkLiveness(later(90_000));
+      expect(stale.length).toBe(0);
+      manager.checkLiveness(later(700_000));
+      expect(stale.map((e) => e.tag)).toEqual(['BOP.ACC.PRESS.SYS']);
+    });
+
+    it('detects a frozen value once the window is covered, and clears on movement', () => {
+      manager.setThresholds([{ tag: 'BOP.ACC.PRESS.SYS', flatline: { windowSec: 60, minStdDev: 1 } }]);
+      for (let i = 0; i <= 6; i++) manager.update('w1', 3000, at(i * 10), true);
+      expect(stale.length).toBe(1);
+      expect(stale[0].kind).toBe('flatline');
+      expect(stale[0].since).toEqual(at(60));
+      expect(manager.getSensorLiveness(['BOP.ACC.PRESS.SYS'])[0]).toMatchObject({
+        status: 'FLATLINE',
+        windowStdDev: 0,
+      });
+
+      manager.update('w1', 3020, at(70), true);
+      expect(cleared.length).toBe(1);
+      expect(cleared[0].kind).toBe('flatline');
+      expect(manager.getSensorLiveness(['BOP.ACC.PRESS.SYS'])[0].status).toBe('OK');
+    });
+
+    it('decides the longest allowed window on a full 1 Hz history', () => {
+      manager = new SensorStateManager(DEFAULT_HISTORY_SIZE);
+      manager.registerTag('BOP.ACC.PRESS.SYS', 'w1', 'PSI');
+      manager.on('sensor_stale', (e: SensorStaleEvent) => stale.push(e));
+      manager.setThresholds([
+        { tag: 'BOP.ACC.PRESS.SYS', flatline: { windowSec: DEFAULT_HISTORY_SIZE - 1, minStdDev: 1 } },
+      ]);
+      for (let i = 0; i < DEFAULT_HISTORY_SIZE + 10; i++) manager.update('w1', 3000, at(i), true);
+      expect(stale.map((e) => e.kind)).toEqual(['flatline']);
+    });
+
+    it('does not flag normal noise as a flatline', () => {
+      manager.setThresholds([{ tag: 'BOP.ACC.PRESS.SYS', flatline: { windowSec: 60, minStdDev: 1 } }]);
+      for (let i = 0; i <= 6; i++) manager.update('w1', 3000 + (i % 2) * 10, at(i * 10), true);
+      expect(stale.length).toBe(0);
+    });
+
+    it('cannot tell whether a stale or frozen tag is within thresholds', () => {
+      manager.setThresholds([
+        { tag: 'BOP.ACC.PRESS.SYS', warningLow: 2200, flatline: { windowSec: 60, minStdDev: 1 } },
+      ]);
+      manager.update('w1', 3000, at(0), true);
+      expect(manager.isWithinThresholds('BOP.ACC.PRESS.SYS')).toBe(true);
+      manager.checkLiveness(later(90_000));
+      expect(manager.isWithinThresholds('BOP.ACC.PRESS.SYS')).toBeUndefined();
+
+      for (let i = 0; i <= 6; i++) manager.update('w1', 3000, at(100 + i * 10), true);
+      expect(stale.at(-1)).toMatchObject({ kind: 'flatline' });
+      expect(manager.isWithinThresholds('BOP.ACC.PRESS.SYS')).toBeUndefined();
+    });
+  });
+
+  describe('isWithinThresholds', () => {
+    beforeEach(() => {
+      manager.registerTag('BOP.ACC.PRESS.SYS', 'w1', 'PSI');
+      manager.registerTag('BOP.ANN01.POS', 'w2', '');
+      manager.setThresholds([{ tag: 'BOP.ACC.PRESS.SYS', warningLow: 2200, criticalLow: 1200 }]);
+    });
+
+    it('returns undefined before any value arrives or when the tag has no rule', () => {
+      expect(manager.isWithinThresholds('BOP.ACC.PRESS.SYS')).toBeUndefined();
+      manager.update('w2', 1, new Date(), true);
+      expect(manager.isWithinThresholds('BOP.ANN01.POS')).toBeUndefined();
+      expect(manager.isWithinThresholds('UNKNOWN')).toBeUndefined();
+    });
+
+    it('reflects whether the current value breaches the rule', () => {
+      manager.update('w1', 2100, new Date(), true);
+      expect(manager.isWithinThresholds('BOP.ACC.PRESS.SYS')).toBe(false);
+
+      manager.update('w1', 3000, new Date(), true);
+      expect(manager.isWithinThresholds('BOP.ACC.PRESS.SYS')).toBe(true);
+    });
+  });
 });
@@ -0,0 +1,242 @@
+import { describe, it, expect, beforeEach, afterEach, jest, mock, spyOn } from 'bun:test';
+import { sdkMock } from './shared-mocks';
+
+mock.module('@anthropic-ai/claude-agent-sdk', () =>
+  sdkMock({
+    tool: (name: string, description: string, inputSchema: any, handler: Function) => ({
+      name,
+      description,
+      inputSchema,
+      handler,
+    }),
+    createSdkMcpServer: (config: any) => ({ name: config.name, tools: config.tools }),
+  })
+);
+
+const { SessionAnalysisEngine } = await import('../src/session-engine');
+import type { SessionOptions } from '../src/session-engine';
+import type { AnalysisEngine, AnalysisRequest } from '../src/analysis-engine';
+import type { ThresholdBreach } from '../src/sensor-state';
+
+const OPTIONS: SessionOptions = {
+  model: 'sonnet',
+  maxTurns: 50,
+  compactAtTokens: 100_000,
+  maxContextTokens: 150_000,
+  turnTimeoutMs: 1000,
+};
+
+function request(prompt: string, model = 'sonnet'): AnalysisRequest {
+  return { prompt, model, trigger: { type: 'periodic' } };
+}
+
+/** Stands in for SdkAnalysisEngine, for the turns that run outside the session */
+function fakeOneShot() {
+  const run = jest.fn(async (req: AnalysisRequest) => ({ text: `one-shot: ${req.prompt}`, toolsUsed: [] }));
+  return { name: 'sdk', run } satisfies AnalysisEngine;
+}
+
+function assistant(text: string, contextTokens: number, tools: string[] = []) {
+  return {
+    type: 'assistant',
+    message: {
+      content: [...tools.map((name) => ({ type: 'tool_use', name })), { type: 'text', text }],
+      usage: { input_tokens: 100, cache_read_input_tokens: contextTokens - 100, cache_creation_input_tokens: 0 },
+    },
+  };
+}
+
+/**
+ * Stands in for BOPAgent.analyzeStreaming: one entry in `sessions` per
+ * conversation, answering each prompt with `respond` (assistant text plus a
+ * result carrying the cumulative cost, as the SDK does).
+ */
+function fakeStream(respond: (prompt: string, options: any) => Promise<any[]> | any[] = () => []) {
+  const sessions: { prompts: string[]; options: any; ended: boolean }[] = [];
+  const stream = jest.fn(async (messages: AsyncIterable<any>, options: any) => {
+    const session = { prompts: [] as string[], options, ended: false };
+    sessions.push(session);
+    let cost = 0;
+    for await (const message of messages) {
+      const prompt = message.message.content as string;
+      session.prompts.push(prompt);
+      const replies = await respond(prompt, options);
+      for (const reply of replies) options.onMessage(reply);
+      cost += 0.01;
+      options.onMessage({ type: 'result', subtype: 'success', result: '', total_cost_usd: cost });
+    }
+    session.ended = true;
+  });
+  return { stream, sessions };
+}
+
+const critical: ThresholdBreach = {
+  tag: 'BOP.ACC.PRESS.SYS',
+  value: 1100,
+  level: 'CRITICAL',
+  type: 'low',
+  threshold: 1200,
+  message: 'BOP.ACC.PRESS.SYS = 1100 — below critical threshold 1200',
+};
+
+describe('SessionAnalysisEngine', () => {
+  beforeEach(() => {
+    spyOn(console, 'log').mockImplementation((() => {}) as any);
+    spyOn(console, 'error').mockImplementation((() => {}) as any);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('sends every analysis into one conversation and reports each turn', async () => {
+    const { stream, sessions } = fakeStream((prompt) =>
+      prompt.includes('pit gain') ? [assistant('Flow-check advised', 5000, ['mcp__bop-tools__send_alert'])] : []
+    );
+    const engine = new SessionAnalysisEngine(stream, OPTIONS, fakeOneShot());
+
+    await engine.run(request('Routine check'));
+    const result = await engine.run({ ...request('pit gain 6 bbl'), trigger: { type: 'threshold_breach' } });
+
+    expect(stream).toHaveBeenCalledTimes(1);
+    expect(sessions[0]!.prompts).toHaveLength(2);
+    expect(sessions[0]!.prompts[1]).toMatch(/^\[.+ — threshold_breach\]\npit gain 6 bbl$/);
+    expect(result.text).toBe('Flow-check advised');
+    expect(result.toolsUsed).toEqual(['mcp__bop-tools__send_alert']);
+    // Cost per turn, from the session's cumulative total
+    expect(result.costUsd).toBeCloseTo(0.01);
+    expect(result.model).toBeUndefined();
+  });
+
+  it('routes submit_findings to the turn that is running', async () => {
+    const findings = {
+      summary: 'Nominal',
+      rootCauses: [],
+      affectedSubsystems: [],
+      tags: [],
+      recommendedActions: [],
+      onset: 'unknown' as const,
+    };
+    const { stream } = fakeStream(async (prompt, options) => {
+      if (prompt.includes('second')) await options.mcpServers['bop-findings'].tools[0].handler(findings, {});
+      return [];
+    });
+    const engine = new SessionAnalysisEngine(stream, OPTIONS, fakeOneShot());
+
+    const first = await engine.run(request('first'));
+    const second = await engine.run(request('second'));
+
+    expect(first.findings).toBeUndefined();
+    expect(second.findings).toEqual(findings);
+  });
+
+  it('streams the text of the running turn to its onText', async () => {
+    const { stream } = fakeStream(() => [assistant('Checking history', 5000), assistant('Pressure is stable', 5000)]);
+    const engine = new SessionAnalysisEngine(stream, OPTIONS, fakeOneShot());
+    const streamed: string[] = [];
+
+    await engine.run({ ...request('Why is pressure low?'), onText: (text) => streamed.push(text) });
+
+    expect(streamed).toEqual(['Checking history', 'Pressure is stable']);
+  });
+
+  it('compacts the session once its context passes compactAtTokens', async () => {
+    const { stream, sessions } = fakeStream((prompt) => (prompt === '/compact' ? [] : [assistant('ok', 120_000)]));
+    const engine = new SessionAnalysisEngine(stream, OPTIONS, fakeOneShot());
+
+    await engine.run(request('Routine check'));
+    await engine.run(request('Routine check'));
+
+    expect(sessions).toHaveLength(1);
+    expect(sessions[0]!.prompts[1]).toBe('/compact');
+  });
+
+  it('rotates after maxTurns, opening the next session with a carry-over summary', async () => {
+    const { stream, sessions } = fakeStream((prompt) =>
+      prompt.startsWith('SESSION ROTATION') ? [assistant('ACC pressure trending down 20 psi/h', 1000)] : []
+    );
+    const engine = new SessionAnalysisEngine(stream, { ...OPTIONS, maxTurns: 2 }, fakeOneShot());
+
+    await engine.run(request('one'));
+    await engine.run(request('two'));
+    await engine.run(request('three'));
+
+    expect(sessions).toHaveLength(2);
+    expect(sessions[0]!.prompts).toHaveLength(3);
+    expect(sessions[0]!.ended).toBe(true);
+    expect(sessions[1]!.prompts[0]).toStartWith(
+      'Carry-over summary from the previous monitoring session:\nACC pressure trending down 20 psi/h'
+    );
+    expect(sessions[1]!.prompts[0]).toEndWith('three');
+  });
+
+  it('rotates once the context passes maxContextTokens', async () => {
+    const { stream, sessions } = fakeStream(() => [assistant('ok', 160_000)]);
+    const engine = new SessionAnalysisEngine(stream, OPTIONS, fakeOneShot());
+
+    await engine.run(request('one'));
+    await engine.run(request('two'));
+
+    expect(sessions).toHaveLength(2);
+  });
+
+  it('fails the pending turn when the conversation breaks, and starts afresh next time', async () => {
+    let calls = 0;
+    const stream = jest.fn(async (messages: AsyncIterable<any>) => {
+      calls++;
+      for await (const _ of messages) throw new Error('API overloaded');
+    });
+    const engine = new SessionAnalysisEngine(stream as any, OPTIONS, fakeOneShot());
+
+    await expect(engine.run(request('one'))).rejects.toThrow('API overloaded');
+    await expect(engine.run(request('two'))).rejects.toThrow('API overloaded');
+    expect(calls).toBe(2);
+  });
+
+  it('gives up on a turn with no result within turnTimeoutMs', async () => {
+    const stream = jest.fn(async (messages: AsyncIterable<any>) => {
+      for await (const _ of messages) {
+        // never answers
+      }
+    });
+    const engine = new SessionAnalysisEngine(stream as any, { ...OPTIONS, turnTimeoutMs: 10 }, fakeOneShot());
+
+    await expect(engine.run(request('one'))).rejects.toThrow('Agent session #1 timed out');
+  });
+
+  it('runs analyses asking for another model outside the session', async () => {
+    const { stream, sessions } = fakeStream();
+    const oneShot = fakeOneShot();
+    const engine = new SessionAnalysisEngine(stream, OPTIONS, oneShot);
+
+    // The budget sent a WARNING job to the fallback model before any session was open
+    const fallback = await engine.run(request('WARNING breach', 'haiku'));
+    await engine.run({ ...request('CRITICAL breach'), trigger: { type: 'threshold_breach', breaches: [critical] } });
+
+    expect(fallback.text).toBe('one-shot: WARNING breach');
+    expect(oneShot.run).toHaveBeenCalledTimes(1);
+    expect(stream.mock.calls[0]![1].model).toBe('sonnet');
+    expect(sessions[0]!.prompts[0]).toEndWith('CRITICAL breach');
+  });
+
+  it('runs a CRITICAL breach outside the session while it is busy', async () => {
+    let release: (() => void) | undefined;
+    const { stream, sessions } = fakeStream((prompt) =>
+      prompt.endsWith('Routine check') ? new Promise<any[]>((resolve) => (release = () => resolve([]))) : []
+    );
+    const oneShot = fakeOneShot();
+    const engine = new SessionAnalysisEngine(stream, OPTIONS, oneShot);
+
+    const periodic = engine.run(request('Routine check'));
+    const result = await engine.run({
+      ...request('CRITICAL breach'),
+      trigger: { type: 'threshold_breach', breaches: [critical] },
+    });
+
+    expect(result.text).toBe('one-shot: CRITICAL breach');
+    while (!release) await new Promise((r) => setTimeout(r, 1));
+    release();
+    await periodic;
+    expect(sessions[0]!.prompts).toHaveLength(1);
+  });
+});
@@ -14,9 +14,23 @@ import { jest } from 'bun:test';
 export const MOCK_PI_CONFIG = {
   server: 'test',
   dataArchive: 'test',
+  rejectUnauthorized: true,
+  afElementPath: '',
+};
+
+export const MOCK_PI_AUTH_CONFIG = {
+  mode: 'basic' as const,
   username: 'test',
   password: 'test',
-  rejectUnauthorized: true,
+};
+
+export const MOCK_PI_REQUEST_CONFIG = {
+  timeoutMs: 10000,
+  retries: 3,
+  retryInitialDelayMs: 500,
+  retryMaxDelayMs: 5000,
+  breakerFailureThreshold: 5,
+  breakerResetMs: 30000,
 };
 
 export const MOCK_BOP_CONFIG = {
@@ -24,6 +38,71 @@ export const MOCK_BOP_CONFIG = {
   masp: 12500,
   analysisIntervalMs: 300000,
   agentModel: 'sonnet',
+  agentEngine: 'sdk' as const,
+};
+
+export const MOCK_AGENT_SESSION_CONFIG = {
+  maxTurns: 50,
+  compactAtTokens: 100000,
+  maxContextTokens: 150000,
+  turnTimeoutMs: 600000,
+};
+
+export const MOCK_INCIDENT_MEMORY_CONFIG = {
+  mergeWindowMs: 1800000,
+  resolveAfterMs: 600000,
+};
+
+export const MOCK_OPERATOR_CHAT_CONFIG = {
+  auditFile: './data/operator-chat.jsonl',
+};
+
+export const MOCK_OPERATOR_AUTH_CONFIG = {
+  tokens: {} as Record<string, string>,
+};
+
+export const MOCK_ANALYSIS_SCHEDULER_CONFIG = {
+  maxConcurrent: 1,
+  maxQueued: 20,
+  criticalFastPath: true,
+};
+
+export const MOCK_ANALYSIS_BUDGET_CONFIG = {
+  hourlyUsd: 0,
+  dailyUsd: 0,
+  maxAnalysesPerHour: 0,
+  warnRatio: 0.8,
+  fallbackModel: 'haiku',
+};
+
+export const MOCK_ALERT_STORE_CONFIG = {
+  backend: 'memory' as const,
+  dir: './data',
+  databaseUrl: undefined,
+};
+
+export const MOCK_ALERT_LIFECYCLE_CONFIG = {
+  autoResolveAfterMs: 300000,
+  escalationIntervalMs: 120000,
+  checkIntervalMs: 10000,
+  dedupWindowMs: 600000,
+};
+
+export const MOCK_SENSOR_LIVENESS_CONFIG = {
+  maxAgeMs: 120000,
+  checkIntervalMs: 10000,
+};
+
+export const MOCK_THRESHOLD_CONFIG = {
+  file: undefined,
+};
+
+export const MOCK_LIVE_EVENTS_CONFIG = {
+  sensorIntervalMs: 5000,
+};
+
+export const MOCK_NOTIFICATION_CONFIG = {
+  file: undefined,
 };
 
 export const MOCK_MONITORED_TAGS: Record<string, string> = {
@@ -72,7 +151,21 @@ export const MOCK_THRESHOLD_RULES = [
 export function configMock(overrides: Record<string, any> = {}) {
   return {
     PI_CONFIG: MOCK_PI_CONFIG,
+    PI_REQUEST_CONFIG: MOCK_PI_REQUEST_CONFIG,
+    PI_AUTH_CONFIG: MOCK_PI_AUTH_CONFIG,
     BOP_CONFIG: MOCK_BOP_CONFIG,
+    AGENT_SESSION_CONFIG: MOCK_AGENT_SESSION_CONFIG,
+    INCIDENT_MEMORY_CONFIG: MOCK_INCIDENT_MEMORY_CONFIG,
+    OPERATOR_CHAT_CONFIG: MOCK_OPERATOR_CHAT_CONFIG,
+    OPERATOR_AUTH_CONFIG: MOCK_OPERATOR_AUTH_CONFIG,
+    ANALYSIS_SCHEDULER_CONFIG: MOCK_ANALYSIS_SCHEDULER_CONFIG,
+    ANALYSIS_BUDGET_CONFIG: MOCK_ANALYSIS_BUDGET_CONFIG,
+    ALERT_STORE_CONFIG: MOCK_ALERT_STORE_CONFIG,
+    ALERT_LIFECYCLE_CONFIG: MOCK_ALERT_LIFECYCLE_CONFIG,
+    SENSOR_LIVENESS_CONFIG: MOCK_SENSOR_LIVENESS_CONFIG,
+    THRESHOLD_CONFIG: MOCK_THRESHOLD_CONFIG,
+    LIVE_EVENTS_CONFIG: MOCK_LIVE_EVENTS_CONFIG,
+    NOTIFICATION_CONFIG: MOCK_NOTIFICATION_CONFIG,
     MONITORED_TAGS: MOCK_MONITORED_TAGS,
     THRESHOLD_RULES: MOCK_THRESHOLD_RULES,
     ...overrides,
@@ -8,6 +8,9 @@ import { DataGenerator } from '../simulator/data-generator';
 import { ScenarioEngine } from '../simulator/scenario-engine';
 import { createCustomScenario } from '../simulator/custom-scenario';
 import { createRestHandler } from '../simulator/rest-handler';
+import { AFModel } from '../simulator/af-model';
+import { createAFHandler } from '../simulator/af-handler';
+import { SimulatorAuth, SimulatorAuthConfig, authConfigFromEnv } from '../simulator/auth';
 
 /** Create a TagRegistry with defaults loaded. */
 function createRegistry(dataArchive = 'SIMULATOR'): TagRegistry {
@@ -34,6 +37,9 @@ function mockRes(): any {
   res.statusCode = 0;
   res.headers = {};
   res.body = '';
+  res.setHeader = (name: string, value: string) => {
+    res.headers[name] = value;
+  };
   res.writeHead = (status: number, headers?: Record<string, string>) => {
     res.statusCode = status;
     Object.assign(res.headers, headers);
@@ -587,6 +593,87 @@ describe('REST Handler', () => {
     expect(res.statusCode).toBe(426);
   });
 
+  // ── POST /piwebapi/batch ──────────────────────────────────────
+
+  function postBatch(body: unknown): any {
+    const req = Object.assign(new EventEmitter(), mockReq('POST', '/piwebapi/batch'));
+    const res = mockRes();
+    expect(handler(req, res)).toBe(true);
+    req.emit('data', typeof body === 'string' ? body : JSON.stringify(body));
+    req.emit('end');
+    return res;
+  }
+
+  it('POST /batch runs independent requests and returns each response by name', () => {
+    const res = postBatch({
+      point: { Method: 'GET', Resource: 'https://localhost:8443/piwebapi/points?path=\\\\SIMULATOR\\BOP.ACC.PRESS.SYS' },
+      value: { Method: 'GET', Resource: `/piwebapi/streams/${webId}/value` },
+      missing: { Method: 'GET', Resource: '/piwebapi/points?path=\\\\SIMULATOR\\NOPE' },
+    });
+
+    expect(res.statusCode).toBe(207);
+    const body = resJson(res);
+    expect(Object.keys(body)).toEqual(['point', 'value', 'missing']);
+    expect(body.point.Status).toBe(200);
+    expect(body.point.Content.WebId).toBe(webId);
+    expect(body.value.Content.Value).toBeDefined();
+    expect(body.missing.Status).toBe(404);
+  });
+
+  it('POST /batch substitutes parent results into Resource via Parameters', () => {
+    const res = postBatch({
+      value: {
+        Method: 'GET',
+        Resource: 'https://localhost:8443/piwebapi/streams/{0}/value',
+        ParentIds: ['point'],
+        Parameters: ['$.point.Content.WebId'],
+      },
+      point: { Method: 'GET', Resource: '/piwebapi/points?path=\\\\SIMULATOR\\BOP.ACC.PRESS.SYS' },
+    });
+
+    expect(res.statusCode).toBe(200);
+    expect(resJson(res).value.Content.Links.Self).toContain(`/piwebapi/streams/${webId}/value`);
+  });
+
+  it('POST /batch expands a RequestTemplate once per parameter value', () => {
+    const webId2 = registry.getByTagName('BOP.ACC.PRESS.PRCHG')!.webId;
+    const res = postBatch({
+      set: { Method: 'GET', Resource: `/piwebapi/streamsets/value?webId=${webId}&webId=${webId2}` },
+      recorded: {
+        Method: 'GET',
+        ParentIds: ['set'],
+        Parameters: ['$.set.Content.Items[*].WebId'],
+        RequestTemplate: {
+          Resource: '/piwebapi/streams/{0}/recorded?startTime=2026-02-20T12:00:00Z&endTime=2026-02-20T12:00:09Z',
+        },
+      },
+    });
+
+    const items = resJson(res).recorded.Content.Items;
+    expect(items.length).toBe(2);
+    expect(items.every((i: any) => i.Status === 200)).toBe(true);
+    expect(items[1].Content.Links.Self).toContain(`/piwebapi/streams/${webId2}/recorded`);
+    expect(items[0].Content.Items.length).toBeGreaterThan(0);
+  });
+
+  it('POST /batch fails dependents of a failed parent and rejects bad bodies', () => {
+    const res = postBatch({
+      point: { Method: 'GET', Resource: '/piwebapi/points?path=\\\\SIMULATOR\\NOPE' },
+      value: {
+        Method: 'GET',
+        Resource: '/piwebapi/streams/{0}/value',
+        ParentIds: ['point'],
+        Parameters: ['$.point.Content.WebId'],
+      },
+      post: { Method: 'POST', Resource: '/piwebapi/points' },
+    });
+    const body = resJson(res);
+    expect(body.value.Status).toBe(409);
+    expect(body.post.Status).toBe(405);
+
+    expect(postBatch('{ nope').statusCode).toBe(400);
+  });
+
   // ── Unhandled routes return false ─────────────────────────────
 
   it('returns false for unknown routes', () => {
@@ -597,3 +684,144 @@ describe('REST Handler', () => {
     expect(handled).toBe(false);
   });
 });
+
+describe('AF Handler', () => {
+  let registry: TagRegistry;
+  let handler: ReturnType<typeof createAFHandler>;
+
+  beforeEach(() => {
+    registry = createRegistry('SIMULATOR');
+    const afModel = new AFModel('SIMULATOR');
+    afModel.loadFromDefaults();
+    handler = createAFHandler(afModel, createGenerator(registry), registry);
+  });
+
+  it('GET /piwebapi/elements?path= finds an element case-insensitively', () => {
+    const res = mockRes();
+    handler(mockReq('GET', '/piwebapi/elements?path=\\\\simulator\\BOP_Database\\Rig\\BOP Stack'), res);
+
+    expect(res.statusCode).toBe(200);
+    const body = resJson(res);
+    expect(body.Name).toBe('BOP Stack');
+    expect(body.Path).toBe('\\\\SIMULATOR\\BOP_Database\\Rig\\BOP Stack');
+    expect(body.HasChildren).toBe(true);
+  });
+
+  it('GET /piwebapi/elements?path= returns 404 for an unknown path and 400 without one', () => {
+    const missing = mockRes();
+    handler(mockReq('GET', '/piwebapi/elements?path=\\\\SIMULATOR\\BOP_Database\\Nope'), missing);
+    expect(missing.statusCode).toBe(404);
+
+    const noPath = mockRes();
+    handler(mockReq('GET', '/piwebapi/elements'), noPath);
+    expect(noPath.statusCode).toBe(400);
+  });
+
+  it('links PI Point attributes to their point', () => {
+    const elRes = mockRes();
+    handler(mockReq('GET', '/piwebapi/elements?path=\\\\SIMULATOR\\BOP_Database\\Rig\\BOP Stack\\Accumulator System'), elRes);
+    const attrsRes = mockRes();
+    handler(mockReq('GET', `/piwebapi/elements/${resJson(elRes).WebId}/attributes`), attrsRes);
+
+    const pressure = resJson(attrsRes).Items.find((a: any) => a.Name === 'System Pressure');
+    const point = registry.getByTagName('BOP.ACC.PRESS.SYS')!;
+    expect(pressure.ConfigString).toBe('\\\\BOP.ACC.PRESS.SYS');
+    expect(pressure.Links.Point).toBe(`https://localhost:8443/piwebapi/points/${point.webId}`);
+  });
+});
+
+describe('SimulatorAuth', () => {
+  const basic = (user: string, pass: string) => 'Basic ' + Buffer.from(`${user}:${pass}`).toString('base64');
+
+  function config(mode: SimulatorAuthConfig['mode']): SimulatorAuthConfig {
+    return { ...authConfigFromEnv(mode), tokenTtlSec: 60 };
+  }
+
+  function withAuth(method: string, url: string, authorization?: string): any {
+    const req = Object.assign(new EventEmitter(), mockReq(method, url));
+    if (authorization) req.headers.authorization = authorization;
+    return req;
+  }
+
+  function requestToken(auth: SimulatorAuth, form: string, authorization?: string): any {
+    const req = withAuth('POST', '/oauth/token', authorization);
+    const res = mockRes();
+    expect(auth.handleRequest(req, res)).toBe(true);
+    req.emit('data', form);
+    req.emit('end');
+    return res;
+  }
+
+  it('lets everything through in none mode', () => {
+    const auth = new SimulatorAuth(config('none'));
+    expect(auth.handleRequest(withAuth('GET', '/piwebapi/points'), mockRes())).toBe(false);
+  });
+
+  it('rejects PI Web API requests without valid Basic credentials', () => {
+    const auth = new SimulatorAuth(config('basic'));
+    const res = mockRes();
+
+    expect(auth.handleRequest(withAuth('GET', '/piwebapi/points', basic('sim', 'wrong')), res)).toBe(true);
+    expect(res.statusCode).toBe(401);
+    expect(res.headers['WWW-Authenticate']).toBe('Basic realm="PI Web API Simulator"');
+    expect(resJson(res).Message).toBe('Authorization has been denied for this request.');
+
+    expect(auth.handleRequest(withAuth('GET', '/piwebapi/points', basic('sim', 'sim')), mockRes())).toBe(false);
+  });
+
+  it('leaves admin routes open', () => {
+    const auth = new SimulatorAuth(config('basic'));
+    expect(auth.handleRequest(withAuth('GET', '/admin/status'), mockRes())).toBe(false);
+  });
+
+  it('accepts the static token in bearer mode', () => {
+    const auth = new SimulatorAuth(config('bearer'));
+    expect(auth.isAuthorized(withAuth('GET', '/piwebapi', 'Bearer sim-token'))).toBe(true);
+    expect(auth.isAuthorized(withAuth('GET', '/piwebapi', 'Bearer other'))).toBe(false);
+    expect(auth.challenge()).toBe('Bearer realm="PI Web API Simulator"');
+  });
+
+  it('issues client-credentials tokens that expire', () => {
+    let now = 0;
+    const auth = new SimulatorAuth(config('client_credentials'), () => now);
+
+    const res = requestToken(auth, 'grant_type=client_credentials', basic('bop-agent', 'sim-secret'));
+    expect(res.statusCode).toBe(200);
+    const { access_token, token_type, expires_in } = resJson(res);
+    expect(token_type).toBe('Bearer');
+    expect(expires_in).toBe(60);
+
+    expect(auth.isAuthorized(withAuth('GET', '/piwebapi', `Bearer ${access_token}`))).toBe(true);
+    now += 60_000;
+    expect(auth.isAuthorized(withAuth('GET', '/piwebapi', `Bearer ${access_token}`))).toBe(false);
+  });
+
+  it('accepts client credentials in the form body and revokes tokens', () => {
+    const auth = new SimulatorAuth(config('client_credentials'));
+    const res = requestToken(auth, 'grant_type=client_credentials&client_id=bop-agent&client_secret=sim-secret');
+    const token = resJson(res).access_token;
+
+    expect(auth.revokeTokens()).toBe(1);
+    expect(auth.isAuthorized(withAuth('GET', '/piwebapi', `Bearer ${token}`))).toBe(false);
+  });
+
+  it('rejects unknown clients and grant types', () => {
+    const auth = new SimulatorAuth(config('client_credentials'));
+
+    const badClient = requestToken(auth, 'grant_type=client_credentials', basic('bop-agent', 'nope'));
+    expect(badClient.statusCode).toBe(401);
+    expect(resJson(badClient).error).toBe('invalid_client');
+
+    const malformed = requestToken(auth, 'grant_type=client_credentials', basic('bop-agent', '%zz'));
+    expect(malformed.statusCode).toBe(401);
+    expect(resJson(malformed).error).toBe('invalid_client');
+
+    const badGrant = requestToken(auth, 'grant_type=password', basic('bop-agent', 'sim-secret'));
+    expect(badGrant.statusCode).toBe(400);
+    expect(resJson(badGrant).error).toBe('unsupported_grant_type');
+  });
+
+  it('rejects unknown modes', () => {
+    expect(() => authConfigFromEnv('kerberos')).toThrow('Unknown auth mode "kerberos"');
+  });
+});
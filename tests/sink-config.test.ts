@@ -0,0 +1,44 @@
+import { describe, it, expect, afterEach } from 'bun:test';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { createDispatcher, loadDispatcherFromFile } from '../src/notifications/sink-config';
+
+describe('sink-config', () => {
+  let dir: string | null = null;
+
+  afterEach(() => {
+    if (dir) rmSync(dir, { recursive: true, force: true });
+    dir = null;
+  });
+
+  it('builds one sink per entry', () => {
+    const dispatcher = createDispatcher({
+      sinks: [
+        { type: 'webhook', url: 'https://ops.example.com/bop', secret: 'x', route: { severities: ['CRITICAL'] } },
+        { type: 'smtp', name: 'crew-mail', host: 'mail.rig', from: 'bop@rig', to: ['driller@rig'] },
+        { type: 'syslog', host: 'siem.rig', protocol: 'tcp', deadLetterFile: '/tmp/x.jsonl' },
+      ],
+    });
+    expect(dispatcher.sinkNames).toEqual(['webhook:ops.example.com', 'crew-mail', 'syslog:siem.rig']);
+  });
+
+  it('rejects unknown sink types and bad fields', () => {
+    expect(() => createDispatcher({ sinks: [{ type: 'pager' }] })).toThrow();
+    expect(() => createDispatcher({ sinks: [{ type: 'smtp', host: 'h', from: 'a', to: [] }] })).toThrow();
+  });
+
+  it('reports the file and field path for invalid files', () => {
+    dir = mkdtempSync(path.join(tmpdir(), 'sink-config-'));
+    const file = path.join(dir, 'notify.json');
+    writeFileSync(file, JSON.stringify({ sinks: [{ type: 'webhook', url: 'not a url' }] }));
+
+    expect(() => loadDispatcherFromFile(file)).toThrow(/Invalid notification config .*\n  sinks\.0\.url:/);
+  });
+
+  it('reports unreadable files', () => {
+    expect(() => loadDispatcherFromFile('/nonexistent/notify.json')).toThrow(
+      'Cannot read notification config /nonexistent/notify.json'
+    );
+  });
+});
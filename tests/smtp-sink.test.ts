@@ -0,0 +1,143 @@
+import { describe, it, expect, afterEach } from 'bun:test';
+import net from 'net';
+import { SmtpSink } from '../src/notifications/smtp-sink';
+import type { Notification } from '../src/notifications/notification-sink';
+
+const notification: Notification = {
+  event: 'escalated',
+  alert: {
+    id: 'a1',
+    state: 'OPEN',
+    fingerprint: 'fp',
+    occurrences: 1,
+    lastSeenAt: '2025-01-01T00:00:00.000Z',
+    severity: 'CRITICAL',
+    title: 'Accumulator pressure critical',
+    description: 'System pressure 1100 PSI\n.leading dot line',
+    recommendedAction: 'Stop operations and secure the well',
+    timestamp: '2025-01-01T00:00:00.000Z',
+    escalationLevel: 1,
+  },
+};
+
+interface Session {
+  commands: string[];
+  data: string;
+}
+
+/**
+ * Local stand-in SMTP server. Accepts one message per session and records the
+ * commands and DATA payload. `reject` makes it answer RCPT with a 550.
+ */
+function startSmtpServer(options: { reject?: boolean } = {}) {
+  const sessions: Session[] = [];
+  const server = net.createServer((socket) => {
+    const session: Session = { commands: [], data: '' };
+    sessions.push(session);
+    let inData = false;
+    let buffer = '';
+    socket.write('220 standin ESMTP\r\n');
+    socket.on('data', (chunk) => {
+      buffer += chunk.toString();
+      if (inData) {
+        const end = buffer.indexOf('\r\n.\r\n');
+        if (end === -1) return;
+        session.data = buffer.slice(0, end);
+        buffer = buffer.slice(end + 5);
+        inData = false;
+        socket.write('250 queued\r\n');
+      }
+      let idx: number;
+      while (!inData && (idx = buffer.indexOf('\r\n')) !== -1) {
+        const line = buffer.slice(0, idx);
+        buffer = buffer.slice(idx + 2);
+        session.commands.push(line);
+        if (line.startsWith('EHLO')) socket.write('250-standin\r\n250 AUTH PLAIN\r\n');
+        else if (line.startsWith('AUTH')) socket.write('235 ok\r\n');
+        else if (line.startsWith('MAIL')) socket.write('250 ok\r\n');
+        else if (line.startsWith('RCPT')) socket.write(options.reject ? '550 no such user\r\n' : '250 ok\r\n');
+        else if (line === 'DATA') {
+          inData = true;
+          socket.write('354 go ahead\r\n');
+        } else if (line === 'QUIT') socket.end('221 bye\r\n');
+      }
+    });
+  });
+  return new Promise<{ port: number; sessions: Session[]; server: net.Server }>((resolve) => {
+    server.listen(0, () => resolve({ port: (server.address() as any).port, sessions, server }));
+  });
+}
+
+describe('SmtpSink', () => {
+  let server: net.Server | null = null;
+
+  afterEach(async () => {
+    await new Promise((r) => (server ? server.close(r) : r(undefined)));
+    server = null;
+  });
+
+  it('sends a complete message through the SMTP dialogue', async () => {
+    const smtp = await startSmtpServer();
+    server = smtp.server;
+    const sink = new SmtpSink({
+      host: 'localhost',
+      port: smtp.port,
+      username: 'bop',
+      password: 'pw',
+      from: 'bop-agent@rig01',
+      to: ['driller@rig01', 'ops@shore'],
+    });
+
+    await sink.deliver(notification);
+
+    const [session] = smtp.sessions;
+    expect(session.commands[0]).toMatch(/^EHLO /);
+    expect(session.commands).toContain(
+      'AUTH PLAIN ' + Buffer.from('\0bop\0pw').toString('base64')
+    );
+    expect(session.commands).toContain('MAIL FROM:<bop-agent@rig01>');
+    expect(session.commands).toContain('RCPT TO:<driller@rig01>');
+    expect(session.commands).toContain('RCPT TO:<ops@shore>');
+    expect(session.commands.at(-1)).toBe('QUIT');
+    expect(session.data).toContain('Subject: [BOP CRITICAL ESCALATED] Accumulator pressure critical');
+    expect(session.data).toContain('Escalation level: 1');
+    // Dot-stuffed body line
+    expect(session.data).toContain('\r\n..leading dot line');
+  });
+
+  it('keeps an agent-written title from adding header lines, and encodes non-ASCII subjects', async () => {
+    const smtp = await startSmtpServer();
+    server = smtp.server;
+    const sink = new SmtpSink({ host: 'localhost', port: smtp.port, from: 'a@b', to: ['c@d'] });
+
+    await sink.deliver({ ...notification, alert: { ...notification.alert, title: 'Leak\r\nBcc: attacker@x' } });
+    await sink.deliver({ ...notification, alert: { ...notification.alert, title: 'Pression accumulateur été' } });
+
+    const [injected, encoded] = smtp.sessions;
+    const headers = injected!.data.split('\r\n\r\n')[0]!.split('\r\n');
+    expect(headers).toContain('Subject: [BOP CRITICAL ESCALATED] Leak Bcc: attacker@x');
+    expect(headers.some((h) => h.startsWith('Bcc:'))).toBe(false);
+    const subject = encoded!.data.match(/^Subject: (.*(?:\r\n .*)*)$/m)![1]!;
+    const words = subject.split('\r\n ');
+    expect(words.every((w) => /^=\?UTF-8\?B\?[A-Za-z0-9+/=]+\?=$/.test(w) && w.length <= 75)).toBe(true);
+    const decoded = words.map((w) => Buffer.from(w.slice(10, -2), 'base64').toString('utf8')).join('');
+    expect(decoded).toBe('[BOP CRITICAL ESCALATED] Pression accumulateur été');
+  });
+
+  it('fails when the server rejects a recipient', async () => {
+    const smtp = await startSmtpServer({ reject: true });
+    server = smtp.server;
+    const sink = new SmtpSink({ host: 'localhost', port: smtp.port, from: 'a@b', to: ['nobody@b'] });
+
+    await expect(sink.deliver(notification)).rejects.toThrow('SMTP expected 250, got: 550');
+  });
+
+  it('fails when nothing is listening', async () => {
+    const smtp = await startSmtpServer();
+    const port = smtp.port;
+    await new Promise((r) => smtp.server.close(r));
+    const sink = new SmtpSink({ host: 'localhost', port, from: 'a@b', to: ['c@d'] });
+
+    await expect(sink.deliver(notification)).rejects.toThrow();
+  });
+});
@@ -0,0 +1,82 @@
+import { describe, it, expect, afterEach } from 'bun:test';
+import dgram from 'dgram';
+import net from 'net';
+import { SyslogSink, formatSyslogMessage } from '../src/notifications/syslog-sink';
+import type { Notification } from '../src/notifications/notification-sink';
+
+const notification: Notification = {
+  event: 'raised',
+  alert: {
+    id: 'a"1',
+    state: 'OPEN',
+    fingerprint: 'fp',
+    occurrences: 1,
+    lastSeenAt: '2025-01-01T00:00:00.000Z',
+    severity: 'CRITICAL',
+    title: 'Kick detected',
+    description: 'Flow delta +22 GPM.',
+    recommendedAction: 'Shut in the well',
+    timestamp: '2025-01-01T00:00:00.000Z',
+  },
+};
+
+describe('formatSyslogMessage', () => {
+  it('builds an RFC 5424 line with severity-based PRI and structured data', () => {
+    const msg = formatSyslogMessage(notification, 16, 'bop-agent', 'rig01');
+    // local0 (16) * 8 + crit (2) = 130
+    expect(msg).toMatch(/^<130>1 \S+ rig01 bop-agent \d+ ALERT /);
+    expect(msg).toContain('[bop@32473 alertId="a\\"1" event="raised" state="OPEN"]');
+    expect(msg).toContain('[BOP CRITICAL] Kick detected');
+  });
+
+  it('maps WARNING and INFO severities', () => {
+    const warning = { ...notification, alert: { ...notification.alert, severity: 'WARNING' } };
+    const info = { ...notification, alert: { ...notification.alert, severity: 'INFO' } };
+    expect(formatSyslogMessage(warning, 16, 'a', 'h')).toMatch(/^<132>/);
+    expect(formatSyslogMessage(info, 16, 'a', 'h')).toMatch(/^<134>/);
+  });
+});
+
+describe('SyslogSink', () => {
+  const closers: Array<() => void> = [];
+
+  afterEach(() => {
+    while (closers.length) closers.pop()!();
+  });
+
+  it('sends one UDP datagram per notification', async () => {
+    const socket = dgram.createSocket('udp4');
+    closers.push(() => socket.close());
+    const received = new Promise<string>((resolve) => socket.on('message', (m) => resolve(m.toString())));
+    await new Promise<void>((r) => socket.bind(0, '127.0.0.1', r));
+
+    const sink = new SyslogSink({ host: '127.0.0.1', port: socket.address().port });
+    await sink.deliver(notification);
+
+    expect(await received).toContain('Kick detected');
+  });
+
+  it('frames TCP messages with octet counting', async () => {
+    let data = '';
+    const done = new Promise<void>((resolve) => {
+      const server = net.createServer((conn) => {
+        conn.on('data', (c) => (data += c));
+        conn.on('end', resolve);
+      });
+      closers.push(() => server.close());
+      server.listen(0, '127.0.0.1', () => {
+        const sink = new SyslogSink({
+          host: '127.0.0.1',
+          port: (server.address() as any).port,
+          protocol: 'tcp',
+        });
+        sink.deliver(notification);
+      });
+    });
+    await done;
+
+    const [length, ...rest] = data.split(' ');
+    expect(Number(length)).toBe(Buffer.byteLength(rest.join(' ')));
+    expect(rest.join(' ')).toMatch(/^<130>1 /);
+  });
+});
@@ -0,0 +1,217 @@
+import { describe, it, expect, afterEach, beforeEach, jest, spyOn } from 'bun:test';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import {
+  ThresholdConfig,
+  ThresholdConfigWatcher,
+  ThresholdReload,
+  diffThresholdConfig,
+  loadThresholdConfig,
+  parseThresholdConfig,
+} from '../src/threshold-config';
+
+const BASE: ThresholdConfig = {
+  tags: { 'BOP.ACC.PRESS.SYS': 'PSI', 'BOP.ACC.HYD.TEMP': '°F' },
+  rules: [
+    { tag: 'BOP.ACC.PRESS.SYS', warningLow: 2200, criticalLow: 1200, deadband: 50 },
+    { tag: 'BOP.ACC.HYD.TEMP', warningHigh: 150, criticalHigh: 180 },
+  ],
+};
+
+describe('threshold-config', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(path.join(tmpdir(), 'threshold-config-'));
+    spyOn(console, 'log').mockImplementation((() => {}) as any);
+    spyOn(console, 'error').mockImplementation((() => {}) as any);
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+    jest.restoreAllMocks();
+  });
+
+  describe('parseThresholdConfig', () => {
+    it('parses JSON', () => {
+      expect(parseThresholdConfig(JSON.stringify(BASE), 'thresholds.json')).toEqual(BASE);
+    });
+
+    it('parses YAML by extension', () => {
+      const yaml = [
+        'tags:',
+        '  BOP.CTRL.POD.BLUE.STATUS: ""',
+        'rules:',
+        '  - tag: BOP.CTRL.POD.BLUE.STATUS',
+        '    states:',
+        '      - { equals: FAULT, level: CRITICAL }',
+        '    onDelaySamples: { count: 2, outOf: 3 }',
+      ].join('\n');
+      expect(parseThresholdConfig(yaml, 'thresholds.yml')).toEqual({
+        tags: { 'BOP.CTRL.POD.BLUE.STATUS': '' },
+        rules: [
+          {
+            tag: 'BOP.CTRL.POD.BLUE.STATUS',
+            states: [{ equals: 'FAULT', level: 'CRITICAL' }],
+            onDelaySamples: { count: 2, outOf: 3 },
+          },
+        ],
+      });
+    });
+
+    it('reports syntax errors with the file name', () => {
+      expect(() => parseThresholdConfig('{ not json', 'bad.json')).toThrow('Cannot parse threshold config bad.json');
+    });
+
+    it('rejects misspelled fields', () => {
+      const raw = { tags: { A: 'PSI' }, rules: [{ tag: 'A', warningLo: 10 }] };
+      expect(() => parseThresholdConfig(JSON.stringify(raw), 't.json')).toThrow(
+        /Invalid threshold config t\.json:\n  rules\.0: Unrecognized key\(s\) in object: 'warningLo'/
+      );
+    });
+
+    it('rejects rules for unlisted tags and duplicate rules', () => {
+      const raw = {
+        tags: { A: 'PSI' },
+        rules: [{ tag: 'A' }, { tag: 'A' }, { tag: 'B' }],
+      };
+      let message = '';
+      try {
+        parseThresholdConfig(JSON.stringify(raw), 't.json');
+      } catch (err: any) {
+        message = err.message;
+      }
+      expect(message).toContain('rules.1.tag: Duplicate rule for A');
+      expect(message).toContain('rules.2.tag: B is not listed under tags');
+    });
+
+    it('rejects inverted critical and warning limits', () => {
+      const raw = { tags: { A: 'PSI' }, rules: [{ tag: 'A', warningLow: 100, criticalLow: 200 }] };
+      expect(() => parseThresholdConfig(JSON.stringify(raw), 't.json')).toThrow(
+        'rules.0.criticalLow: criticalLow (200) must not be above warningLow (100)'
+      );
+    });
+
+    it('rejects a flatline window longer than the sensor history', () => {
+      const raw = { tags: { A: 'PSI' }, rules: [{ tag: 'A', flatline: { windowSec: 600, minStdDev: 1 } }] };
+      expect(() => parseThresholdConfig(JSON.stringify(raw), 't.json')).toThrow(
+        'rules.0.flatline.windowSec: windowSec must fit in the 300-sample history'
+      );
+    });
+
+    it('accepts a flatline window up to the span of the sensor history', () => {
+      const rule = (windowSec: number) =>
+        JSON.stringify({ tags: { A: 'PSI' }, rules: [{ tag: 'A', flatline: { windowSec, minStdDev: 1 } }] });
+      expect(parseThresholdConfig(rule(299), 't.json').rules[0]!.flatline!.windowSec).toBe(299);
+      expect(() => parseThresholdConfig(rule(300), 't.json')).toThrow('(at most 299s at 1 Hz)');
+    });
+  });
+
+  it('reports unreadable files', () => {
+    expect(() => loadThresholdConfig('/nonexistent/t.json')).toThrow(
+      'Cannot read threshold config /nonexistent/t.json'
+    );
+  });
+
+  describe('diffThresholdConfig', () => {
+    it('lists added, removed and changed tags and rule fields', () => {
+      const next: ThresholdConfig = {
+        tags: { 'BOP.ACC.PRESS.SYS': 'bar', 'WELL.FLOW.DELTA': 'GPM' },
+        rules: [
+          { tag: 'BOP.ACC.PRESS.SYS', warningLow: 2100, criticalLow: 1200 },
+          { tag: 'WELL.FLOW.DELTA', warningHigh: 5 },
+        ],
+      };
+      expect(diffThresholdConfig(BASE, next)).toEqual([
+        '~ tag BOP.ACC.PRESS.SYS: unit PSI → bar',
+        '+ tag WELL.FLOW.DELTA (GPM)',
+        '- tag BOP.ACC.HYD.TEMP',
+        '~ rule BOP.ACC.PRESS.SYS: warningLow 2200 → 2100',
+        '~ rule BOP.ACC.PRESS.SYS: deadband 50 → unset',
+        '+ rule WELL.FLOW.DELTA: {"warningHigh":5}',
+        '- rule BOP.ACC.HYD.TEMP',
+      ]);
+    });
+
+    it('is empty for identical configs', () => {
+      expect(diffThresholdConfig(BASE, structuredClone(BASE))).toEqual([]);
+    });
+  });
+
+  describe('ThresholdConfigWatcher', () => {
+    let watcher: ThresholdConfigWatcher;
+
+    afterEach(() => watcher?.stop());
+
+    function writeConfig(file: string, config: unknown): void {
+      writeFileSync(file, typeof config === 'string' ? config : JSON.stringify(config));
+    }
+
+    it('emits reload with the changes when the file changes', () => {
+      const file = path.join(dir, 'thresholds.json');
+      writeConfig(file, BASE);
+      watcher = new ThresholdConfigWatcher(file, loadThresholdConfig(file));
+      const reloads: ThresholdReload[] = [];
+      watcher.on('reload', (r: ThresholdReload) => reloads.push(r));
+
+      const next = structuredClone(BASE);
+      next.rules[1].warningHigh = 140;
+      writeConfig(file, next);
+
+      expect(watcher.reload()).toBe(true);
+      expect(reloads.length).toBe(1);
+      expect(reloads[0].changes).toEqual(['~ rule BOP.ACC.HYD.TEMP: warningHigh 150 → 140']);
+      expect(reloads[0].previous).toEqual(BASE);
+      expect(watcher.config).toEqual(next);
+    });
+
+    it('keeps the previous config when the new file is invalid', () => {
+      const file = path.join(dir, 'thresholds.json');
+      writeConfig(file, BASE);
+      watcher = new ThresholdConfigWatcher(file, loadThresholdConfig(file));
+      const failures: Error[] = [];
+      watcher.on('reload_failed', (err: Error) => failures.push(err));
+
+      writeConfig(file, '{ "tags": {}, "rules": [{ "tag": "X" }] }');
+      expect(watcher.reload()).toBe(false);
+      expect(failures[0].message).toContain('X is not listed under tags');
+      expect(watcher.config).toEqual(BASE);
+    });
+
+    it('does not emit reload when nothing changed', () => {
+      const file = path.join(dir, 'thresholds.json');
+      writeConfig(file, BASE);
+      watcher = new ThresholdConfigWatcher(file, loadThresholdConfig(file));
+      const handler = jest.fn();
+      watcher.on('reload', handler);
+      expect(watcher.reload()).toBe(false);
+      expect(handler).not.toHaveBeenCalled();
+    });
+
+    it('reloads on SIGHUP', () => {
+      const file = path.join(dir, 'thresholds.json');
+      writeConfig(file, BASE);
+      watcher = new ThresholdConfigWatcher(file, loadThresholdConfig(file));
+      watcher.start();
+      const handler = jest.fn();
+      watcher.on('reload', handler);
+
+      writeConfig(file, { ...BASE, rules: [] });
+      process.emit('SIGHUP', 'SIGHUP');
+      expect(handler).toHaveBeenCalledTimes(1);
+    });
+
+    it('reloads after the file is written', async () => {
+      const file = path.join(dir, 'thresholds.json');
+      writeConfig(file, BASE);
+      watcher = new ThresholdConfigWatcher(file, loadThresholdConfig(file), 20);
+      watcher.start();
+      const reloaded = new Promise<ThresholdReload>((resolve) => watcher.once('reload', resolve));
+
+      writeConfig(file, { ...BASE, rules: [] });
+      const reload = await reloaded;
+      expect(reload.changes).toEqual(['- rule BOP.ACC.PRESS.SYS', '- rule BOP.ACC.HYD.TEMP']);
+    });
+  });
+});
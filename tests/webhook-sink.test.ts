@@ -0,0 +1,83 @@
+import { describe, it, expect, beforeEach, jest, mock } from 'bun:test';
+import type { Notification } from '../src/notifications/notification-sink';
+
+const mockPost = jest.fn<(...args: any[]) => any>();
+
+mock.module('axios', () => ({
+  default: {
+    create: jest.fn(() => ({ post: mockPost })),
+  },
+}));
+
+const { WebhookSink, signWebhookPayload } = await import('../src/notifications/webhook-sink');
+
+const notification: Notification = {
+  event: 'raised',
+  alert: {
+    id: 'a1',
+    state: 'OPEN',
+    fingerprint: 'fp',
+    occurrences: 1,
+    lastSeenAt: '2025-01-01T00:00:00.000Z',
+    severity: 'WARNING',
+    title: 'Battery low',
+    description: 'Blue pod battery at 7.2 V',
+    recommendedAction: 'Schedule battery change-out',
+    timestamp: '2025-01-01T00:00:00.000Z',
+  },
+};
+
+/** The last POST as [url, body, headers] */
+function lastPost(): [string, string, Record<string, string>] {
+  const [url, body, config] = mockPost.mock.calls.at(-1)!;
+  return [url, body, config.headers];
+}
+
+describe('WebhookSink', () => {
+  beforeEach(() => {
+    mockPost.mockReset();
+    mockPost.mockResolvedValue({ status: 200, statusText: 'OK' });
+  });
+
+  it('POSTs the notification as JSON with a verifiable HMAC signature', async () => {
+    const sink = new WebhookSink({ url: 'https://ops.example.com/hook', secret: 's3cret' });
+
+    await sink.deliver(notification);
+
+    expect(mockPost).toHaveBeenCalledTimes(1);
+    const [url, body, headers] = lastPost();
+    expect(url).toBe('https://ops.example.com/hook');
+    expect(headers['Content-Type']).toBe('application/json');
+    expect(headers['X-BOP-Event']).toBe('raised');
+    const timestamp = headers['X-BOP-Timestamp'];
+    expect(headers['X-BOP-Signature']).toBe(signWebhookPayload('s3cret', timestamp, body));
+    expect(JSON.parse(body).alert.id).toBe('a1');
+  });
+
+  it('omits the signature when no secret is configured', async () => {
+    await new WebhookSink({ url: 'https://ops.example.com/hook' }).deliver(notification);
+
+    expect(lastPost()[2]['X-BOP-Signature']).toBeUndefined();
+  });
+
+  it('throws on non-2xx responses so the dispatcher retries', async () => {
+    mockPost.mockResolvedValue({ status: 503, statusText: 'Service Unavailable' });
+
+    await expect(new WebhookSink({ url: 'https://ops.example.com/hook' }).deliver(notification)).rejects.toThrow(
+      'Webhook responded 503'
+    );
+  });
+
+  it('gives axios an explicit timeout', async () => {
+    const axios = (await import('axios')).default as any;
+
+    new WebhookSink({ url: 'https://ops.example.com/hook' });
+    expect(axios.create.mock.calls.at(-1)[0].timeout).toBe(10_000);
+    new WebhookSink({ url: 'https://ops.example.com/hook', timeoutMs: 2500 });
+    expect(axios.create.mock.calls.at(-1)[0].timeout).toBe(2500);
+  });
+
+  it('names itself after the receiver host', () => {
+    expect(new WebhookSink({ url: 'https://ops.example.com/bop' }).name).toBe('webhook:ops.example.com');
+  });
+});